@@ -0,0 +1,63 @@
+/**
+ * Kelly OS — Customer Update API
+ *
+ * PATCH /api/customers/:id - Update contact details, credit handling or allocation strategy
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { CUSTOMER_ALLOCATION_STRATEGIES } from '@/lib/services/allocation-strategies';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const UpdateCustomerSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().nullable().optional(),
+  autoApplyCredit: z.boolean().optional(), // Apply credit to new invoices
+  allocationStrategy: z.enum(CUSTOMER_ALLOCATION_STRATEGIES).optional(),
+});
+
+// ============================================================================
+// PATCH /api/customers/:id
+// ============================================================================
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = UpdateCustomerSchema.parse(body);
+
+    const existing = await prisma.customer.findFirst({
+      where: {
+        OR: [{ id: params.id }, { customerId: params.id }],
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const customer = await prisma.customer.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json(customer);
+  } catch (error: any) {
+    console.error('❌ Error updating customer:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@
  * Endpoints:
  * - POST /api/customers - Create customer
  * - GET /api/customers/:id - Get customer details
+ * - PATCH /api/customers/:id - Update customer (see [id]/route.ts)
  * - GET /api/customers/:id/statement - Get customer statement
  */
 
@@ -11,6 +12,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
+import { normalizeAccountReference } from '@/lib/services/account-matcher';
+import { CUSTOMER_ALLOCATION_STRATEGIES } from '@/lib/services/allocation-strategies';
 
 // ============================================================================
 // VALIDATION SCHEMAS
@@ -38,6 +41,8 @@ const CreateCustomerSchema = z.object({
       message: 'Phone must be in format 254XXXXXXXXX',
     }),
   email: z.string().email().optional(),
+  autoApplyCredit: z.boolean().optional(), // Apply credit to new invoices (default: true)
+  allocationStrategy: z.enum(CUSTOMER_ALLOCATION_STRATEGIES).optional(), // Default: FIFO
 });
 
 // ============================================================================
@@ -124,9 +129,12 @@ export async function POST(req: NextRequest) {
     const customer = await prisma.customer.create({
       data: {
         customerId: data.customerId,
+        accountKey: normalizeAccountReference(data.customerId),
         name: data.name,
         phone: data.phone,
         email: data.email,
+        autoApplyCredit: data.autoApplyCredit,
+        allocationStrategy: data.allocationStrategy,
         balance: new Prisma.Decimal(0),
       },
     });
@@ -0,0 +1,83 @@
+/**
+ * Kelly OS — Real-Time Event Stream (Server-Sent Events)
+ *
+ * Endpoints:
+ * - GET /api/events - Every event
+ * - GET /api/events?customerId=xxx - Events for one customer (internal ID)
+ * - GET /api/events?branchId=xxx - POS events for one branch
+ *
+ * Each message is `event: <type>` with the AppEvent as JSON data.
+ * A comment heartbeat keeps proxies from closing idle connections.
+ */
+
+import { NextRequest } from 'next/server';
+import { AppEvent, subscribe } from '@/lib/event-bus';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// ============================================================================
+// GET /api/events
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const customerId = searchParams.get('customerId');
+  const branchId = searchParams.get('branchId');
+
+  const channel = customerId
+    ? `customer:${customerId}`
+    : branchId
+      ? `branch:${branchId}`
+      : 'all';
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup(); // Stream already closed
+        }
+      };
+
+      const unsubscribe = subscribe(channel, (event: AppEvent) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(`event: connected\ndata: ${JSON.stringify({ channel })}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
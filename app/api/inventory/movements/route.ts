@@ -0,0 +1,82 @@
+/**
+ * Kelly OS — Stock Movements API
+ *
+ * Endpoints:
+ * - GET /api/inventory/movements - Movement history (?productId=, ?type=, ?limit=)
+ * - POST /api/inventory/movements - Record a receipt, return, adjustment or transfer
+ *   (a receipt with a unitCost updates the product's weighted-average cost)
+ *
+ * SALE movements are only written by POS sales.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { StockMovementType } from '@prisma/client';
+import { InventoryService, MANUAL_STOCK_MOVEMENT_TYPES } from '@/lib/services/inventory-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const RecordMovementSchema = z.object({
+  productId: z.string().min(1), // Database id, PROD-XXX or SKU
+  type: z.enum(MANUAL_STOCK_MOVEMENT_TYPES),
+  quantity: z.number(), // Signed: + into stock, - out of stock
+  unitCost: z.number().nonnegative().optional(), // RECEIPT only: re-averages Product.cost
+  branchId: z.string().optional(),
+  reference: z.string().optional(), // Delivery note, count sheet, transfer note
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+});
+
+// ============================================================================
+// GET /api/inventory/movements
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const type = searchParams.get('type');
+
+    if (type && !(type in StockMovementType)) {
+      return NextResponse.json({ error: `Unknown movement type: ${type}` }, { status: 400 });
+    }
+
+    const movements = await InventoryService.getMovements({
+      productId: searchParams.get('productId') || undefined,
+      type: (type as StockMovementType) || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '100'), 500),
+    });
+
+    return NextResponse.json(movements);
+  } catch (error: any) {
+    console.error('❌ Error fetching stock movements:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/inventory/movements
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = RecordMovementSchema.parse(body);
+
+    const movement = await InventoryService.recordManualMovement(data);
+
+    return NextResponse.json(movement, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error recording stock movement:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
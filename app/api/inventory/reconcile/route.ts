@@ -0,0 +1,40 @@
+/**
+ * Kelly OS — Stock Reconciliation API
+ *
+ * GET /api/inventory/reconcile - Products whose stockQty differs from their movements
+ * POST /api/inventory/reconcile - Correct them with ADJUSTMENT movements (products with none get an opening balance)
+ */
+
+import { NextResponse } from 'next/server';
+import { InventoryService } from '@/lib/services/inventory-service';
+
+// Always read live stock, never a build-time snapshot
+export const dynamic = 'force-dynamic';
+
+// ============================================================================
+// GET /api/inventory/reconcile
+// ============================================================================
+
+export async function GET() {
+  try {
+    const discrepancies = await InventoryService.reconcile();
+    return NextResponse.json({ discrepancies });
+  } catch (error: any) {
+    console.error('❌ Error checking stock:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/inventory/reconcile
+// ============================================================================
+
+export async function POST() {
+  try {
+    const corrected = await InventoryService.reconcile(true);
+    return NextResponse.json({ corrected });
+  } catch (error: any) {
+    console.error('❌ Error reconciling stock:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Kelly OS — Payout Reconciliation API
+ *
+ * POST /api/mpesa-requests/reconcile - Send status queries for payouts and reversals still PENDING
+ *
+ * Run on a schedule (e.g. every few minutes) to settle supplier payments,
+ * refunds and reversals whose result never arrived. The delay before a payout is queried
+ * comes from PAYOUT_STATUS_DELAY_SECONDS or ?delaySeconds=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PayoutStatusService } from '@/lib/services/payout-status-service';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const delaySeconds = searchParams.get('delaySeconds');
+
+    const result = await PayoutStatusService.queryPending({
+      delaySeconds: delaySeconds ? parseInt(delaySeconds) : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('❌ Error reconciling payouts:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
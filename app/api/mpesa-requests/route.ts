@@ -0,0 +1,89 @@
+/**
+ * Kelly OS — M-Pesa Requests API
+ *
+ * Endpoints:
+ * - GET /api/mpesa-requests - List initiator requests and their results
+ * - GET /api/mpesa-requests?kind=B2C&status=PENDING - Filter requests
+ * - POST /api/mpesa-requests - Send a transaction status or account balance query
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MpesaRequestKind, MpesaRequestStatus } from '@prisma/client';
+import { MpesaRequestService } from '@/lib/services/mpesa-request-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// B2C and reversal requests are sent through /api/refunds and /api/reversals
+const SendQuerySchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal(MpesaRequestKind.TRANSACTION_STATUS),
+    transactionId: z.string().min(1), // M-Pesa receipt number
+    shortCode: z.string().optional(), // Defaults to the default shortcode
+  }),
+  z.object({
+    kind: z.literal(MpesaRequestKind.ACCOUNT_BALANCE),
+    shortCode: z.string().optional(),
+  }),
+]);
+
+// ============================================================================
+// GET /api/mpesa-requests
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const kind = searchParams.get('kind');
+    const status = searchParams.get('status');
+
+    const requests = await MpesaRequestService.getRequests({
+      kind: kind ? z.nativeEnum(MpesaRequestKind).parse(kind) : undefined,
+      status: status ? z.nativeEnum(MpesaRequestStatus).parse(status) : undefined,
+    });
+
+    return NextResponse.json(requests);
+  } catch (error: any) {
+    console.error('❌ Error fetching M-Pesa requests:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/mpesa-requests
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = SendQuerySchema.parse(body);
+
+    const request =
+      data.kind === MpesaRequestKind.TRANSACTION_STATUS
+        ? await MpesaRequestService.queryTransactionStatus(data.transactionId, data.shortCode)
+        : await MpesaRequestService.checkAccountBalance(data.shortCode);
+
+    return NextResponse.json(request, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error sending M-Pesa query:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Kelly OS — Payment Allocations API
+ *
+ * Endpoints:
+ * - GET /api/payments/:id/allocations - Current allocations, open invoices and change history
+ * - PUT /api/payments/:id/allocations - Replace the allocation (omitted invoices are unapplied)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ReallocationService } from '@/lib/services/reallocation-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const ReallocateSchema = z.object({
+  allocations: z.array(
+    z.object({
+      invoiceId: z.string(),
+      amount: z.number().nonnegative(),
+    })
+  ),
+  reason: z.string().min(1),
+  changedBy: z.string().optional(),
+});
+
+// ============================================================================
+// GET /api/payments/:id/allocations
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const allocations = await ReallocationService.getAllocations(params.id);
+    return NextResponse.json(allocations);
+  } catch (error: any) {
+    console.error('❌ Error fetching payment allocations:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PUT /api/payments/:id/allocations
+// ============================================================================
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = ReallocateSchema.parse(body);
+
+    const result = await ReallocationService.reallocate({ paymentId: params.id, ...data });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('❌ Error reallocating payment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Kelly OS — Payment Receipt API
+ *
+ * GET /api/payments/:id/receipt?format=pdf|escpos-58|escpos-80
+ *
+ * - pdf (default) - A4 PDF, opened inline for the browser to print
+ * - escpos-58 / escpos-80 - Raw ESC/POS bytes for 58mm / 80mm thermal printers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RECEIPT_FORMATS, ReceiptService } from '@/lib/services/receipt-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const ReceiptQuerySchema = z.object({
+  format: z.enum(RECEIPT_FORMATS).default('pdf'),
+});
+
+// ============================================================================
+// GET /api/payments/:id/receipt
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { format } = ReceiptQuerySchema.parse({
+      format: req.nextUrl.searchParams.get('format') || undefined,
+    });
+
+    const receipt = await ReceiptService.render(params.id, format);
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    const disposition = format === 'pdf' ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(receipt.body), {
+      headers: {
+        'Content-Type': receipt.contentType,
+        'Content-Disposition': `${disposition}; filename="${receipt.filename}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('❌ Error generating receipt:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
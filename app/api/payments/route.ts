@@ -0,0 +1,57 @@
+/**
+ * Kelly OS — Manual Payments API
+ *
+ * Cash, bank transfer, cheque and card payments recorded by staff.
+ * M-Pesa payments arrive through the webhooks instead.
+ *
+ * Endpoints:
+ * - POST /api/payments - Record a payment against a customer or invoice
+ *
+ * Idempotent: posting the same method + referenceNumber again returns the
+ * original payment.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MANUAL_PAYMENT_METHODS, recordManualPayment } from '@/lib/services/payment-processor';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const RecordPaymentSchema = z.object({
+  method: z.enum(MANUAL_PAYMENT_METHODS),
+  referenceNumber: z.string().trim().min(1), // Slip / bank / cheque / card reference
+  accountReference: z.string().min(1), // Customer ID or Invoice ID
+  amount: z.number().positive(),
+  transactionDate: z.coerce.date().optional(),
+  phone: z.string().optional(),
+  receivedBy: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// ============================================================================
+// POST /api/payments
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = RecordPaymentSchema.parse(body);
+
+    const result = await recordManualPayment(data);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error recording payment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Kelly OS — Unmatched Payments API
+ *
+ * Payments whose account reference matched no customer or invoice are
+ * held in the suspense account until staff assign them.
+ *
+ * Endpoints:
+ * - GET /api/payments/unmatched - List payments held in suspense
+ * - POST /api/payments/unmatched - Assign a payment to a customer or invoice
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { PaymentStatus } from '@prisma/client';
+import { assignUnmatchedPayment } from '@/lib/services/payment-processor';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const AssignPaymentSchema = z
+  .object({
+    paymentId: z.string(),
+    customerId: z.string().optional(),
+    invoiceId: z.string().optional(),
+  })
+  .refine((data) => data.customerId || data.invoiceId, {
+    message: 'Either customerId or invoiceId is required',
+  });
+
+// ============================================================================
+// GET /api/payments/unmatched
+// ============================================================================
+
+export async function GET() {
+  try {
+    const payments = await prisma.payment.findMany({
+      where: { status: PaymentStatus.UNMATCHED },
+      orderBy: { transactionDate: 'desc' },
+      take: 100,
+    });
+
+    return NextResponse.json(payments);
+  } catch (error: any) {
+    console.error('❌ Error fetching unmatched payments:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/payments/unmatched
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = AssignPaymentSchema.parse(body);
+
+    const result = await assignUnmatchedPayment(data);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('❌ Error assigning unmatched payment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -10,23 +10,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { POSService } from '@/lib/services/pos-service';
+import { publishEvent } from '@/lib/event-bus';
 
 // ============================================================================
 // VALIDATION SCHEMAS
 // ============================================================================
 
+// Name and price are taken from the product catalog
 const POSItemSchema = z.object({
   productId: z.string(),
-  productName: z.string(),
   quantity: z.number().positive(),
-  unitPrice: z.number().positive(),
 });
 
 const CreatePOSSaleSchema = z.object({
   customerId: z.string(),
   amount: z.number().positive().optional(),
   description: z.string().optional(),
-  items: z.array(POSItemSchema).optional(),
+  items: z.array(POSItemSchema).min(1).optional(),
   cashierId: z.string().optional(),
   branchId: z.string().optional(),
 });
@@ -65,19 +65,21 @@ export async function GET(req: NextRequest) {
     const prisma = (await import('@/lib/prisma')).default;
     const sales = await prisma.pOSSale.findMany({
       orderBy: { createdAt: 'desc' },
-      take: 100
+      take: 100,
+      include: {
+        customer: { select: { name: true, customerId: true } },
+        // The payment to print a receipt for
+        invoice: {
+          select: {
+            payments: { orderBy: { createdAt: 'desc' }, take: 1, select: { paymentId: true } },
+          },
+        },
+      },
     });
-    
-    // Enrich with customer data
-    const enrichedSales = await Promise.all(sales.map(async (sale) => {
-      if (sale.customerId) {
-        const customer = await prisma.customer.findUnique({
-          where: { id: sale.customerId },
-          select: { name: true, customerId: true }
-        });
-        return { ...sale, customer };
-      }
-      return { ...sale, customer: null };
+
+    const enrichedSales = sales.map(({ invoice, ...sale }) => ({
+      ...sale,
+      paymentId: invoice?.payments[0]?.paymentId ?? null,
     }));
     
     return NextResponse.json(enrichedSales);
@@ -108,24 +110,24 @@ export async function POST(req: NextRequest) {
           cashierId: data.cashierId,
           branchId: data.branchId,
         },
+        include: { customer: { select: { name: true, customerId: true } } },
       });
       
-      // Enrich with customer data
-      let customer = null;
-      if (sale.customerId) {
-        customer = await prisma.customer.findUnique({
-          where: { id: sale.customerId },
-          select: { name: true, customerId: true }
-        });
-      }
-      
-      return NextResponse.json({ ...sale, customer }, { status: 201 });
+      publishEvent({
+        type: 'pos.created',
+        customerId: sale.customerId,
+        branchId: sale.branchId,
+        data: { id: sale.id, posId: sale.posId, amount: data.amount, status: sale.status },
+      });
+
+      return NextResponse.json(sale, { status: 201 });
     }
 
     // Original item-based sale
     const sale = await POSService.createSale({
       customerId: data.customerId,
       items: data.items || [],
+      description: data.description,
       cashierId: data.cashierId,
       branchId: data.branchId,
     });
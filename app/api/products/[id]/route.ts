@@ -0,0 +1,104 @@
+/**
+ * Kelly OS — Product Update API
+ *
+ * GET /api/products/:id - Get product (database id, PROD-XXX or SKU)
+ * PATCH /api/products/:id - Update details, price or stock
+ * DELETE /api/products/:id - Deactivate product (past sales keep it)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ProductCategory } from '@prisma/client';
+import { ProductService } from '@/lib/services/product-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const UpdateProductSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  price: z.number().positive().optional(),
+  cost: z.number().nonnegative().nullable().optional(),
+  sku: z.string().nullable().optional(), // Null or blank clears it
+  category: z.nativeEnum(ProductCategory).optional(),
+  stockQty: z.number().nonnegative().optional(), // Stock count; the difference is recorded as an ADJUSTMENT
+  reorderLevel: z.number().nonnegative().nullable().optional(),
+});
+
+// ============================================================================
+// GET /api/products/:id
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await ProductService.getProduct(params.id);
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(product);
+  } catch (error: any) {
+    console.error('❌ Error fetching product:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PATCH /api/products/:id
+// ============================================================================
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = UpdateProductSchema.parse(body);
+
+    const product = await ProductService.updateProduct(params.id, data);
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(product);
+  } catch (error: any) {
+    console.error('❌ Error updating product:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE /api/products/:id
+// ============================================================================
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await ProductService.deactivateProduct(params.id);
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(product);
+  } catch (error: any) {
+    console.error('❌ Error deactivating product:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Kelly OS — Product Catalog API
+ *
+ * Endpoints:
+ * - GET /api/products - Search products (?search=name|SKU, ?category=, ?includeInactive=true)
+ * - POST /api/products - Create product
+ * - GET/PATCH/DELETE /api/products/:id - Get, update, deactivate (see [id]/route.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ProductCategory } from '@prisma/client';
+import { ProductService } from '@/lib/services/product-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const CreateProductSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  price: z.number().positive(),
+  cost: z.number().nonnegative().optional(), // Purchase cost (for profit tracking)
+  sku: z.string().min(1).optional(),
+  category: z.nativeEnum(ProductCategory).optional(), // Default: GENERAL
+  stockQty: z.number().nonnegative().optional(), // Opening stock
+  reorderLevel: z.number().nonnegative().optional(), // Low-stock alert threshold
+});
+
+// ============================================================================
+// GET /api/products
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const category = searchParams.get('category');
+
+    if (category && !(category in ProductCategory)) {
+      return NextResponse.json({ error: `Unknown category: ${category}` }, { status: 400 });
+    }
+
+    const products = await ProductService.listProducts({
+      search: searchParams.get('search') || undefined,
+      category: (category as ProductCategory) || undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true',
+    });
+
+    return NextResponse.json(products);
+  } catch (error: any) {
+    console.error('❌ Error fetching products:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/products
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = CreateProductSchema.parse(body);
+
+    const product = await ProductService.createProduct(data);
+
+    return NextResponse.json(product, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error creating product:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
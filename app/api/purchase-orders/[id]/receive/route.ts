@@ -0,0 +1,65 @@
+/**
+ * Kelly OS — Goods Received API
+ *
+ * POST /api/purchase-orders/:id/receive - Record a delivery against an order
+ *
+ * Creates a goods received note: stock in (RECEIPT movements at the received
+ * unit cost) and DR Inventory / CR Accounts Payable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PurchaseOrderService } from '@/lib/services/purchase-order-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const ReceiveItemSchema = z.object({
+  purchaseOrderItemId: z.string().min(1),
+  quantity: z.number().positive(),
+  unitCost: z.number().nonnegative().optional(), // Invoiced price; defaults to the ordered price
+});
+
+const ReceiveGoodsSchema = z.object({
+  items: z.array(ReceiveItemSchema).min(1),
+  deliveryNote: z.string().optional(), // Supplier's delivery note number
+  notes: z.string().optional(),
+  receivedBy: z.string().optional(),
+});
+
+// ============================================================================
+// POST /api/purchase-orders/:id/receive
+// ============================================================================
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = ReceiveGoodsSchema.parse(body);
+
+    const receipt = await PurchaseOrderService.receiveGoods({
+      purchaseOrderId: params.id,
+      ...data,
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(receipt, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error receiving goods:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
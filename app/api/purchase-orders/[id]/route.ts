@@ -0,0 +1,58 @@
+/**
+ * Kelly OS — Purchase Order API
+ *
+ * GET /api/purchase-orders/:id - Get order (database id or PO number) with its goods received notes
+ * DELETE /api/purchase-orders/:id?reason= - Cancel what is still outstanding
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PurchaseOrderService } from '@/lib/services/purchase-order-service';
+
+// ============================================================================
+// GET /api/purchase-orders/:id
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const order = await PurchaseOrderService.getPurchaseOrder(params.id);
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(order);
+  } catch (error: any) {
+    console.error('❌ Error fetching purchase order:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE /api/purchase-orders/:id
+// ============================================================================
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const order = await PurchaseOrderService.cancelPurchaseOrder(
+      params.id,
+      searchParams.get('reason') || undefined
+    );
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(order);
+  } catch (error: any) {
+    console.error('❌ Error cancelling purchase order:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
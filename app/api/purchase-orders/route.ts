@@ -0,0 +1,84 @@
+/**
+ * Kelly OS — Purchase Orders API
+ *
+ * Endpoints:
+ * - GET /api/purchase-orders - List orders (?status=ORDERED, ?supplierId=)
+ * - POST /api/purchase-orders - Raise an order with a supplier
+ * - GET/DELETE /api/purchase-orders/:id - Get, cancel (see [id]/route.ts)
+ * - POST /api/purchase-orders/:id/receive - Record a delivery (see [id]/receive/route.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PurchaseOrderStatus } from '@prisma/client';
+import { PurchaseOrderService } from '@/lib/services/purchase-order-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const PurchaseOrderItemSchema = z.object({
+  productId: z.string().min(1), // Database id, PROD-XXX or SKU
+  quantity: z.number().positive(),
+  unitCost: z.number().nonnegative(), // Agreed price per unit
+});
+
+const CreatePurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1), // Database id or SUP-XXX
+  items: z.array(PurchaseOrderItemSchema).min(1),
+  expectedDate: z.string().optional().transform((val: any) => (val ? new Date(val) : undefined)),
+  branchId: z.string().optional(),
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+});
+
+// ============================================================================
+// GET /api/purchase-orders
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+
+    if (status && !(status in PurchaseOrderStatus)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const orders = await PurchaseOrderService.listPurchaseOrders({
+      status: (status as PurchaseOrderStatus) || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+    });
+
+    return NextResponse.json(orders);
+  } catch (error: any) {
+    console.error('❌ Error fetching purchase orders:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/purchase-orders
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = CreatePurchaseOrderSchema.parse(body);
+
+    const order = await PurchaseOrderService.createPurchaseOrder(data);
+
+    return NextResponse.json(order, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error creating purchase order:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
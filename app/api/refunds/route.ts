@@ -0,0 +1,79 @@
+/**
+ * Kelly OS — Refunds API
+ *
+ * Endpoints:
+ * - POST /api/refunds - Refund (part of) a payment to the payer's phone via B2C
+ * - GET /api/refunds - List refunds
+ * - GET /api/refunds?paymentId=xxx / ?customerId=xxx - Filter refunds
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RefundType } from '@prisma/client';
+import { RefundService } from '@/lib/services/refund-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const RequestRefundSchema = z
+  .object({
+    paymentId: z.string(),
+    amount: z.number().int().positive(),
+    type: z.nativeEnum(RefundType),
+    invoiceId: z.string().optional(),
+    items: z
+      .array(z.object({ lineItemId: z.string(), quantity: z.number().positive() }))
+      .optional(),
+    reason: z.string().min(1),
+    requestedBy: z.string().optional(),
+  })
+  .refine((data) => data.type === RefundType.CREDIT_BALANCE || data.invoiceId, {
+    message: 'invoiceId is required for invoice refunds',
+  });
+
+// ============================================================================
+// GET /api/refunds
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const refunds = await RefundService.getRefunds({
+      paymentId: searchParams.get('paymentId') || undefined,
+      customerId: searchParams.get('customerId') || undefined,
+    });
+
+    return NextResponse.json(refunds);
+  } catch (error: any) {
+    console.error('❌ Error fetching refunds:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/refunds
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = RequestRefundSchema.parse(body);
+
+    const refund = await RefundService.requestRefund(data);
+
+    return NextResponse.json(refund, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error requesting refund:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
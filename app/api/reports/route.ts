@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { AccountingEngine, ACCOUNTS } from '@/lib/services/accounting-engine';
+import { InventoryService } from '@/lib/services/inventory-service';
 
 // ============================================================================
 // GET /api/reports/ledger
@@ -74,6 +75,7 @@ export async function GET(req: NextRequest) {
         totalInvoices,
         unpaidInvoices,
         todayPayments,
+        lowStockProducts,
       ] = await Promise.all([
         prisma.customer.count(),
         prisma.invoice.count(),
@@ -88,7 +90,8 @@ export async function GET(req: NextRequest) {
               gte: new Date(new Date().setHours(0, 0, 0, 0))
             }
           }
-        })
+        }),
+        InventoryService.getLowStockProducts()
       ]);
 
       const totalRevenue = await AccountingEngine.getAccountBalance({
@@ -110,6 +113,13 @@ export async function GET(req: NextRequest) {
         pendingPayments,
         todayPayments: todayPayments.length,
         todayRevenue,
+        lowStock: lowStockProducts.map((product) => ({
+          id: product.id,
+          productId: product.productId,
+          name: product.name,
+          stockQty: Number(product.stockQty ?? 0),
+          reorderLevel: Number(product.reorderLevel),
+        })),
       });
     }
 
@@ -0,0 +1,78 @@
+/**
+ * Kelly OS — Payment Reversals API
+ *
+ * Endpoints:
+ * - POST /api/reversals - Reverse a payment through Daraja
+ * - GET /api/reversals - List reversals
+ * - GET /api/reversals?paymentId=xxx / ?status=PENDING - Filter reversals
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ReversalStatus } from '@prisma/client';
+import { ReversalService } from '@/lib/services/reversal-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const RequestReversalSchema = z.object({
+  paymentId: z.string(),
+  reason: z.string().min(1),
+  requestedBy: z.string().optional(),
+});
+
+// ============================================================================
+// GET /api/reversals
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+
+    const reversals = await ReversalService.getReversals({
+      paymentId: searchParams.get('paymentId') || undefined,
+      status: status ? z.nativeEnum(ReversalStatus).parse(status) : undefined,
+    });
+
+    return NextResponse.json(reversals);
+  } catch (error: any) {
+    console.error('❌ Error fetching reversals:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/reversals
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = RequestReversalSchema.parse(body);
+
+    const reversal = await ReversalService.requestReversal(data);
+
+    return NextResponse.json(reversal, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error requesting reversal:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Kelly OS — M-Pesa Shortcode Settings API
+ *
+ * PATCH /api/settings/mpesa/:id - Update a shortcode (blank secrets are kept)
+ * DELETE /api/settings/mpesa/:id - Deactivate a shortcode
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ShortCodeType } from '@prisma/client';
+import { MpesaConfigService } from '@/lib/services/mpesa-config-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// Every field optional; secrets left out are kept
+const MpesaConfigUpdateSchema = z
+  .object({
+    name: z.string().min(1),
+    shortCode: z.string().regex(/^\d{5,7}$/, { message: 'Shortcode must be 5-7 digits' }),
+    shortCodeType: z.nativeEnum(ShortCodeType).optional(),
+    storeNumber: z.string().regex(/^\d{5,7}$/).nullable().optional(),
+    consumerKey: z.string().min(1),
+    consumerSecret: z.string().min(1),
+    passkey: z.string().min(1).nullable().optional(),
+    initiatorName: z.string().min(1).nullable().optional(),
+    initiatorPassword: z.string().min(1).optional(), // Encrypted into the SecurityCredential
+    environment: z.enum(['sandbox', 'production']),
+    callbackUrl: z.string().url().nullable().optional(),
+    maxTransactionAmount: z.number().positive().optional(),
+    dailyCustomerLimit: z.number().positive().optional(),
+    isDefault: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .partial();
+
+// ============================================================================
+// PATCH /api/settings/mpesa/:id
+// ============================================================================
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = MpesaConfigUpdateSchema.parse(body);
+
+    const config = await MpesaConfigService.updateConfig(params.id, data);
+
+    return NextResponse.json(config);
+  } catch (error: any) {
+    console.error('❌ Error updating M-Pesa shortcode:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE /api/settings/mpesa/:id
+// ============================================================================
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = await MpesaConfigService.deactivateConfig(params.id);
+    return NextResponse.json(config);
+  } catch (error: any) {
+    console.error('❌ Error deactivating M-Pesa shortcode:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
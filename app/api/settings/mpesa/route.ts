@@ -0,0 +1,76 @@
+/**
+ * Kelly OS — M-Pesa Settings API
+ *
+ * Endpoints:
+ * - GET /api/settings/mpesa - List configured shortcodes (secrets masked)
+ * - POST /api/settings/mpesa - Add a PayBill or Till shortcode
+ * - PATCH /api/settings/mpesa/:id - Update a shortcode
+ * - DELETE /api/settings/mpesa/:id - Deactivate a shortcode
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ShortCodeType } from '@prisma/client';
+import { MpesaConfigService } from '@/lib/services/mpesa-config-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const MpesaConfigSchema = z.object({
+  name: z.string().min(1),
+  shortCode: z.string().regex(/^\d{5,7}$/, { message: 'Shortcode must be 5-7 digits' }),
+  shortCodeType: z.nativeEnum(ShortCodeType).optional(),
+  storeNumber: z.string().regex(/^\d{5,7}$/).nullable().optional(),
+  consumerKey: z.string().min(1),
+  consumerSecret: z.string().min(1),
+  passkey: z.string().min(1).nullable().optional(),
+  initiatorName: z.string().min(1).nullable().optional(),
+  initiatorPassword: z.string().min(1).optional(), // Encrypted into the SecurityCredential
+  environment: z.enum(['sandbox', 'production']),
+  callbackUrl: z.string().url().nullable().optional(),
+  maxTransactionAmount: z.number().positive().optional(),
+  dailyCustomerLimit: z.number().positive().optional(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// ============================================================================
+// GET /api/settings/mpesa
+// ============================================================================
+
+export async function GET() {
+  try {
+    const configs = await MpesaConfigService.listConfigs();
+    return NextResponse.json(configs);
+  } catch (error: any) {
+    console.error('❌ Error fetching M-Pesa settings:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/settings/mpesa
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = MpesaConfigSchema.parse(body);
+
+    const config = await MpesaConfigService.createConfig(data);
+
+    return NextResponse.json(config, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error adding M-Pesa shortcode:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
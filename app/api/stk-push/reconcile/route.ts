@@ -0,0 +1,30 @@
+/**
+ * Kelly OS — STK Push Reconciliation API
+ *
+ * POST /api/stk-push/reconcile - Query Daraja for prompts still PENDING
+ *
+ * Run on a schedule (e.g. every few minutes). The delay before a request
+ * is queried comes from STK_RECONCILE_DELAY_SECONDS or ?delaySeconds=
+ *
+ * The response lists every prompt a query reported paid whose payment has
+ * not been posted (followUps), for staff to chase
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { StkService } from '@/lib/services/stk-service';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const delaySeconds = searchParams.get('delaySeconds');
+
+    const result = await StkService.reconcilePending({
+      delaySeconds: delaySeconds ? parseInt(delaySeconds) : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('❌ Error reconciling STK requests:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Kelly OS — STK Push API
+ *
+ * Endpoints:
+ * - POST /api/stk-push - Prompt a customer's phone to pay an invoice or POS sale
+ * - GET /api/stk-push?checkoutRequestId=xxx - Get STK request status
+ * - POST /api/stk-push/reconcile - Resolve prompts that never called back
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { StkService } from '@/lib/services/stk-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const StkPushSchema = z
+  .object({
+    invoiceId: z.string().optional(),
+    posId: z.string().optional(),
+    phone: z
+      .string()
+      .regex(/^254\d{9}$/, { message: 'Phone must be in format 254XXXXXXXXX' })
+      .optional(),
+    shortCode: z.string().optional(), // Defaults to the default shortcode
+  })
+  .refine((data) => data.invoiceId || data.posId, {
+    message: 'Either invoiceId or posId is required',
+  });
+
+// ============================================================================
+// GET /api/stk-push
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const checkoutRequestId = searchParams.get('checkoutRequestId');
+
+    if (checkoutRequestId) {
+      const stkRequest = await prisma.stkRequest.findUnique({
+        where: { checkoutRequestId },
+      });
+
+      if (!stkRequest) {
+        return NextResponse.json({ error: 'STK request not found' }, { status: 404 });
+      }
+
+      return NextResponse.json(stkRequest);
+    }
+
+    // List recent STK requests (default)
+    const stkRequests = await prisma.stkRequest.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return NextResponse.json(stkRequests);
+  } catch (error: any) {
+    console.error('❌ Error fetching STK requests:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/stk-push
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = StkPushSchema.parse(body);
+
+    const result = await StkService.initiate(data);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error sending STK Push:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
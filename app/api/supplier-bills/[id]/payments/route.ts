@@ -0,0 +1,82 @@
+/**
+ * Kelly OS — Supplier Bill Payments API
+ *
+ * GET /api/supplier-bills/:id/payments - Payments made against a bill
+ * POST /api/supplier-bills/:id/payments - Pay (part of) a bill by M-Pesa
+ *
+ * B2B_PAYBILL / B2B_TILL / B2C go to the details stored on the supplier.
+ * The payment stays PENDING until the result callback; only then are the
+ * bill and ledger (DR A/P / CR M-Pesa Cash) updated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SupplierPaymentChannel } from '@prisma/client';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+import { SupplierPaymentService } from '@/lib/services/supplier-payment-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const PayBillSchema = z.object({
+  amount: z.number().positive(), // Whole shillings; only a bill's final payment may have cents
+  channel: z.nativeEnum(SupplierPaymentChannel),
+  requestedBy: z.string().optional(),
+});
+
+// ============================================================================
+// GET /api/supplier-bills/:id/payments
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const bill = await SupplierBillService.getBill(params.id);
+
+    if (!bill) {
+      return NextResponse.json({ error: 'Bill not found' }, { status: 404 });
+    }
+
+    const payments = await SupplierPaymentService.getPayments({ billId: bill.id });
+
+    return NextResponse.json(payments);
+  } catch (error: any) {
+    console.error('❌ Error fetching supplier payments:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/supplier-bills/:id/payments
+// ============================================================================
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = PayBillSchema.parse(body);
+
+    const payment = await SupplierPaymentService.payBill({
+      billId: params.id,
+      ...data,
+    });
+
+    return NextResponse.json(payment, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error paying supplier bill:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Kelly OS — Supplier Bill API
+ *
+ * GET /api/supplier-bills/:id - Get bill (database id or BILL number) with its payments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+
+// ============================================================================
+// GET /api/supplier-bills/:id
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const bill = await SupplierBillService.getBill(params.id);
+
+    if (!bill) {
+      return NextResponse.json({ error: 'Bill not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(bill);
+  } catch (error: any) {
+    console.error('❌ Error fetching supplier bill:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Kelly OS — Accounts Payable Aging API
+ *
+ * GET /api/supplier-bills/aging - Outstanding balances per supplier by days past due
+ *                                 (?asOf=YYYY-MM-DD, defaults to now)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+
+// ============================================================================
+// GET /api/supplier-bills/aging
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const asOfParam = searchParams.get('asOf');
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({ error: `Invalid asOf date: ${asOfParam}` }, { status: 400 });
+    }
+
+    const report = await SupplierBillService.getAging(asOf);
+
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error('❌ Error building A/P aging:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
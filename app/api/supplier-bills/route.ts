@@ -0,0 +1,87 @@
+/**
+ * Kelly OS — Supplier Bills API
+ *
+ * Endpoints:
+ * - GET /api/supplier-bills - List bills (?status=UNPAID, ?supplierId=, ?outstanding=true)
+ * - POST /api/supplier-bills - Record a bill (for a goods received note, or an expense)
+ * - GET /api/supplier-bills/:id - Get bill with its payments (see [id]/route.ts)
+ * - GET/POST /api/supplier-bills/:id/payments - List, pay by M-Pesa (see [id]/payments/route.ts)
+ * - GET /api/supplier-bills/aging - A/P aging (see aging/route.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SupplierBillStatus } from '@prisma/client';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const CreateBillSchema = z
+  .object({
+    supplierId: z.string().min(1), // Database id or SUP-XXX
+    goodsReceiptId: z.string().min(1).optional(), // GRN id or number; amount defaults to its total
+    amount: z.number().positive().optional(), // Required without a goods received note
+    stockReceived: z.boolean().optional(), // Stock received by hand: clears Goods Received Not Invoiced
+    supplierInvoiceNumber: z.string().optional(),
+    description: z.string().optional(),
+    billDate: z.string().optional().transform((val: any) => (val ? new Date(val) : undefined)),
+    dueDate: z.string().min(1).transform((val: any) => new Date(val)),
+  })
+  .refine((data) => data.goodsReceiptId || data.amount, {
+    message: 'amount is required for bills without a goods received note',
+    path: ['amount'],
+  });
+
+// ============================================================================
+// GET /api/supplier-bills
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+
+    if (status && !(status in SupplierBillStatus)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const bills = await SupplierBillService.listBills({
+      status: (status as SupplierBillStatus) || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+      outstanding: searchParams.get('outstanding') === 'true',
+    });
+
+    return NextResponse.json(bills);
+  } catch (error: any) {
+    console.error('❌ Error fetching supplier bills:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/supplier-bills
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = CreateBillSchema.parse(body);
+
+    const bill = await SupplierBillService.createBill(data);
+
+    return NextResponse.json(bill, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error recording supplier bill:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
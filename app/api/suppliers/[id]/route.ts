@@ -0,0 +1,103 @@
+/**
+ * Kelly OS — Supplier Update API
+ *
+ * GET /api/suppliers/:id - Get supplier (database id or SUP-XXX)
+ * PATCH /api/suppliers/:id - Update details
+ * DELETE /api/suppliers/:id - Deactivate supplier (past orders keep it)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SupplierService } from '@/lib/services/supplier-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const UpdateSupplierSchema = z.object({
+  name: z.string().min(1).optional(),
+  contactName: z.string().nullable().optional(),
+  phone: z.string().regex(/^254\d{9}$/, 'Phone must be in format 254XXXXXXXXX').nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  kraPin: z.string().nullable().optional(),
+  paybillNumber: z.string().regex(/^\d{5,7}$/, 'PayBill number must be 5-7 digits').nullable().optional(),
+  paybillAccount: z.string().max(13).nullable().optional(),
+  tillNumber: z.string().regex(/^\d{5,7}$/, 'Till number must be 5-7 digits').nullable().optional(),
+});
+
+// ============================================================================
+// GET /api/suppliers/:id
+// ============================================================================
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supplier = await SupplierService.getSupplier(params.id);
+
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(supplier);
+  } catch (error: any) {
+    console.error('❌ Error fetching supplier:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PATCH /api/suppliers/:id
+// ============================================================================
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const data = UpdateSupplierSchema.parse(body);
+
+    const supplier = await SupplierService.updateSupplier(params.id, data);
+
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(supplier);
+  } catch (error: any) {
+    console.error('❌ Error updating supplier:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE /api/suppliers/:id
+// ============================================================================
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supplier = await SupplierService.deactivateSupplier(params.id);
+
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(supplier);
+  } catch (error: any) {
+    console.error('❌ Error deactivating supplier:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
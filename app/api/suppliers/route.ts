@@ -0,0 +1,73 @@
+/**
+ * Kelly OS — Suppliers API
+ *
+ * Endpoints:
+ * - GET /api/suppliers - Search suppliers (?search=name|SUP-XXX, ?includeInactive=true)
+ * - POST /api/suppliers - Create supplier
+ * - GET/PATCH/DELETE /api/suppliers/:id - Get, update, deactivate (see [id]/route.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SupplierService } from '@/lib/services/supplier-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const CreateSupplierSchema = z.object({
+  name: z.string().min(1),
+  contactName: z.string().optional(),
+  phone: z.string().regex(/^254\d{9}$/, 'Phone must be in format 254XXXXXXXXX').optional(),
+  email: z.string().email().optional(),
+  kraPin: z.string().optional(),
+  paybillNumber: z.string().regex(/^\d{5,7}$/, 'PayBill number must be 5-7 digits').optional(),
+  paybillAccount: z.string().max(13).optional(), // Daraja AccountReference limit
+  tillNumber: z.string().regex(/^\d{5,7}$/, 'Till number must be 5-7 digits').optional(),
+});
+
+// ============================================================================
+// GET /api/suppliers
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const suppliers = await SupplierService.listSuppliers({
+      search: searchParams.get('search') || undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true',
+    });
+
+    return NextResponse.json(suppliers);
+  } catch (error: any) {
+    console.error('❌ Error fetching suppliers:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/suppliers
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = CreateSupplierSchema.parse(body);
+
+    const supplier = await SupplierService.createSupplier(data);
+
+    return NextResponse.json(supplier, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error creating supplier:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Kelly OS — Webhook Replay API
+ *
+ * POST /api/webhook-logs/replay - Replay a failed webhook through processPayment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WebhookReplayService } from '@/lib/services/webhook-replay-service';
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const ReplayWebhookSchema = z.object({
+  webhookLogId: z.string(),
+  billRefNumber: z.string().min(1).optional(),
+  replayedBy: z.string().optional(),
+});
+
+// ============================================================================
+// POST /api/webhook-logs/replay
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = ReplayWebhookSchema.parse(body);
+
+    const result = await WebhookReplayService.replay(data);
+
+    return NextResponse.json(result, { status: result.succeeded ? 200 : 422 });
+  } catch (error: any) {
+    console.error('❌ Error replaying webhook:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Kelly OS — Webhook Log Admin API
+ *
+ * Endpoints:
+ * - GET /api/webhook-logs - List failed webhook logs with replay history
+ * - GET /api/webhook-logs?id=xxx - Get a webhook log with replay history
+ * - POST /api/webhook-logs/replay - Replay a failed webhook
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { WebhookReplayService } from '@/lib/services/webhook-replay-service';
+
+// ============================================================================
+// GET /api/webhook-logs
+// ============================================================================
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const webhookLog = await prisma.webhookLog.findUnique({
+        where: { id },
+        include: {
+          replays: {
+            orderBy: { createdAt: 'desc' },
+          },
+        },
+      });
+
+      if (!webhookLog) {
+        return NextResponse.json({ error: 'Webhook log not found' }, { status: 404 });
+      }
+
+      return NextResponse.json(webhookLog);
+    }
+
+    const webhookLogs = await WebhookReplayService.getFailedWebhooks();
+    return NextResponse.json(webhookLogs);
+  } catch (error: any) {
+    console.error('❌ Error fetching webhook logs:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
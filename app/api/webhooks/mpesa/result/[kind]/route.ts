@@ -0,0 +1,99 @@
+/**
+ * Kelly OS — M-Pesa Async Result Handler
+ *
+ * POST /api/webhooks/mpesa/result/:kind
+ * kind: b2c | b2b | reversal | status | balance
+ *
+ * Receives the asynchronous Result of a Daraja initiator request
+ *
+ * Flow:
+ * 1. Receive POST from Safaricom
+ * 2. Validate the Result structure
+ * 3. Log the callback to webhook_logs
+ * 4. Store the Result on its MpesaRequest (by ConversationID)
+ * 5. Dispatch to the handler for the kind (refund, reversal, ...)
+ * 6. Return 200 OK to Safaricom (ALWAYS, even on internal errors)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { MpesaResultSchema } from '@/lib/mpesa-callbacks';
+import { MpesaRequestService, resultKindFromSlug } from '@/lib/services/mpesa-request-service';
+import { routeMpesaResult } from '@/lib/services/mpesa-result-router';
+
+// ============================================================================
+// WEBHOOK ENDPOINT
+// ============================================================================
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { kind: string } }
+) {
+  const kind = resultKindFromSlug(params.kind);
+
+  if (!kind) {
+    return NextResponse.json({ error: `Unknown result kind: ${params.kind}` }, { status: 404 });
+  }
+
+  let rawPayload: string = '';
+
+  try {
+    rawPayload = await req.text();
+    const payload = JSON.parse(rawPayload);
+
+    console.log(`📥 ${kind} result received:`, {
+      timestamp: new Date().toISOString(),
+      payload,
+    });
+
+    const result = MpesaResultSchema.parse(payload).Result;
+
+    // Idempotency: settled requests are not processed again
+    const request = await MpesaRequestService.findByConversation(result);
+    const isDuplicate = !!request && !MpesaRequestService.awaitingResult(request);
+
+    const webhookLog = await prisma.webhookLog.create({
+      data: {
+        mpesaReceiptNumber: result.TransactionID || result.ConversationID,
+        transactionId: result.ConversationID,
+        rawPayload,
+        headers: JSON.stringify(Object.fromEntries(req.headers)),
+        processed: false,
+        isDuplicate,
+        ...(isDuplicate && { processingError: 'Duplicate callback - already processed' }),
+      },
+    });
+
+    if (isDuplicate) {
+      console.warn(`⚠️ Duplicate ${kind} result detected:`, result.ConversationID);
+      return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted (duplicate)' }, { status: 200 });
+    }
+
+    try {
+      await routeMpesaResult(result, rawPayload, kind);
+
+      await prisma.webhookLog.update({
+        where: { id: webhookLog.id },
+        data: { processed: true },
+      });
+    } catch (processingError: any) {
+      console.error(`❌ ${kind} result processing failed:`, processingError);
+
+      await prisma.webhookLog.update({
+        where: { id: webhookLog.id },
+        data: {
+          processed: false,
+          processingError: processingError.message || 'Unknown error',
+        },
+      });
+    }
+
+    return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+  } catch (error: any) {
+    // Validation or parsing error
+    console.error(`❌ ${kind} result validation error:`, error);
+
+    // CRITICAL: Still return 200 OK to prevent retries of malformed data
+    return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+  }
+}
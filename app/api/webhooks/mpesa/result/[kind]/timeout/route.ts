@@ -0,0 +1,48 @@
+/**
+ * Kelly OS — M-Pesa Queue Timeout Handler
+ *
+ * POST /api/webhooks/mpesa/result/:kind/timeout
+ *
+ * Safaricom calls this when an initiator request expired in its queue
+ * before a result was sent. The MpesaRequest is marked TIMEOUT. Refunds,
+ * reversals and supplier payments may still have gone through, so they
+ * stay PENDING until a late result or a transaction status query settles them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MpesaResultSchema } from '@/lib/mpesa-callbacks';
+import { resultKindFromSlug } from '@/lib/services/mpesa-request-service';
+import { routeMpesaTimeout } from '@/lib/services/mpesa-result-router';
+
+// ============================================================================
+// WEBHOOK ENDPOINT
+// ============================================================================
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { kind: string } }
+) {
+  const kind = resultKindFromSlug(params.kind);
+
+  if (!kind) {
+    return NextResponse.json({ error: `Unknown result kind: ${params.kind}` }, { status: 404 });
+  }
+
+  try {
+    const rawPayload = await req.text();
+    const payload = JSON.parse(rawPayload);
+
+    console.log(`⏱️ ${kind} queue timeout received:`, {
+      timestamp: new Date().toISOString(),
+      payload,
+    });
+
+    const result = MpesaResultSchema.parse(payload).Result;
+    await routeMpesaTimeout(result, rawPayload, kind);
+  } catch (error: any) {
+    console.error(`❌ ${kind} timeout processing error:`, error);
+  }
+
+  // Always acknowledge so Safaricom does not retry
+  return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+}
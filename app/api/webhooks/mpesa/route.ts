@@ -19,36 +19,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import prisma from '@/lib/prisma';
 import { processPayment } from '@/lib/services/payment-processor';
-
-// ============================================================================
-// M-PESA C2B CALLBACK SCHEMA
-// ============================================================================
-
-const MpesaCallbackSchema = z.object({
-  TransactionType: z.string(),
-  TransID: z.string(), // Unique transaction ID from Safaricom
-  TransTime: z.string(), // Format: YYYYMMDDHHmmss
-  TransAmount: z.string(), // Amount as string, e.g., "1000.00"
-  BusinessShortCode: z.string(), // Your PayBill number
-  BillRefNumber: z.string(), // Account Number (customerId or invoiceId)
-  InvoiceNumber: z.string().optional(),
-  OrgAccountBalance: z.string().optional(),
-  ThirdPartyTransID: z.string().optional(),
-  MSISDN: z.string(), // Customer phone: 254712345678
-  FirstName: z.string(),
-  MiddleName: z.string().optional(),
-  LastName: z.string().optional(),
-});
-
-type MpesaCallback = z.infer<typeof MpesaCallbackSchema>;
-
-// Some M-Pesa callbacks wrap data in a Result object
-const MpesaWrapperSchema = z.object({
-  Result: MpesaCallbackSchema,
-});
+import { MpesaCallback, parseC2BCallback, toPaymentParams } from '@/lib/mpesa-callbacks';
 
 // ============================================================================
 // WEBHOOK ENDPOINT
@@ -71,25 +44,13 @@ export async function POST(req: NextRequest) {
 
     // Step 3: Parse and validate callback structure
     // M-Pesa sometimes sends data directly or wrapped in "Result"
-    let validatedData: MpesaCallback;
-    
-    try {
-      validatedData = MpesaCallbackSchema.parse(payload);
-    } catch {
-      // Try wrapped format
-      const wrapped = MpesaWrapperSchema.parse(payload);
-      validatedData = wrapped.Result;
-    }
+    const validatedData = parseC2BCallback(payload);
 
     parsedData = validatedData;
 
     // Step 4: Extract critical identifiers
-    const mpesaReceiptNumber = validatedData.TransID;
-    const transactionId = validatedData.ThirdPartyTransID || validatedData.TransID;
-    const accountReference = validatedData.BillRefNumber;
-    const amount = parseFloat(validatedData.TransAmount);
-    const phone = validatedData.MSISDN;
-    const transactionTime = parseTransactionTime(validatedData.TransTime);
+    const paymentParams = toPaymentParams(validatedData);
+    const { mpesaReceiptNumber, transactionId, amount } = paymentParams;
 
     // Step 5: Create webhook log (idempotency check happens here)
     const existingLog = await prisma.webhookLog.findFirst({
@@ -135,14 +96,8 @@ export async function POST(req: NextRequest) {
 
     // Step 7: Process payment (this is where the magic happens)
     try {
-      const payment = await processPayment({
-        mpesaReceiptNumber,
-        transactionId,
-        accountReference,
-        amount,
-        phone,
-        transactionDate: transactionTime,
-      });
+      // Routed to the shortcode's MpesaConfig by BusinessShortCode
+      const payment = await processPayment(paymentParams);
 
       // Step 8: Update webhook log with success
       await prisma.webhookLog.update({
@@ -227,21 +182,6 @@ export async function POST(req: NextRequest) {
 // HELPER FUNCTIONS
 // ============================================================================
 
-/**
- * Parse M-Pesa transaction time from format: YYYYMMDDHHmmss
- * Example: "20260203143022" → 2026-02-03 14:30:22
- */
-function parseTransactionTime(timeString: string): Date {
-  const year = parseInt(timeString.substring(0, 4));
-  const month = parseInt(timeString.substring(4, 6)) - 1; // JS months are 0-indexed
-  const day = parseInt(timeString.substring(6, 8));
-  const hour = parseInt(timeString.substring(8, 10));
-  const minute = parseInt(timeString.substring(10, 12));
-  const second = parseInt(timeString.substring(12, 14));
-
-  return new Date(year, month, day, hour, minute, second);
-}
-
 /**
  * Optional: Verify webhook authenticity using Safaricom's signature
  * (Implementation depends on how Safaricom signs C2B callbacks)
@@ -0,0 +1,95 @@
+/**
+ * Kelly OS — M-Pesa STK Push Callback Handler
+ *
+ * Receives the asynchronous result of an STK Push (Lipa na M-Pesa Online)
+ *
+ * Flow:
+ * 1. Receive POST from Safaricom
+ * 2. Validate the stkCallback structure
+ * 3. Match the CheckoutRequestID to a pending StkRequest
+ * 4. Log the callback to webhook_logs
+ * 5. Post successful results through processPayment
+ * 6. Return 200 OK to Safaricom (ALWAYS, even on internal errors)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { StkService } from '@/lib/services/stk-service';
+import { StkCallbackSchema } from '@/lib/mpesa-callbacks';
+
+// ============================================================================
+// WEBHOOK ENDPOINT
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  let rawPayload: string = '';
+
+  try {
+    rawPayload = await req.text();
+    const payload = JSON.parse(rawPayload);
+
+    console.log('📥 STK callback received:', {
+      timestamp: new Date().toISOString(),
+      payload,
+    });
+
+    const callback = StkCallbackSchema.parse(payload).Body.stkCallback;
+    const receipt = callback.CallbackMetadata?.Item.find(
+      (item) => item.Name === 'MpesaReceiptNumber'
+    )?.Value;
+
+    // Idempotency: settled requests are not processed again (a success is
+    // posted unless its payment already was)
+    const stkRequest = await prisma.stkRequest.findUnique({
+      where: { checkoutRequestId: callback.CheckoutRequestID },
+    });
+    const isDuplicate = !!stkRequest && !StkService.awaitingCallback(stkRequest, callback.ResultCode);
+
+    const webhookLog = await prisma.webhookLog.create({
+      data: {
+        mpesaReceiptNumber: receipt ? String(receipt) : callback.CheckoutRequestID,
+        transactionId: callback.CheckoutRequestID,
+        rawPayload,
+        headers: JSON.stringify(Object.fromEntries(req.headers)),
+        processed: false,
+        isDuplicate,
+        ...(isDuplicate && { processingError: 'Duplicate callback - already processed' }),
+      },
+    });
+
+    if (isDuplicate) {
+      console.warn('⚠️ Duplicate STK callback detected:', callback.CheckoutRequestID);
+      return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted (duplicate)' }, { status: 200 });
+    }
+
+    try {
+      const payment = await StkService.handleCallback(callback);
+
+      await prisma.webhookLog.update({
+        where: { id: webhookLog.id },
+        data: {
+          processed: true,
+          paymentId: payment?.id,
+        },
+      });
+    } catch (processingError: any) {
+      console.error('❌ STK callback processing failed:', processingError);
+
+      await prisma.webhookLog.update({
+        where: { id: webhookLog.id },
+        data: {
+          processed: false,
+          processingError: processingError.message || 'Unknown error',
+        },
+      });
+    }
+
+    return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+  } catch (error: any) {
+    // Validation or parsing error
+    console.error('❌ STK callback validation error:', error);
+
+    // CRITICAL: Still return 200 OK to prevent retries of malformed data
+    return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Kelly OS — M-Pesa C2B Validation Handler
+ *
+ * Safaricom calls this endpoint BEFORE money moves (external validation
+ * must be enabled on the shortcode). Rejecting here refuses the payment
+ * at the till instead of landing it in the failed-webhook pile.
+ *
+ * Responses:
+ * - ResultCode 0         → accept
+ * - ResultCode C2B00012  → invalid account number
+ * - ResultCode C2B00013  → invalid amount
+ * - ResultCode C2B00015  → unknown or inactive shortcode
+ *
+ * Only a definite answer (shortcode or account not found, amount out of
+ * range) rejects. On any other error we ACCEPT: the confirmation webhook
+ * still logs the payment, so no money is lost if our database is briefly
+ * unavailable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ShortCodeType } from '@prisma/client';
+import { matchAccountReference } from '@/lib/services/account-matcher';
+import { MpesaConfigService } from '@/lib/services/mpesa-config-service';
+
+// ============================================================================
+// M-PESA C2B VALIDATION SCHEMA
+// ============================================================================
+
+const MpesaValidationSchema = z.object({
+  TransID: z.string(),
+  TransAmount: z.string(), // Amount as string, e.g., "1000.00"
+  BusinessShortCode: z.string(),
+  BillRefNumber: z.string().default(''), // Account Number (empty for Till payments)
+  MSISDN: z.string(),
+});
+
+const RESULT_INVALID_ACCOUNT = 'C2B00012';
+const RESULT_INVALID_AMOUNT = 'C2B00013';
+const RESULT_INVALID_SHORTCODE = 'C2B00015';
+
+// ============================================================================
+// VALIDATION ENDPOINT
+// ============================================================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const payload = await req.json();
+    const data = MpesaValidationSchema.parse(payload);
+
+    console.log('🔍 M-Pesa validation request:', {
+      transId: data.TransID,
+      billRefNumber: data.BillRefNumber,
+      amount: data.TransAmount,
+    });
+
+    // Rule 1: Shortcode must be configured and active
+    // (lookup errors fall through to the catch below and accept)
+    const config = await MpesaConfigService.find(data.BusinessShortCode);
+
+    if (!config) {
+      return reject(RESULT_INVALID_SHORTCODE, data.TransID, `Unknown shortcode: ${data.BusinessShortCode}`);
+    }
+
+    if (!config.isActive) {
+      return reject(RESULT_INVALID_SHORTCODE, data.TransID, `Inactive shortcode: ${data.BusinessShortCode}`);
+    }
+
+    // Rule 2: Account number must match an invoice or customer
+    // (low-confidence matches are accepted; the payment is held for review)
+    // Till payments carry no account number and are matched by phone later
+    if (config.shortCodeType === ShortCodeType.PAYBILL) {
+      const target = await matchAccountReference(data.BillRefNumber, data.MSISDN);
+
+      if (!target) {
+        return reject(RESULT_INVALID_ACCOUNT, data.TransID, `Unknown account: ${data.BillRefNumber}`);
+      }
+    }
+
+    // Rule 3: Amount must be positive and within the shortcode limit
+    const amount = parseFloat(data.TransAmount);
+
+    if (!(amount > 0) || amount > config.limits.maxTransactionAmount) {
+      return reject(RESULT_INVALID_AMOUNT, data.TransID, `Invalid amount: ${data.TransAmount}`);
+    }
+
+    return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ M-Pesa validation error:', error);
+
+    return NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' }, { status: 200 });
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function reject(resultCode: string, transId: string, reason: string) {
+  console.warn('🚫 M-Pesa payment rejected:', { transId, resultCode, reason });
+
+  return NextResponse.json({ ResultCode: resultCode, ResultDesc: 'Rejected' }, { status: 200 });
+}
@@ -9,9 +9,20 @@ interface Customer {
   phone: string;
   email?: string;
   balance: number;
+  autoApplyCredit: boolean;
+  allocationStrategy: string;
   createdAt: string;
 }
 
+// How payments to the customer account are spread over open invoices
+const ALLOCATION_STRATEGY_LABELS: Record<string, string> = {
+  FIFO: 'Oldest invoice first',
+  OLDEST_DUE_DATE: 'Earliest due date first',
+  SMALLEST_BALANCE: 'Smallest balance first',
+  PROPORTIONAL: 'Proportional',
+  EMBEDDED_INVOICE: 'Invoice in reference (CUST#INV)',
+};
+
 export default function CustomerManager() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
@@ -24,6 +35,7 @@ export default function CustomerManager() {
     name: '',
     phone: '',
     email: '',
+    autoApplyCredit: true,
   });
 
   useEffect(() => {
@@ -89,7 +101,7 @@ export default function CustomerManager() {
 
       if (response.ok) {
         setShowForm(false);
-        setFormData({ customerId: '', name: '', phone: '', email: '' });
+        setFormData({ customerId: '', name: '', phone: '', email: '', autoApplyCredit: true });
         fetchCustomers();
       } else {
         const data = await response.json();
@@ -101,6 +113,27 @@ export default function CustomerManager() {
     }
   };
 
+  const updateCustomer = async (customer: Customer, changes: Partial<Customer>) => {
+    setErrorMessage(null);
+    try {
+      const response = await fetch(`/api/customers/${customer.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (response.ok) {
+        fetchCustomers();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to update customer');
+      }
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      setErrorMessage('Failed to update customer');
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
@@ -194,6 +227,15 @@ export default function CustomerManager() {
                 />
               </div>
             </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={formData.autoApplyCredit}
+                onChange={(e) => setFormData({ ...formData, autoApplyCredit: e.target.checked })}
+                className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              Apply credit balance to new invoices automatically
+            </label>
             <button
               type="submit"
               className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
@@ -241,6 +283,12 @@ export default function CustomerManager() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Balance
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Auto-apply Credit
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Allocation
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Status
                     </th>
@@ -270,6 +318,31 @@ export default function CustomerManager() {
                           {formatCurrency(customer.balance)}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={customer.autoApplyCredit}
+                          onChange={() => updateCustomer(customer, { autoApplyCredit: !customer.autoApplyCredit })}
+                          onClick={(e) => e.stopPropagation()}
+                          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                          aria-label={`Auto-apply credit for ${customer.customerId}`}
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          value={customer.allocationStrategy}
+                          onChange={(e) => updateCustomer(customer, { allocationStrategy: e.target.value })}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                          aria-label={`Allocation strategy for ${customer.customerId}`}
+                        >
+                          {Object.entries(ALLOCATION_STRATEGY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
                           Active
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { useEventStream } from '../hooks/useEventStream';
 
 interface DashboardStats {
   totalCustomers: number;
@@ -9,6 +10,7 @@ interface DashboardStats {
   pendingPayments: number;
   todayPayments: number;
   todayRevenue: number;
+  lowStock: Array<{ id: string; productId: string; name: string; stockQty: number; reorderLevel: number }>;
 }
 
 export default function Dashboard() {
@@ -19,16 +21,31 @@ export default function Dashboard() {
     pendingPayments: 0,
     todayPayments: 0,
     todayRevenue: 0,
+    lowStock: [],
   });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchDashboardStats();
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(fetchDashboardStats, 30000);
-    return () => clearInterval(interval);
   }, []);
 
+  // Refresh whenever money or stock moves, or new sales / invoices are raised
+  useEventStream(
+    [
+      'payment.received',
+      'payment.unmatched',
+      'payment.reversed',
+      'refund.completed',
+      'invoice.created',
+      'pos.created',
+      'pos.paid',
+      'pos.cancelled',
+      'pos.reopened',
+      'stock.moved',
+    ],
+    () => fetchDashboardStats()
+  );
+
   const fetchDashboardStats = async () => {
     try {
       const response = await fetch('/api/reports?type=dashboard');
@@ -63,9 +80,25 @@ export default function Dashboard() {
       <div>
         <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Dashboard Overview</h2>
         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-          Real-time business metrics - Auto-refreshes every 30 seconds
+          Real-time business metrics - Updates live
         </p>
       </div>
+
+      {stats.lowStock.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-700 rounded-xl p-4">
+          <p className="text-sm font-semibold text-red-800 dark:text-red-200">
+            Low stock: {stats.lowStock.length} product{stats.lowStock.length === 1 ? '' : 's'} at or below reorder level
+          </p>
+          <ul className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-1">
+            {stats.lowStock.map((product) => (
+              <li key={product.id} className="text-sm text-red-700 dark:text-red-300">
+                {product.name} <span className="font-mono text-xs">({product.productId})</span>: {product.stockQty} left
+                (reorder at {product.reorderLevel})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl shadow-lg p-6 text-white">
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertIcon } from './Icons';
+
+interface WebhookReplay {
+  id: string;
+  originalBillRefNumber?: string;
+  billRefNumber?: string;
+  succeeded: boolean;
+  error?: string;
+  paymentId?: string;
+  replayedBy?: string;
+  createdAt: string;
+}
+
+interface FailedWebhook {
+  id: string;
+  mpesaReceiptNumber: string;
+  rawPayload: string;
+  processingError: string;
+  createdAt: string;
+  replays: WebhookReplay[];
+}
+
+interface FailedWebhooksProps {
+  onCountChange?: (count: number) => void;
+}
+
+export default function FailedWebhooks({ onCountChange }: FailedWebhooksProps) {
+  const [webhooks, setWebhooks] = useState<FailedWebhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<FailedWebhook | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [formData, setFormData] = useState({
+    billRefNumber: '',
+    replayedBy: '',
+  });
+
+  useEffect(() => {
+    fetchFailedWebhooks();
+  }, []);
+
+  const fetchFailedWebhooks = async () => {
+    try {
+      const response = await fetch('/api/webhook-logs');
+      if (response.ok) {
+        const data = await response.json();
+        setWebhooks(data);
+        onCountChange?.(data.length);
+      }
+    } catch (error) {
+      console.error('Error fetching failed webhooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const parsePayload = (rawPayload: string) => {
+    try {
+      return JSON.parse(rawPayload);
+    } catch {
+      return null;
+    }
+  };
+
+  const getBillRefNumber = (webhook: FailedWebhook) => {
+    const payload = parsePayload(webhook.rawPayload);
+    return payload?.BillRefNumber ?? payload?.Result?.BillRefNumber ?? '';
+  };
+
+  const openReplay = (webhook: FailedWebhook) => {
+    setSelected(webhook);
+    setMessage(null);
+    setFormData({ ...formData, billRefNumber: getBillRefNumber(webhook) });
+  };
+
+  const closeReplay = () => {
+    setSelected(null);
+  };
+
+  const handleReplay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    const originalBillRefNumber = getBillRefNumber(selected);
+
+    setSubmitting(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/webhook-logs/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          webhookLogId: selected.id,
+          billRefNumber:
+            formData.billRefNumber && formData.billRefNumber !== originalBillRefNumber
+              ? formData.billRefNumber
+              : undefined,
+          replayedBy: formData.replayedBy || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.succeeded) {
+        setMessage({ type: 'success', text: 'Payment recovered successfully' });
+        setSelected(null);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Replay failed' });
+      }
+      fetchFailedWebhooks();
+    } catch (error) {
+      console.error('Error replaying webhook:', error);
+      setMessage({ type: 'error', text: 'Replay failed' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const selectedHistory = webhooks.find((webhook) => webhook.id === selected?.id)?.replays ?? [];
+
+  return (
+    <div className="space-y-4">
+      {message && !selected && (
+        <div
+          className={`rounded-lg p-3 text-sm ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-800 dark:bg-green-900 dark:text-green-200'
+              : 'bg-red-50 text-red-800 dark:bg-red-900 dark:text-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+          </div>
+        ) : webhooks.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">No failed webhooks. All callbacks processed.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    M-Pesa Receipt
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Account
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Error
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Attempts
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {webhooks.map((webhook) => (
+                  <tr key={webhook.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {new Date(webhook.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="font-mono text-sm font-medium text-gray-900 dark:text-white">
+                        {webhook.mpesaReceiptNumber}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-gray-600 dark:text-gray-400">
+                      {getBillRefNumber(webhook) || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-red-600 dark:text-red-400">
+                      {webhook.processingError}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {webhook.replays.length}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => openReplay(webhook)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 text-sm font-medium"
+                      >
+                        Review
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Replay Webhook</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {selected.mpesaReceiptNumber} • {new Date(selected.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={closeReplay}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                Close
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {message && (
+                <div className="bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-700 rounded-lg p-3 flex gap-2 text-sm text-red-800 dark:text-red-200">
+                  <AlertIcon />
+                  <span>{message.text}</span>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Payload</h4>
+                <pre className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 text-xs font-mono text-gray-800 dark:text-gray-200 overflow-x-auto">
+                  {JSON.stringify(parsePayload(selected.rawPayload) ?? selected.rawPayload, null, 2)}
+                </pre>
+              </div>
+
+              <form onSubmit={handleReplay} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      BillRefNumber (Account)
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.billRefNumber}
+                      onChange={(e) => setFormData({ ...formData, billRefNumber: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 dark:bg-gray-700 dark:text-white font-mono"
+                      placeholder="CUST-001 or INV-..."
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Your Name
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      value={formData.replayedBy}
+                      onChange={(e) => setFormData({ ...formData, replayedBy: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="Recorded in the audit trail"
+                    />
+                  </div>
+                </div>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {submitting ? 'Replaying...' : 'Replay Payment'}
+                </button>
+              </form>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Replay History</h4>
+                {selectedHistory.length ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-700">
+                        <tr>
+                          <th className="px-4 py-2 text-left">Date</th>
+                          <th className="px-4 py-2 text-left">By</th>
+                          <th className="px-4 py-2 text-left">Account</th>
+                          <th className="px-4 py-2 text-left">Result</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {selectedHistory.map((replay) => (
+                          <tr key={replay.id}>
+                            <td className="px-4 py-2">{new Date(replay.createdAt).toLocaleString()}</td>
+                            <td className="px-4 py-2">{replay.replayedBy || '-'}</td>
+                            <td className="px-4 py-2 font-mono">
+                              {replay.billRefNumber
+                                ? `${replay.originalBillRefNumber} → ${replay.billRefNumber}`
+                                : replay.originalBillRefNumber || '-'}
+                            </td>
+                            <td className={`px-4 py-2 ${replay.succeeded ? 'text-green-600' : 'text-red-600'}`}>
+                              {replay.succeeded ? 'Recovered' : replay.error}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No replay attempts yet.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -30,16 +30,29 @@ interface InvoiceLineItem {
 interface InvoicePaymentLink {
   id: string;
   amountApplied: number;
+  appliedFromCredit: boolean;
   payment: {
     id: string;
-    mpesaReceiptNumber: string;
+    method: string;
+    mpesaReceiptNumber: string | null;
+    referenceNumber: string | null;
     amount: number;
     phone: string;
     status: string;
+    allocationStrategy: string | null;
     createdAt: string;
   };
 }
 
+const ALLOCATION_STRATEGY_LABELS: Record<string, string> = {
+  TARGET_INVOICE: 'Paid to this invoice',
+  FIFO: 'Oldest invoice first',
+  OLDEST_DUE_DATE: 'Earliest due date first',
+  SMALLEST_BALANCE: 'Smallest balance first',
+  PROPORTIONAL: 'Proportional',
+  EMBEDDED_INVOICE: 'Invoice in reference',
+};
+
 interface InvoiceDetails extends Invoice {
   lineItems: InvoiceLineItem[];
   payments: InvoicePaymentLink[];
@@ -437,6 +450,7 @@ export default function InvoiceManager() {
                               <th className="px-4 py-2 text-left">Receipt</th>
                               <th className="px-4 py-2 text-left">Phone</th>
                               <th className="px-4 py-2 text-right">Applied</th>
+                              <th className="px-4 py-2 text-left">Allocation</th>
                               <th className="px-4 py-2 text-left">Status</th>
                               <th className="px-4 py-2 text-left">Date</th>
                             </tr>
@@ -444,9 +458,21 @@ export default function InvoiceManager() {
                           <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
                             {invoiceDetails.payments.map((p) => (
                               <tr key={p.id}>
-                                <td className="px-4 py-2 font-mono">{p.payment.mpesaReceiptNumber}</td>
+                                <td className="px-4 py-2">
+                                  <div className="font-mono">
+                                    {p.payment.mpesaReceiptNumber || p.payment.referenceNumber}
+                                  </div>
+                                  {p.payment.method !== 'MPESA' && (
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">{p.payment.method}</div>
+                                  )}
+                                </td>
                                 <td className="px-4 py-2">{p.payment.phone}</td>
                                 <td className="px-4 py-2 text-right">{formatCurrency(Number(p.amountApplied))}</td>
+                                <td className="px-4 py-2">
+                                  {p.appliedFromCredit
+                                    ? 'Applied from credit'
+                                    : ALLOCATION_STRATEGY_LABELS[p.payment.allocationStrategy || ''] || '-'}
+                                </td>
                                 <td className="px-4 py-2">{p.payment.status}</td>
                                 <td className="px-4 py-2">{new Date(p.payment.createdAt).toLocaleString()}</td>
                               </tr>
@@ -0,0 +1,494 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface MpesaShortCode {
+  id: string;
+  name: string;
+  shortCode: string;
+  shortCodeType: 'PAYBILL' | 'TILL';
+  storeNumber: string | null;
+  consumerKey: string;
+  initiatorName: string | null;
+  environment: 'sandbox' | 'production';
+  callbackUrl: string | null;
+  maxTransactionAmount: number;
+  dailyCustomerLimit: number;
+  isDefault: boolean;
+  isActive: boolean;
+  hasConsumerSecret: boolean;
+  hasPasskey: boolean;
+  hasSecurityCredential: boolean;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  shortCode: '',
+  shortCodeType: 'PAYBILL' as 'PAYBILL' | 'TILL',
+  storeNumber: '',
+  consumerKey: '',
+  consumerSecret: '',
+  passkey: '',
+  initiatorName: '',
+  initiatorPassword: '',
+  environment: 'sandbox' as 'sandbox' | 'production',
+  callbackUrl: '',
+  maxTransactionAmount: '250000',
+  dailyCustomerLimit: '500000',
+  isDefault: false,
+};
+
+export default function MpesaSettings() {
+  const [configs, setConfigs] = useState<MpesaShortCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchConfigs();
+  }, []);
+
+  const fetchConfigs = async () => {
+    try {
+      const response = await fetch('/api/settings/mpesa');
+      if (response.ok) {
+        setConfigs(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching M-Pesa settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (config?: MpesaShortCode) => {
+    setErrorMessage(null);
+    setEditingId(config?.id || null);
+    setFormData(
+      config
+        ? {
+            ...EMPTY_FORM,
+            name: config.name,
+            shortCode: config.shortCode,
+            shortCodeType: config.shortCodeType,
+            storeNumber: config.storeNumber || '',
+            consumerKey: config.consumerKey,
+            initiatorName: config.initiatorName || '',
+            environment: config.environment,
+            callbackUrl: config.callbackUrl || '',
+            maxTransactionAmount: String(config.maxTransactionAmount),
+            dailyCustomerLimit: String(config.dailyCustomerLimit),
+            isDefault: config.isDefault,
+          }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage(null);
+
+    // Blank secrets are left out so an edit keeps the stored ones
+    const body = {
+      name: formData.name,
+      shortCode: formData.shortCode,
+      shortCodeType: formData.shortCodeType,
+      storeNumber: formData.storeNumber || null,
+      consumerKey: formData.consumerKey,
+      ...(formData.consumerSecret && { consumerSecret: formData.consumerSecret }),
+      ...(formData.passkey && { passkey: formData.passkey }),
+      initiatorName: formData.initiatorName || null,
+      ...(formData.initiatorPassword && { initiatorPassword: formData.initiatorPassword }),
+      environment: formData.environment,
+      callbackUrl: formData.callbackUrl || null,
+      maxTransactionAmount: parseFloat(formData.maxTransactionAmount),
+      dailyCustomerLimit: parseFloat(formData.dailyCustomerLimit),
+      isDefault: formData.isDefault,
+    };
+
+    try {
+      const response = await fetch(editingId ? `/api/settings/mpesa/${editingId}` : '/api/settings/mpesa', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        closeForm();
+        fetchConfigs();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to save shortcode');
+      }
+    } catch (error) {
+      console.error('Error saving shortcode:', error);
+      setErrorMessage('Failed to save shortcode');
+    }
+  };
+
+  const updateConfig = async (id: string, body: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/settings/mpesa/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        fetchConfigs();
+      }
+    } catch (error) {
+      console.error('Error updating shortcode:', error);
+    }
+  };
+
+  const deactivateConfig = async (config: MpesaShortCode) => {
+    if (!confirm(`Stop accepting payments on ${config.shortCode}?`)) return;
+
+    try {
+      const response = await fetch(`/api/settings/mpesa/${config.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        fetchConfigs();
+      }
+    } catch (error) {
+      console.error('Error deactivating shortcode:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+    }).format(amount);
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">M-Pesa Settings</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            PayBill and Till numbers, Daraja credentials and payment limits
+          </p>
+        </div>
+        <button
+          onClick={() => (showForm ? closeForm() : openForm())}
+          className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+        >
+          {showForm ? 'Cancel' : '+ Add Shortcode'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+            {editingId ? `Edit ${formData.shortCode}` : 'New Shortcode'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {errorMessage && (
+              <div className="rounded-lg border border-red-200 bg-red-50 text-red-700 px-4 py-3 text-sm">
+                {errorMessage}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="Main PayBill"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Type</label>
+                <select
+                  value={formData.shortCodeType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, shortCodeType: e.target.value as 'PAYBILL' | 'TILL' })
+                  }
+                  className={inputClass}
+                >
+                  <option value="PAYBILL">PayBill</option>
+                  <option value="TILL">Till (Buy Goods)</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>
+                  {formData.shortCodeType === 'TILL' ? 'Till Number' : 'PayBill Number'}
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.shortCode}
+                  onChange={(e) => setFormData({ ...formData, shortCode: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                  placeholder="174379"
+                />
+              </div>
+              {formData.shortCodeType === 'TILL' && (
+                <div>
+                  <label className={labelClass}>Store Number (Head Office)</label>
+                  <input
+                    type="text"
+                    value={formData.storeNumber}
+                    onChange={(e) => setFormData({ ...formData, storeNumber: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                    placeholder="Used for STK Push"
+                  />
+                </div>
+              )}
+              <div>
+                <label className={labelClass}>Environment</label>
+                <select
+                  value={formData.environment}
+                  onChange={(e) =>
+                    setFormData({ ...formData, environment: e.target.value as 'sandbox' | 'production' })
+                  }
+                  className={inputClass}
+                >
+                  <option value="sandbox">Sandbox</option>
+                  <option value="production">Production</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Consumer Key</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.consumerKey}
+                  onChange={(e) => setFormData({ ...formData, consumerKey: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Consumer Secret</label>
+                <input
+                  type="password"
+                  required={!editingId}
+                  value={formData.consumerSecret}
+                  onChange={(e) => setFormData({ ...formData, consumerSecret: e.target.value })}
+                  className={inputClass}
+                  placeholder={editingId ? 'Leave blank to keep' : ''}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>STK Passkey</label>
+                <input
+                  type="password"
+                  value={formData.passkey}
+                  onChange={(e) => setFormData({ ...formData, passkey: e.target.value })}
+                  className={inputClass}
+                  placeholder={editingId ? 'Leave blank to keep' : 'Optional'}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Initiator Name</label>
+                <input
+                  type="text"
+                  value={formData.initiatorName}
+                  onChange={(e) => setFormData({ ...formData, initiatorName: e.target.value })}
+                  className={inputClass}
+                  placeholder="For refunds, reversals and queries"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Initiator Password</label>
+                <input
+                  type="password"
+                  value={formData.initiatorPassword}
+                  onChange={(e) => setFormData({ ...formData, initiatorPassword: e.target.value })}
+                  className={inputClass}
+                  placeholder={editingId ? 'Leave blank to keep' : 'Encrypted with the Safaricom certificate'}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Callback URL (Optional)</label>
+                <input
+                  type="url"
+                  value={formData.callbackUrl}
+                  onChange={(e) => setFormData({ ...formData, callbackUrl: e.target.value })}
+                  className={inputClass}
+                  placeholder="Defaults to MPESA_CALLBACK_URL"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Max Transaction (KES)</label>
+                <input
+                  type="number"
+                  min="1"
+                  required
+                  value={formData.maxTransactionAmount}
+                  onChange={(e) => setFormData({ ...formData, maxTransactionAmount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Daily Customer Limit (KES)</label>
+                <input
+                  type="number"
+                  min="1"
+                  required
+                  value={formData.dailyCustomerLimit}
+                  onChange={(e) => setFormData({ ...formData, dailyCustomerLimit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={formData.isDefault}
+                onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+                className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              <span>Default shortcode for STK Push and queries</span>
+            </label>
+            <button
+              type="submit"
+              className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              {editingId ? 'Save Changes' : 'Add Shortcode'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+          </div>
+        ) : configs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              No shortcodes configured. The MPESA_* environment variables are in use.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Shortcode
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Environment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Limits
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Credentials
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {configs.map((config) => (
+                  <tr key={config.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="font-mono text-sm font-medium text-gray-900 dark:text-white">
+                        {config.shortCode}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {config.name} • {config.shortCodeType === 'TILL' ? 'Till' : 'PayBill'}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          config.environment === 'production'
+                            ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                            : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                        }`}
+                      >
+                        {config.environment}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      <p>Max {formatCurrency(config.maxTransactionAmount)}</p>
+                      <p className="text-xs">Daily {formatCurrency(config.dailyCustomerLimit)}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-600 dark:text-gray-400">
+                      <p>{config.hasPasskey ? '✓' : '✗'} STK passkey</p>
+                      <p>{config.hasSecurityCredential ? '✓' : '✗'} Initiator</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap space-x-1">
+                      {config.isActive ? (
+                        <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                          Active
+                        </span>
+                      ) : (
+                        <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                          Inactive
+                        </span>
+                      )}
+                      {config.isDefault && (
+                        <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                          Default
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                      <button
+                        onClick={() => openForm(config)}
+                        className="text-green-600 hover:text-green-800 dark:text-green-400 font-medium"
+                      >
+                        Edit
+                      </button>
+                      {config.isActive && !config.isDefault && (
+                        <button
+                          onClick={() => updateConfig(config.id, { isDefault: true })}
+                          className="text-purple-600 hover:text-purple-800 dark:text-purple-400 font-medium"
+                        >
+                          Make Default
+                        </button>
+                      )}
+                      {config.isActive ? (
+                        <button
+                          onClick={() => deactivateConfig(config)}
+                          className="text-red-600 hover:text-red-800 dark:text-red-400 font-medium"
+                        >
+                          Deactivate
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => updateConfig(config.id, { isActive: true })}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 font-medium"
+                        >
+                          Activate
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
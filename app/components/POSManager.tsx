@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { InfoIcon } from './Icons';
+import PrintReceiptButton from './PrintReceiptButton';
+import { useEventStream } from '../hooks/useEventStream';
 
 interface POSSale {
   id: string;
@@ -14,28 +16,58 @@ interface POSSale {
   amount: number;
   status: string;
   description?: string;
+  paymentId: string | null; // Latest payment on the sale's invoice
+  needsFollowUp?: boolean;
+  followUpReason?: string;
   createdAt: string;
 }
 
+interface Product {
+  id: string;
+  productId: string;
+  name: string;
+  sku?: string | null;
+  price: number;
+}
+
+interface CartLine {
+  product: Product;
+  quantity: number;
+}
+
 export default function POSManager() {
   const [sales, setSales] = useState<POSSale[]>([]);
   const [customers, setCustomers] = useState<any[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [promptingId, setPromptingId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     customerId: '',
-    amount: '',
     description: '',
   });
 
   useEffect(() => {
     fetchSales();
     fetchCustomers();
-    // Auto-refresh every 10 seconds
-    const interval = setInterval(fetchSales, 10000);
-    return () => clearInterval(interval);
+    fetchProducts();
   }, []);
 
+  useEventStream(['pos.created', 'pos.paid', 'pos.cancelled', 'pos.reopened'], (event) => {
+    // Flip the badge immediately, then reload for the full record
+    if (event.type === 'pos.paid') {
+      setSales((current) =>
+        current.map((sale) =>
+          sale.id === event.data.id ? { ...sale, status: 'PAID', needsFollowUp: false } : sale
+        )
+      );
+    }
+    fetchSales();
+  });
+
   const fetchSales = async () => {
     try {
       const response = await fetch('/api/pos');
@@ -62,25 +94,100 @@ export default function POSManager() {
     }
   };
 
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products');
+      if (response.ok) {
+        const data = await response.json();
+        setProducts(data);
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  // Prices come from the catalog; the till only picks products and quantities
+  const addToCart = (product: Product) => {
+    setCart((current) => {
+      const existing = current.find((line) => line.product.id === product.id);
+      if (existing) {
+        return current.map((line) =>
+          line.product.id === product.id ? { ...line, quantity: line.quantity + 1 } : line
+        );
+      }
+      return [...current, { product, quantity: 1 }];
+    });
+    setProductSearch('');
+  };
+
+  const setQuantity = (productId: string, quantity: number) => {
+    setCart((current) =>
+      quantity > 0
+        ? current.map((line) => (line.product.id === productId ? { ...line, quantity } : line))
+        : current.filter((line) => line.product.id !== productId)
+    );
+  };
+
+  const cartTotal = cart.reduce((sum, line) => sum + line.quantity * Number(line.product.price), 0);
+
+  const matchingProducts = productSearch.trim()
+    ? products
+        .filter((product) => {
+          const query = productSearch.toLowerCase();
+          return product.name.toLowerCase().includes(query) || product.sku?.toLowerCase().includes(query);
+        })
+        .slice(0, 8)
+    : [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setErrorMessage(null);
+
+    if (cart.length === 0) {
+      setErrorMessage('Add at least one product');
+      return;
+    }
+
     try {
       const response = await fetch('/api/pos', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          ...formData,
-          amount: parseFloat(formData.amount),
+          customerId: formData.customerId,
+          ...(formData.description && { description: formData.description }),
+          items: cart.map((line) => ({ productId: line.product.id, quantity: line.quantity })),
         }),
       });
 
       if (response.ok) {
         setShowForm(false);
-        setFormData({ customerId: '', amount: '', description: '' });
+        setFormData({ customerId: '', description: '' });
+        setCart([]);
         fetchSales();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to create sale');
       }
     } catch (error) {
       console.error('Error creating POS sale:', error);
+      setErrorMessage('Failed to create sale');
+    }
+  };
+
+  const sendStkPush = async (sale: POSSale) => {
+    setPromptingId(sale.id);
+    try {
+      const response = await fetch('/api/stk-push', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ posId: sale.posId }),
+      });
+      const data = await response.json();
+      alert(response.ok ? data.customerMessage : data?.error || 'Failed to send STK Push');
+    } catch (error) {
+      console.error('Error sending STK Push:', error);
+    } finally {
+      setPromptingId(null);
     }
   };
 
@@ -125,6 +232,11 @@ export default function POSManager() {
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
           <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">New POS Sale</h3>
           <form onSubmit={handleSubmit} className="space-y-4">
+            {errorMessage && (
+              <div className="rounded-lg border border-red-200 bg-red-50 text-red-700 px-4 py-3 text-sm">
+                {errorMessage}
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -144,20 +256,71 @@ export default function POSManager() {
                   ))}
                 </select>
               </div>
-              <div>
+              <div className="relative">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Amount (KES)
+                  Add Product
                 </label>
                 <input
-                  type="number"
-                  required
-                  min="1"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  type="text"
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
                   className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 dark:bg-gray-700 dark:text-white"
-                  placeholder="1000.00"
+                  placeholder="Search by name or SKU"
                 />
+                {matchingProducts.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+                    {matchingProducts.map((product) => (
+                      <li key={product.id}>
+                        <button
+                          type="button"
+                          onClick={() => addToCart(product)}
+                          className="w-full flex justify-between px-4 py-2 text-left text-sm hover:bg-purple-50 dark:hover:bg-gray-600"
+                        >
+                          <span className="text-gray-900 dark:text-white">
+                            {product.name}
+                            {product.sku && <span className="ml-2 font-mono text-xs text-gray-500">{product.sku}</span>}
+                          </span>
+                          <span className="text-gray-600 dark:text-gray-300">{formatCurrency(Number(product.price))}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+              {cart.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No products added yet.</p>
+              ) : (
+                cart.map((line) => (
+                  <div key={line.product.id} className="flex items-center justify-between px-4 py-2 gap-4">
+                    <span className="flex-1 text-sm text-gray-900 dark:text-white">{line.product.name}</span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{formatCurrency(Number(line.product.price))} ×</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={line.quantity}
+                      onChange={(e) => setQuantity(line.product.id, parseFloat(e.target.value) || 0)}
+                      className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white text-sm"
+                      aria-label={`Quantity of ${line.product.name}`}
+                    />
+                    <span className="w-28 text-right text-sm font-medium text-gray-900 dark:text-white">
+                      {formatCurrency(line.quantity * Number(line.product.price))}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setQuantity(line.product.id, 0)}
+                      className="text-red-600 hover:text-red-700 dark:text-red-400 text-sm"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))
+              )}
+              <div className="flex justify-between px-4 py-2 bg-gray-50 dark:bg-gray-700">
+                <span className="text-sm font-semibold text-gray-900 dark:text-white">Total</span>
+                <span className="text-sm font-semibold text-gray-900 dark:text-white">{formatCurrency(cartTotal)}</span>
               </div>
             </div>
             <div>
@@ -167,7 +330,7 @@ export default function POSManager() {
               <textarea
                 value={formData.description}
                 onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                rows={3}
+                rows={2}
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 dark:bg-gray-700 dark:text-white"
                 placeholder="Item/service description"
               />
@@ -222,6 +385,9 @@ export default function POSManager() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Date
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
@@ -251,6 +417,14 @@ export default function POSManager() {
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(sale.status)}`}>
                         {sale.status}
                       </span>
+                      {sale.needsFollowUp && (
+                        <span
+                          title={sale.followUpReason}
+                          className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+                        >
+                          FOLLOW UP
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <span className="text-sm text-gray-600 dark:text-gray-400">
@@ -260,6 +434,18 @@ export default function POSManager() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                       {new Date(sale.createdAt).toLocaleString()}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {sale.status === 'PENDING' && sale.customer && (
+                        <button
+                          onClick={() => sendStkPush(sale)}
+                          disabled={promptingId === sale.id}
+                          className="text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 text-sm font-medium disabled:opacity-50"
+                        >
+                          {promptingId === sale.id ? 'Sending...' : 'Prompt Phone'}
+                        </button>
+                      )}
+                      {sale.status === 'PAID' && sale.paymentId && <PrintReceiptButton paymentId={sale.paymentId} />}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,503 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { useEventStream } from '../hooks/useEventStream';
+
+interface Supplier {
+  id: string;
+  supplierId: string;
+  name: string;
+  phone?: string | null;
+  paybillNumber?: string | null;
+  paybillAccount?: string | null;
+  tillNumber?: string | null;
+}
+
+interface SupplierBill {
+  id: string;
+  billId: string;
+  supplierInvoiceNumber?: string | null;
+  description?: string | null;
+  amount: number;
+  amountPaid: number;
+  balance: number;
+  status: string;
+  billDate: string;
+  dueDate: string;
+  supplier: Supplier;
+  goodsReceipt?: { grnNumber: string } | null;
+}
+
+interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+interface AgingReport {
+  suppliers: Array<AgingBuckets & { supplierId: string; supplierName: string; bills: number }>;
+  totals: AgingBuckets;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  UNPAID: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  PARTIALLY_PAID: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  PAID: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+const AGING_COLUMNS: Array<{ key: keyof AgingBuckets; label: string }> = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30 days' },
+  { key: 'days31to60', label: '31-60 days' },
+  { key: 'days61to90', label: '61-90 days' },
+  { key: 'over90', label: '90+ days' },
+  { key: 'total', label: 'Total' },
+];
+
+const EMPTY_BILL = {
+  supplierId: '',
+  goodsReceiptId: '',
+  amount: '',
+  supplierInvoiceNumber: '',
+  description: '',
+  dueDate: '',
+};
+
+export default function PayablesManager() {
+  const [bills, setBills] = useState<SupplierBill[]>([]);
+  const [aging, setAging] = useState<AgingReport | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [billData, setBillData] = useState(EMPTY_BILL);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [payAmount, setPayAmount] = useState('');
+  const [payChannel, setPayChannel] = useState('');
+
+  useEffect(() => {
+    fetchBills();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchAging();
+    fetchSuppliers();
+  }, []);
+
+  // Payments settle when Safaricom's result callback arrives
+  useEventStream(['bill.paid', 'bill.payment_failed'], (event) => {
+    if (event.type === 'bill.payment_failed') {
+      setNotice(`Supplier payment failed: ${event.data.resultDesc}`);
+    }
+    fetchBills();
+    fetchAging();
+  });
+
+  const fetchBills = async () => {
+    try {
+      const response = await fetch(`/api/supplier-bills${statusFilter ? `?status=${statusFilter}` : ''}`);
+      if (response.ok) {
+        setBills(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching supplier bills:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAging = async () => {
+    try {
+      const response = await fetch('/api/supplier-bills/aging');
+      if (response.ok) {
+        setAging(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching A/P aging:', error);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await fetch('/api/suppliers?includeInactive=true');
+      if (response.ok) {
+        setSuppliers(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+    }
+  };
+
+  const submitJson = async (url: string, body: unknown, failure: string): Promise<boolean> => {
+    setErrorMessage(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) return true;
+
+      const data = await response.json();
+      setErrorMessage(data?.error || failure);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setErrorMessage(failure);
+    }
+    return false;
+  };
+
+  const handleBillSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = {
+      supplierId: billData.supplierId,
+      dueDate: new Date(billData.dueDate).toISOString(),
+      ...(billData.goodsReceiptId && { goodsReceiptId: billData.goodsReceiptId.trim() }),
+      ...(billData.amount && { amount: parseFloat(billData.amount) }),
+      ...(billData.supplierInvoiceNumber && { supplierInvoiceNumber: billData.supplierInvoiceNumber }),
+      ...(billData.description && { description: billData.description }),
+    };
+
+    if (await submitJson('/api/supplier-bills', payload, 'Failed to record bill')) {
+      setShowForm(false);
+      setBillData(EMPTY_BILL);
+      fetchBills();
+      fetchAging();
+    }
+  };
+
+  // Only offer channels the supplier has payment details for
+  const channelsFor = (supplier: Supplier) => [
+    ...(supplier.paybillNumber && supplier.paybillAccount
+      ? [{ value: 'B2B_PAYBILL', label: `PayBill ${supplier.paybillNumber} / ${supplier.paybillAccount}` }]
+      : []),
+    ...(supplier.tillNumber ? [{ value: 'B2B_TILL', label: `Till ${supplier.tillNumber}` }] : []),
+    ...(supplier.phone ? [{ value: 'B2C', label: `M-Pesa ${supplier.phone}` }] : []),
+  ];
+
+  const togglePaying = (bill: SupplierBill) => {
+    if (payingId === bill.id) {
+      setPayingId(null);
+      return;
+    }
+
+    setErrorMessage(null);
+    setPayAmount(String(Math.floor(Number(bill.balance))));
+    setPayChannel(channelsFor(bill.supplier)[0]?.value || '');
+    setPayingId(bill.id);
+  };
+
+  const handlePay = async (bill: SupplierBill) => {
+    const amount = parseInt(payAmount, 10);
+    if (!confirm(`Send ${formatCurrency(amount)} to ${bill.supplier.name} for ${bill.billId}?`)) return;
+
+    if (await submitJson(`/api/supplier-bills/${bill.id}/payments`, { amount, channel: payChannel }, 'Failed to pay bill')) {
+      setPayingId(null);
+      setNotice(`Payment sent for ${bill.billId}. The bill updates when M-Pesa confirms it.`);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+    }).format(amount);
+  };
+
+  const isOverdue = (bill: SupplierBill) => bill.status !== 'PAID' && new Date(bill.dueDate) < new Date();
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Payables</h2>
+        <button
+          onClick={() => {
+            setErrorMessage(null);
+            setShowForm(!showForm);
+          }}
+          className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+        >
+          {showForm ? 'Cancel' : '+ Record Bill'}
+        </button>
+      </div>
+
+      {errorMessage && (
+        <div className="rounded-lg border border-red-200 bg-red-50 text-red-700 px-4 py-3 text-sm">{errorMessage}</div>
+      )}
+
+      {notice && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 text-blue-700 px-4 py-3 text-sm flex justify-between">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="font-medium">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">New Supplier Bill</h3>
+          <form onSubmit={handleBillSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Supplier</label>
+                <select
+                  required
+                  value={billData.supplierId}
+                  onChange={(e) => setBillData({ ...billData, supplierId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select a supplier</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name} ({supplier.supplierId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Due Date</label>
+                <input
+                  type="date"
+                  required
+                  value={billData.dueDate}
+                  onChange={(e) => setBillData({ ...billData, dueDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Goods Received Note (Optional)</label>
+                <input
+                  type="text"
+                  value={billData.goodsReceiptId}
+                  onChange={(e) => setBillData({ ...billData, goodsReceiptId: e.target.value })}
+                  className={inputClass}
+                  placeholder="GRN-20240115-0001"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Amount (KES)</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required={!billData.goodsReceiptId}
+                  value={billData.amount}
+                  onChange={(e) => setBillData({ ...billData, amount: e.target.value })}
+                  className={inputClass}
+                  placeholder={billData.goodsReceiptId ? 'Taken from the goods received note' : ''}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Supplier Invoice No. (Optional)</label>
+                <input
+                  type="text"
+                  value={billData.supplierInvoiceNumber}
+                  onChange={(e) => setBillData({ ...billData, supplierInvoiceNumber: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Description (Optional)</label>
+                <input
+                  type="text"
+                  value={billData.description}
+                  onChange={(e) => setBillData({ ...billData, description: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., Transport, January"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              Record Bill
+            </button>
+          </form>
+        </div>
+      )}
+
+      {aging && aging.suppliers.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+          <h3 className="px-6 pt-4 text-lg font-semibold text-gray-900 dark:text-white">Accounts Payable Aging</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className={headerClass}>Supplier</th>
+                  {AGING_COLUMNS.map((column) => (
+                    <th key={column.key} className={headerClass}>
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                {aging.suppliers.map((row) => (
+                  <tr key={row.supplierId}>
+                    <td className="px-6 py-3 text-gray-900 dark:text-white">
+                      {row.supplierName}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{row.bills} bills</span>
+                    </td>
+                    {AGING_COLUMNS.map((column) => (
+                      <td key={column.key} className="px-6 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                        {row[column.key] ? formatCurrency(row[column.key]) : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 dark:bg-gray-700 font-semibold">
+                  <td className="px-6 py-3 text-gray-900 dark:text-white">Total</td>
+                  {AGING_COLUMNS.map((column) => (
+                    <td key={column.key} className="px-6 py-3 whitespace-nowrap text-gray-900 dark:text-white">
+                      {formatCurrency(aging.totals[column.key])}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 border border-gray-200 dark:border-gray-700">
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={`${inputClass} md:w-64`}>
+          <option value="">All bills</option>
+          <option value="UNPAID">Unpaid</option>
+          <option value="PARTIALLY_PAID">Partially paid</option>
+          <option value="PAID">Paid</option>
+        </select>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+          </div>
+        ) : bills.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              {statusFilter ? 'No bills with this status.' : 'No supplier bills yet.'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className={headerClass}>Bill</th>
+                  <th className={headerClass}>Supplier</th>
+                  <th className={headerClass}>Amount</th>
+                  <th className={headerClass}>Balance</th>
+                  <th className={headerClass}>Due</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {bills.map((bill) => (
+                  <Fragment key={bill.id}>
+                    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="font-mono text-sm font-medium text-gray-900 dark:text-white">{bill.billId}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {bill.goodsReceipt?.grnNumber || bill.description}
+                          {bill.supplierInvoiceNumber && ` • ${bill.supplierInvoiceNumber}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {bill.supplier.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {formatCurrency(Number(bill.amount))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(Number(bill.balance))}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-sm ${
+                          isOverdue(bill) ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                      >
+                        {new Date(bill.dueDate).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[bill.status]}`}>
+                          {bill.status.replace('_', ' ')}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {bill.status !== 'PAID' && (
+                          <button
+                            onClick={() => togglePaying(bill)}
+                            className="text-green-600 hover:text-green-700 dark:text-green-400 text-sm font-medium"
+                          >
+                            {payingId === bill.id ? 'Close' : 'Pay'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {payingId === bill.id && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50 dark:bg-gray-900">
+                          {channelsFor(bill.supplier).length === 0 ? (
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                              No PayBill, till or phone number on file for {bill.supplier.name}. Add one in Purchasing.
+                            </p>
+                          ) : (
+                            <div className="flex flex-col md:flex-row gap-3">
+                              <select
+                                value={payChannel}
+                                onChange={(e) => setPayChannel(e.target.value)}
+                                className={inputClass}
+                                aria-label="Pay to"
+                              >
+                                {channelsFor(bill.supplier).map((channel) => (
+                                  <option key={channel.value} value={channel.value}>
+                                    {channel.label}
+                                  </option>
+                                ))}
+                              </select>
+                              <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={payAmount}
+                                onChange={(e) => setPayAmount(e.target.value)}
+                                className={`${inputClass} md:w-48`}
+                                aria-label="Amount (whole shillings)"
+                              />
+                              <button
+                                onClick={() => handlePay(bill)}
+                                className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium transition-colors whitespace-nowrap"
+                              >
+                                Send M-Pesa Payment
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertIcon } from './Icons';
+
+interface AllocatedInvoice {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  balance: number;
+  status: string;
+}
+
+interface AllocationChange {
+  id: string;
+  previousAmount: number;
+  newAmount: number;
+  reason: string;
+  changedBy: string | null;
+  createdAt: string;
+  invoice: { invoiceId: string };
+}
+
+interface AllocationDetails {
+  payment: {
+    id: string;
+    mpesaReceiptNumber: string | null;
+    referenceNumber: string | null;
+    amount: number;
+    unappliedAmount: number;
+    customer: { name: string; customerId: string } | null;
+  };
+  allocations: Array<{ id: string; amountApplied: number; appliedFromCredit: boolean; invoice: AllocatedInvoice }>;
+  openInvoices: AllocatedInvoice[];
+  history: AllocationChange[];
+}
+
+interface PaymentAllocationsProps {
+  paymentId: string;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export default function PaymentAllocations({ paymentId, onClose, onSaved }: PaymentAllocationsProps) {
+  const [details, setDetails] = useState<AllocationDetails | null>(null);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [changedBy, setChangedBy] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAllocations();
+  }, [paymentId]);
+
+  const fetchAllocations = async () => {
+    try {
+      const response = await fetch(`/api/payments/${paymentId}/allocations`);
+      const data = await response.json();
+      if (response.ok) {
+        setDetails(data);
+        setAmounts(
+          Object.fromEntries(
+            data.allocations.map((allocation: any) => [allocation.invoice.id, String(Number(allocation.amountApplied))])
+          )
+        );
+      } else {
+        setErrorMessage(data?.error || 'Failed to load allocations');
+      }
+    } catch (error) {
+      console.error('Error fetching allocations:', error);
+      setErrorMessage('Failed to load allocations');
+    }
+  };
+
+  // Allocated invoices first, then the customer's other open invoices
+  const invoices: AllocatedInvoice[] = details
+    ? [
+        ...details.allocations.map((allocation) => allocation.invoice),
+        ...details.openInvoices.filter(
+          (invoice) => !details.allocations.some((allocation) => allocation.invoice.id === invoice.id)
+        ),
+      ]
+    : [];
+
+  const currentAmount = (invoiceId: string) =>
+    Number(details?.allocations.find((allocation) => allocation.invoice.id === invoiceId)?.amountApplied ?? 0);
+
+  const allocatable = details
+    ? Number(details.payment.unappliedAmount) +
+      details.allocations.reduce((sum, allocation) => sum + Number(allocation.amountApplied), 0)
+    : 0;
+  const allocated = invoices.reduce((sum, invoice) => sum + (Number(amounts[invoice.id]) || 0), 0);
+  const remaining = Math.round((allocatable - allocated) * 100) / 100;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch(`/api/payments/${paymentId}/allocations`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: invoices
+            .map((invoice) => ({ invoiceId: invoice.id, amount: Number(amounts[invoice.id]) || 0 }))
+            .filter((allocation) => allocation.amount > 0),
+          reason,
+          changedBy: changedBy || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        setReason('');
+        await fetchAllocations();
+        onSaved?.();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to re-allocate payment');
+      }
+    } catch (error) {
+      console.error('Error re-allocating payment:', error);
+      setErrorMessage('Failed to re-allocate payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+    }).format(amount);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Payment Allocations</h3>
+            {details && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {details.payment.mpesaReceiptNumber || details.payment.referenceNumber} •{' '}
+                {formatCurrency(Number(details.payment.amount))} • {details.payment.customer?.name}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Close
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {errorMessage && (
+            <div className="bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-700 rounded-lg p-3 flex gap-2 text-sm text-red-800 dark:text-red-200">
+              <AlertIcon />
+              <span>{errorMessage}</span>
+            </div>
+          )}
+
+          {!details ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+            </div>
+          ) : (
+            <>
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Invoice
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Balance
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Applied
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {invoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <div className="font-mono text-sm text-gray-900 dark:text-white">{invoice.invoiceId}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{invoice.status}</div>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {formatCurrency(Number(invoice.balance))}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          max={Number(invoice.balance) + currentAmount(invoice.id)}
+                          value={amounts[invoice.id] ?? ''}
+                          placeholder="0"
+                          onChange={(e) => setAmounts({ ...amounts, [invoice.id]: e.target.value })}
+                          className="w-32 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Left as customer credit</span>
+                <span
+                  className={`font-medium ${
+                    remaining < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                  }`}
+                >
+                  {formatCurrency(remaining)}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    required
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                    placeholder="Paid against the wrong invoice"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Changed By (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={changedBy}
+                    onChange={(e) => setChangedBy(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting || remaining < 0}
+                className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Saving...' : 'Save Allocation'}
+              </button>
+
+              {details.history.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">History</h4>
+                  <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                    {details.history.map((change) => (
+                      <li key={change.id}>
+                        {new Date(change.createdAt).toLocaleString()} • {change.invoice.invoiceId}:{' '}
+                        {formatCurrency(Number(change.previousAmount))} → {formatCurrency(Number(change.newAmount))} —{' '}
+                        {change.reason}
+                        {change.changedBy && ` (${change.changedBy})`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,64 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ClockIcon } from './Icons';
+import { AlertIcon, ClockIcon } from './Icons';
+import FailedWebhooks from './FailedWebhooks';
+import PaymentAllocations from './PaymentAllocations';
+import PrintReceiptButton from './PrintReceiptButton';
+import { useEventStream } from '../hooks/useEventStream';
 
 interface Payment {
   id: string;
-  mpesaReceiptNumber: string;
+  method: string;
+  mpesaReceiptNumber: string | null;
+  referenceNumber: string | null;
   amount: number;
   phoneNumber: string;
   customer: {
     name: string;
     customerId: string;
-  };
+  } | null;
   status: string;
   createdAt: string;
 }
 
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  MPESA: 'M-Pesa',
+  CASH: 'Cash',
+  BANK_TRANSFER: 'Bank Transfer',
+  CHEQUE: 'Cheque',
+  CARD: 'Card',
+};
+
+const EMPTY_MANUAL_PAYMENT = {
+  method: 'CASH',
+  referenceNumber: '',
+  accountReference: '',
+  amount: '',
+  receivedBy: '',
+  notes: '',
+};
+
 export default function PaymentMonitor() {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [filteredPayments, setFilteredPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [view, setView] = useState<'payments' | 'failed'>('payments');
+  const [failedCount, setFailedCount] = useState<number | null>(null);
+  const [allocatingPaymentId, setAllocatingPaymentId] = useState<string | null>(null);
+  const [showRecordForm, setShowRecordForm] = useState(false);
+  const [manualPayment, setManualPayment] = useState(EMPTY_MANUAL_PAYMENT);
+  const [recording, setRecording] = useState(false);
+  const [recordError, setRecordError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchRecentPayments();
-    // Auto-refresh every 5 seconds
-    const interval = setInterval(fetchRecentPayments, 5000);
-    return () => clearInterval(interval);
   }, []);
 
+  // Refresh the moment a payment callback is processed
+  const live = useEventStream(['payment.received', 'payment.unmatched', 'payment.reversed', 'payment.reallocated'], () => fetchRecentPayments());
+
   useEffect(() => {
     // Filter payments based on search query
     if (searchQuery.trim() === '') {
@@ -38,9 +68,9 @@ export default function PaymentMonitor() {
       setFilteredPayments(
         payments.filter(
           (payment) =>
-            payment.mpesaReceiptNumber.toLowerCase().includes(query) ||
-            payment.customer.name.toLowerCase().includes(query) ||
-            payment.customer.customerId.toLowerCase().includes(query) ||
+            (payment.mpesaReceiptNumber || payment.referenceNumber || '').toLowerCase().includes(query) ||
+            payment.customer?.name.toLowerCase().includes(query) ||
+            payment.customer?.customerId.toLowerCase().includes(query) ||
             payment.phoneNumber.includes(query)
         )
       );
@@ -62,6 +92,41 @@ export default function PaymentMonitor() {
     }
   };
 
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setRecording(true);
+    setRecordError(null);
+    try {
+      const response = await fetch('/api/payments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          method: manualPayment.method,
+          referenceNumber: manualPayment.referenceNumber,
+          accountReference: manualPayment.accountReference,
+          amount: parseFloat(manualPayment.amount),
+          receivedBy: manualPayment.receivedBy || undefined,
+          notes: manualPayment.notes || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        setShowRecordForm(false);
+        setManualPayment(EMPTY_MANUAL_PAYMENT);
+        fetchRecentPayments();
+      } else {
+        const data = await response.json();
+        setRecordError(data?.error || 'Failed to record payment');
+      }
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      setRecordError('Failed to record payment');
+    } finally {
+      setRecording(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
@@ -75,6 +140,8 @@ export default function PaymentMonitor() {
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'PENDING':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'UNMATCHED':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
       case 'FAILED':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default:
@@ -88,123 +155,304 @@ export default function PaymentMonitor() {
         <div>
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Real-Time Payment Monitor</h2>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-            Live M-Pesa payment tracking - Auto-refreshes every 5 seconds
+            Live M-Pesa payment tracking - Updates as soon as payments are received
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          <div className="animate-pulse flex items-center text-green-600 dark:text-green-400">
-            <span className="h-2 w-2 bg-green-600 rounded-full mr-2"></span>
-            <span className="text-sm font-medium">Live</span>
-          </div>
+          {live ? (
+            <div className="animate-pulse flex items-center text-green-600 dark:text-green-400">
+              <span className="h-2 w-2 bg-green-600 rounded-full mr-2"></span>
+              <span className="text-sm font-medium">Live</span>
+            </div>
+          ) : (
+            <div className="flex items-center text-gray-500 dark:text-gray-400">
+              <span className="h-2 w-2 bg-gray-400 rounded-full mr-2"></span>
+              <span className="text-sm font-medium">Reconnecting...</span>
+            </div>
+          )}
         </div>
       </div>
 
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 border border-gray-200 dark:border-gray-700">
-        <input
-          type="text"
-          placeholder="Search payments by receipt, customer, or phone..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
-        />
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setView('payments')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            view === 'payments'
+              ? 'bg-green-600 text-white'
+              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600'
+          }`}
+        >
+          Payments
+        </button>
+        <button
+          onClick={() => setView('failed')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            view === 'failed'
+              ? 'bg-red-600 text-white'
+              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600'
+          }`}
+        >
+          Failed Webhooks{failedCount !== null && ` (${failedCount})`}
+        </button>
+        <button
+          onClick={() => {
+            setRecordError(null);
+            setShowRecordForm(true);
+          }}
+          className="ml-auto px-4 py-2 rounded-lg text-sm font-medium bg-green-600 hover:bg-green-700 text-white transition-colors"
+        >
+          + Record Payment
+        </button>
       </div>
 
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
-        {loading ? (
-          <div className="flex items-center justify-center h-64">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      {view === 'failed' ? (
+        <FailedWebhooks onCountChange={setFailedCount} />
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 border border-gray-200 dark:border-gray-700">
+            <input
+              type="text"
+              placeholder="Search payments by receipt, customer, or phone..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+            />
           </div>
-        ) : filteredPayments.length === 0 ? (
-          <div className="text-center py-12">
-            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-700 mb-4">
-              <ClockIcon />
-            </div>
-            <p className="text-gray-500 dark:text-gray-400">
-              {searchQuery ? 'No payments found matching your search.' : 'Waiting for payments...'}
-            </p>
-            {!searchQuery && (
-              <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
-                Payments will appear here automatically when received
-              </p>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+              </div>
+            ) : filteredPayments.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-700 mb-4">
+                  <ClockIcon />
+                </div>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {searchQuery ? 'No payments found matching your search.' : 'Waiting for payments...'}
+                </p>
+                {!searchQuery && (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+                    Payments will appear here automatically when received
+                  </p>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-3 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Showing {filteredPayments.length} of {payments.length} payments
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-700">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Time
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Receipt / Reference
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Customer
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Phone
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Amount
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {filteredPayments.map((payment) => (
+                        <tr key={payment.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className="text-sm text-gray-600 dark:text-gray-400">
+                              {new Date(payment.createdAt).toLocaleTimeString()}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="font-mono text-sm font-medium text-gray-900 dark:text-white">
+                              {payment.mpesaReceiptNumber || payment.referenceNumber}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {PAYMENT_METHOD_LABELS[payment.method] || payment.method}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div>
+                              <div className="text-sm font-medium text-gray-900 dark:text-white">
+                                {payment.customer?.name || 'Unmatched'}
+                              </div>
+                              <div className="text-sm text-gray-500 dark:text-gray-400">
+                                {payment.customer?.customerId || '-'}
+                              </div>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className="text-sm text-gray-600 dark:text-gray-400">
+                              {payment.phoneNumber}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className="text-lg font-bold text-green-600 dark:text-green-400">
+                              {formatCurrency(payment.amount)}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(payment.status)}`}>
+                              {payment.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {payment.status === 'COMPLETED' && (
+                              <div className="flex items-center space-x-3">
+                                <PrintReceiptButton paymentId={payment.id} />
+                                {payment.customer && (
+                                  <button
+                                    onClick={() => setAllocatingPaymentId(payment.id)}
+                                    className="text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300 text-sm font-medium"
+                                  >
+                                    Allocations
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
             )}
           </div>
-        ) : (
-          <>
-            <div className="px-6 py-3 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                Showing {filteredPayments.length} of {payments.length} payments
-              </p>
-            </div>
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-gray-50 dark:bg-gray-700">
-                  <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Time
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      M-Pesa Receipt
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Customer
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Phone
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Amount
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Status
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {filteredPayments.map((payment) => (
-                    <tr key={payment.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="text-sm text-gray-600 dark:text-gray-400">
-                          {new Date(payment.createdAt).toLocaleTimeString()}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="font-mono text-sm font-medium text-gray-900 dark:text-white">
-                          {payment.mpesaReceiptNumber}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div>
-                          <div className="text-sm font-medium text-gray-900 dark:text-white">
-                            {payment.customer.name}
-                          </div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400">
-                            {payment.customer.customerId}
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="text-sm text-gray-600 dark:text-gray-400">
-                          {payment.phoneNumber}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="text-lg font-bold text-green-600 dark:text-green-400">
-                          {formatCurrency(payment.amount)}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(payment.status)}`}>
-                          {payment.status}
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+        </>
+      )}
+
+      {showRecordForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Record Payment</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Cash, bank transfer, cheque or card</p>
+              </div>
+              <button
+                onClick={() => setShowRecordForm(false)}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                Close
+              </button>
             </div>
-          </>
-        )}
-      </div>
+
+            <form onSubmit={handleRecordPayment} className="p-6 space-y-4">
+              {recordError && (
+                <div className="bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-700 rounded-lg p-3 flex gap-2 text-sm text-red-800 dark:text-red-200">
+                  <AlertIcon />
+                  <span>{recordError}</span>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Method</label>
+                  <select
+                    value={manualPayment.method}
+                    onChange={(e) => setManualPayment({ ...manualPayment, method: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    {Object.entries(PAYMENT_METHOD_LABELS)
+                      .filter(([method]) => method !== 'MPESA')
+                      .map(([method, label]) => (
+                        <option key={method} value={method}>
+                          {label}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Reference Number
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={manualPayment.referenceNumber}
+                    onChange={(e) => setManualPayment({ ...manualPayment, referenceNumber: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                    placeholder="Slip, bank or cheque no."
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Customer or Invoice ID
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={manualPayment.accountReference}
+                    onChange={(e) => setManualPayment({ ...manualPayment, accountReference: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                    placeholder="ACC001 or INV-20240101-0001"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Amount (KES)</label>
+                  <input
+                    type="number"
+                    required
+                    min="0.01"
+                    step="0.01"
+                    value={manualPayment.amount}
+                    onChange={(e) => setManualPayment({ ...manualPayment, amount: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Received By (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={manualPayment.receivedBy}
+                    onChange={(e) => setManualPayment({ ...manualPayment, receivedBy: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notes (optional)</label>
+                  <input
+                    type="text"
+                    value={manualPayment.notes}
+                    onChange={(e) => setManualPayment({ ...manualPayment, notes: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                disabled={recording}
+                className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {recording ? 'Recording...' : 'Record Payment'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {allocatingPaymentId && (
+        <PaymentAllocations paymentId={allocatingPaymentId} onClose={() => setAllocatingPaymentId(null)} />
+      )}
 
       <div className="bg-blue-50 dark:bg-blue-900 border border-blue-200 dark:border-blue-700 rounded-lg p-4">
         <h3 className="text-sm font-semibold text-blue-900 dark:text-blue-200 mb-2">How to Make a Payment</h3>
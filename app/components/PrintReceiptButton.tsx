@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+const RECEIPT_FORMAT_LABELS: Record<string, string> = {
+  pdf: 'A4',
+  'escpos-58': '58mm',
+  'escpos-80': '80mm',
+};
+
+// Remembered per browser: each till has its own printer
+const STORAGE_KEY = 'kelly-os.receiptFormat';
+
+interface PrintReceiptButtonProps {
+  paymentId: string;
+}
+
+export default function PrintReceiptButton({ paymentId }: PrintReceiptButtonProps) {
+  const [format, setFormat] = useState('pdf');
+
+  useEffect(() => {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved && RECEIPT_FORMAT_LABELS[saved]) setFormat(saved);
+  }, []);
+
+  const changeFormat = (value: string) => {
+    setFormat(value);
+    window.localStorage.setItem(STORAGE_KEY, value);
+  };
+
+  // A4 opens in the browser's PDF viewer; thermal formats download the raw ESC/POS bytes
+  const printReceipt = () => {
+    window.open(`/api/payments/${paymentId}/receipt?format=${format}`, '_blank');
+  };
+
+  return (
+    <span className="inline-flex items-center space-x-1">
+      <button
+        onClick={printReceipt}
+        className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium"
+      >
+        Print Receipt
+      </button>
+      <select
+        value={format}
+        onChange={(e) => changeFormat(e.target.value)}
+        className="text-xs border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+      >
+        {Object.entries(RECEIPT_FORMAT_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </span>
+  );
+}
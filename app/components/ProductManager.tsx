@@ -0,0 +1,506 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+
+interface Product {
+  id: string;
+  productId: string;
+  name: string;
+  description?: string | null;
+  price: number;
+  cost?: number | null;
+  sku?: string | null;
+  category: string;
+  stockQty?: number | null;
+  reorderLevel?: number | null;
+  isActive: boolean;
+}
+
+interface StockMovement {
+  id: string;
+  type: string;
+  quantity: number;
+  balanceAfter: number;
+  unitCost?: number | null;
+  reference?: string | null;
+  notes?: string | null;
+  createdAt: string;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  GENERAL: 'General',
+  FOOD_BEVERAGE: 'Food & Beverage',
+  ELECTRONICS: 'Electronics',
+  CLOTHING: 'Clothing',
+  SERVICES: 'Services',
+  OTHER: 'Other',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  sku: '',
+  category: 'GENERAL',
+  price: '',
+  cost: '',
+  stockQty: '',
+  reorderLevel: '',
+  description: '',
+};
+
+export default function ProductManager() {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timer = setTimeout(fetchProducts, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, category, showInactive]);
+
+  const fetchProducts = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (searchQuery.trim()) params.set('search', searchQuery.trim());
+      if (category) params.set('category', category);
+      if (showInactive) params.set('includeInactive', 'true');
+
+      const response = await fetch(`/api/products?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setProducts(data);
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (product?: Product) => {
+    setErrorMessage(null);
+    setEditingId(product?.id || null);
+    setFormData(
+      product
+        ? {
+            name: product.name,
+            sku: product.sku || '',
+            category: product.category,
+            price: String(product.price),
+            cost: product.cost != null ? String(product.cost) : '',
+            stockQty: product.stockQty != null ? String(product.stockQty) : '',
+            reorderLevel: product.reorderLevel != null ? String(product.reorderLevel) : '',
+            description: product.description || '',
+          }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage(null);
+
+    // Only an edited count becomes an adjustment; sales may have moved stock since the form opened
+    const original = products.find((product) => product.id === editingId);
+    const countChanged =
+      formData.stockQty !== '' && (!original || parseFloat(formData.stockQty) !== Number(original.stockQty ?? 0));
+
+    const payload = {
+      name: formData.name,
+      category: formData.category,
+      price: parseFloat(formData.price),
+      ...(editingId
+        ? {
+            sku: formData.sku || null,
+            cost: formData.cost ? parseFloat(formData.cost) : null,
+            reorderLevel: formData.reorderLevel ? parseFloat(formData.reorderLevel) : null,
+            description: formData.description || null,
+          }
+        : {
+            ...(formData.sku && { sku: formData.sku }),
+            ...(formData.cost && { cost: parseFloat(formData.cost) }),
+            ...(formData.reorderLevel && { reorderLevel: parseFloat(formData.reorderLevel) }),
+            ...(formData.description && { description: formData.description }),
+          }),
+      ...(countChanged && { stockQty: parseFloat(formData.stockQty) }),
+    };
+
+    try {
+      const response = await fetch(editingId ? `/api/products/${editingId}` : '/api/products', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (response.ok) {
+        closeForm();
+        fetchProducts();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to save product');
+      }
+    } catch (error) {
+      console.error('Error saving product:', error);
+      setErrorMessage('Failed to save product');
+    }
+  };
+
+  const deactivateProduct = async (product: Product) => {
+    if (!confirm(`Deactivate ${product.name}? It will no longer be available at the till.`)) return;
+
+    try {
+      const response = await fetch(`/api/products/${product.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        fetchProducts();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to deactivate product');
+      }
+    } catch (error) {
+      console.error('Error deactivating product:', error);
+    }
+  };
+
+  const toggleHistory = async (product: Product) => {
+    if (historyFor === product.id) {
+      setHistoryFor(null);
+      return;
+    }
+
+    setHistoryFor(product.id);
+    setMovements([]);
+    try {
+      const response = await fetch(`/api/inventory/movements?productId=${product.id}&limit=20`);
+      if (response.ok) {
+        setMovements(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching stock movements:', error);
+    }
+  };
+
+  const isLowStock = (product: Product) =>
+    product.reorderLevel != null && Number(product.stockQty ?? 0) <= Number(product.reorderLevel);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+    }).format(amount);
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Products</h2>
+        <button
+          onClick={() => (showForm ? closeForm() : openForm())}
+          className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+        >
+          {showForm ? 'Cancel' : '+ Add Product'}
+        </button>
+      </div>
+
+      {!showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 border border-gray-200 dark:border-gray-700 flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            placeholder="Search by name or SKU..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className={inputClass}
+          />
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className={`${inputClass} md:w-56`}>
+            <option value="">All categories</option>
+            {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Show inactive
+          </label>
+        </div>
+      )}
+
+      {errorMessage && !showForm && (
+        <div className="rounded-lg border border-red-200 bg-red-50 text-red-700 px-4 py-3 text-sm">{errorMessage}</div>
+      )}
+
+      {showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+            {editingId ? 'Edit Product' : 'New Product'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {errorMessage && (
+              <div className="rounded-lg border border-red-200 bg-red-50 text-red-700 px-4 py-3 text-sm">
+                {errorMessage}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., Cement 50kg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">SKU (Optional)</label>
+                <input
+                  type="text"
+                  value={formData.sku}
+                  onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., CEM-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Category</label>
+                <select
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  className={inputClass}
+                >
+                  {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Price (KES)</label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                  className={inputClass}
+                  placeholder="850.00"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Average Cost (KES, Optional)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.cost}
+                  onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
+                  className={inputClass}
+                  placeholder="700.00"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {editingId ? 'Stock Count' : 'Opening Stock'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.stockQty}
+                  onChange={(e) => setFormData({ ...formData, stockQty: e.target.value })}
+                  className={inputClass}
+                  placeholder="0"
+                />
+                {editingId && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    A changed count is recorded as a stock adjustment
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Reorder Level (Optional)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.reorderLevel}
+                  onChange={(e) => setFormData({ ...formData, reorderLevel: e.target.value })}
+                  className={inputClass}
+                  placeholder="Alert when stock falls to this"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              {editingId ? 'Save Product' : 'Create Product'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              {searchQuery || category ? 'No products found matching your search.' : 'No products yet. Add your first product!'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Category
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Price
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Cost
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Stock
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {products.map((product) => (
+                  <Fragment key={product.id}>
+                    <tr className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${product.isActive ? '' : 'opacity-50'}`}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">{product.name}</div>
+                        <div className="font-mono text-xs text-gray-500 dark:text-gray-400">{product.productId}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-gray-600 dark:text-gray-400">
+                        {product.sku || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {CATEGORY_LABELS[product.category] || product.category}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(Number(product.price))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {product.cost != null ? formatCurrency(Number(product.cost)) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {Number(product.stockQty ?? 0)}
+                        {isLowStock(product) && (
+                          <span className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                            LOW
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap space-x-3">
+                        <button
+                          onClick={() => openForm(product)}
+                          className="text-green-600 hover:text-green-700 dark:text-green-400 text-sm font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleHistory(product)}
+                          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 text-sm font-medium"
+                        >
+                          {historyFor === product.id ? 'Hide History' : 'History'}
+                        </button>
+                        {product.isActive ? (
+                          <button
+                            onClick={() => deactivateProduct(product)}
+                            className="text-red-600 hover:text-red-700 dark:text-red-400 text-sm font-medium"
+                          >
+                            Deactivate
+                          </button>
+                        ) : (
+                          <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">INACTIVE</span>
+                        )}
+                      </td>
+                    </tr>
+                    {historyFor === product.id && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-3 bg-gray-50 dark:bg-gray-900">
+                          {movements.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">No stock movements yet.</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {movements.map((movement) => (
+                                <li key={movement.id} className="text-sm text-gray-600 dark:text-gray-400">
+                                  <span className="font-mono">{new Date(movement.createdAt).toLocaleString()}</span>{' '}
+                                  <span className="font-semibold">{movement.type}</span>{' '}
+                                  {Number(movement.quantity) > 0 ? '+' : ''}
+                                  {Number(movement.quantity)} → {Number(movement.balanceAfter)}
+                                  {movement.unitCost != null && ` @ ${formatCurrency(Number(movement.unitCost))}`}
+                                  {movement.reference && ` · ${movement.reference}`}
+                                  {movement.notes && ` · ${movement.notes}`}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
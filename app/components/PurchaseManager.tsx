@@ -0,0 +1,683 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+
+interface Supplier {
+  id: string;
+  supplierId: string;
+  name: string;
+  contactName?: string | null;
+  phone?: string | null;
+}
+
+interface Product {
+  id: string;
+  productId: string;
+  name: string;
+  cost?: number | null;
+  category: string;
+}
+
+interface PurchaseOrderItem {
+  id: string;
+  productId: string;
+  quantity: number;
+  unitCost: number;
+  total: number;
+  quantityReceived: number;
+  product: { productId: string; name: string };
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: string;
+  total: number;
+  expectedDate?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  supplier: Supplier;
+  items: PurchaseOrderItem[];
+}
+
+interface OrderLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  ORDERED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  PARTIALLY_RECEIVED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  RECEIVED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  CANCELLED: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const EMPTY_SUPPLIER = {
+  name: '',
+  contactName: '',
+  phone: '',
+  email: '',
+  kraPin: '',
+  paybillNumber: '',
+  paybillAccount: '',
+  tillNumber: '',
+};
+const EMPTY_LINE: OrderLine = { productId: '', quantity: '', unitCost: '' };
+
+export default function PurchaseManager() {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [form, setForm] = useState<'order' | 'supplier' | null>(null);
+  const [supplierData, setSupplierData] = useState(EMPTY_SUPPLIER);
+  const [orderSupplier, setOrderSupplier] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [orderNotes, setOrderNotes] = useState('');
+  const [lines, setLines] = useState<OrderLine[]>([EMPTY_LINE]);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [received, setReceived] = useState<Record<string, { quantity: string; unitCost: string }>>({});
+  const [deliveryNote, setDeliveryNote] = useState('');
+
+  useEffect(() => {
+    fetchOrders();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchSuppliers();
+    fetchProducts();
+  }, []);
+
+  const fetchOrders = async () => {
+    try {
+      const response = await fetch(`/api/purchase-orders${statusFilter ? `?status=${statusFilter}` : ''}`);
+      if (response.ok) {
+        setOrders(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await fetch('/api/suppliers');
+      if (response.ok) {
+        setSuppliers(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products');
+      if (response.ok) {
+        const data: Product[] = await response.json();
+        setProducts(data.filter((product) => product.category !== 'SERVICES'));
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  const openForm = (next: 'order' | 'supplier') => {
+    setErrorMessage(null);
+    setForm(form === next ? null : next);
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setSupplierData(EMPTY_SUPPLIER);
+    setOrderSupplier('');
+    setExpectedDate('');
+    setOrderNotes('');
+    setLines([EMPTY_LINE]);
+  };
+
+  const updateLine = (index: number, changes: Partial<OrderLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    // Start from what the product last cost us
+    const product = products.find((p) => p.id === productId);
+    updateLine(index, { productId, unitCost: product?.cost != null ? String(product.cost) : '' });
+  };
+
+  const orderTotal = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  const submitJson = async (url: string, method: string, body: unknown, failure: string): Promise<boolean> => {
+    setErrorMessage(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      if (response.ok) return true;
+
+      const data = await response.json();
+      setErrorMessage(data?.error || failure);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setErrorMessage(failure);
+    }
+    return false;
+  };
+
+  const handleSupplierSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = {
+      name: supplierData.name,
+      ...(supplierData.contactName && { contactName: supplierData.contactName }),
+      ...(supplierData.phone && { phone: supplierData.phone }),
+      ...(supplierData.email && { email: supplierData.email }),
+      ...(supplierData.kraPin && { kraPin: supplierData.kraPin }),
+      ...(supplierData.paybillNumber && { paybillNumber: supplierData.paybillNumber }),
+      ...(supplierData.paybillAccount && { paybillAccount: supplierData.paybillAccount }),
+      ...(supplierData.tillNumber && { tillNumber: supplierData.tillNumber }),
+    };
+
+    if (await submitJson('/api/suppliers', 'POST', payload, 'Failed to save supplier')) {
+      closeForm();
+      fetchSuppliers();
+    }
+  };
+
+  const handleOrderSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = {
+      supplierId: orderSupplier,
+      items: lines
+        .filter((line) => line.productId)
+        .map((line) => ({
+          productId: line.productId,
+          quantity: parseFloat(line.quantity),
+          unitCost: parseFloat(line.unitCost),
+        })),
+      ...(expectedDate && { expectedDate: new Date(expectedDate).toISOString() }),
+      ...(orderNotes && { notes: orderNotes }),
+    };
+
+    if (await submitJson('/api/purchase-orders', 'POST', payload, 'Failed to create purchase order')) {
+      closeForm();
+      fetchOrders();
+    }
+  };
+
+  const toggleReceiving = (order: PurchaseOrder) => {
+    if (receivingId === order.id) {
+      setReceivingId(null);
+      return;
+    }
+
+    // Default to everything still outstanding at the ordered price
+    setErrorMessage(null);
+    setDeliveryNote('');
+    setReceived(
+      Object.fromEntries(
+        order.items.map((item) => [
+          item.id,
+          {
+            quantity: String(Math.max(Number(item.quantity) - Number(item.quantityReceived), 0)),
+            unitCost: String(Number(item.unitCost)),
+          },
+        ])
+      )
+    );
+    setReceivingId(order.id);
+  };
+
+  const handleReceive = async (order: PurchaseOrder) => {
+    const payload = {
+      items: order.items
+        .filter((item) => parseFloat(received[item.id]?.quantity) > 0)
+        .map((item) => ({
+          purchaseOrderItemId: item.id,
+          quantity: parseFloat(received[item.id].quantity),
+          unitCost: parseFloat(received[item.id].unitCost),
+        })),
+      ...(deliveryNote && { deliveryNote }),
+    };
+
+    if (payload.items.length === 0) {
+      setErrorMessage('Enter a quantity for at least one line');
+      return;
+    }
+
+    if (await submitJson(`/api/purchase-orders/${order.id}/receive`, 'POST', payload, 'Failed to receive goods')) {
+      setReceivingId(null);
+      fetchOrders();
+    }
+  };
+
+  const cancelOrder = async (order: PurchaseOrder) => {
+    const reason = prompt(`Cancel what is still outstanding on ${order.poNumber}? Reason:`);
+    if (reason === null) return;
+
+    const query = reason ? `?reason=${encodeURIComponent(reason)}` : '';
+    if (await submitJson(`/api/purchase-orders/${order.id}${query}`, 'DELETE', undefined, 'Failed to cancel order')) {
+      fetchOrders();
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+    }).format(amount);
+  };
+
+  const isOpen = (order: PurchaseOrder) => order.status === 'ORDERED' || order.status === 'PARTIALLY_RECEIVED';
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Purchasing</h2>
+        <div className="flex gap-3">
+          <button
+            onClick={() => openForm('supplier')}
+            className="bg-white dark:bg-gray-800 border border-green-600 text-green-700 dark:text-green-400 px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            {form === 'supplier' ? 'Cancel' : '+ Add Supplier'}
+          </button>
+          <button
+            onClick={() => openForm('order')}
+            className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            {form === 'order' ? 'Cancel' : '+ New Order'}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="rounded-lg border border-red-200 bg-red-50 text-red-700 px-4 py-3 text-sm">{errorMessage}</div>
+      )}
+
+      {form === 'supplier' && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">New Supplier</h3>
+          <form onSubmit={handleSupplierSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  required
+                  value={supplierData.name}
+                  onChange={(e) => setSupplierData({ ...supplierData, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., Mabati Steel Ltd"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Contact Person (Optional)</label>
+                <input
+                  type="text"
+                  value={supplierData.contactName}
+                  onChange={(e) => setSupplierData({ ...supplierData, contactName: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Phone (Optional)</label>
+                <input
+                  type="tel"
+                  value={supplierData.phone}
+                  onChange={(e) => setSupplierData({ ...supplierData, phone: e.target.value })}
+                  className={inputClass}
+                  placeholder="254712345678"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Email (Optional)</label>
+                <input
+                  type="email"
+                  value={supplierData.email}
+                  onChange={(e) => setSupplierData({ ...supplierData, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>KRA PIN (Optional)</label>
+                <input
+                  type="text"
+                  value={supplierData.kraPin}
+                  onChange={(e) => setSupplierData({ ...supplierData, kraPin: e.target.value })}
+                  className={inputClass}
+                  placeholder="P051234567X"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Till Number (Optional)</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={supplierData.tillNumber}
+                  onChange={(e) => setSupplierData({ ...supplierData, tillNumber: e.target.value })}
+                  className={inputClass}
+                  placeholder="Buy Goods till for bill payments"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>PayBill Number (Optional)</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={supplierData.paybillNumber}
+                  onChange={(e) => setSupplierData({ ...supplierData, paybillNumber: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., 522522"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>PayBill Account (Optional)</label>
+                <input
+                  type="text"
+                  value={supplierData.paybillAccount}
+                  onChange={(e) => setSupplierData({ ...supplierData, paybillAccount: e.target.value })}
+                  className={inputClass}
+                  placeholder="Our account number with them"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              Create Supplier
+            </button>
+          </form>
+        </div>
+      )}
+
+      {form === 'order' && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">New Purchase Order</h3>
+          <form onSubmit={handleOrderSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Supplier</label>
+                <select
+                  required
+                  value={orderSupplier}
+                  onChange={(e) => setOrderSupplier(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Select a supplier</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name} ({supplier.supplierId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Expected Delivery (Optional)</label>
+                <input
+                  type="date"
+                  value={expectedDate}
+                  onChange={(e) => setExpectedDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-6">
+                    {index === 0 && <label className={labelClass}>Product</label>}
+                    <select
+                      required
+                      value={line.productId}
+                      onChange={(e) => selectProduct(index, e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Select a product</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name} ({product.productId})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    {index === 0 && <label className={labelClass}>Qty</label>}
+                    <input
+                      type="number"
+                      required
+                      min="0.01"
+                      step="0.01"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="col-span-3">
+                    {index === 0 && <label className={labelClass}>Unit Cost (KES)</label>}
+                    <input
+                      type="number"
+                      required
+                      min="0"
+                      step="0.01"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="col-span-1">
+                    <button
+                      type="button"
+                      onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                      disabled={lines.length === 1}
+                      className="w-full py-2 text-red-600 hover:text-red-700 disabled:opacity-30 text-sm font-medium"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setLines([...lines, EMPTY_LINE])}
+                className="text-green-600 hover:text-green-700 dark:text-green-400 text-sm font-medium"
+              >
+                + Add line
+              </button>
+            </div>
+
+            <div>
+              <label className={labelClass}>Notes (Optional)</label>
+              <input
+                type="text"
+                value={orderNotes}
+                onChange={(e) => setOrderNotes(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Deliver to the yard gate"
+              />
+            </div>
+
+            <div className="flex justify-between items-center text-lg font-semibold text-gray-900 dark:text-white">
+              <span>Total</span>
+              <span>{formatCurrency(orderTotal)}</span>
+            </div>
+
+            <button
+              type="submit"
+              className="w-full bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              Create Purchase Order
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 border border-gray-200 dark:border-gray-700">
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={`${inputClass} md:w-64`}>
+          <option value="">All orders</option>
+          <option value="ORDERED">Ordered</option>
+          <option value="PARTIALLY_RECEIVED">Partially received</option>
+          <option value="RECEIVED">Received</option>
+          <option value="CANCELLED">Cancelled</option>
+        </select>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              {statusFilter ? 'No purchase orders with this status.' : 'No purchase orders yet. Raise your first order!'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className={headerClass}>Order</th>
+                  <th className={headerClass}>Supplier</th>
+                  <th className={headerClass}>Lines</th>
+                  <th className={headerClass}>Total</th>
+                  <th className={headerClass}>Expected</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {orders.map((order) => (
+                  <Fragment key={order.id}>
+                    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="font-mono text-sm font-medium text-gray-900 dark:text-white">{order.poNumber}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(order.createdAt).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {order.supplier.name}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                        {order.items.map((item) => (
+                          <div key={item.id}>
+                            {item.product.name}: {Number(item.quantityReceived)}/{Number(item.quantity)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(Number(order.total))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {order.expectedDate ? new Date(order.expectedDate).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[order.status]}`}>
+                          {order.status.replace('_', ' ')}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap space-x-3">
+                        {isOpen(order) && (
+                          <>
+                            <button
+                              onClick={() => toggleReceiving(order)}
+                              className="text-green-600 hover:text-green-700 dark:text-green-400 text-sm font-medium"
+                            >
+                              {receivingId === order.id ? 'Close' : 'Receive'}
+                            </button>
+                            <button
+                              onClick={() => cancelOrder(order)}
+                              className="text-red-600 hover:text-red-700 dark:text-red-400 text-sm font-medium"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                    {receivingId === order.id && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50 dark:bg-gray-900">
+                          <div className="space-y-3">
+                            {order.items.map((item) => (
+                              <div key={item.id} className="grid grid-cols-12 gap-2 items-center text-sm">
+                                <div className="col-span-6 text-gray-700 dark:text-gray-300">
+                                  {item.product.name}
+                                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                    outstanding {Number(item.quantity) - Number(item.quantityReceived)}
+                                  </span>
+                                </div>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={received[item.id]?.quantity ?? ''}
+                                  onChange={(e) =>
+                                    setReceived({ ...received, [item.id]: { ...received[item.id], quantity: e.target.value } })
+                                  }
+                                  className={`${inputClass} col-span-3`}
+                                  aria-label="Quantity received"
+                                />
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={received[item.id]?.unitCost ?? ''}
+                                  onChange={(e) =>
+                                    setReceived({ ...received, [item.id]: { ...received[item.id], unitCost: e.target.value } })
+                                  }
+                                  className={`${inputClass} col-span-3`}
+                                  aria-label="Invoiced unit cost"
+                                />
+                              </div>
+                            ))}
+                            <div className="flex flex-col md:flex-row gap-3">
+                              <input
+                                type="text"
+                                value={deliveryNote}
+                                onChange={(e) => setDeliveryNote(e.target.value)}
+                                className={inputClass}
+                                placeholder="Supplier delivery note number (optional)"
+                              />
+                              <button
+                                onClick={() => handleReceive(order)}
+                                className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium transition-colors whitespace-nowrap"
+                              >
+                                Record Goods Received
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertIcon } from './Icons';
+
+interface UnmatchedPayment {
+  id: string;
+  mpesaReceiptNumber: string;
+  accountReference: string;
+  amount: number;
+  phone: string;
+  transactionDate: string;
+  matchMethod?: string;
+  matchConfidence?: number;
+  suggestedCustomerId?: string;
+  suggestedInvoiceId?: string;
+}
+
+interface OutstandingInvoice {
+  id: string;
+  invoiceId: string;
+  balance: number;
+  status: string;
+}
+
+export default function UnmatchedPayments() {
+  const [payments, setPayments] = useState<UnmatchedPayment[]>([]);
+  const [customers, setCustomers] = useState<any[]>([]);
+  const [invoices, setInvoices] = useState<OutstandingInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedPayment, setSelectedPayment] = useState<UnmatchedPayment | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    customerId: '',
+    invoiceId: '',
+  });
+
+  useEffect(() => {
+    fetchPayments();
+    fetchCustomers();
+  }, []);
+
+  useEffect(() => {
+    if (formData.customerId) {
+      fetchInvoices(formData.customerId);
+    } else {
+      setInvoices([]);
+    }
+  }, [formData.customerId]);
+
+  const fetchPayments = async () => {
+    try {
+      const response = await fetch('/api/payments/unmatched');
+      if (response.ok) {
+        const data = await response.json();
+        setPayments(data);
+      }
+    } catch (error) {
+      console.error('Error fetching unmatched payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCustomers = async () => {
+    try {
+      const response = await fetch('/api/customers');
+      if (response.ok) {
+        const data = await response.json();
+        setCustomers(data);
+      }
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+    }
+  };
+
+  const fetchInvoices = async (customerId: string) => {
+    try {
+      const response = await fetch(`/api/invoices?customerId=${encodeURIComponent(customerId)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setInvoices(
+          data.filter((invoice: OutstandingInvoice) =>
+            ['UNPAID', 'PARTIALLY_PAID'].includes(invoice.status)
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+    }
+  };
+
+  const openAssign = (payment: UnmatchedPayment) => {
+    setSelectedPayment(payment);
+    setErrorMessage(null);
+    setFormData({
+      customerId: payment.suggestedCustomerId || '',
+      invoiceId: payment.suggestedInvoiceId || '',
+    });
+  };
+
+  const closeAssign = () => {
+    setSelectedPayment(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPayment) return;
+
+    setSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch('/api/payments/unmatched', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          paymentId: selectedPayment.id,
+          customerId: formData.customerId,
+          invoiceId: formData.invoiceId || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        closeAssign();
+        fetchPayments();
+      } else {
+        const data = await response.json();
+        setErrorMessage(data?.error || 'Failed to assign payment');
+      }
+    } catch (error) {
+      console.error('Error assigning payment:', error);
+      setErrorMessage('Failed to assign payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+    }).format(amount);
+  };
+
+  const getSuggestedCustomer = (payment: UnmatchedPayment) => {
+    return customers.find((customer) => customer.id === payment.suggestedCustomerId);
+  };
+
+  const totalHeld = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Unmatched Payments</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Payments with an unknown or uncertain account number, held in suspense until assigned
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Held in Suspense</p>
+          <p className="text-lg font-bold text-orange-600 dark:text-orange-400">{formatCurrency(totalHeld)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+          </div>
+        ) : payments.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">No unmatched payments. Every shilling is accounted for.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    M-Pesa Receipt
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Account Entered
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Suggested Match
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Phone
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {payments.map((payment) => (
+                  <tr key={payment.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {new Date(payment.transactionDate).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="font-mono text-sm font-medium text-gray-900 dark:text-white">
+                        {payment.mpesaReceiptNumber}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="font-mono text-sm text-red-600 dark:text-red-400">
+                        {payment.accountReference}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {payment.suggestedCustomerId ? (
+                        <div>
+                          <div className="font-mono text-gray-900 dark:text-white">
+                            {getSuggestedCustomer(payment)?.customerId || '-'}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {payment.matchMethod} • {Math.round(Number(payment.matchConfidence) * 100)}% confidence
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-gray-400 dark:text-gray-500">None</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {payment.phone}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(Number(payment.amount))}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => openAssign(payment)}
+                        className="text-orange-600 hover:text-orange-700 dark:text-orange-400 dark:hover:text-orange-300 text-sm font-medium"
+                      >
+                        Assign
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedPayment && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Assign Payment</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {selectedPayment.mpesaReceiptNumber} • {formatCurrency(Number(selectedPayment.amount))}
+                </p>
+              </div>
+              <button
+                onClick={closeAssign}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                Close
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              {errorMessage && (
+                <div className="bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-700 rounded-lg p-3 flex gap-2 text-sm text-red-800 dark:text-red-200">
+                  <AlertIcon />
+                  <span>{errorMessage}</span>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Customer
+                </label>
+                <select
+                  required
+                  value={formData.customerId}
+                  onChange={(e) => setFormData({ customerId: e.target.value, invoiceId: '' })}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-orange-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="">Select a customer</option>
+                  {customers.map((customer) => (
+                    <option key={customer.id} value={customer.id}>
+                      {customer.name} ({customer.customerId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Invoice (optional)
+                </label>
+                <select
+                  value={formData.invoiceId}
+                  onChange={(e) => setFormData({ ...formData, invoiceId: e.target.value })}
+                  disabled={!formData.customerId}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-orange-500 dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                >
+                  <option value="">Oldest unpaid invoices first</option>
+                  {invoices.map((invoice) => (
+                    <option key={invoice.id} value={invoice.id}>
+                      {invoice.invoiceId} ({formatCurrency(Number(invoice.balance))} due)
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full bg-orange-600 hover:bg-orange-700 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Assigning...' : 'Assign Payment'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
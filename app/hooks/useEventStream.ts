@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { AppEvent, AppEventType } from '@/lib/event-bus';
+
+/**
+ * Subscribe to the /api/events Server-Sent Events stream
+ *
+ * EventSource reconnects on its own after network drops; `connected`
+ * reflects the current state for "Live" indicators.
+ */
+export function useEventStream(
+  types: AppEventType[],
+  onEvent: (event: AppEvent) => void,
+  channel?: { customerId?: string; branchId?: string }
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  const typesKey = types.join(',');
+  const customerId = channel?.customerId;
+  const branchId = channel?.branchId;
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (customerId) params.set('customerId', customerId);
+    if (branchId) params.set('branchId', branchId);
+
+    const query = params.toString();
+    const source = new EventSource(`/api/events${query ? `?${query}` : ''}`);
+
+    const handleMessage = (message: MessageEvent) => {
+      try {
+        handlerRef.current(JSON.parse(message.data));
+      } catch (error) {
+        console.error('Error handling event:', error);
+      }
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    const eventTypes = typesKey.split(',');
+    eventTypes.forEach((type) => source.addEventListener(type, handleMessage));
+
+    return () => {
+      eventTypes.forEach((type) => source.removeEventListener(type, handleMessage));
+      source.close();
+    };
+  }, [typesKey, customerId, branchId]);
+
+  return connected;
+}
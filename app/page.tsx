@@ -6,16 +6,26 @@ import Dashboard from './components/Dashboard';
 import CustomerManager from './components/CustomerManager';
 import InvoiceManager from './components/InvoiceManager';
 import POSManager from './components/POSManager';
+import ProductManager from './components/ProductManager';
+import PurchaseManager from './components/PurchaseManager';
+import PayablesManager from './components/PayablesManager';
 import PaymentMonitor from './components/PaymentMonitor';
+import UnmatchedPayments from './components/UnmatchedPayments';
+import MpesaSettings from './components/MpesaSettings';
 import {
   DashboardIcon,
   PaymentIcon,
   CustomersIcon,
   InvoicesIcon,
   POSIcon,
+  ProductsIcon,
+  PurchasingIcon,
+  PayablesIcon,
+  UnmatchedIcon,
+  SettingsIcon,
 } from './components/Icons';
  
-type Tab = 'dashboard' | 'customers' | 'invoices' | 'pos' | 'payments';
+type Tab = 'dashboard' | 'customers' | 'invoices' | 'pos' | 'products' | 'purchasing' | 'payables' | 'payments' | 'unmatched' | 'settings';
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
@@ -26,6 +36,11 @@ export default function Home() {
     { id: 'customers' as Tab, name: 'Customers', icon: CustomersIcon },
     { id: 'invoices' as Tab, name: 'Invoices', icon: InvoicesIcon },
     { id: 'pos' as Tab, name: 'POS Sales', icon: POSIcon },
+    { id: 'products' as Tab, name: 'Products', icon: ProductsIcon },
+    { id: 'purchasing' as Tab, name: 'Purchasing', icon: PurchasingIcon },
+    { id: 'payables' as Tab, name: 'Payables', icon: PayablesIcon },
+    { id: 'unmatched' as Tab, name: 'Unmatched', icon: UnmatchedIcon },
+    { id: 'settings' as Tab, name: 'Settings', icon: SettingsIcon },
   ];
 
   return (
@@ -85,7 +100,12 @@ export default function Home() {
         {activeTab === 'customers' && <CustomerManager />}
         {activeTab === 'invoices' && <InvoiceManager />}
         {activeTab === 'pos' && <POSManager />}
+        {activeTab === 'products' && <ProductManager />}
+        {activeTab === 'purchasing' && <PurchaseManager />}
+        {activeTab === 'payables' && <PayablesManager />}
         {activeTab === 'payments' && <PaymentMonitor />}
+        {activeTab === 'unmatched' && <UnmatchedPayments />}
+        {activeTab === 'settings' && <MpesaSettings />}
       </main>
 
       {/* Navigation Tabs (Mobile Bottom) */}
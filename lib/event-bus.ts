@@ -0,0 +1,84 @@
+/**
+ * Kelly OS — In-Process Event Bus
+ *
+ * PURPOSE:
+ * Fan out business events (payments, invoices, POS status) to
+ * dashboards connected over Server-Sent Events (/api/events)
+ *
+ * CHANNELS:
+ * - all                  Every event
+ * - customer:<id>        Events for one customer (internal ID)
+ * - branch:<id>          POS events for one branch
+ *
+ * Single-process only: with several server instances each one only sees
+ * its own events. Swap the emitter for Redis pub/sub when scaling out.
+ */
+
+import { EventEmitter } from 'events';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AppEventType =
+  | 'payment.received'
+  | 'payment.unmatched'
+  | 'payment.reversed'
+  | 'payment.reallocated'
+  | 'invoice.created'
+  | 'pos.created'
+  | 'pos.paid'
+  | 'pos.cancelled'
+  | 'pos.reopened'
+  | 'refund.completed'
+  | 'refund.failed'
+  | 'stock.moved'
+  | 'bill.paid'
+  | 'bill.payment_failed';
+
+export interface AppEvent {
+  type: AppEventType;
+  customerId?: string | null;
+  branchId?: string | null;
+  data: Record<string, any>;
+  timestamp: string;
+}
+
+export type AppEventListener = (event: AppEvent) => void;
+
+// ============================================================================
+// EVENT BUS
+// ============================================================================
+
+const globalForEvents = global as unknown as { eventBus: EventEmitter };
+
+// Survive hot reloads so API routes and services share one emitter
+const eventBus = globalForEvents.eventBus || new EventEmitter();
+eventBus.setMaxListeners(0); // One listener per connected dashboard
+
+globalForEvents.eventBus = eventBus;
+
+/**
+ * Publish an event to "all" plus its customer and branch channels
+ */
+export function publishEvent(event: Omit<AppEvent, 'timestamp'>): void {
+  const payload: AppEvent = { ...event, timestamp: new Date().toISOString() };
+
+  eventBus.emit('all', payload);
+  if (event.customerId) eventBus.emit(`customer:${event.customerId}`, payload);
+  if (event.branchId) eventBus.emit(`branch:${event.branchId}`, payload);
+
+  console.log('📡 Event published:', { type: event.type, customerId: event.customerId });
+}
+
+/**
+ * Subscribe to a channel ("all", "customer:<id>", "branch:<id>")
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribe(channel: string, listener: AppEventListener): () => void {
+  eventBus.on(channel, listener);
+  return () => {
+    eventBus.off(channel, listener);
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Kelly OS — Row Locks
+ *
+ * PURPOSE:
+ * Serialise concurrent writes to the same customer's money
+ *
+ * Payments, invoices, credit, refunds, reversals and reallocations all
+ * change a customer's balance, their invoices' amountPaid / balance and
+ * their payments' unappliedAmount. Each of those transactions locks the
+ * customer row first (SELECT ... FOR UPDATE), so a second transaction for
+ * the same customer waits until the first commits and then reads its
+ * results instead of overwriting them.
+ *
+ * RULES:
+ * 1. Lock before reading anything the transaction will write back
+ * 2. One customer per transaction (no lock ordering to get wrong)
+ * 3. Balances still move with atomic increment / decrement
+ *
+ * Reversals also lock the payment row, after its customer if it has one:
+ * unmatched payments have no customer to lock.
+ *
+ * Stock receipts lock the product row the same way: the weighted-average
+ * cost is read, recalculated and written back. Goods received notes lock
+ * their purchase order first, then its products in id order.
+ */
+
+/**
+ * Lock a customer row until the surrounding transaction ends
+ *
+ * @param tx - Interactive transaction client (prisma.$transaction callback)
+ */
+export async function lockCustomer(tx: any, customerId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM customers WHERE id = ${customerId} FOR UPDATE`;
+}
+
+/**
+ * Lock a payment row until the surrounding transaction ends
+ * (lock its customer first, if it has one)
+ *
+ * @param tx - Interactive transaction client (prisma.$transaction callback)
+ */
+export async function lockPayment(tx: any, paymentId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM payments WHERE id = ${paymentId} FOR UPDATE`;
+}
+
+/**
+ * Lock a product row until the surrounding transaction ends
+ *
+ * @param tx - Interactive transaction client (prisma.$transaction callback)
+ */
+export async function lockProduct(tx: any, productId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM products WHERE id = ${productId} FOR UPDATE`;
+}
+
+/**
+ * Lock a purchase order row until the surrounding transaction ends
+ * (two deliveries against one order must not both receive the same outstanding quantity)
+ *
+ * @param tx - Interactive transaction client (prisma.$transaction callback)
+ */
+export async function lockPurchaseOrder(tx: any, purchaseOrderId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM purchase_orders WHERE id = ${purchaseOrderId} FOR UPDATE`;
+}
+
+/**
+ * Lock a supplier bill row until the surrounding transaction ends
+ * (two payment results for one bill must each see the other's amountPaid)
+ *
+ * @param tx - Interactive transaction client (prisma.$transaction callback)
+ */
+export async function lockSupplierBill(tx: any, billId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM supplier_bills WHERE id = ${billId} FOR UPDATE`;
+}
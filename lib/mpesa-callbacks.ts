@@ -0,0 +1,157 @@
+/**
+ * Kelly OS — M-Pesa Callback Schemas
+ *
+ * PURPOSE:
+ * Shared parsing of Daraja callback payloads, used by the webhook routes
+ * and by the failed-webhook replay queue (which re-parses stored payloads)
+ */
+
+import { z } from 'zod';
+import { parseMpesaTimestamp } from './mpesa-client';
+import type { ProcessPaymentParams } from './services/payment-processor';
+
+// ============================================================================
+// C2B CALLBACK
+// ============================================================================
+
+export const MpesaCallbackSchema = z.object({
+  TransactionType: z.string(),
+  TransID: z.string(), // Unique transaction ID from Safaricom
+  TransTime: z.string(), // Format: YYYYMMDDHHmmss
+  TransAmount: z.string(), // Amount as string, e.g., "1000.00"
+  BusinessShortCode: z.string(), // PayBill / Till that received it (selects the MpesaConfig)
+  BillRefNumber: z.string(), // Account Number (customerId or invoiceId)
+  InvoiceNumber: z.string().optional(),
+  OrgAccountBalance: z.string().optional(),
+  ThirdPartyTransID: z.string().optional(),
+  MSISDN: z.string(), // Customer phone: 254712345678
+  FirstName: z.string(),
+  MiddleName: z.string().optional(),
+  LastName: z.string().optional(),
+});
+
+export type MpesaCallback = z.infer<typeof MpesaCallbackSchema>;
+
+// Some M-Pesa callbacks wrap data in a Result object
+const MpesaWrapperSchema = z.object({
+  Result: MpesaCallbackSchema,
+});
+
+/**
+ * Parse a C2B callback sent either directly or wrapped in "Result"
+ *
+ * @throws ZodError if neither format matches
+ */
+export function parseC2BCallback(payload: unknown): MpesaCallback {
+  try {
+    return MpesaCallbackSchema.parse(payload);
+  } catch {
+    // Try wrapped format
+    return MpesaWrapperSchema.parse(payload).Result;
+  }
+}
+
+/**
+ * Extract processPayment parameters from a C2B callback
+ */
+export function toPaymentParams(callback: MpesaCallback): ProcessPaymentParams {
+  return {
+    mpesaReceiptNumber: callback.TransID,
+    transactionId: callback.ThirdPartyTransID || callback.TransID,
+    accountReference: callback.BillRefNumber,
+    amount: parseFloat(callback.TransAmount),
+    phone: callback.MSISDN,
+    transactionDate: parseMpesaTimestamp(callback.TransTime),
+    businessShortCode: callback.BusinessShortCode,
+  };
+}
+
+// ============================================================================
+// STK PUSH CALLBACK
+// ============================================================================
+
+export const StkCallbackSchema = z.object({
+  Body: z.object({
+    stkCallback: z.object({
+      MerchantRequestID: z.string(),
+      CheckoutRequestID: z.string(),
+      ResultCode: z.coerce.number(), // 0 = success
+      ResultDesc: z.string(),
+      CallbackMetadata: z
+        .object({
+          Item: z.array(
+            z.object({
+              Name: z.string(),
+              Value: z.union([z.string(), z.number()]).optional(),
+            })
+          ),
+        })
+        .optional(),
+    }),
+  }),
+});
+
+/**
+ * Whether a stored payload came from the STK Push callback
+ */
+export function isStkCallbackPayload(payload: any): boolean {
+  return !!payload?.Body?.stkCallback;
+}
+
+// ============================================================================
+// ASYNC RESULT CALLBACK (B2C, REVERSAL, STATUS, BALANCE)
+// ============================================================================
+
+export const MpesaResultSchema = z.object({
+  Result: z.object({
+    ResultType: z.coerce.number().optional(),
+    ResultCode: z.coerce.number(), // 0 = success
+    ResultDesc: z.string(),
+    OriginatorConversationID: z.string(),
+    ConversationID: z.string(),
+    TransactionID: z.string().optional(),
+    ResultParameters: z
+      .object({
+        ResultParameter: z.union([
+          z.array(
+            z.object({
+              Key: z.string(),
+              Value: z.union([z.string(), z.number()]).optional(),
+            })
+          ),
+          // Single parameters are sometimes sent as an object
+          z.object({
+            Key: z.string(),
+            Value: z.union([z.string(), z.number()]).optional(),
+          }),
+        ]),
+      })
+      .optional(),
+  }),
+});
+
+export type MpesaResult = z.infer<typeof MpesaResultSchema>['Result'];
+
+/**
+ * Whether a stored payload came from an async result callback
+ */
+export function isMpesaResultPayload(payload: any): boolean {
+  return !!payload?.Result?.ConversationID;
+}
+
+/**
+ * Flatten Result.ResultParameters into a Key → Value object
+ * Example: { TransactionReceipt: "QKL...", TransactionAmount: 500 }
+ */
+export function parseResultParameters(result: MpesaResult): Record<string, string | number | undefined> {
+  const parameters = result.ResultParameters?.ResultParameter;
+  const list = Array.isArray(parameters) ? parameters : parameters ? [parameters] : [];
+  return Object.fromEntries(list.map((parameter) => [parameter.Key, parameter.Value]));
+}
+
+/**
+ * Read a ResultParameter value by key (e.g. "TransactionReceipt")
+ */
+export function getResultParameter(result: MpesaResult, key: string): string | number | undefined {
+  return parseResultParameters(result)[key];
+}
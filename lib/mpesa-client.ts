@@ -4,24 +4,78 @@
  * PURPOSE:
  * Interact with Safaricom M-Pesa Daraja API for:
  * - C2B registration
- * - STK Push (future)
+ * - STK Push (Lipa na M-Pesa Online)
+ * - B2C payouts (refunds, supplier payments)
+ * - B2B payments (supplier bills to a PayBill or till)
+ * - Transaction reversals
  * - Transaction status queries
  * - Account balance
  */
 
 import axios from 'axios';
+import { generateSecurityCredential, MpesaEnvironment } from './mpesa-security';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface MpesaConfig {
+export type ShortCodeKind = 'PAYBILL' | 'TILL';
+
+export interface MpesaClientConfig {
   consumerKey: string;
   consumerSecret: string;
-  shortCode: string;
+  shortCode: string; // PayBill or Till number
+  shortCodeType?: ShortCodeKind; // Defaults to PAYBILL
+  storeNumber?: string; // Till head-office number, used as the STK BusinessShortCode
   passkey: string;
-  environment: 'sandbox' | 'production';
+  environment: MpesaEnvironment;
+  baseUrl?: string; // Overrides the Safaricom host, e.g. the local Daraja emulator
   callbackUrl: string;
+  initiatorName?: string;
+  initiatorPassword?: string;
+  securityCredential?: string; // Pre-encrypted credential (skips certificate encryption)
+  certificatePath?: string;
+  validationUrl?: string;
+  stkCallbackUrl?: string;
+  b2cResultUrl?: string;
+  b2cTimeoutUrl?: string;
+  b2bResultUrl?: string;
+  b2bTimeoutUrl?: string;
+  reversalResultUrl?: string;
+  reversalTimeoutUrl?: string;
+}
+
+export interface StkPushParams {
+  amount: number; // Whole shillings
+  phoneNumber: string; // Phone: 254712345678
+  accountReference: string;
+  transactionDesc: string;
+  callbackURL?: string;
+}
+
+export interface StkPushResponse {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+  CustomerMessage: string;
+}
+
+export interface StkQueryResponse {
+  ResponseCode: string;
+  ResponseDescription: string;
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: string;
+  ResultDesc: string;
+}
+
+// Synchronous acknowledgement of async initiator requests (B2C, B2B, reversal, status, balance)
+export interface MpesaAsyncResponse {
+  ConversationID: string;
+  OriginatorConversationID: string;
+  ResponseCode: string; // "0" = accepted for processing
+  ResponseDescription: string;
 }
 
 interface C2BRegisterParams {
@@ -36,17 +90,19 @@ interface C2BRegisterParams {
 // ============================================================================
 
 export class MpesaClient {
-  private config: MpesaConfig;
+  private config: MpesaClientConfig;
   private baseUrl: string;
   private accessToken?: string;
   private tokenExpiry?: Date;
+  private securityCredential?: string;
 
-  constructor(config: MpesaConfig) {
+  constructor(config: MpesaClientConfig) {
     this.config = config;
     this.baseUrl =
-      config.environment === 'production'
+      config.baseUrl ||
+      (config.environment === 'production'
         ? 'https://api.safaricom.co.ke'
-        : 'https://sandbox.safaricom.co.ke';
+        : 'https://sandbox.safaricom.co.ke');
   }
 
   /**
@@ -76,6 +132,41 @@ export class MpesaClient {
     return this.accessToken!;
   }
 
+  /**
+   * Initiator name and SecurityCredential for B2C, reversal,
+   * transaction status and account balance requests
+   */
+  private getInitiator(): { name: string; securityCredential: string } {
+    const { initiatorName, initiatorPassword } = this.config;
+
+    if (!initiatorName) {
+      throw new Error('Missing M-Pesa initiator name (MPESA_INITIATOR_NAME)');
+    }
+
+    if (!this.securityCredential) {
+      if (this.config.securityCredential) {
+        this.securityCredential = this.config.securityCredential;
+      } else if (initiatorPassword) {
+        this.securityCredential = generateSecurityCredential({
+          initiatorPassword,
+          environment: this.config.environment,
+          certificatePath: this.config.certificatePath,
+        });
+      } else {
+        throw new Error('Missing M-Pesa initiator password (MPESA_INITIATOR_PASSWORD)');
+      }
+    }
+
+    return { name: initiatorName, securityCredential: this.securityCredential };
+  }
+
+  /**
+   * STK BusinessShortCode: the PayBill itself, or a Till's head-office store number
+   */
+  private stkBusinessShortCode(): string {
+    return this.config.storeNumber || this.config.shortCode;
+  }
+
   /**
    * Register C2B URLs
    * This tells Safaricom where to send payment callbacks
@@ -89,7 +180,8 @@ export class MpesaClient {
       ShortCode: params?.shortCode || this.config.shortCode,
       ResponseType: params?.responseType || 'Completed',
       ConfirmationURL: params?.confirmationURL || this.config.callbackUrl,
-      ValidationURL: params?.validationURL || this.config.callbackUrl,
+      ValidationURL:
+        params?.validationURL || this.config.validationUrl || `${this.config.callbackUrl}/validation`,
     };
 
     const response = await axios.post(
@@ -124,7 +216,8 @@ export class MpesaClient {
 
     const payload = {
       ShortCode: this.config.shortCode,
-      CommandID: 'CustomerPayBillOnline',
+      CommandID:
+        this.config.shortCodeType === 'TILL' ? 'CustomerBuyGoodsOnline' : 'CustomerPayBillOnline',
       Amount: params.amount,
       Msisdn: params.msisdn,
       BillRefNumber: params.billRefNumber,
@@ -141,28 +234,118 @@ export class MpesaClient {
     return response.data;
   }
 
+  /**
+   * STK Push (Lipa na M-Pesa Online)
+   * Prompts the customer's phone to authorise a PayBill payment
+   * 
+   * The result arrives asynchronously at the STK callback URL,
+   * keyed by the returned CheckoutRequestID
+   */
+  async stkPush(params: StkPushParams): Promise<StkPushResponse> {
+    const token = await this.getAccessToken();
+
+    const timestamp = formatMpesaTimestamp(new Date());
+    const businessShortCode = this.stkBusinessShortCode();
+    const password = Buffer.from(
+      `${businessShortCode}${this.config.passkey}${timestamp}`
+    ).toString('base64');
+
+    const payload = {
+      BusinessShortCode: businessShortCode,
+      Password: password,
+      Timestamp: timestamp,
+      TransactionType:
+        this.config.shortCodeType === 'TILL' ? 'CustomerBuyGoodsOnline' : 'CustomerPayBillOnline',
+      Amount: params.amount,
+      PartyA: params.phoneNumber,
+      PartyB: this.config.shortCode,
+      PhoneNumber: params.phoneNumber,
+      CallBackURL:
+        params.callbackURL || this.config.stkCallbackUrl || `${this.config.callbackUrl}/stk`,
+      AccountReference: params.accountReference.substring(0, 12), // Max 12 characters
+      TransactionDesc: params.transactionDesc.substring(0, 13), // Max 13 characters
+    };
+
+    const response = await axios.post(
+      `${this.baseUrl}/mpesa/stkpush/v1/processrequest`,
+      payload,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    console.log('📲 STK Push sent:', response.data);
+    return response.data;
+  }
+
+  /**
+   * Query the status of an STK Push
+   * Used when the callback never arrives (cancelled or timed-out prompts)
+   * 
+   * NOTE: Daraja responds with HTTP 500 / errorCode 500.001.1001
+   * while the prompt is still awaiting the customer
+   */
+  async stkQuery(checkoutRequestId: string): Promise<StkQueryResponse> {
+    const token = await this.getAccessToken();
+
+    const timestamp = formatMpesaTimestamp(new Date());
+    const businessShortCode = this.stkBusinessShortCode();
+    const password = Buffer.from(
+      `${businessShortCode}${this.config.passkey}${timestamp}`
+    ).toString('base64');
+
+    const payload = {
+      BusinessShortCode: businessShortCode,
+      Password: password,
+      Timestamp: timestamp,
+      CheckoutRequestID: checkoutRequestId,
+    };
+
+    const response = await axios.post(
+      `${this.baseUrl}/mpesa/stkpushquery/v1/query`,
+      payload,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    return response.data;
+  }
+
   /**
    * Query transaction status
    * Check status of a specific M-Pesa transaction
+   * 
+   * The outcome arrives later on ResultURL (defaults to .../result/status).
+   * Payouts with no receipt yet are looked up by their OriginatorConversationID
    */
   async queryTransactionStatus(params: {
-    transactionID: string;
-    partyA: string; // Phone number
-    identifierType: '1' | '2' | '4'; // 1=MSISDN, 2=Till, 4=Shortcode
-    resultURL: string;
-    queueTimeOutURL: string;
-  }): Promise<any> {
+    transactionID?: string;
+    originalConversationID?: string;
+    partyA?: string; // Defaults to our shortcode
+    identifierType?: '1' | '2' | '4'; // 1=MSISDN, 2=Till, 4=Shortcode
+    resultURL?: string;
+    queueTimeOutURL?: string;
+  }): Promise<MpesaAsyncResponse> {
     const token = await this.getAccessToken();
+    const initiator = this.getInitiator();
 
     const payload = {
-      Initiator: 'testapi', // Replace with actual initiator name
-      SecurityCredential: 'encrypted_password', // TODO: Encrypt initiator password
+      Initiator: initiator.name,
+      SecurityCredential: initiator.securityCredential,
       CommandID: 'TransactionStatusQuery',
-      TransactionID: params.transactionID,
-      PartyA: params.partyA,
-      IdentifierType: params.identifierType,
-      ResultURL: params.resultURL,
-      QueueTimeOutURL: params.queueTimeOutURL,
+      TransactionID: params.transactionID || '',
+      ...(params.originalConversationID && { OriginalConversationID: params.originalConversationID }),
+      PartyA: params.partyA || this.config.shortCode,
+      IdentifierType: params.identifierType || '4',
+      ResultURL: params.resultURL || `${this.config.callbackUrl}/result/status`,
+      QueueTimeOutURL: params.queueTimeOutURL || `${this.config.callbackUrl}/result/status/timeout`,
       Remarks: 'Transaction status query',
       Occasion: 'Query',
     };
@@ -184,22 +367,25 @@ export class MpesaClient {
   /**
    * Check account balance
    * Get M-Pesa account balance
+   * 
+   * The outcome arrives later on ResultURL (defaults to .../result/balance)
    */
-  async checkAccountBalance(params: {
-    resultURL: string;
-    queueTimeOutURL: string;
-  }): Promise<any> {
+  async checkAccountBalance(params?: {
+    resultURL?: string;
+    queueTimeOutURL?: string;
+  }): Promise<MpesaAsyncResponse> {
     const token = await this.getAccessToken();
+    const initiator = this.getInitiator();
 
     const payload = {
-      Initiator: 'testapi', // Replace with actual initiator name
-      SecurityCredential: 'encrypted_password', // TODO: Encrypt initiator password
+      Initiator: initiator.name,
+      SecurityCredential: initiator.securityCredential,
       CommandID: 'AccountBalance',
       PartyA: this.config.shortCode,
       IdentifierType: '4', // 4 = Shortcode
       Remarks: 'Balance query',
-      QueueTimeOutURL: params.queueTimeOutURL,
-      ResultURL: params.resultURL,
+      QueueTimeOutURL: params?.queueTimeOutURL || `${this.config.callbackUrl}/result/balance/timeout`,
+      ResultURL: params?.resultURL || `${this.config.callbackUrl}/result/balance`,
     };
 
     const response = await axios.post(`${this.baseUrl}/mpesa/accountbalance/v1/query`, payload, {
@@ -215,28 +401,35 @@ export class MpesaClient {
   /**
    * Reverse a transaction
    * Reverses an M-Pesa transaction
+   * 
+   * The outcome arrives later on ResultURL (defaults to MPESA_REVERSAL_RESULT_URL)
    */
   async reverseTransaction(params: {
     transactionID: string;
     amount: number;
-    receiverParty: string;
-    resultURL: string;
-    queueTimeOutURL: string;
+    receiverParty?: string; // Defaults to our shortcode
+    resultURL?: string;
+    queueTimeOutURL?: string;
     remarks?: string;
     occasion?: string;
-  }): Promise<any> {
+  }): Promise<MpesaAsyncResponse> {
     const token = await this.getAccessToken();
+    const initiator = this.getInitiator();
 
     const payload = {
-      Initiator: 'testapi',
-      SecurityCredential: 'encrypted_password',
+      Initiator: initiator.name,
+      SecurityCredential: initiator.securityCredential,
       CommandID: 'TransactionReversal',
       TransactionID: params.transactionID,
       Amount: params.amount,
-      ReceiverParty: params.receiverParty,
+      ReceiverParty: params.receiverParty || this.config.shortCode,
       RecieverIdentifierType: '11', // 11 = Till Number
-      ResultURL: params.resultURL,
-      QueueTimeOutURL: params.queueTimeOutURL,
+      ResultURL:
+        params.resultURL || this.config.reversalResultUrl || `${this.config.callbackUrl}/result/reversal`,
+      QueueTimeOutURL:
+        params.queueTimeOutURL ||
+        this.config.reversalTimeoutUrl ||
+        `${this.config.callbackUrl}/result/reversal/timeout`,
       Remarks: params.remarks || 'Transaction reversal',
       Occasion: params.occasion || '',
     };
@@ -258,27 +451,33 @@ export class MpesaClient {
   /**
    * B2C Payment Request
    * Send money to customer
+   * 
+   * The outcome arrives later on ResultURL (defaults to MPESA_B2C_RESULT_URL)
    */
   async b2cPayment(params: {
     amount: number;
     phoneNumber: string;
     remarks: string;
     occasion?: string;
-    resultURL: string;
-    queueTimeOutURL: string;
-  }): Promise<any> {
+    resultURL?: string;
+    queueTimeOutURL?: string;
+  }): Promise<MpesaAsyncResponse> {
     const token = await this.getAccessToken();
+    const initiator = this.getInitiator();
 
     const payload = {
-      InitiatorName: 'testapi',
-      SecurityCredential: 'encrypted_password',
+      InitiatorName: initiator.name,
+      SecurityCredential: initiator.securityCredential,
       CommandID: 'BusinessPayment', // or 'SalaryPayment', 'PromotionPayment'
       Amount: params.amount,
       PartyA: this.config.shortCode,
       PartyB: params.phoneNumber,
       Remarks: params.remarks,
-      QueueTimeOutURL: params.queueTimeOutURL,
-      ResultURL: params.resultURL,
+      QueueTimeOutURL:
+        params.queueTimeOutURL ||
+        this.config.b2cTimeoutUrl ||
+        `${this.config.callbackUrl}/result/b2c/timeout`,
+      ResultURL: params.resultURL || this.config.b2cResultUrl || `${this.config.callbackUrl}/result/b2c`,
       Occasion: params.occasion || '',
     };
 
@@ -295,6 +494,56 @@ export class MpesaClient {
 
     return response.data;
   }
+
+  /**
+   * B2B Payment Request
+   * Pay another business: a PayBill (with an account number) or a Buy Goods till
+   * 
+   * The outcome arrives later on ResultURL (defaults to MPESA_B2B_RESULT_URL)
+   */
+  async b2bPayment(params: {
+    amount: number;
+    commandId: 'BusinessPayBill' | 'BusinessBuyGoods';
+    receiverShortCode: string;
+    accountReference?: string; // Required by PayBills
+    remarks: string;
+    resultURL?: string;
+    queueTimeOutURL?: string;
+  }): Promise<MpesaAsyncResponse> {
+    const token = await this.getAccessToken();
+    const initiator = this.getInitiator();
+
+    const payload = {
+      Initiator: initiator.name,
+      SecurityCredential: initiator.securityCredential,
+      CommandID: params.commandId,
+      SenderIdentifierType: '4', // 4 = Organisation shortcode
+      RecieverIdentifierType: params.commandId === 'BusinessBuyGoods' ? '2' : '4', // 2 = Till, 4 = PayBill
+      Amount: params.amount,
+      PartyA: this.config.shortCode,
+      PartyB: params.receiverShortCode,
+      AccountReference: params.accountReference || '',
+      Remarks: params.remarks,
+      QueueTimeOutURL:
+        params.queueTimeOutURL ||
+        this.config.b2bTimeoutUrl ||
+        `${this.config.callbackUrl}/result/b2b/timeout`,
+      ResultURL: params.resultURL || this.config.b2bResultUrl || `${this.config.callbackUrl}/result/b2b`,
+    };
+
+    const response = await axios.post(
+      `${this.baseUrl}/mpesa/b2b/v1/paymentrequest`,
+      payload,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    return response.data;
+  }
 }
 
 // ============================================================================
@@ -303,21 +552,79 @@ export class MpesaClient {
 
 /**
  * Create M-Pesa client from environment variables
+ *
+ * NOTE: Application code resolves the client per shortcode through
+ * MpesaConfigService, which falls back to these variables
  */
 export function createMpesaClient(): MpesaClient {
-  const config: MpesaConfig = {
+  const config = mpesaConfigFromEnv();
+
+  // Validate required env vars
+  if (!config.consumerKey || !config.consumerSecret || !config.shortCode) {
+    throw new Error('Missing M-Pesa configuration in environment variables');
+  }
+
+  return new MpesaClient(config);
+}
+
+/**
+ * Read the single-shortcode configuration from environment variables
+ */
+export function mpesaConfigFromEnv(): MpesaClientConfig {
+  return {
     consumerKey: process.env.MPESA_CONSUMER_KEY!,
     consumerSecret: process.env.MPESA_CONSUMER_SECRET!,
     shortCode: process.env.MPESA_SHORT_CODE!,
     passkey: process.env.MPESA_PASSKEY!,
-    environment: (process.env.MPESA_ENVIRONMENT as 'sandbox' | 'production') || 'sandbox',
+    environment: (process.env.MPESA_ENVIRONMENT as MpesaEnvironment) || 'sandbox',
+    baseUrl: process.env.MPESA_BASE_URL,
     callbackUrl: process.env.MPESA_CALLBACK_URL!,
+    initiatorName: process.env.MPESA_INITIATOR_NAME,
+    initiatorPassword: process.env.MPESA_INITIATOR_PASSWORD,
+    securityCredential: process.env.MPESA_SECURITY_CREDENTIAL,
+    certificatePath: process.env.MPESA_CERTIFICATE_PATH,
+    validationUrl: process.env.MPESA_VALIDATION_URL,
+    stkCallbackUrl: process.env.MPESA_STK_CALLBACK_URL,
+    b2cResultUrl: process.env.MPESA_B2C_RESULT_URL,
+    b2cTimeoutUrl: process.env.MPESA_B2C_TIMEOUT_URL,
+    b2bResultUrl: process.env.MPESA_B2B_RESULT_URL,
+    b2bTimeoutUrl: process.env.MPESA_B2B_TIMEOUT_URL,
+    reversalResultUrl: process.env.MPESA_REVERSAL_RESULT_URL,
+    reversalTimeoutUrl: process.env.MPESA_REVERSAL_TIMEOUT_URL,
   };
+}
 
-  // Validate required env vars
-  if (!config.consumerKey || !config.consumerSecret || !config.shortCode) {
-    throw new Error('Missing M-Pesa configuration in environment variables');
-  }
+// ============================================================================
+// HELPERS
+// ============================================================================
 
-  return new MpesaClient(config);
+/**
+ * Format a date as an M-Pesa timestamp: YYYYMMDDHHmmss
+ * Example: 2026-02-03 14:30:22 → "20260203143022"
+ */
+export function formatMpesaTimestamp(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return (
+    date.getFullYear().toString() +
+    pad(date.getMonth() + 1) +
+    pad(date.getDate()) +
+    pad(date.getHours()) +
+    pad(date.getMinutes()) +
+    pad(date.getSeconds())
+  );
+}
+
+/**
+ * Parse M-Pesa transaction time from format: YYYYMMDDHHmmss
+ * Example: "20260203143022" → 2026-02-03 14:30:22
+ */
+export function parseMpesaTimestamp(timeString: string): Date {
+  const year = parseInt(timeString.substring(0, 4));
+  const month = parseInt(timeString.substring(4, 6)) - 1; // JS months are 0-indexed
+  const day = parseInt(timeString.substring(6, 8));
+  const hour = parseInt(timeString.substring(8, 10));
+  const minute = parseInt(timeString.substring(10, 12));
+  const second = parseInt(timeString.substring(12, 14));
+
+  return new Date(year, month, day, hour, minute, second);
 }
@@ -0,0 +1,65 @@
+/**
+ * Kelly OS — M-Pesa Security Credential
+ *
+ * PURPOSE:
+ * Produce the SecurityCredential sent with every initiator call
+ * (B2C, reversal, transaction status, account balance)
+ *
+ * The credential is the initiator password, RSA-encrypted (PKCS#1 v1.5)
+ * with Safaricom's public certificate and base64 encoded. Sandbox and
+ * production use different certificates, downloaded from the Daraja portal:
+ * - certs/sandbox.cer     (SandboxCertificate.cer)
+ * - certs/production.cer  (ProductionCertificate.cer)
+ */
+
+import { constants, publicEncrypt, X509Certificate } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MpesaEnvironment = 'sandbox' | 'production';
+
+export interface SecurityCredentialParams {
+  initiatorPassword: string;
+  environment: MpesaEnvironment;
+  certificatePath?: string; // Defaults to certs/<environment>.cer
+}
+
+// ============================================================================
+// SECURITY CREDENTIAL
+// ============================================================================
+
+/**
+ * Default location of the Safaricom certificate for an environment
+ */
+export function defaultCertificatePath(environment: MpesaEnvironment): string {
+  return path.join(process.cwd(), 'certs', `${environment}.cer`);
+}
+
+/**
+ * Encrypt the initiator password into a Daraja SecurityCredential
+ */
+export function generateSecurityCredential(params: SecurityCredentialParams): string {
+  const certificatePath = params.certificatePath || defaultCertificatePath(params.environment);
+
+  let certificate: X509Certificate;
+  try {
+    // Accepts both PEM and DER encoded certificates
+    certificate = new X509Certificate(readFileSync(certificatePath));
+  } catch (error: any) {
+    throw new Error(`Unable to load M-Pesa ${params.environment} certificate (${certificatePath}): ${error.message}`);
+  }
+
+  const encrypted = publicEncrypt(
+    {
+      key: certificate.publicKey,
+      padding: constants.RSA_PKCS1_PADDING,
+    },
+    Buffer.from(params.initiatorPassword)
+  );
+
+  return encrypted.toString('base64');
+}
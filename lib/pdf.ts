@@ -0,0 +1,103 @@
+/**
+ * Kelly OS — Minimal PDF Writer
+ *
+ * PURPOSE:
+ * Lay out plain text on A4 pages (receipts and similar documents)
+ * without a PDF dependency
+ *
+ * Uses the standard Type 1 fonts every PDF reader ships (Helvetica,
+ * Helvetica-Bold, Courier), so nothing is embedded. Text is limited to
+ * Latin-1; anything else is replaced with "?".
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PdfFont = 'Helvetica' | 'Helvetica-Bold' | 'Courier';
+
+export interface PdfText {
+  text: string;
+  x: number; // Points from the left edge
+  y: number; // Points from the top edge
+  size?: number; // Default 10
+  font?: PdfFont; // Default Helvetica
+}
+
+// A4 in points (1/72 inch)
+export const A4_WIDTH = 595;
+export const A4_HEIGHT = 842;
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  Helvetica: 'F1',
+  'Helvetica-Bold': 'F2',
+  Courier: 'F3',
+};
+
+// ============================================================================
+// PDF WRITER
+// ============================================================================
+
+/**
+ * Build a PDF with one A4 page per entry in `pages`
+ */
+export function createTextPdf(pages: PdfText[][]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body); // Returns the object number
+
+  // 1: Catalog, 2: Pages, 3-5: Fonts, then a page + content stream per page
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // Pages, filled in once the page objects are numbered
+  (Object.keys(FONT_RESOURCES) as PdfFont[]).forEach((font) =>
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)
+  );
+
+  const fonts = (Object.entries(FONT_RESOURCES) as Array<[PdfFont, string]>)
+    .map(([, name], index) => `/${name} ${index + 3} 0 R`)
+    .join(' ');
+
+  const pageRefs: string[] = [];
+  for (const texts of pages) {
+    const content = texts.map(textOperator).join('\n');
+    const contentNumber = add(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    const pageNumber = add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << ${fonts} >> >> /Contents ${contentNumber} 0 R >>`
+    );
+    pageRefs.push(`${pageNumber} 0 R`);
+  }
+
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`;
+
+  // Body, with the byte offset of every object for the cross-reference table
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function textOperator({ text, x, y, size = 10, font = 'Helvetica' }: PdfText): string {
+  return `BT /${FONT_RESOURCES[font]} ${size} Tf ${x} ${A4_HEIGHT - y} Td (${escapeText(text)}) Tj ET`;
+}
+
+/**
+ * Escape PDF string delimiters and drop characters outside Latin-1
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
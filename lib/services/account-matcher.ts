@@ -0,0 +1,398 @@
+/**
+ * Kelly OS — Account Reference Matcher
+ *
+ * PURPOSE:
+ * Resolve the PayBill "Account Number" a customer typed into an invoice
+ * or customer, tolerating the usual mistakes
+ *
+ * PIPELINE (first confident stage wins):
+ * 1. EXACT       — invoiceId / customerId / internal ID as typed      (1.00)
+ * 2. NORMALIZED  — case, whitespace, punctuation and filler prefixes
+ *                  ignored: "cust 001", "CUST001", "acc no CUST-001"  (0.95)
+ * 3. PHONE       — account number is the customer's phone number     (0.90)
+ * 4. FUZZY       — Levenshtein distance ≤ 2 on the normalized form    (< 0.90)
+ * 5. MSISDN      — nothing matched, payer's phone belongs to exactly
+ *                  one customer                                        (0.80)
+ *                  Till payments carry no account number, so there the
+ *                  phone is all there is and is posted automatically
+ *
+ * An embedded invoice number ("CUST001#INV-0042") is ignored here; the
+ * EMBEDDED_INVOICE allocation strategy reads it.
+ *
+ * Matches below MIN_AUTO_POST_CONFIDENCE are held for staff review
+ * instead of being posted automatically.
+ *
+ * Candidates are narrowed in the database, never loaded wholesale: keys
+ * are stored normalized (account_key) and indexed, phones go through the
+ * phone index, and fuzzy candidates are the few nearest keys by trigram
+ * distance (pg_trgm).
+ */
+
+import prisma from '@/lib/prisma';
+import { AccountMatchMethod, PaymentType, Prisma, ShortCodeType } from '@prisma/client';
+import { splitAccountReference } from './allocation-strategies';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaymentTarget {
+  customer: any;
+  invoice: any | null;
+  paymentType: PaymentType;
+}
+
+export interface AccountMatch extends PaymentTarget {
+  confidence: number; // 0..1
+  method: AccountMatchMethod;
+}
+
+export interface MatchCandidate {
+  key: string; // Normalized invoiceId / customerId
+  customerId: string;
+  invoiceId: string | null;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Matches at or above this confidence are posted automatically
+ */
+export const MIN_AUTO_POST_CONFIDENCE = parseFloat(
+  process.env.ACCOUNT_MATCH_MIN_CONFIDENCE || '0.85'
+);
+
+const CONFIDENCE_NORMALIZED = 0.95;
+const CONFIDENCE_PHONE = 0.9;
+const CONFIDENCE_MSISDN = 0.8;
+const MAX_FUZZY_CONFIDENCE = 0.9;
+const MAX_EDIT_DISTANCE = 2;
+
+// Fuzzy candidates fetched per variant from each of invoices and customers
+const MAX_FUZZY_CANDIDATES = 10;
+const MIN_TRIGRAM_SIMILARITY = 0.3;
+
+// Payer's phone matches a fuzzy candidate: strong corroboration
+const MSISDN_CORROBORATION_BONUS = 0.1;
+
+// Words customers put in front of the actual account number
+const FILLER_PREFIXES = ['ACCOUNTNUMBER', 'ACCOUNTNO', 'ACCOUNT', 'ACCNO', 'ACCT', 'AC', 'NO'];
+
+// ============================================================================
+// ACCOUNT MATCHER
+// ============================================================================
+
+/**
+ * Look up the invoice or customer for an account reference exactly as typed
+ * Returns null when nothing matches
+ */
+export async function findPaymentTarget(accountReference: string): Promise<PaymentTarget | null> {
+  // Try to find invoice first
+  const invoice = await prisma.invoice.findFirst({
+    where: {
+      OR: [
+        { invoiceId: accountReference },
+        { id: accountReference },
+      ],
+    },
+    include: { customer: true },
+  });
+
+  if (invoice) {
+    return {
+      customer: invoice.customer,
+      invoice,
+      paymentType: PaymentType.INVOICE,
+    };
+  }
+
+  // Try to find customer
+  const customer = await prisma.customer.findFirst({
+    where: {
+      OR: [
+        { customerId: accountReference },
+        { id: accountReference },
+      ],
+    },
+  });
+
+  if (customer) {
+    return {
+      customer,
+      invoice: null,
+      paymentType: PaymentType.ACCOUNT,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Run the full matching pipeline for an account reference
+ *
+ * @param accountReference - BillRefNumber as typed by the customer
+ * @param phone - Payer's MSISDN (254...), used as a fallback and to corroborate fuzzy matches
+ * @param shortCodeType - Type of the receiving shortcode (a Till payment's phone match is auto-posted)
+ * @returns Best match with its confidence, or null when nothing is close
+ */
+export async function matchAccountReference(
+  accountReference: string,
+  phone?: string,
+  shortCodeType: ShortCodeType = ShortCodeType.PAYBILL
+): Promise<AccountMatch | null> {
+  const reference = splitAccountReference(accountReference).accountReference.trim();
+
+  // Stage 1: Exact
+  const exact = reference ? await findPaymentTarget(reference) : null;
+  if (exact) {
+    return { ...exact, confidence: 1, method: AccountMatchMethod.EXACT };
+  }
+
+  const variants = referenceVariants(reference).filter(Boolean);
+  const candidates = await findCandidates(variants);
+
+  // Stage 2: Normalized
+  const normalized = candidates.filter((candidate) => variants.includes(candidate.key));
+  if (normalized.length) {
+    return resolveMatch(normalized, CONFIDENCE_NORMALIZED, AccountMatchMethod.NORMALIZED);
+  }
+
+  // Stage 3: Account number is a phone number
+  const referencePhone = normalizePhone(reference);
+  if (referencePhone) {
+    const owners = await findCustomersByPhone(referencePhone);
+    if (owners.length) {
+      return resolveMatch(
+        owners.map((customer) => ({ customerId: customer.id, invoiceId: null })),
+        CONFIDENCE_PHONE,
+        AccountMatchMethod.PHONE
+      );
+    }
+  }
+
+  const payerPhone = phone ? normalizePhone(phone) : null;
+  const payerAccounts = payerPhone ? await findCustomersByPhone(payerPhone) : [];
+
+  // Stage 4: Fuzzy
+  let bestDistance = Infinity;
+  let bestScore = 0;
+  let fuzzy: MatchCandidate[] = [];
+
+  for (const candidate of candidates) {
+    for (const variant of variants) {
+      if (variant.length <= MAX_EDIT_DISTANCE) continue;
+      if (Math.abs(variant.length - candidate.key.length) > MAX_EDIT_DISTANCE) continue;
+
+      const distance = levenshtein(variant, candidate.key);
+      if (distance > MAX_EDIT_DISTANCE) continue;
+
+      const score = 1 - distance / Math.max(variant.length, candidate.key.length);
+      if (distance < bestDistance || (distance === bestDistance && score > bestScore)) {
+        bestDistance = distance;
+        bestScore = score;
+        fuzzy = [candidate];
+      } else if (distance === bestDistance && score === bestScore) {
+        fuzzy.push(candidate);
+      }
+    }
+  }
+
+  if (fuzzy.length) {
+    const match = await resolveMatch(
+      fuzzy,
+      bestScore * MAX_FUZZY_CONFIDENCE,
+      AccountMatchMethod.FUZZY
+    );
+
+    if (match && payerAccounts.some((customer) => customer.id === match.customer.id)) {
+      match.confidence = Math.min(
+        CONFIDENCE_NORMALIZED,
+        match.confidence + MSISDN_CORROBORATION_BONUS
+      );
+    }
+
+    return match;
+  }
+
+  // Stage 5: Payer's phone (several accounts on one phone still go to review)
+  if (payerAccounts.length) {
+    return resolveMatch(
+      payerAccounts.map((customer) => ({ customerId: customer.id, invoiceId: null })),
+      shortCodeType === ShortCodeType.TILL
+        ? Math.max(CONFIDENCE_MSISDN, MIN_AUTO_POST_CONFIDENCE)
+        : CONFIDENCE_MSISDN,
+      AccountMatchMethod.MSISDN
+    );
+  }
+
+  return null;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Open invoices and customers whose normalized key equals a variant, plus
+ * the MAX_FUZZY_CANDIDATES keys nearest each variant by trigram distance
+ * (at least MIN_TRIGRAM_SIMILARITY alike) in each table
+ *
+ * Both searches run on the account_key indexes; Levenshtein decides among
+ * what comes back. Variants of MAX_EDIT_DISTANCE characters or fewer only
+ * match exactly: they are within that distance of nearly every short key.
+ *
+ * Invoices come first, so an ambiguous match suggests the invoice
+ */
+export async function findCandidates(variants: string[]): Promise<MatchCandidate[]> {
+  if (!variants.length) return [];
+
+  const nearest = variants
+    .filter((variant) => variant.length > MAX_EDIT_DISTANCE)
+    .flatMap((variant) => [
+      Prisma.sql`
+        SELECT key, "customerId", "invoiceId"
+        FROM (
+          SELECT account_key AS key,
+                 customer_id AS "customerId",
+                 id AS "invoiceId",
+                 account_key <-> ${variant} AS distance
+          FROM invoices
+          WHERE status IN ('UNPAID', 'PARTIALLY_PAID')
+          ORDER BY account_key <-> ${variant}
+          LIMIT ${MAX_FUZZY_CANDIDATES}
+        ) nearest
+        WHERE distance <= ${1 - MIN_TRIGRAM_SIMILARITY}`,
+      Prisma.sql`
+        SELECT key, "customerId", "invoiceId"
+        FROM (
+          SELECT account_key AS key,
+                 id AS "customerId",
+                 NULL AS "invoiceId",
+                 account_key <-> ${variant} AS distance
+          FROM customers
+          ORDER BY account_key <-> ${variant}
+          LIMIT ${MAX_FUZZY_CANDIDATES}
+        ) nearest
+        WHERE distance <= ${1 - MIN_TRIGRAM_SIMILARITY}`,
+    ]);
+
+  return prisma.$queryRaw<MatchCandidate[]>`
+    SELECT key, "customerId", "invoiceId"
+    FROM (
+      SELECT account_key AS key,
+             customer_id AS "customerId",
+             id AS "invoiceId"
+      FROM invoices
+      WHERE status IN ('UNPAID', 'PARTIALLY_PAID')
+        AND account_key = ANY(${variants})
+      UNION
+      SELECT account_key, id, NULL
+      FROM customers
+      WHERE account_key = ANY(${variants})
+      ${nearest.length ? Prisma.sql`UNION ${Prisma.join(nearest, ' UNION ')}` : Prisma.empty}
+    ) candidates
+    ORDER BY "invoiceId" IS NULL
+  `;
+}
+
+/**
+ * Customers whose phone is this number (2547XXXXXXXX), as stored or in
+ * local form
+ */
+async function findCustomersByPhone(phone: string) {
+  const local = phone.slice(3);
+
+  return prisma.customer.findMany({
+    where: { phone: { in: [phone, `+${phone}`, `0${local}`] } },
+    select: { id: true },
+  });
+}
+
+/**
+ * Load the target for the winning candidates
+ *
+ * Several different targets at the same level is ambiguous: the first is
+ * kept as a suggestion but its confidence is halved so it goes to review
+ */
+async function resolveMatch(
+  matches: Array<{ customerId: string; invoiceId: string | null }>,
+  confidence: number,
+  method: AccountMatchMethod
+): Promise<AccountMatch | null> {
+  const distinct = new Set(matches.map((m) => m.invoiceId || m.customerId));
+  const [best] = matches;
+
+  const target = await findPaymentTarget(best.invoiceId || best.customerId);
+  if (!target) return null;
+
+  return {
+    ...target,
+    confidence: roundConfidence(distinct.size > 1 ? confidence / 2 : confidence),
+    method,
+  };
+}
+
+/**
+ * Canonical form of an account reference: upper case, letters and digits only
+ * "cust-001 " → "CUST001"
+ */
+export function normalizeAccountReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Normalized reference, with and without filler prefixes ("Acc No: CUST-001")
+ */
+function referenceVariants(reference: string): string[] {
+  const normalized = normalizeAccountReference(reference);
+  const variants = [normalized];
+
+  for (const prefix of FILLER_PREFIXES) {
+    if (normalized.startsWith(prefix) && normalized.length > prefix.length) {
+      variants.push(normalized.slice(prefix.length));
+    }
+  }
+
+  return Array.from(new Set(variants));
+}
+
+/**
+ * Kenyan phone number in 2547XXXXXXXX / 2541XXXXXXXX form, or null
+ * Accepts 07.., 01.., +254.., 254.. with any spacing or punctuation
+ */
+export function normalizePhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  if (/^[17]\d{8}$/.test(digits)) return `254${digits}`;
+
+  return null;
+}
+
+/**
+ * Levenshtein edit distance (insertions, deletions, substitutions)
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -11,14 +11,23 @@
  * 4. All entries grouped by transactionRef
  * 
  * CHART OF ACCOUNTS:
+ * - 1000: Cash on Hand (ASSET)
  * - 1010: M-Pesa Cash (ASSET)
+ * - 1020: Bank (ASSET)
  * - 1200: Accounts Receivable (ASSET)
+ * - 1300: Inventory (ASSET, at weighted-average cost)
+ * - 2000: Accounts Payable (LIABILITY)
+ * - 2050: Goods Received Not Invoiced (LIABILITY, stock received by hand until billed)
+ * - 2100: Suspense - Unmatched Payments (LIABILITY)
  * - 4000: Sales Revenue (REVENUE)
+ * - 4100: Sales Returns (REVENUE, contra - debit balance)
  * - 5000: Cost of Goods Sold (EXPENSE)
+ * - 5100: Inventory Adjustments (EXPENSE)
+ * - 6000: Operating Expenses (EXPENSE)
  */
 
 import prisma from '@/lib/prisma';
-import { AccountType, EntryType, Prisma } from '@prisma/client';
+import { AccountType, EntryType, PaymentMethod, Prisma } from '@prisma/client';
 
 // ============================================================================
 // TYPES
@@ -48,28 +57,82 @@ export interface PostTransactionParams {
 // ============================================================================
 
 export const ACCOUNTS = {
+  CASH_ON_HAND: {
+    code: '1000',
+    name: 'Cash on Hand',
+    type: AccountType.ASSET,
+  },
   MPESA_CASH: {
     code: '1010',
     name: 'M-Pesa Cash',
     type: AccountType.ASSET,
   },
+  BANK: {
+    code: '1020',
+    name: 'Bank',
+    type: AccountType.ASSET,
+  },
   ACCOUNTS_RECEIVABLE: {
     code: '1200',
     name: 'Accounts Receivable',
     type: AccountType.ASSET,
   },
+  INVENTORY: {
+    code: '1300',
+    name: 'Inventory',
+    type: AccountType.ASSET,
+  },
+  ACCOUNTS_PAYABLE: {
+    code: '2000',
+    name: 'Accounts Payable',
+    type: AccountType.LIABILITY,
+  },
+  GOODS_RECEIVED_NOT_INVOICED: {
+    code: '2050',
+    name: 'Goods Received Not Invoiced',
+    type: AccountType.LIABILITY,
+  },
+  SUSPENSE: {
+    code: '2100',
+    name: 'Suspense - Unmatched Payments',
+    type: AccountType.LIABILITY,
+  },
   SALES_REVENUE: {
     code: '4000',
     name: 'Sales Revenue',
     type: AccountType.REVENUE,
   },
+  SALES_RETURNS: {
+    code: '4100',
+    name: 'Sales Returns',
+    type: AccountType.REVENUE,
+  },
   COST_OF_GOODS_SOLD: {
     code: '5000',
     name: 'Cost of Goods Sold',
     type: AccountType.EXPENSE,
   },
+  INVENTORY_ADJUSTMENTS: {
+    code: '5100',
+    name: 'Inventory Adjustments',
+    type: AccountType.EXPENSE,
+  },
+  OPERATING_EXPENSES: {
+    code: '6000',
+    name: 'Operating Expenses',
+    type: AccountType.EXPENSE,
+  },
 } as const;
 
+// Asset account each payment method lands in (cheques and card sales settle to the bank)
+export const PAYMENT_METHOD_ACCOUNTS: Record<PaymentMethod, (typeof ACCOUNTS)[keyof typeof ACCOUNTS]> = {
+  [PaymentMethod.MPESA]: ACCOUNTS.MPESA_CASH,
+  [PaymentMethod.CASH]: ACCOUNTS.CASH_ON_HAND,
+  [PaymentMethod.BANK_TRANSFER]: ACCOUNTS.BANK,
+  [PaymentMethod.CHEQUE]: ACCOUNTS.BANK,
+  [PaymentMethod.CARD]: ACCOUNTS.BANK,
+};
+
 // ============================================================================
 // ACCOUNTING ENGINE
 // ============================================================================
@@ -137,11 +200,11 @@ export class AccountingEngine {
   }
 
   /**
-   * Post a payment received from M-Pesa
+   * Post a payment received (M-Pesa, or recorded by staff)
    * 
    * ACCOUNTING ENTRY:
-   * DR  M-Pesa Cash           (increases asset)
-   * CR  Accounts Receivable   (decreases asset - customer owes less)
+   * DR  M-Pesa Cash / Cash on Hand / Bank   (increases asset)
+   * CR  Accounts Receivable                 (decreases asset - customer owes less)
    * 
    * This assumes the invoice already created the A/R:
    * When invoice was created:
@@ -156,9 +219,58 @@ export class AccountingEngine {
     invoiceIds?: string[];
     transactionDate: Date;
     description: string;
+    method?: PaymentMethod; // Defaults to M-Pesa
     tx?: Prisma.TransactionClient;
   }): Promise<void> {
     const { transactionRef, amount, customerId, paymentId, invoiceIds, transactionDate, description, tx } = params;
+    const cashAccount = PAYMENT_METHOD_ACCOUNTS[params.method ?? PaymentMethod.MPESA];
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: cashAccount.code,
+        accountName: cashAccount.name,
+        accountType: cashAccount.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Payment received: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.ACCOUNTS_RECEIVABLE.code,
+        accountName: ACCOUNTS.ACCOUNTS_RECEIVABLE.name,
+        accountType: ACCOUNTS.ACCOUNTS_RECEIVABLE.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Payment applied: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+      paymentId,
+      customerId,
+      invoiceId: invoiceIds?.[0], // Link to primary invoice if available
+    });
+  }
+
+  /**
+   * Post a payment whose account reference matched no customer or invoice
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  M-Pesa Cash           (money did arrive)
+   * CR  Suspense              (owed to an unidentified customer)
+   */
+  static async postUnmatchedPayment(params: {
+    transactionRef: string;
+    amount: number;
+    paymentId: string;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, paymentId, transactionDate, description, tx } = params;
 
     const entries: LedgerEntry[] = [
       {
@@ -169,6 +281,53 @@ export class AccountingEngine {
         amount,
         description: `M-Pesa payment: ${description}`,
       },
+      {
+        accountCode: ACCOUNTS.SUSPENSE.code,
+        accountName: ACCOUNTS.SUSPENSE.name,
+        accountType: ACCOUNTS.SUSPENSE.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Unmatched payment held: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+      paymentId,
+    });
+  }
+
+  /**
+   * Move an unmatched payment out of suspense once it is assigned
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Suspense              (no longer unidentified)
+   * CR  Accounts Receivable   (customer owes less)
+   */
+  static async postSuspenseCleared(params: {
+    transactionRef: string;
+    amount: number;
+    customerId: string;
+    paymentId: string;
+    invoiceIds?: string[];
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, customerId, paymentId, invoiceIds, transactionDate, description, tx } = params;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.SUSPENSE.code,
+        accountName: ACCOUNTS.SUSPENSE.name,
+        accountType: ACCOUNTS.SUSPENSE.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Suspense cleared: ${description}`,
+      },
       {
         accountCode: ACCOUNTS.ACCOUNTS_RECEIVABLE.code,
         accountName: ACCOUNTS.ACCOUNTS_RECEIVABLE.name,
@@ -186,7 +345,60 @@ export class AccountingEngine {
       tx,
       paymentId,
       customerId,
-      invoiceId: invoiceIds?.[0], // Link to primary invoice if available
+      invoiceId: invoiceIds?.[0],
+    });
+  }
+
+  /**
+   * Post a refund paid out via M-Pesa B2C
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Accounts Receivable   (credit refunded / invoice owed again)
+   *  or Sales Returns         (goods returned, revenue reduced)
+   * CR  M-Pesa Cash           (money left the till)
+   */
+  static async postRefundIssued(params: {
+    transactionRef: string;
+    amount: number;
+    customerId: string;
+    paymentId: string;
+    invoiceId?: string;
+    salesReturn: boolean;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, customerId, paymentId, invoiceId, salesReturn, transactionDate, description, tx } = params;
+
+    const debitAccount = salesReturn ? ACCOUNTS.SALES_RETURNS : ACCOUNTS.ACCOUNTS_RECEIVABLE;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: debitAccount.code,
+        accountName: debitAccount.name,
+        accountType: debitAccount.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Refund: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.MPESA_CASH.code,
+        accountName: ACCOUNTS.MPESA_CASH.name,
+        accountType: ACCOUNTS.MPESA_CASH.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `M-Pesa B2C refund: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+      paymentId,
+      invoiceId,
+      customerId,
     });
   }
 
@@ -237,6 +449,335 @@ export class AccountingEngine {
     });
   }
 
+  /**
+   * Post the cost of the stock an invoice sold
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Cost of Goods Sold    (expense matched to the sale's revenue)
+   * CR  Inventory             (stock left at its carrying cost)
+   */
+  static async postCostOfSales(params: {
+    transactionRef: string;
+    amount: number;
+    customerId: string;
+    invoiceId: string;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, customerId, invoiceId, transactionDate, description, tx } = params;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.COST_OF_GOODS_SOLD.code,
+        accountName: ACCOUNTS.COST_OF_GOODS_SOLD.name,
+        accountType: ACCOUNTS.COST_OF_GOODS_SOLD.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Cost of sales: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.INVENTORY.code,
+        accountName: ACCOUNTS.INVENTORY.name,
+        accountType: ACCOUNTS.INVENTORY.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Stock sold: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+      invoiceId,
+      customerId,
+    });
+  }
+
+  /**
+   * Post goods received from a supplier
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Inventory             (stock in at what it cost us)
+   * CR  Accounts Payable      (owed to the supplier)
+   */
+  static async postGoodsReceived(params: {
+    transactionRef: string;
+    amount: number;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, transactionDate, description, tx } = params;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.INVENTORY.code,
+        accountName: ACCOUNTS.INVENTORY.name,
+        accountType: ACCOUNTS.INVENTORY.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Goods received: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.ACCOUNTS_PAYABLE.code,
+        accountName: ACCOUNTS.ACCOUNTS_PAYABLE.name,
+        accountType: ACCOUNTS.ACCOUNTS_PAYABLE.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Owed to supplier: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+    });
+  }
+
+  /**
+   * Post stock received by hand, outside a purchase order
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Inventory                    (stock in at what it cost us)
+   * CR  Goods Received Not Invoiced  (owed once the supplier bills it, see postBillRecorded)
+   */
+  static async postStockReceived(params: {
+    transactionRef: string;
+    amount: number;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, transactionDate, description, tx } = params;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.INVENTORY.code,
+        accountName: ACCOUNTS.INVENTORY.name,
+        accountType: ACCOUNTS.INVENTORY.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Stock received: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.GOODS_RECEIVED_NOT_INVOICED.code,
+        accountName: ACCOUNTS.GOODS_RECEIVED_NOT_INVOICED.name,
+        accountType: ACCOUNTS.GOODS_RECEIVED_NOT_INVOICED.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Awaiting supplier bill: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+    });
+  }
+
+  /**
+   * Post stock a customer brought back, by hand or with a sales return
+   * (tagged with the invoice it was sold on, when known)
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Inventory             (stock back at its cost)
+   * CR  Cost of Goods Sold    (the cost of the sale it came from is undone)
+   */
+  static async postStockReturned(params: {
+    transactionRef: string;
+    amount: number;
+    customerId?: string;
+    invoiceId?: string;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, customerId, invoiceId, transactionDate, description, tx } = params;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.INVENTORY.code,
+        accountName: ACCOUNTS.INVENTORY.name,
+        accountType: ACCOUNTS.INVENTORY.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Stock returned: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.COST_OF_GOODS_SOLD.code,
+        accountName: ACCOUNTS.COST_OF_GOODS_SOLD.name,
+        accountType: ACCOUNTS.COST_OF_GOODS_SOLD.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Cost of sales returned: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+      invoiceId,
+      customerId,
+    });
+  }
+
+  /**
+   * Post a stock adjustment recorded by hand (or by reconciliation)
+   * 
+   * ACCOUNTING ENTRY (amount > 0, stock in; reversed for stock written off):
+   * DR  Inventory              (stock at its cost)
+   * CR  Inventory Adjustments
+   */
+  static async postInventoryAdjustment(params: {
+    transactionRef: string;
+    amount: number; // Signed: + stock value in, - stock value out
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, transactionDate, description, tx } = params;
+    const amount = Math.abs(params.amount);
+    const stockIn = params.amount > 0;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.INVENTORY.code,
+        accountName: ACCOUNTS.INVENTORY.name,
+        accountType: ACCOUNTS.INVENTORY.type,
+        entryType: stockIn ? EntryType.DEBIT : EntryType.CREDIT,
+        amount,
+        description: `Stock ${stockIn ? 'in' : 'out'}: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.INVENTORY_ADJUSTMENTS.code,
+        accountName: ACCOUNTS.INVENTORY_ADJUSTMENTS.name,
+        accountType: ACCOUNTS.INVENTORY_ADJUSTMENTS.type,
+        entryType: stockIn ? EntryType.CREDIT : EntryType.DEBIT,
+        amount,
+        description: `Inventory adjustment: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+    });
+  }
+
+  /**
+   * Post a supplier bill that is not for a goods received note
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Operating Expenses           (cost incurred: transport, repairs, rent)
+   *  or Goods Received Not Invoiced  (stock already received by hand)
+   * CR  Accounts Payable             (owed to the supplier)
+   */
+  static async postBillRecorded(params: {
+    transactionRef: string;
+    amount: number;
+    transactionDate: Date;
+    description: string;
+    stockReceived?: boolean;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, transactionDate, description, tx } = params;
+    const account = params.stockReceived ? ACCOUNTS.GOODS_RECEIVED_NOT_INVOICED : ACCOUNTS.OPERATING_EXPENSES;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: account.code,
+        accountName: account.name,
+        accountType: account.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Supplier bill: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.ACCOUNTS_PAYABLE.code,
+        accountName: ACCOUNTS.ACCOUNTS_PAYABLE.name,
+        accountType: ACCOUNTS.ACCOUNTS_PAYABLE.type,
+        entryType: EntryType.CREDIT,
+        amount,
+        description: `Owed to supplier: ${description}`,
+      },
+    ];
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+    });
+  }
+
+  /**
+   * Post a supplier bill paid via M-Pesa B2B / B2C
+   * 
+   * ACCOUNTING ENTRY:
+   * DR  Accounts Payable      (we owe the supplier less)
+   * DR  Operating Expenses    (rounding: cents sent on top to make whole shillings)
+   * CR  M-Pesa Cash           (money left the shortcode)
+   */
+  static async postSupplierPayment(params: {
+    transactionRef: string;
+    amount: number;
+    rounding?: number;
+    transactionDate: Date;
+    description: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { transactionRef, amount, transactionDate, description, tx } = params;
+    const rounding = params.rounding ?? 0;
+
+    const entries: LedgerEntry[] = [
+      {
+        accountCode: ACCOUNTS.ACCOUNTS_PAYABLE.code,
+        accountName: ACCOUNTS.ACCOUNTS_PAYABLE.name,
+        accountType: ACCOUNTS.ACCOUNTS_PAYABLE.type,
+        entryType: EntryType.DEBIT,
+        amount,
+        description: `Supplier paid: ${description}`,
+      },
+      {
+        accountCode: ACCOUNTS.MPESA_CASH.code,
+        accountName: ACCOUNTS.MPESA_CASH.name,
+        accountType: ACCOUNTS.MPESA_CASH.type,
+        entryType: EntryType.CREDIT,
+        amount: Math.round((amount + rounding) * 100) / 100,
+        description: `M-Pesa supplier payment: ${description}`,
+      },
+    ];
+
+    if (rounding > 0) {
+      entries.push({
+        accountCode: ACCOUNTS.OPERATING_EXPENSES.code,
+        accountName: ACCOUNTS.OPERATING_EXPENSES.name,
+        accountType: ACCOUNTS.OPERATING_EXPENSES.type,
+        entryType: EntryType.DEBIT,
+        amount: rounding,
+        description: `Supplier payment rounded up to whole shillings: ${description}`,
+      });
+    }
+
+    await this.postTransaction({
+      transactionRef,
+      transactionDate,
+      entries,
+      tx,
+    });
+  }
+
   /**
    * Reverse a transaction (for corrections or refunds)
    * 
@@ -247,11 +788,12 @@ export class AccountingEngine {
     reversalTransactionRef: string;
     reversalDate: Date;
     reason: string;
+    tx?: Prisma.TransactionClient;
   }): Promise<void> {
-    const { originalTransactionRef, reversalTransactionRef, reversalDate, reason } = params;
+    const { originalTransactionRef, reversalTransactionRef, reversalDate, reason, tx } = params;
 
     // Step 1: Get original entries
-    const originalEntries = await prisma.accountingLedger.findMany({
+    const originalEntries = await (tx ?? prisma).accountingLedger.findMany({
       where: { transactionRef: originalTransactionRef },
     });
 
@@ -273,6 +815,7 @@ export class AccountingEngine {
       transactionRef: reversalTransactionRef,
       transactionDate: reversalDate,
       entries: reversalEntries,
+      tx,
       paymentId: originalEntries[0].paymentId || undefined,
       invoiceId: originalEntries[0].invoiceId || undefined,
       customerId: originalEntries[0].customerId || undefined,
@@ -0,0 +1,179 @@
+/**
+ * Kelly OS — Payment Allocation Strategies
+ *
+ * PURPOSE:
+ * Decide how a payment is spread over a customer's open invoices
+ *
+ * STRATEGIES:
+ * - TARGET_INVOICE   — account reference was an invoice: that invoice only
+ * - FIFO             — oldest invoice first (default)
+ * - OLDEST_DUE_DATE  — earliest due date first; invoices without one last
+ * - SMALLEST_BALANCE — smallest outstanding balance first
+ * - PROPORTIONAL     — spread in proportion to each outstanding balance
+ * - EMBEDDED_INVOICE — "CUST001#INV-0042": the named invoice first, then FIFO
+ *
+ * Strategies only plan the split. payment-processor writes the
+ * PaymentInvoice rows, invoice balances and ledger entries.
+ */
+
+import { AllocationStrategy } from '@prisma/client';
+import { normalizeAccountReference } from './account-matcher';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AllocatableInvoice {
+  id: string;
+  invoiceId: string; // Human-readable
+  balance: number;
+  dueDate: Date | null;
+  createdAt: Date;
+}
+
+export interface AllocationContext {
+  amount: number;
+  invoices: AllocatableInvoice[]; // Open invoices, oldest first
+  accountReference: string;
+}
+
+export interface PlannedAllocation {
+  invoiceId: string; // Internal ID
+  amountApplied: number;
+}
+
+export type AllocationStrategyHandler = (context: AllocationContext) => PlannedAllocation[];
+
+// Separates the account number from an invoice number: "CUST001#INV-0042"
+export const EMBEDDED_INVOICE_SEPARATOR = '#';
+
+// Strategies a customer can choose (TARGET_INVOICE follows from the reference)
+export const CUSTOMER_ALLOCATION_STRATEGIES = [
+  AllocationStrategy.FIFO,
+  AllocationStrategy.OLDEST_DUE_DATE,
+  AllocationStrategy.SMALLEST_BALANCE,
+  AllocationStrategy.PROPORTIONAL,
+  AllocationStrategy.EMBEDDED_INVOICE,
+] as const;
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+export const ALLOCATION_STRATEGIES: Record<AllocationStrategy, AllocationStrategyHandler> = {
+  [AllocationStrategy.TARGET_INVOICE]: ({ amount, invoices }) => allocateInOrder(amount, invoices),
+
+  [AllocationStrategy.FIFO]: ({ amount, invoices }) => allocateInOrder(amount, byCreatedAt(invoices)),
+
+  [AllocationStrategy.OLDEST_DUE_DATE]: ({ amount, invoices }) =>
+    allocateInOrder(
+      amount,
+      byCreatedAt(invoices).sort(
+        (a, b) => (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity)
+      )
+    ),
+
+  [AllocationStrategy.SMALLEST_BALANCE]: ({ amount, invoices }) =>
+    allocateInOrder(amount, byCreatedAt(invoices).sort((a, b) => a.balance - b.balance)),
+
+  [AllocationStrategy.PROPORTIONAL]: ({ amount, invoices }) => allocateProportionally(amount, byCreatedAt(invoices)),
+
+  [AllocationStrategy.EMBEDDED_INVOICE]: ({ amount, invoices, accountReference }) => {
+    const { invoiceReference } = splitAccountReference(accountReference);
+    const ordered = byCreatedAt(invoices);
+    const wanted = invoiceReference && normalizeAccountReference(invoiceReference);
+    const named = wanted
+      ? ordered.find((invoice) => normalizeAccountReference(invoice.invoiceId) === wanted)
+      : undefined;
+
+    return allocateInOrder(amount, named ? [named, ...ordered.filter((invoice) => invoice !== named)] : ordered);
+  },
+};
+
+/**
+ * Plan how a payment is spread over open invoices
+ */
+export function planAllocation(strategy: AllocationStrategy, context: AllocationContext): PlannedAllocation[] {
+  return ALLOCATION_STRATEGIES[strategy](context).filter((allocation) => allocation.amountApplied > 0);
+}
+
+/**
+ * Split "CUST001#INV-0042" into the account number and the invoice number
+ */
+export function splitAccountReference(accountReference: string): {
+  accountReference: string;
+  invoiceReference: string | null;
+} {
+  const separator = accountReference.indexOf(EMBEDDED_INVOICE_SEPARATOR);
+
+  if (separator < 0) {
+    return { accountReference, invoiceReference: null };
+  }
+
+  return {
+    accountReference: accountReference.slice(0, separator).trim(),
+    invoiceReference: accountReference.slice(separator + 1).trim() || null,
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Pay each invoice in full, in order, until the amount runs out
+ */
+function allocateInOrder(amount: number, invoices: AllocatableInvoice[]): PlannedAllocation[] {
+  const allocations: PlannedAllocation[] = [];
+  let remaining = amount;
+
+  for (const invoice of invoices) {
+    if (remaining <= 0) break;
+
+    const amountApplied = roundCents(Math.min(remaining, invoice.balance));
+    allocations.push({ invoiceId: invoice.id, amountApplied });
+    remaining = roundCents(remaining - amountApplied);
+  }
+
+  return allocations;
+}
+
+/**
+ * Give each invoice the same share of its balance
+ *
+ * Shares are rounded down to the cent; leftover cents go to the oldest
+ * invoices that still have room
+ */
+function allocateProportionally(amount: number, invoices: AllocatableInvoice[]): PlannedAllocation[] {
+  const total = invoices.reduce((sum, invoice) => sum + invoice.balance, 0);
+
+  if (amount >= total) {
+    return allocateInOrder(amount, invoices);
+  }
+
+  const allocations = invoices.map((invoice) => ({
+    invoiceId: invoice.id,
+    amountApplied: Math.floor(((invoice.balance * amount) / total) * 100) / 100,
+    balance: invoice.balance,
+  }));
+
+  let leftover = roundCents(amount - allocations.reduce((sum, a) => sum + a.amountApplied, 0));
+
+  for (const allocation of allocations) {
+    if (leftover <= 0) break;
+
+    const extra = roundCents(Math.min(leftover, allocation.balance - allocation.amountApplied));
+    allocation.amountApplied = roundCents(allocation.amountApplied + extra);
+    leftover = roundCents(leftover - extra);
+  }
+
+  return allocations.map(({ invoiceId, amountApplied }) => ({ invoiceId, amountApplied }));
+}
+
+function byCreatedAt(invoices: AllocatableInvoice[]): AllocatableInvoice[] {
+  return [...invoices].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
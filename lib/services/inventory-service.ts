@@ -0,0 +1,605 @@
+/**
+ * Kelly OS — Inventory Service
+ *
+ * PURPOSE:
+ * Track stock through an append-only StockMovement ledger
+ *
+ * RULES:
+ * 1. Every stock change is a StockMovement; Product.stockQty is their running total
+ * 2. A POS sale takes stock out when it becomes PAID and puts it back when it
+ *    stops being PAID (reversal, reallocation). Pending sales hold no stock,
+ *    so cancelling one has nothing to return.
+ * 2b. An invoice raised directly (not from a POS sale) takes its product
+ *    lines out of stock when it is created, with its cost of sales, and puts
+ *    them back when it is cancelled
+ * 3. A sales return refund puts the invoice lines it takes back into stock
+ *    (all of what is left of them when it clears the invoice). Returned
+ *    quantities are kept on the line, so reopening, reversing or cancelling
+ *    the sale later moves only what the customer still has
+ * 4. SERVICES products are not stocked
+ * 5. Goods received against a purchase order are RECEIPT movements
+ *    (purchase-order-service.ts); receipts by hand are for stock bought outside one
+ * 6. Stock may go negative (the shelf is right, the count is not); counts fix it
+ *
+ * WEIGHTED-AVERAGE COST:
+ * A receipt with a unitCost re-averages Product.cost over the stock on hand:
+ *   cost = (onHand × cost + received × unitCost) / (onHand + received)
+ * Negative or uncosted stock on hand counts as none. Sales post COGS at this
+ * cost when they are invoiced, POS sales when their stock is issued
+ * (invoice-service.ts).
+ *
+ * STOCK VALUE:
+ * Movements recorded by hand post their value to 1300 Inventory:
+ * - RECEIPT with a unitCost: quantity × unitCost against 2050 Goods Received
+ *   Not Invoiced, cleared when the supplier's bill is recorded
+ * - RETURN: quantity × cost against 5000 Cost of Goods Sold
+ * - ADJUSTMENT: quantity × cost against 5100 Inventory Adjustments
+ * TRANSFERs move stock between branches and post nothing.
+ *
+ * LOW STOCK:
+ * Active products at or below their reorderLevel are listed on the dashboard
+ */
+
+import prisma from '@/lib/prisma';
+import { publishEvent } from '@/lib/event-bus';
+import { lockProduct } from '@/lib/locks';
+import { AccountingEngine, generateTransactionRef } from './accounting-engine';
+import { Prisma, Product, ProductCategory, StockMovement, StockMovementType } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// A quantity of an invoice line coming back with a sales return
+export interface ReturnedLine {
+  lineItemId: string;
+  quantity: number;
+}
+
+export interface RecordMovementParams {
+  productId: string;
+  type: StockMovementType;
+  quantity: number; // Signed: + into stock, - out of stock
+  unitCost?: number; // Purchase cost per unit (RECEIPT only)
+  posSaleId?: string;
+  refundId?: string;
+  goodsReceiptId?: string;
+  branchId?: string | null;
+  reference?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+// Movements staff record by hand; SALE movements only come from sales and invoices
+export const MANUAL_STOCK_MOVEMENT_TYPES = [
+  StockMovementType.RECEIPT,
+  StockMovementType.RETURN,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.TRANSFER,
+] as const;
+
+export type ManualStockMovementType = (typeof MANUAL_STOCK_MOVEMENT_TYPES)[number];
+
+export interface StockDiscrepancy {
+  id: string;
+  productId: string;
+  name: string;
+  stockQty: number;
+  movementTotal: number;
+  correction: 'OPENING_BALANCE' | 'UNRECORDED_CHANGE';
+}
+
+// ============================================================================
+// INVENTORY SERVICE
+// ============================================================================
+
+export class InventoryService {
+  /**
+   * Append a movement and move the product's stockQty by the same amount
+   *
+   * @param tx - Interactive transaction client (prisma.$transaction callback)
+   */
+  static async recordMovement(tx: any, params: RecordMovementParams): Promise<StockMovement> {
+    const quantity = new Prisma.Decimal(params.quantity);
+
+    if (params.type === StockMovementType.RECEIPT && params.unitCost !== undefined) {
+      await this.averageCost(tx, params.productId, params.quantity, params.unitCost);
+    }
+
+    // Atomic increment: concurrent sales of one product each see the other's result
+    const product = await tx.product.update({
+      where: { id: params.productId },
+      data: { stockQty: { increment: quantity } },
+    });
+    const balance = product.stockQty ?? new Prisma.Decimal(0);
+
+    if (product.inStock !== balance.gt(0)) {
+      await tx.product.update({
+        where: { id: product.id },
+        data: { inStock: balance.gt(0) },
+      });
+    }
+
+    return tx.stockMovement.create({
+      data: {
+        productId: product.id,
+        type: params.type,
+        quantity,
+        balanceAfter: balance,
+        unitCost: params.unitCost !== undefined ? new Prisma.Decimal(params.unitCost) : undefined,
+        posSaleId: params.posSaleId,
+        refundId: params.refundId,
+        goodsReceiptId: params.goodsReceiptId,
+        branchId: params.branchId,
+        reference: params.reference,
+        notes: params.notes,
+        createdBy: params.createdBy,
+      },
+    });
+  }
+
+  /**
+   * Take a paid POS sale's items out of stock
+   */
+  static async issueSaleStock(tx: any, posSaleId: string): Promise<void> {
+    await this.moveSaleStock(tx, posSaleId, StockMovementType.SALE, -1, {});
+  }
+
+  /**
+   * Put a POS sale's items back into stock (sale reopened or returned)
+   */
+  static async returnSaleStock(
+    tx: any,
+    posSaleId: string,
+    details: { refundId?: string; notes?: string }
+  ): Promise<void> {
+    await this.moveSaleStock(tx, posSaleId, StockMovementType.RETURN, 1, details);
+  }
+
+  /**
+   * Take a directly raised invoice's product lines out of stock
+   * (POS sale invoices move stock through their sale)
+   */
+  static async issueInvoiceStock(tx: any, invoiceId: string): Promise<void> {
+    await this.moveInvoiceStock(tx, invoiceId, StockMovementType.SALE, -1, {});
+  }
+
+  /**
+   * Put a directly raised invoice's product lines back into stock (cancelled or returned)
+   */
+  static async returnInvoiceStock(
+    tx: any,
+    invoiceId: string,
+    details: { refundId?: string; notes?: string }
+  ): Promise<void> {
+    await this.moveInvoiceStock(tx, invoiceId, StockMovementType.RETURN, 1, details);
+  }
+
+  /**
+   * Put part of an invoice's product lines back into stock (sales return)
+   *
+   * Movements carry the POS sale when the invoice has one. The caller keeps
+   * the lines' returnedQty.
+   */
+  static async returnInvoiceLines(
+    tx: any,
+    invoiceId: string,
+    lines: ReturnedLine[],
+    details: { refundId?: string; notes?: string }
+  ): Promise<void> {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { lineItems: true, posSale: true },
+    });
+
+    if (!invoice) return;
+
+    const products = await this.lineProducts(tx, invoice.lineItems);
+
+    for (const line of lines) {
+      const item = invoice.lineItems.find((i: any) => i.id === line.lineItemId);
+      const product = item && products.find((p) => p.id === item.productId || p.productId === item.productId);
+      if (!product || product.category === ProductCategory.SERVICES) continue;
+
+      await this.recordMovement(tx, {
+        productId: product.id,
+        type: StockMovementType.RETURN,
+        quantity: line.quantity,
+        posSaleId: invoice.posSale?.id,
+        refundId: details.refundId,
+        branchId: invoice.posSale?.branchId,
+        reference: invoice.posSale?.posId ?? invoice.invoiceId,
+        notes: details.notes,
+      });
+    }
+  }
+
+  /**
+   * Bring stockQty to a counted quantity with an ADJUSTMENT for the difference
+   *
+   * @returns null if the count already matches
+   */
+  static async adjustToCount(
+    tx: any,
+    productId: string,
+    count: number,
+    details: { notes?: string; createdBy?: string } = {}
+  ): Promise<StockMovement | null> {
+    const product = await tx.product.findUnique({ where: { id: productId } });
+    const difference = count - (product.stockQty?.toNumber() ?? 0);
+
+    if (difference === 0) return null;
+
+    return this.recordMovement(tx, {
+      productId,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: difference,
+      notes: details.notes || 'Stock count',
+      createdBy: details.createdBy,
+    });
+  }
+
+  /**
+   * Record a receipt, return, adjustment or transfer entered by staff
+   *
+   * @throws Error if the product does not exist, the quantity's sign is wrong for
+   *         the type, or a unit cost is given for anything but a receipt
+   */
+  static async recordManualMovement(
+    params: Omit<RecordMovementParams, 'type' | 'posSaleId' | 'refundId' | 'goodsReceiptId'> & { type: ManualStockMovementType }
+  ): Promise<StockMovement> {
+    const product = await prisma.product.findFirst({
+      where: { OR: [{ id: params.productId }, { productId: params.productId }, { sku: params.productId }] },
+    });
+
+    if (!product) {
+      throw new Error(`Product not found: ${params.productId}`);
+    }
+
+    if (params.quantity === 0) {
+      throw new Error('Quantity must not be zero');
+    }
+
+    // Receipts and returns only ever add stock
+    if (
+      (params.type === StockMovementType.RECEIPT || params.type === StockMovementType.RETURN) &&
+      params.quantity < 0
+    ) {
+      throw new Error(`${params.type} quantity must be positive`);
+    }
+
+    if (params.unitCost !== undefined && params.type !== StockMovementType.RECEIPT) {
+      throw new Error('Unit cost can only be given for a RECEIPT');
+    }
+
+    const movement = await prisma.$transaction(async (tx: any) => {
+      await lockProduct(tx, product.id);
+
+      // Valued before the movement: returns and adjustments leave cost unchanged, a receipt re-averages it
+      const value = await this.manualMovementValue(tx, product.id, params);
+      const recorded = await this.recordMovement(tx, { ...params, productId: product.id });
+
+      if (value !== 0) {
+        await this.postMovementValue(
+          tx,
+          params.type,
+          value,
+          `${params.type} ${product.productId} × ${params.quantity}${params.notes ? ` (${params.notes})` : ''}`
+        );
+      }
+
+      return recorded;
+    });
+
+    console.log('📦 Stock movement recorded:', {
+      productId: product.productId,
+      type: params.type,
+      quantity: params.quantity,
+      balanceAfter: movement.balanceAfter.toNumber(),
+      ...(params.unitCost !== undefined && { unitCost: params.unitCost }),
+    });
+
+    publishEvent({
+      type: 'stock.moved',
+      branchId: params.branchId,
+      data: {
+        productId: product.id,
+        type: params.type,
+        quantity: params.quantity,
+        balanceAfter: movement.balanceAfter.toNumber(),
+      },
+    });
+
+    return movement;
+  }
+
+  /**
+   * Movement history, newest first
+   */
+  static async getMovements(params: { productId?: string; type?: StockMovementType; limit?: number }) {
+    return prisma.stockMovement.findMany({
+      where: {
+        ...(params.productId && { productId: params.productId }),
+        ...(params.type && { type: params.type }),
+      },
+      include: { product: { select: { productId: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: params.limit || 100,
+    });
+  }
+
+  /**
+   * Active products at or below their reorder level
+   */
+  static async getLowStockProducts(): Promise<Product[]> {
+    return prisma.product.findMany({
+      where: {
+        isActive: true,
+        reorderLevel: { not: null },
+        stockQty: { lte: prisma.product.fields.reorderLevel },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Compare every product's stockQty with the total of its movements
+   *
+   * With apply = true:
+   * - Products with no movements get an ADJUSTMENT for their current stockQty
+   *   (stock entered before movements were tracked)
+   * - Everything else gets an ADJUSTMENT for the change made to stockQty
+   *   without a movement
+   * Both are valued like a manual adjustment, so stock sold later has the
+   * Inventory its cost of sales comes out of
+   */
+  static async reconcile(apply = false): Promise<StockDiscrepancy[]> {
+    const [products, totals] = await Promise.all([
+      prisma.product.findMany({ orderBy: { productId: 'asc' } }),
+      prisma.stockMovement.groupBy({
+        by: ['productId'],
+        _sum: { quantity: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const discrepancies: StockDiscrepancy[] = [];
+
+    for (const product of products) {
+      const total = totals.find((entry) => entry.productId === product.id);
+      const stockQty = product.stockQty?.toNumber() ?? 0;
+      const movementTotal = total?._sum.quantity?.toNumber() ?? 0;
+
+      if (stockQty === movementTotal) continue;
+
+      discrepancies.push({
+        id: product.id,
+        productId: product.productId,
+        name: product.name,
+        stockQty,
+        movementTotal,
+        correction: total ? 'UNRECORDED_CHANGE' : 'OPENING_BALANCE',
+      });
+    }
+
+    if (apply) {
+      for (const discrepancy of discrepancies) {
+        await prisma.$transaction(async (tx: any) => {
+          await this.recordUnrecordedChange(
+            tx,
+            discrepancy.id,
+            discrepancy.correction === 'OPENING_BALANCE'
+              ? 'Opening balance (reconciliation)'
+              : 'Unrecorded stock change (reconciliation)'
+          );
+        });
+      }
+
+      console.log('📦 Stock reconciled:', { corrected: discrepancies.length });
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Record the stockQty change made without a movement as a valued ADJUSTMENT
+   * (stockQty is put back on its movements, and the adjustment moves it again).
+   * With no movements at all, that is the whole stockQty (an opening balance)
+   */
+  private static async recordUnrecordedChange(tx: any, productId: string, notes: string): Promise<void> {
+    await lockProduct(tx, productId);
+
+    // Re-read under the lock: a sale may have moved stock since the scan
+    const product = await tx.product.findUnique({ where: { id: productId } });
+    const { _sum } = await tx.stockMovement.aggregate({ where: { productId }, _sum: { quantity: true } });
+    const movementTotal = _sum.quantity?.toNumber() ?? 0;
+    const difference = (product.stockQty?.toNumber() ?? 0) - movementTotal;
+
+    if (difference === 0) return;
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { stockQty: new Prisma.Decimal(movementTotal) },
+    });
+
+    const params = {
+      productId,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: difference,
+      notes,
+    } as const;
+    const value = await this.manualMovementValue(tx, productId, params);
+    await this.recordMovement(tx, params);
+
+    if (value !== 0) {
+      await this.postMovementValue(
+        tx,
+        params.type,
+        value,
+        `ADJUSTMENT ${product.productId} × ${difference} (${params.notes})`
+      );
+    }
+  }
+
+  /**
+   * Stock value a manual movement adds (+) or removes (-): a RECEIPT at its
+   * unitCost, a RETURN or ADJUSTMENT at the product's cost. Transfers post nothing
+   */
+  private static async manualMovementValue(
+    tx: any,
+    productId: string,
+    params: { type: ManualStockMovementType; quantity: number; unitCost?: number }
+  ): Promise<number> {
+    let unitCost = 0;
+
+    if (params.type === StockMovementType.RECEIPT) {
+      unitCost = params.unitCost ?? 0;
+    } else if (params.type === StockMovementType.RETURN || params.type === StockMovementType.ADJUSTMENT) {
+      const product = await tx.product.findUnique({ where: { id: productId } });
+      unitCost = product.cost?.toNumber() ?? 0;
+    }
+
+    return Math.round(params.quantity * unitCost * 100) / 100;
+  }
+
+  /**
+   * Post a manual movement's value against the account its type moves stock from
+   * (see STOCK VALUE above)
+   */
+  private static async postMovementValue(
+    tx: any,
+    type: ManualStockMovementType,
+    value: number,
+    description: string
+  ): Promise<void> {
+    const params = {
+      amount: value,
+      transactionDate: new Date(),
+      description,
+      tx,
+    };
+
+    if (type === StockMovementType.RECEIPT) {
+      await AccountingEngine.postStockReceived({ ...params, transactionRef: generateTransactionRef('RCV') });
+    } else if (type === StockMovementType.RETURN) {
+      await AccountingEngine.postStockReturned({ ...params, transactionRef: generateTransactionRef('RET') });
+    } else {
+      await AccountingEngine.postInventoryAdjustment({ ...params, transactionRef: generateTransactionRef('ADJ') });
+    }
+  }
+
+  /**
+   * Re-average a product's cost over the stock on hand plus a receipt
+   * (called before the receipt's quantity is added)
+   */
+  private static async averageCost(tx: any, productId: string, quantity: number, unitCost: number): Promise<void> {
+    await lockProduct(tx, productId);
+
+    const product = await tx.product.findUnique({ where: { id: productId } });
+    const onHand = product.cost ? Math.max(product.stockQty?.toNumber() ?? 0, 0) : 0;
+    const cost =
+      onHand + quantity > 0
+        ? (onHand * (product.cost?.toNumber() ?? 0) + quantity * unitCost) / (onHand + quantity)
+        : unitCost;
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { cost: new Prisma.Decimal(cost.toFixed(2)) },
+    });
+  }
+
+  /**
+   * One movement per stocked product line of a non-POS invoice, the quantity
+   * not yet returned × direction (lines name the product by internal or product ID)
+   */
+  private static async moveInvoiceStock(
+    tx: any,
+    invoiceId: string,
+    type: StockMovementType,
+    direction: 1 | -1,
+    details: { refundId?: string; notes?: string }
+  ): Promise<void> {
+    const invoice = await tx.invoice.findUnique({ where: { id: invoiceId }, include: { lineItems: true } });
+
+    if (!invoice || invoice.posId) return;
+
+    const products = await this.lineProducts(tx, invoice.lineItems);
+
+    for (const item of invoice.lineItems) {
+      const product = products.find((p) => p.id === item.productId || p.productId === item.productId);
+      if (!product || product.category === ProductCategory.SERVICES) continue;
+
+      // Sales returns have already brought some back
+      const quantity = item.quantity.toNumber() - item.returnedQty.toNumber();
+      if (quantity <= 0) continue;
+
+      await this.recordMovement(tx, {
+        productId: product.id,
+        type,
+        quantity: direction * quantity,
+        refundId: details.refundId,
+        reference: invoice.invoiceId,
+        notes: details.notes,
+      });
+    }
+  }
+
+  /**
+   * Products named by invoice lines (by internal or product ID)
+   */
+  private static async lineProducts(tx: any, lineItems: Array<{ productId: string | null }>): Promise<Product[]> {
+    const ids = lineItems.flatMap((item) => (item.productId ? [item.productId] : []));
+    if (ids.length === 0) return [];
+
+    return tx.product.findMany({
+      where: { OR: [{ id: { in: ids } }, { productId: { in: ids } }] },
+    });
+  }
+
+  /**
+   * One movement per stocked POS item, the quantity not yet returned × direction
+   */
+  private static async moveSaleStock(
+    tx: any,
+    posSaleId: string,
+    type: StockMovementType,
+    direction: 1 | -1,
+    details: { refundId?: string; notes?: string }
+  ): Promise<void> {
+    const sale = await tx.pOSSale.findUnique({
+      where: { id: posSaleId },
+      include: { items: { include: { product: true } } },
+    });
+
+    if (!sale) return;
+
+    // Quantities sales returns have taken back, by product, from the sale's invoice lines
+    const returnedLines = await tx.invoiceLineItem.findMany({
+      where: { invoice: { posId: sale.id }, returnedQty: { gt: 0 } },
+    });
+    const returned = new Map<string, number>();
+    for (const line of returnedLines) {
+      returned.set(line.productId, (returned.get(line.productId) ?? 0) + line.returnedQty.toNumber());
+    }
+
+    for (const item of sale.items) {
+      if (!item.product || item.product.category === ProductCategory.SERVICES) continue;
+
+      const alreadyReturned = Math.min(returned.get(item.productId) ?? 0, item.quantity.toNumber());
+      returned.set(item.productId, (returned.get(item.productId) ?? 0) - alreadyReturned);
+      const quantity = item.quantity.toNumber() - alreadyReturned;
+      if (quantity <= 0) continue;
+
+      await this.recordMovement(tx, {
+        productId: item.productId,
+        type,
+        quantity: direction * quantity,
+        posSaleId: sale.id,
+        refundId: details.refundId,
+        branchId: sale.branchId,
+        reference: sale.posId,
+        notes: details.notes,
+      });
+    }
+  }
+}
@@ -9,11 +9,27 @@
  * - POS-to-invoice conversion
  * - Partial payment support
  * - Automatic accounting entries
+ * - Cost of goods sold posted for stocked product lines
+ * - Existing customer credit applied to new invoices (Customer.autoApplyCredit)
  */
 
 import prisma from '@/lib/prisma';
-import { AccountingEngine, generateTransactionRef } from './accounting-engine';
-import { InvoiceStatus, Prisma } from '@prisma/client';
+import { publishEvent } from '@/lib/event-bus';
+import { lockCustomer } from '@/lib/locks';
+import { ACCOUNTS, AccountingEngine, generateTransactionRef } from './accounting-engine';
+import { normalizeAccountReference } from './account-matcher';
+import { InventoryService, ReturnedLine } from './inventory-service';
+import {
+  EntryType,
+  InvoiceStatus,
+  PaymentStatus,
+  POSStatus,
+  Prisma,
+  Product,
+  ProductCategory,
+  RefundStatus,
+  RefundType,
+} from '@prisma/client';
 
 // ============================================================================
 // TYPES
@@ -53,12 +69,40 @@ export class InvoiceService {
    * ACCOUNTING IMPACT:
    * DR  Accounts Receivable  (customer owes money)
    * CR  Sales Revenue        (we earned revenue)
+   *
+   * Line items for stocked products (not SERVICES) with a cost also post:
+   * DR  Cost of Goods Sold   (quantity × Product.cost at the time of sale)
+   * CR  Inventory
+   * and the products leave stock as SALE movements. POS sale invoices do
+   * both when the sale is paid and its stock issued (postCostOfSales), not here.
+   *
+   * Unapplied payments are then allocated to the invoice. Their cash
+   * already credited A/R, so applying them posts nothing new.
    */
   static async createInvoice(params: CreateInvoiceParams): Promise<InvoiceResult> {
+    const result = await prisma.$transaction((tx: any) => this.recordInvoice(tx, params));
+
+    publishEvent({
+      type: 'invoice.created',
+      customerId: result.customerId,
+      data: result,
+    });
+
+    return result;
+  }
+
+  /**
+   * Create an invoice inside the caller's transaction (see createInvoice)
+   *
+   * The caller publishes invoice.created once its transaction commits
+   *
+   * @param tx - Interactive transaction client (prisma.$transaction callback)
+   */
+  static async recordInvoice(tx: any, params: CreateInvoiceParams): Promise<InvoiceResult> {
     const { customerId, invoiceId, amount, description, dueDate, lineItems, posId } = params;
 
     // Validate customer exists
-    const customer = await prisma.customer.findUnique({
+    const customer = await tx.customer.findUnique({
       where: { id: customerId },
     });
 
@@ -69,71 +113,99 @@ export class InvoiceService {
     // Generate invoice ID if not provided
     const finalInvoiceId = invoiceId || await this.generateInvoiceId();
 
-    // Create invoice in transaction
-    const result = await prisma.$transaction(async (tx: any) => {
-      // 1. Create invoice
-      const invoice = await tx.invoice.create({
-        data: {
-          invoiceId: finalInvoiceId,
-          customerId,
-          amount: new Prisma.Decimal(amount),
-          balance: new Prisma.Decimal(amount),
-          amountPaid: new Prisma.Decimal(0),
-          status: InvoiceStatus.UNPAID,
-          description,
-          dueDate,
-          posId,
-        },
-      });
+    // 0. Wait for other payments / invoices for this customer
+    await lockCustomer(tx, customerId);
 
-      // 2. Create line items if provided
-      if (lineItems && lineItems.length > 0) {
-        await tx.invoiceLineItem.createMany({
-          data: lineItems.map((item) => ({
-            invoiceId: invoice.id,
-            description: item.description,
-            quantity: new Prisma.Decimal(item.quantity),
-            unitPrice: new Prisma.Decimal(item.unitPrice),
-            total: new Prisma.Decimal(item.quantity * item.unitPrice),
-            productId: item.productId,
-          })),
-        });
-      }
+    // 1. Create invoice
+    const invoice = await tx.invoice.create({
+      data: {
+        invoiceId: finalInvoiceId,
+        accountKey: normalizeAccountReference(finalInvoiceId),
+        customerId,
+        amount: new Prisma.Decimal(amount),
+        balance: new Prisma.Decimal(amount),
+        amountPaid: new Prisma.Decimal(0),
+        status: InvoiceStatus.UNPAID,
+        description,
+        dueDate,
+        posId,
+      },
+    });
 
-      // 3. Update customer balance
-      const newBalance = customer.balance.toNumber() + amount;
-      await tx.customer.update({
-        where: { id: customerId },
-        data: { balance: new Prisma.Decimal(newBalance) },
+    // 2. Create line items if provided, recording what each product cost us
+    const unitCosts = await this.lineItemCosts(tx, lineItems || []);
+    if (lineItems && lineItems.length > 0) {
+      await tx.invoiceLineItem.createMany({
+        data: lineItems.map((item, index) => ({
+          invoiceId: invoice.id,
+          description: item.description,
+          quantity: new Prisma.Decimal(item.quantity),
+          unitPrice: new Prisma.Decimal(item.unitPrice),
+          total: new Prisma.Decimal(item.quantity * item.unitPrice),
+          productId: item.productId,
+          unitCost: unitCosts[index] !== null ? new Prisma.Decimal(unitCosts[index]!) : undefined,
+        })),
       });
+    }
+
+    // 3. Update customer balance (atomic: the balance read above may be stale)
+    await tx.customer.update({
+      where: { id: customerId },
+      data: { balance: { increment: new Prisma.Decimal(amount) } },
+    });
+
+    // 4. Post to accounting ledger
+    const transactionRef = generateTransactionRef('INV');
+    await AccountingEngine.postInvoiceCreated({
+      transactionRef,
+      amount,
+      customerId,
+      invoiceId: invoice.id,
+      transactionDate: new Date(),
+      description: description || `Invoice ${finalInvoiceId}`,
+      tx,
+    });
+
+    // 4b. Issue the stock sold and post its cost (a POS sale's stock only leaves once it is paid)
+    if (!posId) {
+      await InventoryService.issueInvoiceStock(tx, invoice.id);
+    }
 
-      // 4. Post to accounting ledger
-      const transactionRef = generateTransactionRef('INV');
-      await AccountingEngine.postInvoiceCreated({
-        transactionRef,
-        amount,
+    const costOfSales = (lineItems || []).reduce(
+      (sum, item, index) => sum + item.quantity * (unitCosts[index] ?? 0),
+      0
+    );
+    if (costOfSales > 0 && !posId) {
+      await AccountingEngine.postCostOfSales({
+        transactionRef: generateTransactionRef('COGS'),
+        amount: Math.round(costOfSales * 100) / 100,
         customerId,
         invoiceId: invoice.id,
         transactionDate: new Date(),
         description: description || `Invoice ${finalInvoiceId}`,
+        tx,
       });
+    }
 
-      console.log('📄 Invoice created:', {
-        invoiceId: finalInvoiceId,
-        customerId,
-        amount,
-      });
+    // 5. Apply existing credit
+    const status = customer.autoApplyCredit
+      ? await this.applyCredit(tx, invoice)
+      : invoice.status;
 
-      return {
-        id: invoice.id,
-        invoiceId: invoice.invoiceId,
-        customerId: invoice.customerId,
-        amount: invoice.amount.toNumber(),
-        status: invoice.status,
-      };
+    console.log('📄 Invoice created:', {
+      invoiceId: finalInvoiceId,
+      customerId,
+      amount,
+      status,
     });
 
-    return result;
+    return {
+      id: invoice.id,
+      invoiceId: invoice.invoiceId,
+      customerId: invoice.customerId,
+      amount: invoice.amount.toNumber(),
+      status,
+    };
   }
 
   /**
@@ -228,7 +300,6 @@ export class InvoiceService {
   static async cancelInvoice(invoiceId: string, reason: string): Promise<void> {
     const invoice = await prisma.invoice.findUnique({
       where: { id: invoiceId },
-      include: { customer: true },
     });
 
     if (!invoice) {
@@ -244,42 +315,331 @@ export class InvoiceService {
     }
 
     await prisma.$transaction(async (tx: any) => {
-      // 1. Update invoice status
-      await tx.invoice.update({
-        where: { id: invoiceId },
+      await lockCustomer(tx, invoice.customerId);
+
+      // 1. Update invoice status (unless a payment or cancellation got there first)
+      const { count } = await tx.invoice.updateMany({
+        where: { id: invoiceId, status: InvoiceStatus.UNPAID, amountPaid: 0 },
         data: { status: InvoiceStatus.CANCELLED },
       });
 
+      if (count === 0) {
+        throw new Error(`Invoice is no longer unpaid: ${invoice.invoiceId}`);
+      }
+
       // 2. Update customer balance
-      const newBalance = invoice.customer.balance.toNumber() - invoice.amount.toNumber();
       await tx.customer.update({
         where: { id: invoice.customerId },
-        data: { balance: new Prisma.Decimal(newBalance) },
+        data: { balance: { decrement: invoice.amount } },
       });
 
-      // 3. Reverse accounting entries
-      const originalTransactionRef = await this.findInvoiceTransactionRef(invoiceId);
-      if (originalTransactionRef) {
-        const reversalTransactionRef = generateTransactionRef('REV');
+      // 3. Reverse accounting entries (revenue, then cost of sales: the goods come back into stock)
+      for (const originalTransactionRef of await this.findInvoiceTransactionRefs(tx, invoiceId, 'INV')) {
         await AccountingEngine.reverseTransaction({
           originalTransactionRef,
-          reversalTransactionRef,
+          reversalTransactionRef: generateTransactionRef('REV'),
           reversalDate: new Date(),
           reason: `Invoice cancelled: ${reason}`,
+          tx,
         });
       }
+      await this.reverseCostOfSales(tx, invoiceId, `Invoice cancelled: ${reason}`);
+      await InventoryService.returnInvoiceStock(tx, invoiceId, { notes: `Invoice cancelled: ${reason}` });
     });
 
     console.log('❌ Invoice cancelled:', invoiceId);
   }
 
   /**
-   * Find the original accounting transaction ref for an invoice
+   * Allocate the customer's unapplied payments to a new invoice
+   *
+   * STRATEGY: oldest payment first, until the invoice or the credit runs out
+   *
+   * Credit a pending CREDIT_BALANCE refund is paying out is left alone: the
+   * refund takes it off the payments when its B2C result arrives. Callers
+   * hold the customer lock, which requestRefund also takes.
+   *
+   * @returns The invoice status after allocation
    */
-  private static async findInvoiceTransactionRef(invoiceId: string): Promise<string | null> {
-    const entry = await prisma.accountingLedger.findFirst({
-      where: { invoiceId },
+  private static async applyCredit(
+    tx: any,
+    invoice: { id: string; invoiceId: string; customerId: string; amount: Prisma.Decimal; status: InvoiceStatus }
+  ): Promise<InvoiceStatus> {
+    const payments = await tx.payment.findMany({
+      where: {
+        customerId: invoice.customerId,
+        status: PaymentStatus.COMPLETED,
+        unappliedAmount: { gt: 0 },
+      },
+      orderBy: { transactionDate: 'asc' },
+    });
+
+    const credit = payments.reduce((sum: number, payment: any) => sum + payment.unappliedAmount.toNumber(), 0);
+    const refunding = await sumPendingCreditRefunds(tx, invoice.customerId);
+    const applicable = Math.min(invoice.amount.toNumber(), Math.round((credit - refunding) * 100) / 100);
+    let amountPaid = 0;
+
+    for (const payment of payments) {
+      const remaining = Math.round((applicable - amountPaid) * 100) / 100;
+      if (remaining <= 0) break;
+
+      const amountToApply = Math.min(payment.unappliedAmount.toNumber(), remaining);
+
+      await tx.paymentInvoice.create({
+        data: {
+          paymentId: payment.id,
+          invoiceId: invoice.id,
+          amountApplied: new Prisma.Decimal(amountToApply),
+          appliedFromCredit: true,
+        },
+      });
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { unappliedAmount: { decrement: new Prisma.Decimal(amountToApply) } },
+      });
+
+      amountPaid += amountToApply;
+    }
+
+    if (amountPaid === 0) {
+      return invoice.status;
+    }
+
+    const updated = await adjustInvoicePayment(tx, invoice.id, amountPaid);
+
+    console.log('💳 Credit applied to invoice:', {
+      invoiceId: invoice.invoiceId,
+      amountApplied: amountPaid,
+      newBalance: updated.balance.toNumber(),
+      status: updated.status,
     });
-    return entry?.transactionRef || null;
+
+    return updated.status;
   }
+
+  /**
+   * Reverse the cost of sales posted for an invoice (goods back in inventory)
+   *
+   * At most one posting is outstanding (the latest), so this is a no-op
+   * when it has already been reversed. When sales returns have taken part
+   * of it back, only the rest is returned.
+   */
+  static async reverseCostOfSales(tx: any, invoiceId: string, reason: string): Promise<void> {
+    const outstanding = await this.costOfSalesPosted(tx, invoiceId);
+    if (outstanding <= 0) return;
+
+    const latest = await tx.accountingLedger.findFirst({
+      where: { invoiceId, transactionRef: { startsWith: 'COGS-' } },
+      orderBy: { createdAt: 'desc' },
+      select: { transactionRef: true, customerId: true, amount: true },
+    });
+
+    if (outstanding < latest.amount.toNumber()) {
+      await AccountingEngine.postStockReturned({
+        transactionRef: generateTransactionRef('RET'),
+        amount: Math.round(outstanding * 100) / 100,
+        customerId: latest.customerId ?? undefined,
+        invoiceId,
+        transactionDate: new Date(),
+        description: reason,
+        tx,
+      });
+      return;
+    }
+
+    await AccountingEngine.reverseTransaction({
+      originalTransactionRef: latest.transactionRef,
+      reversalTransactionRef: generateTransactionRef('REV'),
+      reversalDate: new Date(),
+      reason,
+      tx,
+    });
+  }
+
+  /**
+   * Take invoice lines back with a sales return
+   *
+   * The quantities are recorded on the lines. Goods that had left (a direct
+   * invoice, or a paid POS sale) go back into stock and their cost comes off
+   * COGS; a pending POS sale holds neither, and issuing it later leaves the
+   * returned quantities out.
+   */
+  static async returnLines(
+    tx: any,
+    invoiceId: string,
+    lines: ReturnedLine[],
+    details: { refundId: string; reason: string }
+  ): Promise<void> {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { lineItems: true, posSale: true },
+    });
+
+    let cost = 0;
+    for (const line of lines) {
+      const item = invoice.lineItems.find((i: any) => i.id === line.lineItemId);
+      if (!item || line.quantity <= 0) continue;
+
+      await tx.invoiceLineItem.update({
+        where: { id: item.id },
+        data: { returnedQty: { increment: new Prisma.Decimal(line.quantity) } },
+      });
+      cost += line.quantity * (item.unitCost?.toNumber() ?? 0);
+    }
+
+    if (invoice.posSale && invoice.posSale.status !== POSStatus.PAID) return;
+
+    await InventoryService.returnInvoiceLines(tx, invoiceId, lines, {
+      refundId: details.refundId,
+      notes: details.reason,
+    });
+
+    // Never more than the invoice has on COGS
+    const amount = Math.min(Math.round(cost * 100) / 100, await this.costOfSalesPosted(tx, invoiceId));
+    if (amount <= 0) return;
+
+    await AccountingEngine.postStockReturned({
+      transactionRef: generateTransactionRef('RET'),
+      amount,
+      customerId: invoice.customerId,
+      invoiceId,
+      transactionDate: new Date(),
+      description: `Sales return: ${details.reason}`,
+      tx,
+    });
+  }
+
+  /**
+   * Post a POS sale invoice's cost of sales when the sale's stock is issued
+   * (paid, or paid again after being reopened), at the unit costs recorded
+   * on its lines, for the quantities not returned
+   *
+   * No-op while a posting is outstanding
+   */
+  static async postCostOfSales(tx: any, invoiceId: string, description: string): Promise<void> {
+    if ((await this.costOfSalesPosted(tx, invoiceId)) > 0) return;
+
+    const invoice = await tx.invoice.findUnique({ where: { id: invoiceId }, include: { lineItems: true } });
+    const costOfSales = invoice.lineItems.reduce(
+      (sum: number, item: any) =>
+        sum + (item.quantity.toNumber() - item.returnedQty.toNumber()) * (item.unitCost?.toNumber() ?? 0),
+      0
+    );
+    if (costOfSales <= 0) return;
+
+    await AccountingEngine.postCostOfSales({
+      transactionRef: generateTransactionRef('COGS'),
+      amount: Math.round(costOfSales * 100) / 100,
+      customerId: invoice.customerId,
+      invoiceId,
+      transactionDate: new Date(),
+      description,
+      tx,
+    });
+  }
+
+  /**
+   * Unit cost of each line item's product; null for non-product lines,
+   * SERVICES and products with no cost
+   */
+  private static async lineItemCosts(
+    tx: any,
+    lineItems: NonNullable<CreateInvoiceParams['lineItems']>
+  ): Promise<Array<number | null>> {
+    const ids = lineItems.flatMap((item) => (item.productId ? [item.productId] : []));
+    if (ids.length === 0) return lineItems.map(() => null);
+
+    const products: Product[] = await tx.product.findMany({
+      where: { OR: [{ id: { in: ids } }, { productId: { in: ids } }] },
+    });
+
+    return lineItems.map((item) => {
+      const product = products.find((p) => p.id === item.productId || p.productId === item.productId);
+      if (!product?.cost || product.category === ProductCategory.SERVICES) return null;
+      return product.cost.toNumber();
+    });
+  }
+
+  /**
+   * Net cost of sales currently posted for an invoice (COGS debits - credits)
+   */
+  private static async costOfSalesPosted(tx: any, invoiceId: string): Promise<number> {
+    const entries = await tx.accountingLedger.groupBy({
+      by: ['entryType'],
+      where: { invoiceId, accountCode: ACCOUNTS.COST_OF_GOODS_SOLD.code },
+      _sum: { amount: true },
+    });
+
+    return entries.reduce(
+      (sum: number, entry: any) =>
+        sum + (entry.entryType === EntryType.DEBIT ? 1 : -1) * (entry._sum.amount?.toNumber() ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Find an invoice's accounting transaction refs with a given prefix (e.g. INV)
+   */
+  private static async findInvoiceTransactionRefs(tx: any, invoiceId: string, prefix: string): Promise<string[]> {
+    const entries = await tx.accountingLedger.findMany({
+      where: { invoiceId, transactionRef: { startsWith: `${prefix}-` } },
+      distinct: ['transactionRef'],
+      select: { transactionRef: true },
+    });
+    return entries.map((entry: { transactionRef: string }) => entry.transactionRef);
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Invoice status for a given amount paid and remaining balance
+ */
+export function resolveInvoiceStatus(amountPaid: number, balance: number): InvoiceStatus {
+  if (balance <= 0.01) return InvoiceStatus.PAID;
+  if (amountPaid > 0) return InvoiceStatus.PARTIALLY_PAID;
+  return InvoiceStatus.UNPAID;
+}
+
+/**
+ * Credit the customer's pending CREDIT_BALANCE refunds are paying out
+ *
+ * It stays on the payments' unappliedAmount until the B2C result arrives,
+ * so it must not be allocated meanwhile
+ */
+export async function sumPendingCreditRefunds(tx: any, customerId: string): Promise<number> {
+  const result = await tx.refund.aggregate({
+    where: { customerId, type: RefundType.CREDIT_BALANCE, status: RefundStatus.PENDING },
+    _sum: { amount: true },
+  });
+
+  return result._sum.amount?.toNumber() || 0;
+}
+
+/**
+ * Add `amount` to what has been paid on an invoice (negative to unapply)
+ *
+ * amountPaid and balance move with atomic increment / decrement, then the
+ * status is set from the updated row. Cancelled invoices stay cancelled.
+ *
+ * @returns The updated invoice
+ */
+export async function adjustInvoicePayment(tx: any, invoiceId: string, amount: number) {
+  const invoice = await tx.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      amountPaid: { increment: new Prisma.Decimal(amount) },
+      balance: { decrement: new Prisma.Decimal(amount) },
+    },
+  });
+
+  if (invoice.status === InvoiceStatus.CANCELLED) return invoice;
+
+  const status = resolveInvoiceStatus(invoice.amountPaid.toNumber(), invoice.balance.toNumber());
+  if (status === invoice.status) return invoice;
+
+  return tx.invoice.update({ where: { id: invoiceId }, data: { status } });
 }
@@ -0,0 +1,327 @@
+/**
+ * Kelly OS — M-Pesa Configuration Service
+ *
+ * PURPOSE:
+ * MpesaConfig rows are the source of truth for every shortcode
+ * (PayBill and Till) the business receives money on
+ *
+ * RESOLUTION:
+ * - Incoming payments: the row matching the callback's BusinessShortCode
+ * - Outbound requests tied to a payment (refund, reversal): the payment's shortcode
+ * - Outbound requests without one (STK Push, queries): the default active row
+ * - No rows at all: the MPESA_* environment variables (single shortcode)
+ *
+ * Secrets are never returned to the settings UI.
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaClient, MpesaClientConfig, mpesaConfigFromEnv } from '@/lib/mpesa-client';
+import { generateSecurityCredential, MpesaEnvironment } from '@/lib/mpesa-security';
+import { MpesaConfig, Prisma, ShortCodeType } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MpesaLimits {
+  maxTransactionAmount: number;
+  dailyCustomerLimit: number;
+}
+
+export interface ResolvedMpesaConfig {
+  id: string | null; // Null when read from environment variables
+  shortCode: string;
+  shortCodeType: ShortCodeType;
+  isActive: boolean;
+  limits: MpesaLimits;
+  client: MpesaClientConfig;
+}
+
+export interface MpesaConfigParams {
+  name: string;
+  shortCode: string;
+  shortCodeType?: ShortCodeType;
+  storeNumber?: string | null;
+  consumerKey: string;
+  consumerSecret: string;
+  passkey?: string | null;
+  initiatorName?: string | null;
+  initiatorPassword?: string; // Encrypted to securityCredential, never stored
+  environment: MpesaEnvironment;
+  callbackUrl?: string | null;
+  maxTransactionAmount?: number;
+  dailyCustomerLimit?: number;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+// Settings view: credentials replaced by flags
+export type MpesaConfigView = Omit<
+  MpesaConfig,
+  'consumerSecret' | 'passkey' | 'securityCredential' | 'maxTransactionAmount' | 'dailyCustomerLimit'
+> & {
+  maxTransactionAmount: number;
+  dailyCustomerLimit: number;
+  hasConsumerSecret: boolean;
+  hasPasskey: boolean;
+  hasSecurityCredential: boolean;
+};
+
+// Limits used when running on environment variables
+export const DEFAULT_MPESA_LIMITS: MpesaLimits = {
+  maxTransactionAmount: 250000,
+  dailyCustomerLimit: 500000,
+};
+
+// ============================================================================
+// M-PESA CONFIG SERVICE
+// ============================================================================
+
+export class MpesaConfigService {
+  /**
+   * Resolve the configuration for a shortcode, or the default one
+   *
+   * @throws Error if shortcodes are configured but this one is not
+   */
+  static async resolve(shortCode?: string | null): Promise<ResolvedMpesaConfig> {
+    const config = await this.find(shortCode);
+
+    if (!config) {
+      throw new Error(
+        shortCode ? `Unknown M-Pesa shortcode: ${shortCode}` : 'No active M-Pesa shortcode configured'
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * Like resolve(), but null when shortcodes are configured and this one is not
+   */
+  static async find(shortCode?: string | null): Promise<ResolvedMpesaConfig | null> {
+    const config = shortCode
+      ? await prisma.mpesaConfig.findUnique({ where: { shortCode } })
+      : await prisma.mpesaConfig.findFirst({
+          where: { isActive: true },
+          orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+        });
+
+    if (config) {
+      return toResolvedConfig(config);
+    }
+
+    const configured = await prisma.mpesaConfig.count();
+    if (configured > 0) {
+      return null;
+    }
+
+    // Single-shortcode setup from environment variables
+    const client = mpesaConfigFromEnv();
+
+    return {
+      id: null,
+      shortCode: client.shortCode,
+      shortCodeType: ShortCodeType.PAYBILL,
+      isActive: true,
+      limits: DEFAULT_MPESA_LIMITS,
+      client,
+    };
+  }
+
+  /**
+   * Daraja client for a shortcode, or the default one
+   */
+  static async getClient(shortCode?: string | null): Promise<MpesaClient> {
+    const config = await this.resolve(shortCode);
+
+    if (!config.isActive) {
+      throw new Error(`M-Pesa shortcode is inactive: ${config.shortCode}`);
+    }
+
+    // Rows always carry credentials; environment variables may be incomplete
+    if (!config.id && (!config.client.consumerKey || !config.client.consumerSecret || !config.shortCode)) {
+      throw new Error('Missing M-Pesa configuration in environment variables');
+    }
+
+    return new MpesaClient(config.client);
+  }
+
+  /**
+   * List configured shortcodes for the settings UI
+   */
+  static async listConfigs(): Promise<MpesaConfigView[]> {
+    const configs = await prisma.mpesaConfig.findMany({
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return configs.map(toConfigView);
+  }
+
+  /**
+   * Add a shortcode
+   */
+  static async createConfig(params: MpesaConfigParams): Promise<MpesaConfigView> {
+    const { initiatorPassword, maxTransactionAmount, dailyCustomerLimit, ...fields } = params;
+
+    const existing = await prisma.mpesaConfig.findUnique({ where: { shortCode: params.shortCode } });
+    if (existing) {
+      throw new Error(`Shortcode already configured: ${params.shortCode}`);
+    }
+
+    // The first shortcode is the default
+    const isDefault = params.isDefault ?? (await prisma.mpesaConfig.count()) === 0;
+
+    const config = await prisma.$transaction(async (tx: any) => {
+      if (isDefault) {
+        await tx.mpesaConfig.updateMany({ data: { isDefault: false } });
+      }
+
+      return tx.mpesaConfig.create({
+        data: {
+          ...fields,
+          isDefault,
+          ...(maxTransactionAmount !== undefined && {
+            maxTransactionAmount: new Prisma.Decimal(maxTransactionAmount),
+          }),
+          ...(dailyCustomerLimit !== undefined && {
+            dailyCustomerLimit: new Prisma.Decimal(dailyCustomerLimit),
+          }),
+          ...(initiatorPassword && {
+            securityCredential: generateSecurityCredential({
+              initiatorPassword,
+              environment: params.environment,
+            }),
+          }),
+        },
+      });
+    });
+
+    console.log('⚙️ M-Pesa shortcode added:', { shortCode: config.shortCode, type: config.shortCodeType });
+
+    return toConfigView(config);
+  }
+
+  /**
+   * Update a shortcode
+   *
+   * Omitted secrets are kept as they are, except the security credential:
+   * it is encrypted for one environment, so changing the environment without
+   * a new initiatorPassword clears it
+   */
+  static async updateConfig(id: string, params: Partial<MpesaConfigParams>): Promise<MpesaConfigView> {
+    const existing = await prisma.mpesaConfig.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error(`M-Pesa config not found: ${id}`);
+    }
+
+    const { initiatorPassword, maxTransactionAmount, dailyCustomerLimit, ...fields } = params;
+    const environment = (params.environment || existing.environment) as MpesaEnvironment;
+    const clearCredential = environment !== existing.environment && !initiatorPassword;
+
+    if (clearCredential && existing.securityCredential) {
+      console.warn('⚠️ Security credential cleared for new environment:', {
+        shortCode: existing.shortCode,
+        environment,
+      });
+    }
+
+    const config = await prisma.$transaction(async (tx: any) => {
+      if (params.isDefault) {
+        await tx.mpesaConfig.updateMany({ where: { id: { not: id } }, data: { isDefault: false } });
+      }
+
+      return tx.mpesaConfig.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(maxTransactionAmount !== undefined && {
+            maxTransactionAmount: new Prisma.Decimal(maxTransactionAmount),
+          }),
+          ...(dailyCustomerLimit !== undefined && {
+            dailyCustomerLimit: new Prisma.Decimal(dailyCustomerLimit),
+          }),
+          ...(initiatorPassword && {
+            securityCredential: generateSecurityCredential({ initiatorPassword, environment }),
+          }),
+          ...(clearCredential && { securityCredential: null }),
+        },
+      });
+    });
+
+    console.log('⚙️ M-Pesa shortcode updated:', { shortCode: config.shortCode });
+
+    return toConfigView(config);
+  }
+
+  /**
+   * Stop accepting payments and sending requests on a shortcode
+   *
+   * The row is kept so existing payments still resolve their shortcode
+   */
+  static async deactivateConfig(id: string): Promise<MpesaConfigView> {
+    const config = await prisma.mpesaConfig.update({
+      where: { id },
+      data: { isActive: false, isDefault: false },
+    });
+
+    console.log('⚙️ M-Pesa shortcode deactivated:', { shortCode: config.shortCode });
+
+    return toConfigView(config);
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function toResolvedConfig(config: MpesaConfig): ResolvedMpesaConfig {
+  const callbackUrl = config.callbackUrl || process.env.MPESA_CALLBACK_URL!;
+
+  return {
+    id: config.id,
+    shortCode: config.shortCode,
+    shortCodeType: config.shortCodeType,
+    isActive: config.isActive,
+    limits: {
+      maxTransactionAmount: config.maxTransactionAmount.toNumber(),
+      dailyCustomerLimit: config.dailyCustomerLimit.toNumber(),
+    },
+    client: {
+      consumerKey: config.consumerKey,
+      consumerSecret: config.consumerSecret,
+      shortCode: config.shortCode,
+      shortCodeType: config.shortCodeType,
+      storeNumber: config.storeNumber || undefined,
+      passkey: config.passkey || '',
+      environment: config.environment as MpesaEnvironment,
+      baseUrl: process.env.MPESA_BASE_URL, // Local Daraja emulator in development
+      callbackUrl,
+      initiatorName: config.initiatorName || undefined,
+      securityCredential: config.securityCredential || undefined,
+      // MPESA_*_URL overrides only apply to rows without their own callbackUrl
+      ...(!config.callbackUrl && {
+        validationUrl: process.env.MPESA_VALIDATION_URL,
+        stkCallbackUrl: process.env.MPESA_STK_CALLBACK_URL,
+        b2cResultUrl: process.env.MPESA_B2C_RESULT_URL,
+        b2cTimeoutUrl: process.env.MPESA_B2C_TIMEOUT_URL,
+        b2bResultUrl: process.env.MPESA_B2B_RESULT_URL,
+        b2bTimeoutUrl: process.env.MPESA_B2B_TIMEOUT_URL,
+        reversalResultUrl: process.env.MPESA_REVERSAL_RESULT_URL,
+        reversalTimeoutUrl: process.env.MPESA_REVERSAL_TIMEOUT_URL,
+      }),
+    },
+  };
+}
+
+function toConfigView(config: MpesaConfig): MpesaConfigView {
+  const { consumerSecret, passkey, securityCredential, ...fields } = config;
+
+  return {
+    ...fields,
+    maxTransactionAmount: config.maxTransactionAmount.toNumber(),
+    dailyCustomerLimit: config.dailyCustomerLimit.toNumber(),
+    hasConsumerSecret: !!consumerSecret,
+    hasPasskey: !!passkey,
+    hasSecurityCredential: !!securityCredential,
+  };
+}
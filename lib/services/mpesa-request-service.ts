@@ -0,0 +1,214 @@
+/**
+ * Kelly OS — M-Pesa Request Service
+ *
+ * PURPOSE:
+ * Track every Daraja initiator request (B2C, B2B, reversal, transaction status,
+ * account balance) and its asynchronous outcome
+ *
+ * FLOW:
+ * 1. A request is sent and recorded with its ConversationID (status: PENDING)
+ * 2. Safaricom calls /api/webhooks/mpesa/result/<kind> (or .../timeout)
+ * 3. The Result and its ResultParameters are stored on the MpesaRequest
+ * 4. mpesa-result-router dispatches it to the handler for its kind
+ * 5. Request settled: COMPLETED / FAILED / TIMEOUT
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaAsyncResponse } from '@/lib/mpesa-client';
+import { MpesaResult, parseResultParameters } from '@/lib/mpesa-callbacks';
+import { MpesaRequest, MpesaRequestKind, MpesaRequestStatus } from '@prisma/client';
+import { MpesaConfigService } from './mpesa-config-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RecordRequestParams {
+  kind: MpesaRequestKind;
+  response: MpesaAsyncResponse;
+  reference?: string;
+}
+
+// URL segment of /api/webhooks/mpesa/result/<kind> for each request kind
+export const RESULT_KIND_SLUGS: Record<MpesaRequestKind, string> = {
+  [MpesaRequestKind.B2C]: 'b2c',
+  [MpesaRequestKind.B2B]: 'b2b',
+  [MpesaRequestKind.REVERSAL]: 'reversal',
+  [MpesaRequestKind.TRANSACTION_STATUS]: 'status',
+  [MpesaRequestKind.ACCOUNT_BALANCE]: 'balance',
+};
+
+// ============================================================================
+// M-PESA REQUEST SERVICE
+// ============================================================================
+
+export class MpesaRequestService {
+  /**
+   * Record an outbound request from Daraja's synchronous acknowledgement
+   *
+   * Requests Daraja refused up front are stored as FAILED
+   */
+  static async record(params: RecordRequestParams): Promise<MpesaRequest> {
+    const { kind, response, reference } = params;
+    const accepted = response.ResponseCode === '0';
+
+    return prisma.mpesaRequest.create({
+      data: {
+        kind,
+        reference,
+        conversationId: response.ConversationID || null,
+        originatorConversationId: response.OriginatorConversationID || null,
+        responseCode: String(response.ResponseCode),
+        responseDescription: response.ResponseDescription,
+        status: accepted ? MpesaRequestStatus.PENDING : MpesaRequestStatus.FAILED,
+        ...(!accepted && { completedAt: new Date() }),
+      },
+    });
+  }
+
+  /**
+   * Send a transaction status query for an M-Pesa receipt
+   */
+  static async queryTransactionStatus(transactionId: string, shortCode?: string): Promise<MpesaRequest> {
+    const mpesa = await MpesaConfigService.getClient(shortCode);
+    const response = await mpesa.queryTransactionStatus({ transactionID: transactionId });
+
+    return this.record({
+      kind: MpesaRequestKind.TRANSACTION_STATUS,
+      response,
+      reference: transactionId,
+    });
+  }
+
+  /**
+   * Send an account balance query for a shortcode
+   */
+  static async checkAccountBalance(shortCode?: string): Promise<MpesaRequest> {
+    const mpesa = await MpesaConfigService.getClient(shortCode);
+    const response = await mpesa.checkAccountBalance();
+
+    return this.record({ kind: MpesaRequestKind.ACCOUNT_BALANCE, response });
+  }
+
+  /**
+   * Store a result callback on its request
+   *
+   * Results for requests sent outside Kelly OS are stored as new requests
+   * when the kind is known from the callback URL
+   */
+  static async saveResult(
+    result: MpesaResult,
+    rawResult: string,
+    kind?: MpesaRequestKind
+  ): Promise<MpesaRequest> {
+    const existing = await this.findByConversation(result);
+
+    const data = {
+      resultCode: result.ResultCode,
+      resultDesc: result.ResultDesc,
+      transactionId: result.TransactionID || null,
+      resultParameters: JSON.stringify(parseResultParameters(result)),
+      rawResult,
+    };
+
+    if (existing) {
+      if (kind && existing.kind !== kind) {
+        throw new Error(`Result for ${existing.kind} request received on the ${RESULT_KIND_SLUGS[kind]} URL`);
+      }
+
+      return prisma.mpesaRequest.update({
+        where: { id: existing.id },
+        data,
+      });
+    }
+
+    if (!kind) {
+      throw new Error(`M-Pesa request not found for conversation: ${result.ConversationID}`);
+    }
+
+    return prisma.mpesaRequest.create({
+      data: {
+        kind,
+        conversationId: result.ConversationID,
+        originatorConversationId: result.OriginatorConversationID,
+        responseCode: '0',
+        status: MpesaRequestStatus.PENDING,
+        ...data,
+      },
+    });
+  }
+
+  /**
+   * Settle a request once its kind handler has run
+   */
+  static async settle(request: MpesaRequest, status: MpesaRequestStatus): Promise<MpesaRequest> {
+    return prisma.mpesaRequest.update({
+      where: { id: request.id },
+      data: {
+        status,
+        processingError: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Keep a request PENDING with the handler error, so a retried or
+   * replayed callback processes it again
+   */
+  static async markProcessingError(request: MpesaRequest, error: string): Promise<MpesaRequest> {
+    return prisma.mpesaRequest.update({
+      where: { id: request.id },
+      data: { processingError: error },
+    });
+  }
+
+  /**
+   * List requests, newest first
+   */
+  static async getRequests(params?: { kind?: MpesaRequestKind; status?: MpesaRequestStatus }) {
+    return prisma.mpesaRequest.findMany({
+      where: {
+        ...(params?.kind && { kind: params.kind }),
+        ...(params?.status && { status: params.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Whether a result callback for this request still has work to do
+   *
+   * A result can still arrive after a queue timeout
+   */
+  static awaitingResult(request: { status: MpesaRequestStatus }): boolean {
+    return request.status === MpesaRequestStatus.PENDING || request.status === MpesaRequestStatus.TIMEOUT;
+  }
+
+  /**
+   * Find a request by either Daraja conversation ID
+   */
+  static async findByConversation(result: { ConversationID: string; OriginatorConversationID: string }) {
+    return prisma.mpesaRequest.findFirst({
+      where: {
+        OR: [
+          { conversationId: result.ConversationID },
+          { originatorConversationId: result.OriginatorConversationID },
+        ],
+      },
+    });
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolve the request kind from a /api/webhooks/mpesa/result/<kind> segment
+ */
+export function resultKindFromSlug(slug: string): MpesaRequestKind | null {
+  const entry = Object.entries(RESULT_KIND_SLUGS).find(([, value]) => value === slug);
+  return entry ? (entry[0] as MpesaRequestKind) : null;
+}
@@ -0,0 +1,142 @@
+/**
+ * Kelly OS — M-Pesa Result Router
+ *
+ * PURPOSE:
+ * Dispatch asynchronous Daraja results to the handler for their request kind
+ *
+ * KINDS:
+ * - B2C                 SupplierPaymentService for supplier payouts,
+ *                       otherwise RefundService (ledger + balances)
+ * - B2B                 SupplierPaymentService (bill + ledger)
+ * - REVERSAL            ReversalService (undo allocations + ledger)
+ * - TRANSACTION_STATUS  PayoutStatusService for payouts and reversals that
+ *                       timed out, otherwise logged; outcome kept on the MpesaRequest
+ * - ACCOUNT_BALANCE     Logged; outcome kept on the MpesaRequest
+ *
+ * The result is stored on its MpesaRequest before dispatch, so every
+ * outbound request has an inspectable outcome even if its handler fails.
+ */
+
+import { MpesaResult, getResultParameter } from '@/lib/mpesa-callbacks';
+import { MpesaRequest, MpesaRequestKind, MpesaRequestStatus } from '@prisma/client';
+import { MpesaRequestService } from './mpesa-request-service';
+import { PayoutStatusService } from './payout-status-service';
+import { RefundService } from './refund-service';
+import { ReversalService } from './reversal-service';
+import { SupplierPaymentService } from './supplier-payment-service';
+
+// ============================================================================
+// KIND HANDLERS
+// ============================================================================
+
+type ResultHandler = (result: MpesaResult) => Promise<unknown>;
+
+const RESULT_HANDLERS: Record<MpesaRequestKind, ResultHandler> = {
+  [MpesaRequestKind.B2C]: async (result) =>
+    (await SupplierPaymentService.findByConversation(result))
+      ? SupplierPaymentService.handleResult(result)
+      : RefundService.handleResult(result),
+  [MpesaRequestKind.B2B]: (result) => SupplierPaymentService.handleResult(result),
+  [MpesaRequestKind.REVERSAL]: (result) => ReversalService.handleResult(result),
+  [MpesaRequestKind.TRANSACTION_STATUS]: async (result) => {
+    console.log('🔎 Transaction status result:', {
+      conversationId: result.ConversationID,
+      resultCode: result.ResultCode,
+      receipt: getResultParameter(result, 'ReceiptNo'),
+      status: getResultParameter(result, 'TransactionStatus'),
+      amount: getResultParameter(result, 'Amount'),
+    });
+
+    await PayoutStatusService.applyStatusResult(result);
+  },
+  [MpesaRequestKind.ACCOUNT_BALANCE]: async (result) => {
+    const balance = getResultParameter(result, 'AccountBalance');
+    console.log('🏦 Account balance result:', {
+      conversationId: result.ConversationID,
+      resultCode: result.ResultCode,
+      accounts: balance ? parseAccountBalance(String(balance)) : [],
+    });
+  },
+};
+
+// Only requests that reserved something need their timeouts handled
+// (they stay pending until a late result or status query settles them)
+const TIMEOUT_HANDLERS: Partial<Record<MpesaRequestKind, ResultHandler>> = {
+  [MpesaRequestKind.B2C]: async (result) =>
+    (await SupplierPaymentService.findByConversation(result))
+      ? SupplierPaymentService.handleTimeout(result)
+      : RefundService.handleTimeout(result),
+  [MpesaRequestKind.B2B]: (result) => SupplierPaymentService.handleTimeout(result),
+  [MpesaRequestKind.REVERSAL]: (result) => ReversalService.handleTimeout(result),
+};
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/**
+ * Store a result callback and run its kind handler
+ *
+ * @param kind - From the callback URL; omitted when replaying stored payloads
+ * @throws Error if the kind handler fails (the request stays PENDING)
+ */
+export async function routeMpesaResult(
+  result: MpesaResult,
+  rawResult: string,
+  kind?: MpesaRequestKind
+): Promise<MpesaRequest> {
+  const request = await MpesaRequestService.saveResult(result, rawResult, kind);
+
+  try {
+    await RESULT_HANDLERS[request.kind](result);
+  } catch (error: any) {
+    await MpesaRequestService.markProcessingError(request, error.message || 'Unknown error');
+    throw error;
+  }
+
+  return MpesaRequestService.settle(
+    request,
+    result.ResultCode === 0 ? MpesaRequestStatus.COMPLETED : MpesaRequestStatus.FAILED
+  );
+}
+
+/**
+ * Store a queue timeout and note it on whatever the request was holding
+ */
+export async function routeMpesaTimeout(
+  result: MpesaResult,
+  rawResult: string,
+  kind: MpesaRequestKind
+): Promise<MpesaRequest> {
+  const request = await MpesaRequestService.saveResult(result, rawResult, kind);
+
+  const handler = TIMEOUT_HANDLERS[request.kind];
+  if (handler) {
+    try {
+      await handler(result);
+    } catch (error: any) {
+      await MpesaRequestService.markProcessingError(request, error.message || 'Unknown error');
+      throw error;
+    }
+  }
+
+  return MpesaRequestService.settle(request, MpesaRequestStatus.TIMEOUT);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Parse the AccountBalance result parameter
+ * Example: "Working Account|KES|700000.00|700000.00|0.00|0.00&Utility Account|KES|..."
+ */
+export function parseAccountBalance(value: string): Array<{ account: string; currency: string; available: number }> {
+  return value
+    .split('&')
+    .filter(Boolean)
+    .map((entry) => {
+      const [account, currency, available] = entry.split('|');
+      return { account, currency, available: parseFloat(available) || 0 };
+    });
+}
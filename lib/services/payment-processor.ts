@@ -2,26 +2,65 @@
  * Kelly OS — Payment Processor
  * 
  * PURPOSE:
- * Core business logic for processing M-Pesa payments
+ * Core business logic for processing M-Pesa payments, and cash / bank /
+ * cheque / card payments recorded by staff (recordManualPayment)
  * 
  * RESPONSIBILITIES:
- * 1. Identify customer and/or invoice from accountReference
+ * 1. Identify customer and/or invoice from accountReference (see account-matcher)
  * 2. Create Payment record
- * 3. Allocate payment to invoices
+ * 3. Allocate payment to invoices (customer's allocation strategy)
  * 4. Update customer balance
  * 5. Update invoice statuses
  * 6. Post to accounting ledger
  * 7. Update POS sales
- * 8. Emit real-time events
+ * 8. Emit real-time events (SSE via lib/event-bus)
+ * 
+ * UNMATCHED PAYMENTS:
+ * Unknown account references, matches below MIN_AUTO_POST_CONFIDENCE and
+ * payments to shortcodes missing from MpesaConfig or deactivated are held in
+ * suspense (status UNMATCHED) until staff assign them with assignUnmatchedPayment()
+ * 
+ * MANUAL PAYMENTS:
+ * Staff name the customer or invoice, so there is no fuzzy matching and no
+ * suspense. Idempotent on (method, referenceNumber); the money is debited to
+ * the method's asset account (see PAYMENT_METHOD_ACCOUNTS)
  * 
  * ATOMICITY:
  * All operations happen in a single database transaction
  * If ANY step fails, the entire payment is rolled back
+ * 
+ * CONCURRENCY:
+ * Each transaction locks the customer row first (lib/locks.ts), and
+ * balances move with atomic increment / decrement, so simultaneous
+ * callbacks for one customer are applied one after the other
  */
 
 import prisma from '@/lib/prisma';
+import { publishEvent } from '@/lib/event-bus';
+import { lockCustomer } from '@/lib/locks';
 import { AccountingEngine, generateTransactionRef } from './accounting-engine';
-import { InvoiceStatus, PaymentStatus, PaymentType, POSStatus, Prisma } from '@prisma/client';
+import {
+  AccountMatch,
+  findPaymentTarget,
+  matchAccountReference,
+  MIN_AUTO_POST_CONFIDENCE,
+  PaymentTarget,
+} from './account-matcher';
+import { planAllocation, splitAccountReference } from './allocation-strategies';
+import { InventoryService } from './inventory-service';
+import { InvoiceService, adjustInvoicePayment } from './invoice-service';
+import { MpesaConfigService, MpesaLimits } from './mpesa-config-service';
+import {
+  AccountMatchMethod,
+  AllocationStrategy,
+  InvoiceStatus,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+  POSStatus,
+  Prisma,
+  ShortCodeType,
+} from '@prisma/client';
 
 // ============================================================================
 // TYPES
@@ -34,11 +73,40 @@ export interface ProcessPaymentParams {
   amount: number;
   phone: string;
   transactionDate: Date;
+  businessShortCode?: string; // PayBill / Till that received it (defaults to the default shortcode)
 }
 
-export interface PaymentResult {
+// Methods staff can record by hand (M-Pesa only arrives by webhook)
+export const MANUAL_PAYMENT_METHODS = [
+  PaymentMethod.CASH,
+  PaymentMethod.BANK_TRANSFER,
+  PaymentMethod.CHEQUE,
+  PaymentMethod.CARD,
+] as const;
+
+export type ManualPaymentMethod = (typeof MANUAL_PAYMENT_METHODS)[number];
+
+export interface RecordManualPaymentParams {
+  method: ManualPaymentMethod;
+  referenceNumber: string; // Slip / bank / cheque / card reference
+  accountReference: string; // Customer ID or Invoice ID
+  amount: number;
+  transactionDate?: Date; // Defaults to now
+  phone?: string; // Defaults to the customer's phone
+  receivedBy?: string;
+  notes?: string;
+}
+
+interface PaidPOSSale {
   id: string;
+  posId: string;
   customerId: string;
+  branchId: string | null;
+}
+
+export interface PaymentResult {
+  id: string;
+  customerId: string | null; // Null for UNMATCHED payments
   amount: number;
   invoicesCleared: string[];
   remainingBalance: number;
@@ -73,50 +141,348 @@ export async function processPayment(params: ProcessPaymentParams): Promise<Paym
     };
   }
 
-  // Step 2: Identify customer and payment type
-  const { customer, invoice, paymentType } = await identifyPaymentTarget(accountReference);
+  // Step 1b: Resolve the receiving shortcode (limits; refunds and reversals go back through it)
+  const mpesaConfig = await MpesaConfigService.find(params.businessShortCode);
+
+  // Step 2: Identify customer and payment type (Till payments by phone alone)
+  const target = await matchAccountReference(accountReference, phone, mpesaConfig?.shortCodeType);
+
+  if (!mpesaConfig) {
+    // Money has moved on a shortcode we have no settings for: keep it in suspense for review
+    console.warn('⚠️ Payment received on unknown M-Pesa shortcode:', {
+      mpesaReceiptNumber,
+      businessShortCode: params.businessShortCode,
+    });
+    return postUnmatchedPayment(params, target, `Unknown M-Pesa shortcode: ${params.businessShortCode || 'none'}`);
+  }
+
+  const businessShortCode = mpesaConfig.shortCode;
+
+  if (!mpesaConfig.isActive) {
+    // Validation rejects these, but confirmations still arrive when it is skipped: staff decide
+    console.warn('⚠️ Payment received on inactive M-Pesa shortcode:', { mpesaReceiptNumber, businessShortCode });
+    return postUnmatchedPayment(
+      { ...params, businessShortCode },
+      target,
+      `Inactive M-Pesa shortcode: ${businessShortCode}`
+    );
+  }
+
+  if (!target || target.confidence < MIN_AUTO_POST_CONFIDENCE) {
+    // Money has moved: hold it in suspense instead of dropping it
+    return postUnmatchedPayment({ ...params, businessShortCode }, target);
+  }
+
+  const { customer, invoice } = target;
 
   if (!customer) {
     throw new Error(`Customer not found for account reference: ${accountReference}`);
   }
 
-  // Step 3: Validate business rules
-  await validatePayment(customer.id, amount);
+  if (target.method !== AccountMatchMethod.EXACT) {
+    console.log('🔎 Account reference matched:', {
+      accountReference,
+      customerId: customer.customerId,
+      invoiceId: invoice?.invoiceId,
+      method: target.method,
+      confidence: target.confidence,
+    });
+  }
+
+  // Step 3: Validate business rules (the daily limit is checked under the customer lock)
+  validatePayment(amount, mpesaConfig.limits);
+
+  // Step 4: Allocate, post and emit events
+  return postMatchedPayment({
+    target,
+    amount,
+    limits: mpesaConfig.limits,
+    accountReference,
+    transactionDate,
+    description: `M-Pesa ${mpesaReceiptNumber}`,
+    data: {
+      mpesaReceiptNumber,
+      transactionId,
+      phone,
+      businessShortCode,
+      matchMethod: target.method,
+      matchConfidence: new Prisma.Decimal(target.confidence),
+    },
+  });
+}
+
+/**
+ * Record a cash, bank transfer, cheque or card payment taken by staff
+ * 
+ * Goes through the same allocation and ledger path as processPayment
+ */
+export async function recordManualPayment(params: RecordManualPaymentParams): Promise<PaymentResult> {
+  const { method, referenceNumber, accountReference, amount, receivedBy, notes } = params;
+  const transactionDate = params.transactionDate ?? new Date();
+
+  console.log('🔄 Recording manual payment:', {
+    method,
+    referenceNumber,
+    accountReference,
+    amount,
+  });
+
+  // Step 1: Idempotency check (same reference for the same method)
+  const existingPayment = await prisma.payment.findUnique({
+    where: { method_referenceNumber: { method, referenceNumber } },
+  });
+
+  if (existingPayment) {
+    console.warn('⚠️ Payment already recorded:', { method, referenceNumber });
+    return {
+      id: existingPayment.id,
+      customerId: existingPayment.customerId,
+      amount: existingPayment.amount.toNumber(),
+      invoicesCleared: [],
+      remainingBalance: 0,
+    };
+  }
+
+  // Step 2: Staff chose the account, so only exact references are accepted
+  const target = await findPaymentTarget(splitAccountReference(accountReference).accountReference);
+
+  if (!target) {
+    throw new Error(`Customer or invoice not found: ${accountReference}`);
+  }
+
+  // Step 3: Allocate, post and emit events
+  return postMatchedPayment({
+    target,
+    amount,
+    accountReference,
+    transactionDate,
+    method,
+    description: `${method} ${referenceNumber}`,
+    data: {
+      referenceNumber,
+      receivedBy,
+      notes,
+      phone: params.phone || target.customer.phone,
+      matchMethod: AccountMatchMethod.MANUAL,
+      matchConfidence: new Prisma.Decimal(1),
+    },
+  });
+}
+
+/**
+ * Assign an UNMATCHED payment to a customer (or one of their invoices)
+ * 
+ * Re-runs allocation and moves the ledger amount from suspense to A/R
+ */
+export async function assignUnmatchedPayment(params: {
+  paymentId: string;
+  customerId?: string; // Customer ID or internal ID
+  invoiceId?: string; // Invoice ID or internal ID
+}): Promise<PaymentResult> {
+  const { paymentId, customerId, invoiceId } = params;
+
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+  });
+
+  if (!payment) {
+    throw new Error(`Payment not found: ${paymentId}`);
+  }
+
+  if (payment.status !== PaymentStatus.UNMATCHED) {
+    throw new Error(`Payment is not unmatched: ${payment.mpesaReceiptNumber}`);
+  }
+
+  // Resolve the assignment target
+  let target: PaymentTarget | null = null;
+  if (invoiceId) {
+    target = await findPaymentTarget(invoiceId);
+    if (!target?.invoice) throw new Error(`Invoice not found: ${invoiceId}`);
+  } else if (customerId) {
+    target = await findPaymentTarget(customerId);
+    if (!target || target.invoice) throw new Error(`Customer not found: ${customerId}`);
+  } else {
+    throw new Error('Either customerId or invoiceId is required');
+  }
+
+  const { customer, invoice, paymentType } = target;
+  const amount = payment.amount.toNumber();
+  const strategy = allocationStrategyFor(customer, invoice);
+
+  let paidSales: PaidPOSSale[] = [];
+  const result = await prisma.$transaction(async (tx: any) => {
+    await lockCustomer(tx, customer.id);
+
+    // 1: Attach payment to customer (unless another assignment got there first)
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.UNMATCHED },
+      data: {
+        customerId: customer.id,
+        paymentType,
+        matchMethod: AccountMatchMethod.MANUAL,
+        allocationStrategy: strategy,
+        status: PaymentStatus.PENDING,
+        failureReason: null,
+      },
+    });
+
+    if (count === 0) {
+      throw new Error(`Payment is not unmatched: ${payment.mpesaReceiptNumber}`);
+    }
+
+    // 2: Allocate payment to invoices
+    const allocation = await allocatePayment({
+      tx,
+      paymentId: payment.id,
+      customerId: customer.id,
+      amount,
+      strategy,
+      accountReference: payment.accountReference,
+      targetInvoiceId: invoice?.id,
+    });
+
+    // 3: Update customer balance
+    const { balance } = await tx.customer.update({
+      where: { id: customer.id },
+      data: { balance: { decrement: new Prisma.Decimal(amount) } },
+    });
+
+    // 4: Move from suspense to A/R
+    await AccountingEngine.postSuspenseCleared({
+      transactionRef: generateTransactionRef('SUS'),
+      amount,
+      customerId: customer.id,
+      paymentId: payment.id,
+      invoiceIds: allocation.map((a) => a.invoiceId),
+      transactionDate: new Date(),
+      description: `M-Pesa ${payment.mpesaReceiptNumber} assigned to ${customer.customerId}`,
+      tx,
+    });
+
+    // 5: Mark payment as posted (surplus kept as unapplied credit)
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.COMPLETED,
+        unappliedAmount: new Prisma.Decimal(unappliedAmount(amount, allocation)),
+        postedAt: new Date(),
+      },
+    });
+
+    // 6: Update POS sales if applicable
+    paidSales = await updatePOSSales(tx, allocation);
+
+    console.log('📌 Unmatched payment assigned:', {
+      paymentId: payment.id,
+      customerId: customer.id,
+      amount,
+    });
+
+    return {
+      id: payment.id,
+      customerId: customer.id,
+      amount,
+      invoicesCleared: allocation.map((a) => a.invoiceId),
+      remainingBalance: balance.toNumber(),
+    };
+  });
+
+  await emitPaymentEvent(result, paidSales);
+
+  return result;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Identify whether accountReference is a customer ID or invoice ID
+ * (thin wrapper over matchAccountReference that throws instead of returning null)
+ *
+ * Runs the full matching pipeline, so the result may be a low-confidence
+ * match — check `confidence` against MIN_AUTO_POST_CONFIDENCE. The C2B
+ * validation endpoint calls matchAccountReference itself, so that a lookup
+ * error is not mistaken for an unknown account.
+ */
+export async function identifyPaymentTarget(
+  accountReference: string,
+  phone?: string,
+  shortCodeType?: ShortCodeType
+): Promise<AccountMatch> {
+  const target = await matchAccountReference(accountReference, phone, shortCodeType);
+
+  if (!target) {
+    throw new Error(`Invalid account reference: ${accountReference}`);
+  }
+
+  return target;
+}
 
-  // Step 4: Process payment in atomic transaction
+/**
+ * Create a payment for a known customer, allocate it and post it
+ * 
+ * Shared by M-Pesa and manual payments: one atomic transaction, then
+ * real-time events once it has committed
+ */
+async function postMatchedPayment(params: {
+  target: PaymentTarget;
+  amount: number;
+  accountReference: string;
+  transactionDate: Date;
+  method?: PaymentMethod; // Defaults to M-Pesa
+  limits?: MpesaLimits; // M-Pesa payments: daily customer limit to enforce
+  description: string; // Ledger description, e.g. "M-Pesa QGK12XYZ9"
+  data: Record<string, unknown>; // Method-specific Payment fields
+}): Promise<PaymentResult> {
+  const { target, amount, accountReference, transactionDate, description, data } = params;
+  const { customer, invoice, paymentType } = target;
+  const method = params.method ?? PaymentMethod.MPESA;
+
+  const strategy = allocationStrategyFor(customer, invoice);
+  let paidSales: PaidPOSSale[] = [];
   const result = await prisma.$transaction(async (tx: any) => {
-    // 4a: Create payment record
+    // 0: Wait for other payments / invoices for this customer
+    await lockCustomer(tx, customer.id);
+
+    // 0b: Concurrent payments for this customer have committed by now
+    if (params.limits) {
+      await checkDailyLimit(tx, customer.id, amount, params.limits);
+    }
+
+    // 1: Create payment record
     const payment = await tx.payment.create({
       data: {
-        mpesaReceiptNumber,
-        transactionId,
+        ...data,
+        method,
         customerId: customer.id,
         amount: new Prisma.Decimal(amount),
-        phone,
         accountReference,
         paymentType,
+        allocationStrategy: strategy,
         status: PaymentStatus.PENDING,
         transactionDate,
       },
     });
 
-    // 4b: Allocate payment to invoices
+    // 2: Allocate payment to invoices
     const allocation = await allocatePayment({
       tx,
       paymentId: payment.id,
       customerId: customer.id,
       amount,
+      strategy,
+      accountReference,
       targetInvoiceId: invoice?.id,
     });
 
-    // 4c: Update customer balance
-    const newBalance = customer.balance.toNumber() - amount;
-    await tx.customer.update({
+    // 3: Update customer balance (atomic: customer was read before the lock)
+    const { balance } = await tx.customer.update({
       where: { id: customer.id },
-      data: { balance: new Prisma.Decimal(newBalance) },
+      data: { balance: { decrement: new Prisma.Decimal(amount) } },
     });
 
-    // 4d: Post to accounting ledger
+    // 4: Post to accounting ledger
     const transactionRef = generateTransactionRef('PAY');
     await AccountingEngine.postPaymentReceived({
       transactionRef,
@@ -125,25 +491,28 @@ export async function processPayment(params: ProcessPaymentParams): Promise<Paym
       paymentId: payment.id,
       invoiceIds: allocation.map((a) => a.invoiceId),
       transactionDate,
-      description: `M-Pesa ${mpesaReceiptNumber}`,
+      description,
+      method,
       tx,
     });
 
-    // 4e: Update payment status to COMPLETED
+    // 5: Update payment status to COMPLETED (surplus kept as unapplied credit)
     await tx.payment.update({
       where: { id: payment.id },
       data: {
         status: PaymentStatus.COMPLETED,
+        unappliedAmount: new Prisma.Decimal(unappliedAmount(amount, allocation)),
         postedAt: new Date(),
       },
     });
 
-    // 4f: Update POS sales if applicable
-    await updatePOSSales(tx, allocation);
+    // 6: Update POS sales if applicable
+    paidSales = await updatePOSSales(tx, allocation);
 
     console.log('✅ Payment processed:', {
       paymentId: payment.id,
       customerId: customer.id,
+      method,
       amount,
       invoicesCleared: allocation.map((a) => a.invoiceId),
     });
@@ -153,83 +522,113 @@ export async function processPayment(params: ProcessPaymentParams): Promise<Paym
       customerId: customer.id,
       amount,
       invoicesCleared: allocation.map((a) => a.invoiceId),
-      remainingBalance: newBalance,
+      remainingBalance: balance.toNumber(),
     };
   });
 
-  // Step 5: Emit real-time event (outside transaction)
-  // TODO: Implement WebSocket/Server-Sent Events for dashboard updates
-  await emitPaymentEvent(result);
+  await emitPaymentEvent(result, paidSales);
 
   return result;
 }
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
 /**
- * Identify whether accountReference is a customer ID or invoice ID
+ * Record a payment with an unknown account reference (or shortcode)
+ * 
+ * The payment is stored without a customer and the money is posted
+ * to the suspense account until staff assign it. A low-confidence match
+ * is kept as a suggestion for the reviewer.
  */
-async function identifyPaymentTarget(accountReference: string): Promise<{
-  customer: any;
-  invoice: any | null;
-  paymentType: PaymentType;
-}> {
-  // Try to find invoice first
-  const invoice = await prisma.invoice.findFirst({
-    where: {
-      OR: [
-        { invoiceId: accountReference },
-        { id: accountReference },
-      ],
-    },
-    include: { customer: true },
-  });
+async function postUnmatchedPayment(
+  params: ProcessPaymentParams,
+  suggestion: AccountMatch | null,
+  reason?: string
+): Promise<PaymentResult> {
+  const { mpesaReceiptNumber, transactionId, accountReference, amount, phone, transactionDate } = params;
 
-  if (invoice) {
-    return {
-      customer: invoice.customer,
-      invoice,
-      paymentType: PaymentType.INVOICE,
-    };
-  }
+  const failureReason =
+    reason ||
+    (suggestion
+      ? `Low-confidence match (${suggestion.method}, ${suggestion.confidence}): needs review`
+      : `Invalid account reference: ${accountReference}`);
 
-  // Try to find customer
-  const customer = await prisma.customer.findFirst({
-    where: {
-      OR: [
-        { customerId: accountReference },
-        { id: accountReference },
-      ],
-    },
-  });
+  const result = await prisma.$transaction(async (tx: any) => {
+    const payment = await tx.payment.create({
+      data: {
+        mpesaReceiptNumber,
+        transactionId,
+        customerId: null,
+        amount: new Prisma.Decimal(amount),
+        phone,
+        businessShortCode: params.businessShortCode,
+        accountReference,
+        paymentType: PaymentType.ACCOUNT,
+        status: PaymentStatus.UNMATCHED,
+        matchMethod: suggestion?.method,
+        matchConfidence: suggestion && new Prisma.Decimal(suggestion.confidence),
+        suggestedCustomerId: suggestion?.customer.id,
+        suggestedInvoiceId: suggestion?.invoice?.id,
+        transactionDate,
+        postedAt: new Date(),
+        failureReason,
+      },
+    });
+
+    await AccountingEngine.postUnmatchedPayment({
+      transactionRef: generateTransactionRef('PAY'),
+      amount,
+      paymentId: payment.id,
+      transactionDate,
+      description: `M-Pesa ${mpesaReceiptNumber} (account "${accountReference}")`,
+      tx,
+    });
+
+    console.warn('⚠️ Unmatched payment held in suspense:', {
+      paymentId: payment.id,
+      mpesaReceiptNumber,
+      accountReference,
+      amount,
+      suggestion: suggestion && {
+        customerId: suggestion.customer.customerId,
+        invoiceId: suggestion.invoice?.invoiceId,
+        method: suggestion.method,
+        confidence: suggestion.confidence,
+      },
+    });
 
-  if (customer) {
     return {
-      customer,
-      invoice: null,
-      paymentType: PaymentType.ACCOUNT,
+      id: payment.id,
+      customerId: null,
+      amount,
+      invoicesCleared: [],
+      remainingBalance: 0,
     };
-  }
+  });
+
+  await emitPaymentEvent(result);
 
-  throw new Error(`Invalid account reference: ${accountReference}`);
+  return result;
 }
 
 /**
- * Validate payment against business rules
+ * Validate payment against the receiving shortcode's transaction limit
  */
-async function validatePayment(customerId: string, amount: number): Promise<void> {
-  // Rule 1: Max transaction amount (KSh 250,000)
-  if (amount > 250000) {
+function validatePayment(amount: number, limits: MpesaLimits): void {
+  // Rule 1: Max transaction amount (default KSh 250,000)
+  if (amount > limits.maxTransactionAmount) {
     throw new Error(`Payment amount exceeds maximum: KSh ${amount}`);
   }
+}
 
-  // Rule 2: Daily customer limit (KSh 500,000)
+/**
+ * Rule 2: Daily customer limit (default KSh 500,000)
+ *
+ * Runs inside the payment transaction, after lockCustomer
+ */
+async function checkDailyLimit(tx: any, customerId: string, amount: number, limits: MpesaLimits): Promise<void> {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   
-  const todaysPayments = await prisma.payment.aggregate({
+  const todaysPayments = await tx.payment.aggregate({
     where: {
       customerId,
       transactionDate: {
@@ -244,17 +643,19 @@ async function validatePayment(customerId: string, amount: number): Promise<void
 
   const dailyTotal = (todaysPayments._sum.amount?.toNumber() || 0) + amount;
   
-  if (dailyTotal > 500000) {
-    throw new Error(`Daily limit exceeded: KSh ${dailyTotal} (limit: 500,000)`);
+  if (dailyTotal > limits.dailyCustomerLimit) {
+    throw new Error(
+      `Daily limit exceeded: KSh ${dailyTotal} (limit: ${limits.dailyCustomerLimit.toLocaleString('en-KE')})`
+    );
   }
 }
 
 /**
  * Allocate payment to invoices
  * 
- * STRATEGY:
- * 1. If targetInvoiceId provided → apply to that invoice
- * 2. Otherwise → apply to oldest unpaid/partially paid invoices (FIFO)
+ * STRATEGY (see allocation-strategies.ts):
+ * 1. If targetInvoiceId provided → apply to that invoice (TARGET_INVOICE)
+ * 2. Otherwise → the customer's allocationStrategy (FIFO by default)
  * 3. If payment exceeds invoices → customer gets credit balance
  */
 async function allocatePayment(params: {
@@ -262,14 +663,13 @@ async function allocatePayment(params: {
   paymentId: string;
   customerId: string;
   amount: number;
+  strategy: AllocationStrategy;
+  accountReference: string;
   targetInvoiceId?: string;
 }): Promise<Array<{ invoiceId: string; amountApplied: number }>> {
-  const { tx, paymentId, customerId, amount, targetInvoiceId } = params;
-  
-  let remainingAmount = amount;
-  const allocations: Array<{ invoiceId: string; amountApplied: number }> = [];
+  const { tx, paymentId, customerId, amount, strategy, accountReference, targetInvoiceId } = params;
 
-  // Get invoices to pay
+  // Get invoices to pay (the caller holds the customer lock, so these are current)
   const invoices = await tx.invoice.findMany({
     where: {
       customerId,
@@ -279,73 +679,78 @@ async function allocatePayment(params: {
       ...(targetInvoiceId && { id: targetInvoiceId }),
     },
     orderBy: {
-      createdAt: 'asc', // FIFO: Oldest first
+      createdAt: 'asc',
     },
   });
 
-  for (const invoice of invoices) {
-    if (remainingAmount <= 0) break;
+  const plan = planAllocation(strategy, {
+    amount,
+    accountReference,
+    invoices: invoices.map((invoice: any) => ({
+      id: invoice.id,
+      invoiceId: invoice.invoiceId,
+      balance: invoice.balance.toNumber(),
+      dueDate: invoice.dueDate,
+      createdAt: invoice.createdAt,
+    })),
+  });
 
-    const invoiceBalance = invoice.balance.toNumber();
-    const amountToApply = Math.min(remainingAmount, invoiceBalance);
+  for (const { invoiceId, amountApplied } of plan) {
+    const invoice = invoices.find((candidate: any) => candidate.id === invoiceId);
 
     // Create payment-invoice link
     await tx.paymentInvoice.create({
       data: {
         paymentId,
-        invoiceId: invoice.id,
-        amountApplied: new Prisma.Decimal(amountToApply),
+        invoiceId,
+        amountApplied: new Prisma.Decimal(amountApplied),
       },
     });
 
     // Update invoice
-    const newAmountPaid = invoice.amountPaid.toNumber() + amountToApply;
-    const newBalance = invoice.amount.toNumber() - newAmountPaid;
-    
-    let newStatus = invoice.status;
-    if (newBalance <= 0.01) {
-      newStatus = InvoiceStatus.PAID;
-    } else if (newAmountPaid > 0) {
-      newStatus = InvoiceStatus.PARTIALLY_PAID;
-    }
-
-    await tx.invoice.update({
-      where: { id: invoice.id },
-      data: {
-        amountPaid: new Prisma.Decimal(newAmountPaid),
-        balance: new Prisma.Decimal(newBalance),
-        status: newStatus,
-      },
-    });
-
-    allocations.push({
-      invoiceId: invoice.id,
-      amountApplied: amountToApply,
-    });
-
-    remainingAmount -= amountToApply;
+    const updated = await adjustInvoicePayment(tx, invoiceId, amountApplied);
 
     console.log('💰 Invoice updated:', {
       invoiceId: invoice.invoiceId,
-      amountApplied: amountToApply,
-      newBalance,
-      status: newStatus,
+      amountApplied,
+      newBalance: updated.balance.toNumber(),
+      status: updated.status,
+      strategy,
     });
   }
 
-  // If remainingAmount > 0, customer has a credit balance
-  // This is handled by the customer.balance field
+  // Anything left over is a credit balance
+  // It stays on customer.balance and on payment.unappliedAmount, and is
+  // applied to the customer's next invoice (see InvoiceService.applyCredit)
 
-  return allocations;
+  return plan;
+}
+
+/**
+ * Strategy for a payment: the invoice it names, or the customer's choice
+ */
+function allocationStrategyFor(customer: { allocationStrategy: AllocationStrategy }, invoice: unknown) {
+  return invoice ? AllocationStrategy.TARGET_INVOICE : customer.allocationStrategy;
+}
+
+/**
+ * Part of a payment not allocated to any invoice
+ */
+function unappliedAmount(amount: number, allocations: Array<{ amountApplied: number }>): number {
+  const applied = allocations.reduce((sum, a) => sum + a.amountApplied, 0);
+  return Math.max(Math.round((amount - applied) * 100) / 100, 0);
 }
 
 /**
  * Update POS sales when their linked invoices are paid
+ * Returns the sales marked PAID so events can be emitted after commit
  */
 async function updatePOSSales(
   tx: any,
   allocations: Array<{ invoiceId: string; amountApplied: number }>
-): Promise<void> {
+): Promise<PaidPOSSale[]> {
+  const paidSales: PaidPOSSale[] = [];
+
   for (const allocation of allocations) {
     // Find POS sale linked to this invoice
     const invoice = await tx.invoice.findUnique({
@@ -354,8 +759,9 @@ async function updatePOSSales(
     });
 
     if (invoice?.posId) {
+      // Invoices store the sale's internal ID
       const posSale = await tx.pOSSale.findUnique({
-        where: { posId: invoice.posId },
+        where: { id: invoice.posId },
       });
 
       if (posSale && posSale.status === POSStatus.PENDING) {
@@ -368,30 +774,44 @@ async function updatePOSSales(
               invoiceId: invoice.id,
             },
           });
+          await InventoryService.issueSaleStock(tx, posSale.id);
+          // Cost of sales leaves Inventory with the stock
+          await InvoiceService.postCostOfSales(tx, invoice.id, `Invoice ${invoice.invoiceId}`);
+
+          paidSales.push({
+            id: posSale.id,
+            posId: posSale.posId,
+            customerId: invoice.customerId,
+            branchId: posSale.branchId,
+          });
 
           console.log('🛒 POS sale completed:', invoice.posId);
         }
       }
     }
   }
+
+  return paidSales;
 }
 
 /**
- * Emit real-time event for dashboard updates
- * TODO: Implement with WebSocket or Server-Sent Events
+ * Emit real-time events for dashboard updates (see lib/event-bus.ts)
  */
-async function emitPaymentEvent(result: PaymentResult): Promise<void> {
-  // Placeholder for real-time notification system
-  // Could use:
-  // - Pusher
-  // - Ably
-  // - Custom WebSocket server
-  // - Server-Sent Events (SSE)
-  
-  console.log('📡 Emitting payment event:', result);
-  
-  // Example:
-  // await pusher.trigger(`customer-${result.customerId}`, 'payment-received', result);
+async function emitPaymentEvent(result: PaymentResult, paidSales: PaidPOSSale[] = []): Promise<void> {
+  publishEvent({
+    type: result.customerId ? 'payment.received' : 'payment.unmatched',
+    customerId: result.customerId,
+    data: result,
+  });
+
+  for (const sale of paidSales) {
+    publishEvent({
+      type: 'pos.paid',
+      customerId: sale.customerId,
+      branchId: sale.branchId,
+      data: { id: sale.id, posId: sale.posId, paymentId: result.id },
+    });
+  }
 }
 
 // ============================================================================
@@ -400,9 +820,12 @@ async function emitPaymentEvent(result: PaymentResult): Promise<void> {
 
 /**
  * Get customer statement (all transactions)
+ *
+ * Credit applied to invoices after the payment arrived is listed
+ * separately as "Applied from credit"
  */
 export async function getCustomerStatement(customerId: string): Promise<any> {
-  const [customer, payments, invoices] = await Promise.all([
+  const [customer, payments, invoices, creditApplications] = await Promise.all([
     prisma.customer.findUnique({
       where: { id: customerId },
     }),
@@ -421,12 +844,28 @@ export async function getCustomerStatement(customerId: string): Promise<any> {
       where: { customerId },
       orderBy: { createdAt: 'desc' },
     }),
+    prisma.paymentInvoice.findMany({
+      where: { appliedFromCredit: true, invoice: { customerId } },
+      orderBy: { createdAt: 'desc' },
+      include: { payment: true, invoice: true },
+    }),
   ]);
 
   return {
     customer,
     payments,
     invoices,
+    creditApplied: creditApplications.map((application: any) => ({
+      date: application.createdAt,
+      description: 'Applied from credit',
+      invoiceId: application.invoice.invoiceId,
+      mpesaReceiptNumber: application.payment.mpesaReceiptNumber,
+      amount: application.amountApplied.toNumber(),
+    })),
+    unappliedCredit: payments.reduce(
+      (sum: number, payment: any) => sum + payment.unappliedAmount.toNumber(),
+      0
+    ),
     currentBalance: customer?.balance.toNumber() || 0,
   };
 }
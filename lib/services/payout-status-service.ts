@@ -0,0 +1,322 @@
+/**
+ * Kelly OS — Payout Status Service
+ *
+ * PURPOSE:
+ * Settle supplier payments, refunds and reversals whose B2B / B2C / reversal
+ * result never arrived (queue timeouts, lost callbacks) with a Daraja
+ * transaction status query
+ *
+ * FLOW:
+ * 1. A sweeper (POST /api/mpesa-requests/reconcile) finds payouts and
+ *    reversals still PENDING after the delay, least recently queried first.
+ *    After MAX_QUERY_ATTEMPTS queries or MAX_PENDING_HOURS they are flagged
+ *    for follow-up (needsFollowUp) instead of queried again. Refunds and
+ *    reversals whose request died before its ConversationID was stored are
+ *    settled first (settleUnsent)
+ * 2. A transaction status query is sent for each, by OriginatorConversationID,
+ *    and recorded as a TRANSACTION_STATUS MpesaRequest referencing the payout
+ * 3. Safaricom calls /api/webhooks/mpesa/result/status
+ * 4. mpesa-result-router passes the result here:
+ *    - Completed: the payout (or reversal) is posted as if its own result had arrived
+ *    - Failed:    the payout is marked FAILED, releasing what it held
+ *    - Anything else (not found yet, still processing): left PENDING
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaClient } from '@/lib/mpesa-client';
+import { MpesaResult, getResultParameter } from '@/lib/mpesa-callbacks';
+import {
+  MpesaRequestKind,
+  MpesaRequestStatus,
+  PaymentReversal,
+  Prisma,
+  Refund,
+  RefundStatus,
+  ReversalStatus,
+  SupplierPayment,
+  SupplierPaymentStatus,
+} from '@prisma/client';
+import { MpesaConfigService } from './mpesa-config-service';
+import { MpesaRequestService } from './mpesa-request-service';
+import { RefundService } from './refund-service';
+import { ReversalService } from './reversal-service';
+import { SupplierPaymentService } from './supplier-payment-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QueryPendingResult {
+  checked: number;
+  queried: number;
+  failed: number; // Queries Daraja did not accept
+  flagged: number; // Given up on this sweep and flagged for follow-up
+  unsent: number; // Requests that never stored a ConversationID, recovered or failed
+  followUps: PayoutFollowUp[]; // Every payout still PENDING that queries gave up on
+}
+
+export interface PayoutFollowUp {
+  kind: 'SUPPLIER_PAYMENT' | 'REFUND' | 'REVERSAL';
+  id: string;
+  originatorConversationId: string | null;
+  amount: number;
+  followUpReason: string | null;
+  createdAt: Date;
+}
+
+// Query bookkeeping written back to a payout
+interface PayoutQueryUpdate {
+  queryAttempts?: { increment: number };
+  lastQueriedAt?: Date;
+  needsFollowUp?: boolean;
+  followUpReason?: string;
+}
+
+// Payout details a transaction status query needs
+interface PendingPayout {
+  id: string;
+  conversationId: string | null;
+  originatorConversationId: string | null;
+  queryAttempts: number;
+  createdAt: Date;
+  shortCode?: string | null;
+  update: (data: PayoutQueryUpdate) => Promise<unknown>;
+}
+
+// Seconds a payout stays PENDING before the sweeper queries it
+const DEFAULT_QUERY_DELAY_SECONDS = 300;
+
+// When the sweeper stops querying a payout it cannot get a result for
+const MAX_QUERY_ATTEMPTS = 10;
+const MAX_PENDING_HOURS = 24;
+
+// Minutes after which a payout with no ConversationID is taken as never acknowledged
+const UNSENT_PAYOUT_MINUTES = 10;
+
+// TransactionStatus values in a status query result
+const STATUS_COMPLETED = 'Completed';
+const STATUS_FAILED = 'Failed';
+
+// ============================================================================
+// PAYOUT STATUS SERVICE
+// ============================================================================
+
+export class PayoutStatusService {
+  /**
+   * Send a transaction status query for every payout still PENDING after the delay
+   *
+   * Payouts with no result after MAX_QUERY_ATTEMPTS queries or
+   * MAX_PENDING_HOURS are flagged for follow-up and no longer queried.
+   * They stay PENDING, so a late result is still applied.
+   */
+  static async queryPending(params?: { delaySeconds?: number }): Promise<QueryPendingResult> {
+    const delaySeconds =
+      params?.delaySeconds ??
+      (parseInt(process.env.PAYOUT_STATUS_DELAY_SECONDS || '') || DEFAULT_QUERY_DELAY_SECONDS);
+    const cutoff = new Date(Date.now() - delaySeconds * 1000);
+    const where = { conversationId: { not: null }, createdAt: { lte: cutoff }, needsFollowUp: false };
+
+    const unsentBefore = new Date(Date.now() - UNSENT_PAYOUT_MINUTES * 60 * 1000);
+    const unsent =
+      (await RefundService.settleUnsent(unsentBefore)) + (await ReversalService.settleUnsent(unsentBefore));
+
+    // Never-queried payouts first, so unresolved ones cannot starve newer timeouts
+    const orderBy = [
+      { lastQueriedAt: { sort: 'asc' as const, nulls: 'first' as const } },
+      { createdAt: 'asc' as const },
+    ];
+
+    const [payments, refunds, reversals] = await Promise.all([
+      prisma.supplierPayment.findMany({
+        where: { ...where, status: SupplierPaymentStatus.PENDING },
+        orderBy,
+        take: 50,
+      }),
+      prisma.refund.findMany({
+        where: { ...where, status: RefundStatus.PENDING },
+        include: { payment: { select: { businessShortCode: true } } },
+        orderBy,
+        take: 50,
+      }),
+      prisma.paymentReversal.findMany({
+        where: { ...where, status: ReversalStatus.PENDING },
+        include: { payment: { select: { businessShortCode: true } } },
+        orderBy,
+        take: 50,
+      }),
+    ]);
+
+    // Supplier payments go out through the default shortcode, refunds and
+    // reversals through the one that received the payment
+    const payouts: PendingPayout[] = [
+      ...payments.map((payment) => ({
+        ...payment,
+        update: (data: PayoutQueryUpdate) => prisma.supplierPayment.update({ where: { id: payment.id }, data }),
+      })),
+      ...refunds.map((refund) => ({
+        ...refund,
+        shortCode: refund.payment.businessShortCode,
+        update: (data: PayoutQueryUpdate) => prisma.refund.update({ where: { id: refund.id }, data }),
+      })),
+      ...reversals.map((reversal) => ({
+        ...reversal,
+        shortCode: reversal.payment.businessShortCode,
+        update: (data: PayoutQueryUpdate) => prisma.paymentReversal.update({ where: { id: reversal.id }, data }),
+      })),
+    ];
+
+    const result: QueryPendingResult = {
+      checked: payouts.length,
+      queried: 0,
+      failed: 0,
+      flagged: 0,
+      unsent,
+      followUps: [],
+    };
+    const clients = new Map<string, MpesaClient>();
+    const givingUpBefore = new Date(Date.now() - MAX_PENDING_HOURS * 60 * 60 * 1000);
+
+    for (const payout of payouts) {
+      if (payout.queryAttempts >= MAX_QUERY_ATTEMPTS || payout.createdAt < givingUpBefore) {
+        await payout.update({
+          needsFollowUp: true,
+          followUpReason: `No result after ${payout.queryAttempts} status queries`,
+        });
+
+        console.warn('⚠️ Payout status queries given up, flagged for follow-up:', {
+          originatorConversationId: payout.originatorConversationId,
+          attempts: payout.queryAttempts,
+        });
+        result.flagged++;
+        continue;
+      }
+
+      await payout.update({ queryAttempts: { increment: 1 }, lastQueriedAt: new Date() });
+
+      try {
+        const shortCode = payout.shortCode || '';
+        if (!clients.has(shortCode)) {
+          clients.set(shortCode, await MpesaConfigService.getClient(payout.shortCode));
+        }
+
+        const response = await clients.get(shortCode)!.queryTransactionStatus({
+          originalConversationID: payout.originatorConversationId!,
+        });
+        await MpesaRequestService.record({
+          kind: MpesaRequestKind.TRANSACTION_STATUS,
+          response,
+          reference: payout.originatorConversationId!,
+        });
+
+        if (response.ResponseCode === '0') {
+          result.queried++;
+        } else {
+          result.failed++;
+        }
+      } catch (error: any) {
+        console.error('❌ Payout status query failed:', payout.originatorConversationId, error.message);
+        result.failed++;
+      }
+    }
+
+    result.followUps = await this.getFollowUps();
+
+    return result;
+  }
+
+  /**
+   * Payouts still PENDING that status queries gave up on, oldest first
+   *
+   * Staff check them with Safaricom and settle them by hand (or wait for a
+   * late result)
+   */
+  static async getFollowUps(): Promise<PayoutFollowUp[]> {
+    const where = { needsFollowUp: true };
+
+    const [payments, refunds, reversals] = await Promise.all([
+      prisma.supplierPayment.findMany({ where: { ...where, status: SupplierPaymentStatus.PENDING } }),
+      prisma.refund.findMany({ where: { ...where, status: RefundStatus.PENDING } }),
+      prisma.paymentReversal.findMany({ where: { ...where, status: ReversalStatus.PENDING } }),
+    ]);
+
+    const followUp = (kind: PayoutFollowUp['kind']) =>
+      (payout: Omit<PayoutFollowUp, 'kind' | 'amount'> & { amount: Prisma.Decimal }): PayoutFollowUp => ({
+        kind,
+        id: payout.id,
+        originatorConversationId: payout.originatorConversationId,
+        amount: payout.amount.toNumber(),
+        followUpReason: payout.followUpReason,
+        createdAt: payout.createdAt,
+      });
+
+    return [
+      ...payments.map(followUp('SUPPLIER_PAYMENT')),
+      ...refunds.map(followUp('REFUND')),
+      ...reversals.map(followUp('REVERSAL')),
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Apply a transaction status result to the payout it was queried for
+   *
+   * Returns null for status queries that were not about a payout, and for
+   * results that do not settle one
+   */
+  static async applyStatusResult(result: MpesaResult): Promise<SupplierPayment | Refund | PaymentReversal | null> {
+    const request = await MpesaRequestService.findByConversation(result);
+    if (!request?.reference) return null;
+
+    const payment = await prisma.supplierPayment.findFirst({
+      where: { originatorConversationId: request.reference },
+    });
+    const refund = payment
+      ? null
+      : await prisma.refund.findFirst({ where: { originatorConversationId: request.reference } });
+    const reversal =
+      payment || refund
+        ? null
+        : await prisma.paymentReversal.findFirst({ where: { originatorConversationId: request.reference } });
+    const payout = payment || refund || reversal;
+
+    if (!payout) return null;
+
+    const status = getResultParameter(result, 'TransactionStatus');
+
+    if (result.ResultCode !== 0 || (status !== STATUS_COMPLETED && status !== STATUS_FAILED)) {
+      console.warn('⚠️ Payout status unresolved, left pending:', {
+        reference: request.reference,
+        resultCode: result.ResultCode,
+        resultDesc: result.ResultDesc,
+        status,
+      });
+      return null;
+    }
+
+    // Apply it as the payout's own result would have been
+    const receipt = getResultParameter(result, 'ReceiptNo') || result.TransactionID;
+    const payoutResult: MpesaResult = {
+      ResultType: 0,
+      ResultCode: status === STATUS_COMPLETED ? 0 : -1,
+      ResultDesc: `Transaction status query: ${status}`,
+      ConversationID: payout.conversationId!,
+      OriginatorConversationID: payout.originatorConversationId!,
+      TransactionID: receipt ? String(receipt) : undefined,
+    };
+
+    const settled = payment
+      ? await SupplierPaymentService.handleResult(payoutResult)
+      : refund
+        ? await RefundService.handleResult(payoutResult)
+        : await ReversalService.handleResult(payoutResult);
+
+    const payoutRequest = await MpesaRequestService.findByConversation(payoutResult);
+    if (payoutRequest && MpesaRequestService.awaitingResult(payoutRequest)) {
+      await MpesaRequestService.settle(
+        payoutRequest,
+        status === STATUS_COMPLETED ? MpesaRequestStatus.COMPLETED : MpesaRequestStatus.FAILED
+      );
+    }
+
+    return settled;
+  }
+}
@@ -9,12 +9,15 @@
  * 2. Customer pays via M-Pesa (uses POS ID as account reference)
  * 3. Payment processor creates invoice and links to POS sale
  * 4. POS sale status → PAID
- * 5. Inventory updated (if applicable)
+ * 5. Items taken out of stock (inventory-service.ts)
  */
 
 import prisma from '@/lib/prisma';
-import { POSStatus, Prisma } from '@prisma/client';
+import { publishEvent } from '@/lib/event-bus';
+import { InvoiceStatus, POSStatus, Prisma } from '@prisma/client';
+import { InventoryService } from './inventory-service';
 import { InvoiceService } from './invoice-service';
+import { ProductService } from './product-service';
 
 // ============================================================================
 // TYPES
@@ -23,11 +26,10 @@ import { InvoiceService } from './invoice-service';
 export interface CreatePOSSaleParams {
   customerId?: string; // Optional for walk-in customers
   items: Array<{
-    productId: string;
-    productName: string;
+    productId: string; // Product id or PROD-XXX; name and price come from the catalog
     quantity: number;
-    unitPrice: number;
   }>;
+  description?: string;
   cashierId?: string;
   branchId?: string;
 }
@@ -49,7 +51,9 @@ export class POSService {
    * Create a new POS sale (remains PENDING until payment)
    */
   static async createSale(params: CreatePOSSaleParams): Promise<POSSaleResult> {
-    const { customerId, items, cashierId, branchId } = params;
+    const { customerId, description, cashierId, branchId } = params;
+
+    const items = await ProductService.priceSaleItems(params.items);
 
     // Calculate total amount
     const totalAmount = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
@@ -64,6 +68,7 @@ export class POSService {
         customerId,
         amount: new Prisma.Decimal(totalAmount),
         status: POSStatus.PENDING,
+        description,
         cashierId,
         branchId,
         items: {
@@ -87,13 +92,22 @@ export class POSService {
       items: items.length,
     });
 
-    return {
+    const result = {
       id: sale.id,
       posId: sale.posId,
       amount: sale.amount.toNumber(),
       status: sale.status,
       customerId: sale.customerId || undefined,
     };
+
+    publishEvent({
+      type: 'pos.created',
+      customerId: sale.customerId,
+      branchId: sale.branchId,
+      data: result,
+    });
+
+    return result;
   }
 
   /**
@@ -119,28 +133,30 @@ export class POSService {
       throw new Error(`POS sale already has invoice: ${posId}`);
     }
 
-    // Create invoice from POS sale
-    const invoice = await InvoiceService.createInvoice({
-      customerId,
-      amount: sale.amount.toNumber(),
-      description: `POS Sale ${posId}`,
-      lineItems: sale.items.map((item: any) => ({
-        description: item.productName,
-        quantity: item.quantity.toNumber(),
-        unitPrice: item.unitPrice.toNumber(),
-        productId: item.productId,
-      })),
-      posId: sale.id,
+    // The invoice, the sale marked paid and its stock issued commit together,
+    // so a failure leaves nothing behind for a retry to invoice twice
+    const invoice = await prisma.$transaction(async (tx: any) => {
+      const created = await this.createSaleInvoice(tx, sale, customerId);
+
+      await tx.pOSSale.update({
+        where: { id: sale.id },
+        data: {
+          invoiceId: created.id,
+          status: POSStatus.PAID,
+          customerId, // Update if it was a walk-in customer
+        },
+      });
+
+      await InventoryService.issueSaleStock(tx, sale.id);
+      await InvoiceService.postCostOfSales(tx, created.id, `Invoice ${created.invoiceId}`);
+
+      return created;
     });
 
-    // Update POS sale
-    await prisma.pOSSale.update({
-      where: { id: sale.id },
-      data: {
-        invoiceId: invoice.id,
-        status: POSStatus.PAID,
-        customerId, // Update if it was a walk-in customer
-      },
+    publishEvent({
+      type: 'invoice.created',
+      customerId,
+      data: invoice,
     });
 
     console.log('📄 POS sale converted to invoice:', {
@@ -148,6 +164,83 @@ export class POSService {
       invoiceId: invoice.invoiceId,
     });
 
+    publishEvent({
+      type: 'pos.paid',
+      customerId,
+      branchId: sale.branchId,
+      data: { id: sale.id, posId, invoiceId: invoice.id },
+    });
+
+    return invoice.id;
+  }
+
+  /**
+   * Invoice a POS sale that is about to be paid (STK Push callback)
+   *
+   * Unlike convertToInvoice the sale stays PENDING with its invoice linked:
+   * the payment that clears the invoice marks it PAID and issues its stock
+   * in the same transaction, so a payment that fails to post leaves the
+   * sale unpaid. Returns the invoice's internal ID.
+   */
+  static async invoiceForPayment(params: { posId: string; customerId: string }): Promise<string> {
+    const { posId, customerId } = params;
+
+    const sale = await prisma.pOSSale.findUnique({
+      where: { posId },
+      include: { items: true },
+    });
+
+    if (!sale) {
+      throw new Error(`POS sale not found: ${posId}`);
+    }
+
+    if (sale.invoiceId) {
+      return sale.invoiceId;
+    }
+
+    if (sale.status !== POSStatus.PENDING) {
+      throw new Error(`POS sale is ${sale.status}: ${posId}`);
+    }
+
+    const invoice = await prisma.$transaction(async (tx: any) => {
+      const created = await this.createSaleInvoice(tx, sale, customerId);
+
+      await tx.pOSSale.update({
+        where: { id: sale.id },
+        data: { invoiceId: created.id, customerId },
+      });
+
+      // Customer credit already covered it: the sale is paid now
+      if (created.status === InvoiceStatus.PAID) {
+        await tx.pOSSale.update({ where: { id: sale.id }, data: { status: POSStatus.PAID } });
+        await InventoryService.issueSaleStock(tx, sale.id);
+        await InvoiceService.postCostOfSales(tx, created.id, `Invoice ${created.invoiceId}`);
+      }
+
+      return created;
+    });
+
+    publishEvent({
+      type: 'invoice.created',
+      customerId,
+      data: invoice,
+    });
+
+    console.log('📄 POS sale invoiced for payment:', {
+      posId,
+      invoiceId: invoice.invoiceId,
+      status: invoice.status,
+    });
+
+    if (invoice.status === InvoiceStatus.PAID) {
+      publishEvent({
+        type: 'pos.paid',
+        customerId,
+        branchId: sale.branchId,
+        data: { id: sale.id, posId, invoiceId: invoice.id },
+      });
+    }
+
     return invoice.id;
   }
 
@@ -236,6 +329,13 @@ export class POSService {
       data: { status: POSStatus.CANCELLED },
     });
 
+    publishEvent({
+      type: 'pos.cancelled',
+      customerId: sale.customerId,
+      branchId: sale.branchId,
+      data: { id: sale.id, posId },
+    });
+
     console.log('❌ POS sale cancelled:', posId);
   }
 
@@ -277,4 +377,26 @@ export class POSService {
       },
     };
   }
+
+  /**
+   * Create the invoice for a POS sale's items, in the caller's transaction
+   */
+  private static async createSaleInvoice(
+    tx: any,
+    sale: { id: string; posId: string; amount: Prisma.Decimal; items: any[] },
+    customerId: string
+  ) {
+    return InvoiceService.recordInvoice(tx, {
+      customerId,
+      amount: sale.amount.toNumber(),
+      description: `POS Sale ${sale.posId}`,
+      lineItems: sale.items.map((item: any) => ({
+        description: item.productName,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        productId: item.productId,
+      })),
+      posId: sale.id,
+    });
+  }
 }
@@ -0,0 +1,239 @@
+/**
+ * Kelly OS — Product Catalog Service
+ *
+ * PURPOSE:
+ * Maintain the products POS sales are rung up from
+ *
+ * RULES:
+ * - Products are deactivated, never deleted (POS items keep pointing at them)
+ * - SKUs are unique; lookups accept the database id, PROD-XXX id or SKU
+ * - POS sales take name and price from the catalog, not from the till
+ * - Stock only changes through movements (inventory-service.ts)
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma, Product, ProductCategory } from '@prisma/client';
+import { InventoryService } from './inventory-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProductParams {
+  name: string;
+  description?: string | null;
+  price: number;
+  cost?: number | null;
+  sku?: string | null;
+  category?: ProductCategory;
+  stockQty?: number; // Opening stock, or a stock count (recorded as an ADJUSTMENT)
+  reorderLevel?: number | null; // Low-stock alert at or below this
+}
+
+export interface ProductSearchParams {
+  search?: string; // Name, SKU or PROD-XXX id
+  category?: ProductCategory;
+  includeInactive?: boolean;
+}
+
+export interface PricedSaleItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// ============================================================================
+// PRODUCT SERVICE
+// ============================================================================
+
+export class ProductService {
+  /**
+   * Search the catalog (active products only unless asked)
+   */
+  static async listProducts(params: ProductSearchParams = {}): Promise<Product[]> {
+    const { search, category, includeInactive } = params;
+    const term = search?.trim();
+
+    return prisma.product.findMany({
+      where: {
+        ...(!includeInactive && { isActive: true }),
+        ...(category && { category }),
+        ...(term && {
+          OR: [
+            { name: { contains: term, mode: 'insensitive' } },
+            { sku: { contains: term, mode: 'insensitive' } },
+            { productId: { equals: term, mode: 'insensitive' } },
+          ],
+        }),
+      },
+      orderBy: { name: 'asc' },
+      take: 200,
+    });
+  }
+
+  /**
+   * Find a product by database id, PROD-XXX id or SKU
+   */
+  static async getProduct(id: string): Promise<Product | null> {
+    return prisma.product.findFirst({
+      where: {
+        OR: [{ id }, { productId: id }, { sku: id }],
+      },
+    });
+  }
+
+  /**
+   * Add a product to the catalog
+   *
+   * @throws Error if the SKU is already in use
+   */
+  static async createProduct(params: ProductParams): Promise<Product> {
+    if (params.sku) {
+      await this.assertSkuAvailable(params.sku);
+    }
+
+    const productId = await this.generateProductId();
+
+    const product = await prisma.$transaction(async (tx: any) => {
+      const created = await tx.product.create({
+        data: {
+          productId,
+          name: params.name,
+          description: params.description,
+          price: new Prisma.Decimal(params.price),
+          cost: optionalDecimal(params.cost) ?? null,
+          sku: params.sku || null,
+          category: params.category,
+          stockQty: new Prisma.Decimal(0),
+          inStock: false,
+          reorderLevel: optionalDecimal(params.reorderLevel) ?? null,
+        },
+      });
+
+      if (!params.stockQty) return created;
+
+      await InventoryService.adjustToCount(tx, created.id, params.stockQty, { notes: 'Opening stock' });
+      return tx.product.findUnique({ where: { id: created.id } });
+    });
+
+    console.log('📦 Product created:', {
+      productId: product.productId,
+      name: product.name,
+      price: params.price,
+    });
+
+    return product;
+  }
+
+  /**
+   * Update a product's details, price or reorder level; a new stockQty is a stock count
+   *
+   * @returns null if the product does not exist
+   * @throws Error if the new SKU is already in use
+   */
+  static async updateProduct(id: string, params: Partial<ProductParams>): Promise<Product | null> {
+    const existing = await this.getProduct(id);
+    if (!existing) return null;
+
+    if (params.sku && params.sku !== existing.sku) {
+      await this.assertSkuAvailable(params.sku);
+    }
+
+    return prisma.$transaction(async (tx: any) => {
+      if (params.stockQty !== undefined) {
+        await InventoryService.adjustToCount(tx, existing.id, params.stockQty);
+      }
+
+      return tx.product.update({
+        where: { id: existing.id },
+        data: {
+          name: params.name,
+          description: params.description,
+          price: params.price !== undefined ? new Prisma.Decimal(params.price) : undefined,
+          cost: optionalDecimal(params.cost),
+          sku: params.sku !== undefined ? params.sku || null : undefined,
+          category: params.category,
+          reorderLevel: optionalDecimal(params.reorderLevel),
+        },
+      });
+    });
+  }
+
+  /**
+   * Take a product off sale (past sales keep their link to it)
+   *
+   * @returns null if the product does not exist
+   */
+  static async deactivateProduct(id: string): Promise<Product | null> {
+    const existing = await this.getProduct(id);
+    if (!existing) return null;
+
+    const product = await prisma.product.update({
+      where: { id: existing.id },
+      data: { isActive: false },
+    });
+
+    console.log('📦 Product deactivated:', product.productId);
+
+    return product;
+  }
+
+  /**
+   * Price POS sale lines from the catalog
+   *
+   * @throws Error if a product does not exist or is inactive
+   */
+  static async priceSaleItems(items: Array<{ productId: string; quantity: number }>): Promise<PricedSaleItem[]> {
+    const ids = items.map((item) => item.productId);
+    const products = await prisma.product.findMany({
+      where: {
+        isActive: true,
+        OR: [{ id: { in: ids } }, { productId: { in: ids } }],
+      },
+    });
+
+    return items.map((item) => {
+      const product = products.find((p) => p.id === item.productId || p.productId === item.productId);
+
+      if (!product) {
+        throw new Error(`Product not found or inactive: ${item.productId}`);
+      }
+
+      return {
+        productId: product.id,
+        productName: product.name,
+        quantity: item.quantity,
+        unitPrice: product.price.toNumber(),
+      };
+    });
+  }
+
+  /**
+   * Generate the next product ID
+   * Format: PROD-XXX
+   */
+  static async generateProductId(): Promise<string> {
+    const count = await prisma.product.count();
+    return `PROD-${(count + 1).toString().padStart(3, '0')}`;
+  }
+
+  private static async assertSkuAvailable(sku: string): Promise<void> {
+    const taken = await prisma.product.findUnique({ where: { sku } });
+    if (taken) {
+      throw new Error(`SKU already in use: ${sku} (${taken.productId})`);
+    }
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Decimal for a value, null to clear it, undefined to leave it unchanged
+ */
+function optionalDecimal(value: number | null | undefined): Prisma.Decimal | null | undefined {
+  if (value === undefined || value === null) return value;
+  return new Prisma.Decimal(value);
+}
@@ -0,0 +1,399 @@
+/**
+ * Kelly OS — Purchase Order Service
+ *
+ * PURPOSE:
+ * Order stock from suppliers and receive it against the order
+ *
+ * FLOW:
+ * 1. Purchase order raised for a supplier (status: ORDERED)
+ * 2. Each delivery is recorded as a goods received note (GRN):
+ *    - RECEIPT stock movement per line (Product.stockQty up,
+ *      weighted-average Product.cost re-averaged at the received unit cost)
+ *    - DR Inventory / CR Accounts Payable for the delivery's total
+ *    - Order PARTIALLY_RECEIVED, or RECEIVED once every line is in full
+ * 3. An order that will not be delivered in full is CANCELLED
+ *
+ * RULES:
+ * - Only stocked products (not SERVICES) are ordered
+ * - A line cannot be received beyond what is still outstanding on it
+ * - The supplier's invoiced unit cost may differ from the order; the GRN keeps both
+ */
+
+import prisma from '@/lib/prisma';
+import { publishEvent } from '@/lib/event-bus';
+import { lockPurchaseOrder } from '@/lib/locks';
+import { Prisma, ProductCategory, PurchaseOrderStatus, StockMovementType } from '@prisma/client';
+import { AccountingEngine, generateTransactionRef } from './accounting-engine';
+import { InventoryService } from './inventory-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreatePurchaseOrderParams {
+  supplierId: string; // Supplier id or SUP-XXX
+  items: Array<{
+    productId: string; // Product id, PROD-XXX or SKU
+    quantity: number;
+    unitCost: number;
+  }>;
+  expectedDate?: Date;
+  branchId?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface ReceiveGoodsParams {
+  purchaseOrderId: string; // Order id or PO number
+  items: Array<{
+    purchaseOrderItemId: string;
+    quantity: number;
+    unitCost?: number; // Defaults to the ordered unit cost
+  }>;
+  deliveryNote?: string;
+  notes?: string;
+  receivedBy?: string;
+}
+
+// ============================================================================
+// PURCHASE ORDER SERVICE
+// ============================================================================
+
+export class PurchaseOrderService {
+  /**
+   * Raise a purchase order
+   *
+   * @throws Error if the supplier or a product does not exist or is inactive,
+   *         or a product is a service
+   */
+  static async createPurchaseOrder(params: CreatePurchaseOrderParams) {
+    const supplier = await prisma.supplier.findFirst({
+      where: {
+        isActive: true,
+        OR: [{ id: params.supplierId }, { supplierId: params.supplierId }],
+      },
+    });
+
+    if (!supplier) {
+      throw new Error(`Supplier not found or inactive: ${params.supplierId}`);
+    }
+
+    const ids = params.items.map((item) => item.productId);
+    const products = await prisma.product.findMany({
+      where: {
+        isActive: true,
+        OR: [{ id: { in: ids } }, { productId: { in: ids } }, { sku: { in: ids } }],
+      },
+    });
+
+    const lines = params.items.map((item) => {
+      const product = products.find(
+        (p) => p.id === item.productId || p.productId === item.productId || p.sku === item.productId
+      );
+
+      if (!product) {
+        throw new Error(`Product not found or inactive: ${item.productId}`);
+      }
+
+      if (product.category === ProductCategory.SERVICES) {
+        throw new Error(`Services are not stocked: ${product.name}`);
+      }
+
+      return {
+        productId: product.id,
+        quantity: new Prisma.Decimal(item.quantity),
+        unitCost: new Prisma.Decimal(item.unitCost),
+        total: new Prisma.Decimal(roundMoney(item.quantity * item.unitCost)),
+      };
+    });
+
+    const total = roundMoney(params.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0));
+    const poNumber = await this.generatePONumber();
+
+    const order = await prisma.purchaseOrder.create({
+      data: {
+        poNumber,
+        supplierId: supplier.id,
+        total: new Prisma.Decimal(total),
+        expectedDate: params.expectedDate,
+        branchId: params.branchId,
+        notes: params.notes,
+        createdBy: params.createdBy,
+        items: { create: lines },
+      },
+      include: { supplier: true, items: { include: { product: true } } },
+    });
+
+    console.log('🧾 Purchase order created:', {
+      poNumber,
+      supplierId: supplier.supplierId,
+      lines: lines.length,
+      total,
+    });
+
+    return order;
+  }
+
+  /**
+   * Purchase orders, newest first
+   */
+  static async listPurchaseOrders(params: { status?: PurchaseOrderStatus; supplierId?: string } = {}) {
+    return prisma.purchaseOrder.findMany({
+      where: {
+        ...(params.status && { status: params.status }),
+        ...(params.supplierId && { supplierId: params.supplierId }),
+      },
+      include: {
+        supplier: true,
+        items: { include: { product: { select: { productId: true, name: true } } } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Get a purchase order (by id or PO number) with its goods received notes
+   */
+  static async getPurchaseOrder(id: string) {
+    return prisma.purchaseOrder.findFirst({
+      where: {
+        OR: [{ id }, { poNumber: id }],
+      },
+      include: {
+        supplier: true,
+        items: { include: { product: { select: { productId: true, name: true } } } },
+        receipts: { include: { items: true }, orderBy: { receivedAt: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Cancel whatever is still outstanding on an order
+   * (goods already received stay received)
+   *
+   * @returns null if the order does not exist
+   * @throws Error if the order is already received in full or cancelled
+   */
+  static async cancelPurchaseOrder(id: string, reason?: string) {
+    const order = await this.getPurchaseOrder(id);
+    if (!order) return null;
+
+    const { count } = await prisma.purchaseOrder.updateMany({
+      where: {
+        id: order.id,
+        status: { in: [PurchaseOrderStatus.ORDERED, PurchaseOrderStatus.PARTIALLY_RECEIVED] },
+      },
+      data: {
+        status: PurchaseOrderStatus.CANCELLED,
+        notes: reason ? [order.notes, `Cancelled: ${reason}`].filter(Boolean).join('\n') : undefined,
+      },
+    });
+
+    if (count === 0) {
+      throw new Error(`Purchase order is already ${order.status.toLowerCase().replace('_', ' ')}: ${order.poNumber}`);
+    }
+
+    console.log('❌ Purchase order cancelled:', order.poNumber);
+
+    return this.getPurchaseOrder(order.id);
+  }
+
+  /**
+   * Record a delivery against a purchase order (goods received note)
+   *
+   * ACCOUNTING IMPACT:
+   * DR  Inventory          (quantity × unitCost received)
+   * CR  Accounts Payable   (owed to the supplier)
+   *
+   * @returns null if the order does not exist
+   * @throws Error if the order is closed, a line is not on the order,
+   *         or more is received than is outstanding
+   */
+  static async receiveGoods(params: ReceiveGoodsParams) {
+    const order = await prisma.purchaseOrder.findFirst({
+      where: { OR: [{ id: params.purchaseOrderId }, { poNumber: params.purchaseOrderId }] },
+      include: { supplier: true },
+    });
+
+    if (!order) return null;
+
+    const grnNumber = await this.generateGRNNumber();
+
+    const receipt = await prisma.$transaction(async (tx: any) => {
+      // 0. Wait for any other delivery against this order
+      await lockPurchaseOrder(tx, order.id);
+
+      const current = await tx.purchaseOrder.findUnique({
+        where: { id: order.id },
+        include: { items: { include: { product: true } } },
+      });
+
+      if (current.status === PurchaseOrderStatus.RECEIVED || current.status === PurchaseOrderStatus.CANCELLED) {
+        throw new Error(`Purchase order is ${current.status.toLowerCase()}: ${order.poNumber}`);
+      }
+
+      // 1. Match each line to the order and check it is still outstanding
+      const lines = params.items.map((item) => {
+        const orderItem = current.items.find((line: any) => line.id === item.purchaseOrderItemId);
+
+        if (!orderItem) {
+          throw new Error(`Line is not on ${order.poNumber}: ${item.purchaseOrderItemId}`);
+        }
+
+        if (item.quantity <= 0) {
+          throw new Error(`Quantity received must be positive: ${orderItem.product.name}`);
+        }
+
+        const outstanding = orderItem.quantity.toNumber() - orderItem.quantityReceived.toNumber();
+        const alreadyListed = params.items
+          .filter((other) => other.purchaseOrderItemId === item.purchaseOrderItemId)
+          .reduce((sum, other) => sum + other.quantity, 0);
+
+        if (alreadyListed > outstanding) {
+          throw new Error(
+            `Receiving more than is outstanding on ${orderItem.product.name}: ${alreadyListed} (outstanding ${outstanding})`
+          );
+        }
+
+        const unitCost = item.unitCost ?? orderItem.unitCost.toNumber();
+
+        return {
+          orderItem,
+          quantity: item.quantity,
+          unitCost,
+          total: roundMoney(item.quantity * unitCost),
+        };
+      });
+
+      // Products in id order, so two deliveries never wait on each other's locks
+      lines.sort((a, b) => a.orderItem.productId.localeCompare(b.orderItem.productId));
+
+      const total = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+      const transactionRef = generateTransactionRef('GRN');
+
+      // 2. Goods received note
+      const grn = await tx.goodsReceipt.create({
+        data: {
+          grnNumber,
+          purchaseOrderId: order.id,
+          supplierId: order.supplierId,
+          total: new Prisma.Decimal(total),
+          transactionRef,
+          deliveryNote: params.deliveryNote,
+          notes: params.notes,
+          receivedBy: params.receivedBy,
+          items: {
+            create: lines.map((line) => ({
+              purchaseOrderItemId: line.orderItem.id,
+              productId: line.orderItem.productId,
+              quantity: new Prisma.Decimal(line.quantity),
+              unitCost: new Prisma.Decimal(line.unitCost),
+              total: new Prisma.Decimal(line.total),
+            })),
+          },
+        },
+        include: { items: true },
+      });
+
+      // 3. Stock in at the received cost, and mark the lines received
+      for (const line of lines) {
+        await InventoryService.recordMovement(tx, {
+          productId: line.orderItem.productId,
+          type: StockMovementType.RECEIPT,
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+          goodsReceiptId: grn.id,
+          branchId: order.branchId,
+          reference: grnNumber,
+          notes: params.deliveryNote ? `Delivery note ${params.deliveryNote}` : undefined,
+          createdBy: params.receivedBy,
+        });
+
+        await tx.purchaseOrderItem.update({
+          where: { id: line.orderItem.id },
+          data: { quantityReceived: { increment: new Prisma.Decimal(line.quantity) } },
+        });
+      }
+
+      // 4. Order status
+      const items = await tx.purchaseOrderItem.findMany({ where: { purchaseOrderId: order.id } });
+      const complete = items.every((item: any) => item.quantityReceived.gte(item.quantity));
+
+      await tx.purchaseOrder.update({
+        where: { id: order.id },
+        data: { status: complete ? PurchaseOrderStatus.RECEIVED : PurchaseOrderStatus.PARTIALLY_RECEIVED },
+      });
+
+      // 5. Post to accounting ledger
+      await AccountingEngine.postGoodsReceived({
+        transactionRef,
+        amount: total,
+        transactionDate: grn.receivedAt,
+        description: `${grnNumber} against ${order.poNumber} (${order.supplier.name})`,
+        tx,
+      });
+
+      return grn;
+    });
+
+    console.log('📥 Goods received:', {
+      grnNumber,
+      poNumber: order.poNumber,
+      lines: receipt.items.length,
+      total: receipt.total.toNumber(),
+    });
+
+    for (const item of receipt.items) {
+      publishEvent({
+        type: 'stock.moved',
+        branchId: order.branchId,
+        data: {
+          productId: item.productId,
+          type: StockMovementType.RECEIPT,
+          quantity: item.quantity.toNumber(),
+          reference: grnNumber,
+        },
+      });
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Generate unique purchase order number
+   * Format: PO-YYYYMMDD-XXXX
+   */
+  static async generatePONumber(): Promise<string> {
+    const count = await prisma.purchaseOrder.count({ where: { createdAt: { gte: startOfToday() } } });
+    return datedNumber('PO', count + 1);
+  }
+
+  /**
+   * Generate unique goods received note number
+   * Format: GRN-YYYYMMDD-XXXX
+   */
+  static async generateGRNNumber(): Promise<string> {
+    const count = await prisma.goodsReceipt.count({ where: { receivedAt: { gte: startOfToday() } } });
+    return datedNumber('GRN', count + 1);
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+function datedNumber(prefix: string, sequence: number): string {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `${prefix}-${dateStr}-${sequence.toString().padStart(4, '0')}`;
+}
@@ -0,0 +1,335 @@
+/**
+ * Kelly OS — Payment Reallocation Service
+ *
+ * PURPOSE:
+ * Let an accountant move a payment between the customer's invoices after
+ * processPayment allocated it (e.g. it hit the wrong invoice)
+ *
+ * FLOW:
+ * 1. Staff load the payment's allocations and the customer's open invoices
+ * 2. Staff submit the full allocation they want (omitted invoices → 0)
+ * 3. In one transaction:
+ *    - PaymentInvoice rows created, updated or removed
+ *    - Invoice amountPaid / balance / status recomputed
+ *    - POS sales paid by those invoices → PAID, or back to PENDING (stock
+ *      and cost of sales follow)
+ *    - Payment.unappliedAmount adjusted (unapplied money is customer credit)
+ *    - One PaymentAllocationChange audit row per invoice changed
+ *
+ * Amounts with a pending invoice refund stay on their invoice until the
+ * B2C result arrives (the refund takes them off the payment's allocation).
+ * Likewise, credit a pending CREDIT_BALANCE refund is paying out stays
+ * unapplied.
+ *
+ * No cash ledger entries: the cash already credited the customer's A/R,
+ * and moving it between that customer's invoices leaves A/R unchanged.
+ */
+
+import prisma from '@/lib/prisma';
+import { publishEvent } from '@/lib/event-bus';
+import { lockCustomer } from '@/lib/locks';
+import { InvoiceStatus, PaymentStatus, POSStatus, Prisma, RefundStatus } from '@prisma/client';
+import { InventoryService } from './inventory-service';
+import { InvoiceService, resolveInvoiceStatus, sumPendingCreditRefunds } from './invoice-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReallocatePaymentParams {
+  paymentId: string;
+  allocations: Array<{ invoiceId: string; amount: number }>; // Desired allocation, replaces the current one
+  reason: string;
+  changedBy?: string;
+}
+
+export interface ReallocationResult {
+  paymentId: string;
+  allocations: Array<{ invoiceId: string; amountApplied: number }>;
+  unappliedAmount: number;
+  changes: number;
+}
+
+interface ChangedSale {
+  id: string;
+  posId: string;
+  branchId: string | null;
+  status: POSStatus;
+}
+
+// ============================================================================
+// REALLOCATION SERVICE
+// ============================================================================
+
+export class ReallocationService {
+  /**
+   * A payment's current allocations, the invoices it could move to, and
+   * the audit history
+   */
+  static async getAllocations(paymentId: string) {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        customer: true,
+        invoices: { include: { invoice: true }, orderBy: { createdAt: 'asc' } },
+        allocationChanges: { include: { invoice: true }, orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!payment) {
+      throw new Error(`Payment not found: ${paymentId}`);
+    }
+
+    const openInvoices = payment.customerId
+      ? await prisma.invoice.findMany({
+          where: {
+            customerId: payment.customerId,
+            status: { in: [InvoiceStatus.UNPAID, InvoiceStatus.PARTIALLY_PAID] },
+          },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+    const { invoices, allocationChanges, ...fields } = payment;
+
+    return {
+      payment: fields,
+      allocations: invoices,
+      openInvoices,
+      history: allocationChanges,
+    };
+  }
+
+  /**
+   * Replace a payment's allocation across the customer's invoices
+   *
+   * @throws Error if an invoice is not the customer's, would be overpaid,
+   *         would lose an amount being refunded, or the allocation exceeds
+   *         the money available on the payment or spends credit being refunded
+   */
+  static async reallocate(params: ReallocatePaymentParams): Promise<ReallocationResult> {
+    const { paymentId, reason, changedBy } = params;
+
+    const desired = new Map<string, number>();
+    for (const { invoiceId, amount } of params.allocations) {
+      if (desired.has(invoiceId)) {
+        throw new Error(`Invoice listed twice: ${invoiceId}`);
+      }
+      if (amount < 0) {
+        throw new Error(`Allocation cannot be negative: ${invoiceId}`);
+      }
+      desired.set(invoiceId, roundCents(amount));
+    }
+
+    let customerId: string | null = null;
+    const changedSales: ChangedSale[] = [];
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      // Lock the customer before reading anything written back below
+      const owner = await tx.payment.findUnique({ where: { id: paymentId }, select: { customerId: true } });
+      if (owner?.customerId) {
+        await lockCustomer(tx, owner.customerId);
+      }
+
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: { invoices: true },
+      });
+
+      if (!payment) {
+        throw new Error(`Payment not found: ${paymentId}`);
+      }
+
+      if (payment.status !== PaymentStatus.COMPLETED || !payment.customerId || payment.customerId !== owner.customerId) {
+        throw new Error(`Only completed, matched payments can be reallocated: ${payment.mpesaReceiptNumber}`);
+      }
+
+      customerId = payment.customerId;
+
+      const current = new Map<string, any>(payment.invoices.map((link: any) => [link.invoiceId, link]));
+      const invoiceIds = Array.from(new Set([...Array.from(current.keys()), ...Array.from(desired.keys())]));
+      const invoices = await tx.invoice.findMany({ where: { id: { in: invoiceIds } } });
+
+      // Money on its way back to the customer cannot be moved
+      const pendingRefunds = await tx.refund.groupBy({
+        by: ['invoiceId'],
+        where: { paymentId, invoiceId: { not: null }, status: RefundStatus.PENDING },
+        _sum: { amount: true },
+      });
+      const refunding = new Map<string, number>(
+        pendingRefunds.map((row: any) => [row.invoiceId, row._sum.amount.toNumber()])
+      );
+
+      let totalDelta = 0;
+      let changes = 0;
+
+      for (const invoiceId of invoiceIds) {
+        const invoice = invoices.find((candidate: any) => candidate.id === invoiceId);
+        const link = current.get(invoiceId);
+        const previousAmount = link ? link.amountApplied.toNumber() : 0;
+        const newAmount = desired.get(invoiceId) ?? 0;
+        const delta = roundCents(newAmount - previousAmount);
+
+        if (delta === 0) continue;
+
+        if (!invoice || invoice.customerId !== payment.customerId) {
+          throw new Error(`Invoice not found for this customer: ${invoiceId}`);
+        }
+
+        if (invoice.status === InvoiceStatus.CANCELLED && newAmount > 0) {
+          throw new Error(`Cannot allocate to a cancelled invoice: ${invoice.invoiceId}`);
+        }
+
+        const held = refunding.get(invoiceId) ?? 0;
+        if (newAmount < held) {
+          throw new Error(`KSh ${held} on ${invoice.invoiceId} is being refunded and cannot be moved`);
+        }
+
+        // 1: Invoice
+        const amountPaid = roundCents(invoice.amountPaid.toNumber() + delta);
+        const balance = roundCents(invoice.amount.toNumber() - amountPaid);
+
+        if (balance < 0) {
+          throw new Error(`Allocation exceeds the balance of ${invoice.invoiceId}`);
+        }
+        if (amountPaid < 0) {
+          throw new Error(`Cannot unapply more than was paid on ${invoice.invoiceId}`);
+        }
+
+        const status = invoice.status === InvoiceStatus.CANCELLED
+          ? InvoiceStatus.CANCELLED
+          : resolveInvoiceStatus(amountPaid, balance);
+
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            amountPaid: new Prisma.Decimal(amountPaid),
+            balance: new Prisma.Decimal(balance),
+            status,
+          },
+        });
+
+        // 2: Payment-invoice link
+        if (newAmount === 0) {
+          await tx.paymentInvoice.delete({ where: { id: link.id } });
+        } else if (link) {
+          await tx.paymentInvoice.update({
+            where: { id: link.id },
+            data: { amountApplied: new Prisma.Decimal(newAmount) },
+          });
+        } else {
+          await tx.paymentInvoice.create({
+            data: { paymentId, invoiceId, amountApplied: new Prisma.Decimal(newAmount) },
+          });
+        }
+
+        // 3: POS sale settled by the invoice
+        const sale = await tx.pOSSale.findFirst({ where: { invoiceId: invoice.id } });
+        const saleStatus = status === InvoiceStatus.PAID ? POSStatus.PAID : POSStatus.PENDING;
+
+        if (sale && sale.status !== POSStatus.CANCELLED && sale.status !== saleStatus) {
+          await tx.pOSSale.update({ where: { id: sale.id }, data: { status: saleStatus } });
+          if (saleStatus === POSStatus.PAID) {
+            await InventoryService.issueSaleStock(tx, sale.id);
+            await InvoiceService.postCostOfSales(tx, invoice.id, `Invoice ${invoice.invoiceId}`);
+          } else {
+            await InventoryService.returnSaleStock(tx, sale.id, { notes: `Payment reallocated: ${reason}` });
+            await InvoiceService.reverseCostOfSales(tx, invoice.id, `Payment reallocated: ${reason}`);
+          }
+          changedSales.push({ id: sale.id, posId: sale.posId, branchId: sale.branchId, status: saleStatus });
+        }
+
+        // 4: Audit
+        await tx.paymentAllocationChange.create({
+          data: {
+            paymentId,
+            invoiceId,
+            previousAmount: new Prisma.Decimal(previousAmount),
+            newAmount: new Prisma.Decimal(newAmount),
+            reason,
+            changedBy,
+          },
+        });
+
+        console.log('🔀 Allocation changed:', {
+          mpesaReceiptNumber: payment.mpesaReceiptNumber,
+          invoiceId: invoice.invoiceId,
+          previousAmount,
+          newAmount,
+          status,
+        });
+
+        totalDelta = roundCents(totalDelta + delta);
+        changes += 1;
+      }
+
+      if (changes === 0) {
+        throw new Error('Allocation is unchanged');
+      }
+
+      // 5: What is no longer applied is customer credit again
+      const unappliedAmount = roundCents(payment.unappliedAmount.toNumber() - totalDelta);
+      if (unappliedAmount < 0) {
+        throw new Error(
+          `Allocation exceeds the payment: KSh ${roundCents(payment.unappliedAmount.toNumber())} unapplied`
+        );
+      }
+
+      // Credit on its way back to the customer cannot be allocated either
+      if (totalDelta > 0) {
+        const refunding = await sumPendingCreditRefunds(tx, payment.customerId);
+        const credit = await tx.payment.aggregate({
+          where: { customerId: payment.customerId, status: PaymentStatus.COMPLETED },
+          _sum: { unappliedAmount: true },
+        });
+        const available = roundCents((credit._sum.unappliedAmount?.toNumber() || 0) - refunding);
+
+        if (totalDelta > available) {
+          throw new Error(`KSh ${refunding} of the customer's credit is being refunded and cannot be allocated`);
+        }
+      }
+
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: { unappliedAmount: new Prisma.Decimal(unappliedAmount) },
+      });
+
+      const links = await tx.paymentInvoice.findMany({ where: { paymentId } });
+
+      return {
+        paymentId,
+        allocations: links.map((link: any) => ({
+          invoiceId: link.invoiceId,
+          amountApplied: link.amountApplied.toNumber(),
+        })),
+        unappliedAmount,
+        changes,
+      };
+    });
+
+    publishEvent({
+      type: 'payment.reallocated',
+      customerId,
+      data: result,
+    });
+
+    for (const sale of changedSales) {
+      publishEvent({
+        type: sale.status === POSStatus.PAID ? 'pos.paid' : 'pos.reopened',
+        customerId,
+        branchId: sale.branchId,
+        data: { id: sale.id, posId: sale.posId, paymentId },
+      });
+    }
+
+    return result;
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
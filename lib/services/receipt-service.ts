@@ -0,0 +1,300 @@
+/**
+ * Kelly OS — Payment Receipt Service
+ *
+ * PURPOSE:
+ * Produce the receipt a customer is handed once their payment has posted
+ *
+ * CONTENT:
+ * - The payment (M-Pesa receipt or manual reference, method, date, amount)
+ * - Each invoice it was applied to, with that invoice's balance
+ * - Any part left as credit, and the customer's account balance
+ *
+ * FORMATS:
+ * - pdf        A4 PDF (lib/pdf.ts)
+ * - escpos-58  ESC/POS for 58mm thermal printers (32 columns)
+ * - escpos-80  ESC/POS for 80mm thermal printers (48 columns)
+ */
+
+import prisma from '@/lib/prisma';
+import { createTextPdf, PdfText } from '@/lib/pdf';
+import { PaymentMethod, PaymentStatus } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const RECEIPT_FORMATS = ['pdf', 'escpos-58', 'escpos-80'] as const;
+
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number];
+
+export interface ReceiptData {
+  businessName: string;
+  receiptNumber: string; // M-Pesa receipt, or the manual reference
+  method: PaymentMethod;
+  amount: number;
+  transactionDate: Date;
+  customer: { name: string; customerId: string; phone: string } | null;
+  allocations: Array<{ invoiceId: string; amountApplied: number; invoiceBalance: number }>;
+  unappliedAmount: number;
+  accountBalance: number; // Negative = customer is in credit
+}
+
+export interface RenderedReceipt {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.MPESA]: 'M-Pesa',
+  [PaymentMethod.CASH]: 'Cash',
+  [PaymentMethod.BANK_TRANSFER]: 'Bank Transfer',
+  [PaymentMethod.CHEQUE]: 'Cheque',
+  [PaymentMethod.CARD]: 'Card',
+};
+
+// Characters per line in the printer's default font
+const THERMAL_COLUMNS: Record<Exclude<ReceiptFormat, 'pdf'>, number> = {
+  'escpos-58': 32,
+  'escpos-80': 48,
+};
+
+// ESC/POS commands
+const ESC_POS = {
+  INIT: [0x1b, 0x40],
+  ALIGN_LEFT: [0x1b, 0x61, 0x00],
+  ALIGN_CENTER: [0x1b, 0x61, 0x01],
+  BOLD_ON: [0x1b, 0x45, 0x01],
+  BOLD_OFF: [0x1b, 0x45, 0x00],
+  DOUBLE_SIZE: [0x1d, 0x21, 0x11],
+  NORMAL_SIZE: [0x1d, 0x21, 0x00],
+  FEED_AND_CUT: [0x1d, 0x56, 0x42, 0x03], // Feed 3 lines, partial cut
+};
+
+// ============================================================================
+// RECEIPT SERVICE
+// ============================================================================
+
+export class ReceiptService {
+  /**
+   * Gather what goes on a payment's receipt
+   *
+   * @returns null if the payment does not exist
+   * @throws Error if the payment has not posted
+   */
+  static async getReceiptData(paymentId: string): Promise<ReceiptData | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        customer: true,
+        invoices: { include: { invoice: true }, orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!payment) return null;
+
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new Error(`Receipts are only issued for completed payments (status ${payment.status})`);
+    }
+
+    return {
+      businessName: process.env.RECEIPT_BUSINESS_NAME || 'Kelly OS',
+      receiptNumber: payment.mpesaReceiptNumber || payment.referenceNumber || payment.id,
+      method: payment.method,
+      amount: payment.amount.toNumber(),
+      transactionDate: payment.transactionDate,
+      customer: payment.customer && {
+        name: payment.customer.name,
+        customerId: payment.customer.customerId,
+        phone: payment.customer.phone,
+      },
+      allocations: payment.invoices.map((link) => ({
+        invoiceId: link.invoice.invoiceId,
+        amountApplied: link.amountApplied.toNumber(),
+        invoiceBalance: link.invoice.balance.toNumber(),
+      })),
+      unappliedAmount: payment.unappliedAmount.toNumber(),
+      accountBalance: payment.customer?.balance.toNumber() ?? 0,
+    };
+  }
+
+  /**
+   * Render a payment's receipt in the requested format
+   *
+   * @returns null if the payment does not exist
+   */
+  static async render(paymentId: string, format: ReceiptFormat): Promise<RenderedReceipt | null> {
+    const data = await this.getReceiptData(paymentId);
+    if (!data) return null;
+
+    if (format === 'pdf') {
+      return {
+        body: renderPdfReceipt(data),
+        contentType: 'application/pdf',
+        filename: `receipt-${data.receiptNumber}.pdf`,
+      };
+    }
+
+    return {
+      body: renderThermalReceipt(data, THERMAL_COLUMNS[format]),
+      contentType: 'application/octet-stream',
+      filename: `receipt-${data.receiptNumber}-${format}.bin`,
+    };
+  }
+}
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+/**
+ * A4 PDF: details in Helvetica, the invoice table in Courier so columns line up
+ */
+export function renderPdfReceipt(data: ReceiptData): Buffer {
+  const left = 50;
+  const texts: PdfText[] = [];
+  let y = 60;
+
+  texts.push({ text: data.businessName, x: left, y, size: 18, font: 'Helvetica-Bold' });
+  y += 22;
+  texts.push({ text: 'PAYMENT RECEIPT', x: left, y, size: 12 });
+  y += 32;
+
+  for (const [label, value] of detailRows(data)) {
+    texts.push({ text: label, x: left, y, font: 'Helvetica-Bold' });
+    texts.push({ text: value, x: left + 120, y });
+    y += 16;
+  }
+
+  y += 16;
+  const columns = 64;
+  const line = (text: string) => {
+    texts.push({ text, x: left, y, font: 'Courier' });
+    y += 14;
+  };
+
+  line(tableRow(['Invoice', 'Applied', 'Balance'], columns));
+  line('-'.repeat(columns));
+  for (const allocation of data.allocations) {
+    line(
+      tableRow(
+        [allocation.invoiceId, formatAmount(allocation.amountApplied), formatAmount(allocation.invoiceBalance)],
+        columns
+      )
+    );
+  }
+  if (data.unappliedAmount > 0) {
+    line(tableRow(['Held as credit', formatAmount(data.unappliedAmount), ''], columns));
+  }
+  line('-'.repeat(columns));
+  line(twoColumns('TOTAL PAID', formatAmount(data.amount), columns));
+  line(twoColumns('ACCOUNT BALANCE', formatBalance(data.accountBalance), columns));
+
+  y += 24;
+  texts.push({ text: 'Thank you for your business.', x: left, y });
+
+  return createTextPdf([texts]);
+}
+
+/**
+ * ESC/POS byte stream for a thermal printer `columns` characters wide
+ */
+export function renderThermalReceipt(data: ReceiptData, columns: number): Buffer {
+  const chunks: Buffer[] = [];
+  const command = (bytes: number[]) => chunks.push(Buffer.from(bytes));
+  const line = (text = '') => chunks.push(Buffer.from(`${text}\n`.replace(/[^\n\x20-\x7e]/g, '?'), 'ascii'));
+  const rule = () => line('-'.repeat(columns));
+
+  command(ESC_POS.INIT);
+  command(ESC_POS.ALIGN_CENTER);
+  command(ESC_POS.DOUBLE_SIZE);
+  line(data.businessName.slice(0, Math.floor(columns / 2)));
+  command(ESC_POS.NORMAL_SIZE);
+  line('PAYMENT RECEIPT');
+  command(ESC_POS.ALIGN_LEFT);
+  rule();
+
+  for (const [label, value] of detailRows(data)) {
+    if (label.length + value.length + 2 > columns) {
+      line(`${label}:`);
+      line(`  ${value}`.slice(0, columns));
+    } else {
+      line(twoColumns(`${label}:`, value, columns));
+    }
+  }
+
+  rule();
+  for (const allocation of data.allocations) {
+    line(allocation.invoiceId.slice(0, columns));
+    line(twoColumns('  Applied', formatAmount(allocation.amountApplied), columns));
+    line(twoColumns('  Invoice balance', formatAmount(allocation.invoiceBalance), columns));
+  }
+  if (data.unappliedAmount > 0) {
+    line(twoColumns('Held as credit', formatAmount(data.unappliedAmount), columns));
+  }
+  rule();
+
+  command(ESC_POS.BOLD_ON);
+  line(twoColumns('TOTAL PAID', formatAmount(data.amount), columns));
+  command(ESC_POS.BOLD_OFF);
+  line(twoColumns('Account balance', formatBalance(data.accountBalance), columns));
+  line();
+
+  command(ESC_POS.ALIGN_CENTER);
+  line('Thank you for your business.');
+  command(ESC_POS.FEED_AND_CUT);
+
+  return Buffer.concat(chunks);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function detailRows(data: ReceiptData): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ['Receipt No', data.receiptNumber],
+    ['Method', PAYMENT_METHOD_LABELS[data.method]],
+    ['Date', formatDate(data.transactionDate)],
+  ];
+
+  if (data.customer) {
+    rows.push(['Customer', `${data.customer.name} (${data.customer.customerId})`]);
+    rows.push(['Phone', data.customer.phone]);
+  }
+
+  return rows;
+}
+
+function formatAmount(amount: number): string {
+  return `KSh ${amount.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatBalance(balance: number): string {
+  if (balance < 0) return `${formatAmount(-balance)} CR`;
+  return formatAmount(balance);
+}
+
+/**
+ * "2026-01-31 14:05" in East Africa Time (UTC+3, no daylight saving)
+ */
+function formatDate(date: Date): string {
+  return new Date(date.getTime() + 3 * 60 * 60 * 1000).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Label on the left, value on the right
+ */
+function twoColumns(label: string, value: string, columns: number): string {
+  const space = Math.max(columns - label.length - value.length, 1);
+  return `${label}${' '.repeat(space)}${value}`;
+}
+
+/**
+ * First column on the left, the rest right-aligned in equal widths
+ */
+function tableRow(cells: string[], columns: number): string {
+  const width = Math.floor(columns / cells.length);
+  const [first, ...rest] = cells;
+  return first.padEnd(columns - width * rest.length) + rest.map((cell) => cell.padStart(width)).join('');
+}
@@ -0,0 +1,701 @@
+/**
+ * Kelly OS — Refund Service
+ *
+ * PURPOSE:
+ * Send money back to the phone that paid, via M-Pesa B2C
+ *
+ * FLOW:
+ * 1. Staff request a refund against a completed payment
+ * 2. Refund recorded (status: PENDING) under the customer lock, so two
+ *    requests cannot both pass the refundable checks; then the B2C payout
+ *    is requested and its ConversationID stored
+ * 3. Safaricom calls /api/webhooks/mpesa/result/b2c with the ConversationID
+ * 4. On success the refund is posted:
+ *    - CREDIT_BALANCE  DR A/R / CR M-Pesa Cash, customer credit reduced
+ *    - INVOICE_REOPEN  DR A/R / CR M-Pesa Cash, invoice owed again
+ *                      (the payment's amount applied to it is reduced, and a
+ *                      paid POS sale is reopened with its items back in stock)
+ *    - SALES_RETURN    DR Sales Returns / CR M-Pesa Cash, invoice amount reduced
+ *                      (the lines it takes back, or all that is left of
+ *                      them when it clears the invoice, go back into stock
+ *                      and come off COGS)
+ *
+ * Nothing is posted until Safaricom confirms the money has left. A queue
+ * timeout leaves the refund PENDING until PayoutStatusService settles it,
+ * which also settles refunds whose request died before the ConversationID
+ * was stored (settleUnsent).
+ * Payments with a pending or completed reversal cannot be refunded.
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaResult, getResultParameter } from '@/lib/mpesa-callbacks';
+import { publishEvent } from '@/lib/event-bus';
+import { lockCustomer, lockPayment } from '@/lib/locks';
+import {
+  MpesaRequestKind,
+  PaymentStatus,
+  POSStatus,
+  Prisma,
+  Refund,
+  RefundStatus,
+  RefundType,
+  ReversalStatus,
+} from '@prisma/client';
+import { AccountingEngine, generateTransactionRef } from './accounting-engine';
+import { InventoryService, ReturnedLine } from './inventory-service';
+import { InvoiceService, resolveInvoiceStatus } from './invoice-service';
+import { MpesaConfigService } from './mpesa-config-service';
+import { MpesaRequestService } from './mpesa-request-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RequestRefundParams {
+  paymentId: string;
+  amount: number;
+  type: RefundType;
+  invoiceId?: string; // Invoice ID or internal ID (INVOICE_REOPEN / SALES_RETURN)
+  items?: ReturnedLine[]; // Invoice lines the customer brought back (SALES_RETURN)
+  reason: string;
+  requestedBy?: string;
+}
+
+export interface RefundResult {
+  id: string;
+  status: RefundStatus;
+  amount: number;
+  phone: string;
+  conversationId: string | null;
+}
+
+// Refunds that have taken (or will take) money out
+const ACTIVE_REFUND_STATUSES = [RefundStatus.PENDING, RefundStatus.COMPLETED];
+
+// ============================================================================
+// REFUND SERVICE
+// ============================================================================
+
+export class RefundService {
+  /**
+   * Validate a refund and send the B2C payout
+   */
+  static async requestRefund(params: RequestRefundParams): Promise<RefundResult> {
+    const { paymentId, amount, type, reason, requestedBy } = params;
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error('Refund amount must be a positive whole number of shillings');
+    }
+
+    const items = params.items ?? [];
+    if (items.length > 0 && type !== RefundType.SALES_RETURN) {
+      throw new Error('Only sales returns take invoice lines back');
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { customer: true },
+    });
+
+    if (!payment) {
+      throw new Error(`Payment not found: ${paymentId}`);
+    }
+
+    if (!payment.mpesaReceiptNumber) {
+      throw new Error(`Only M-Pesa payments can be refunded via B2C: ${payment.method} ${payment.referenceNumber}`);
+    }
+
+    if (payment.status !== PaymentStatus.COMPLETED || !payment.customer) {
+      throw new Error(`Only completed, matched payments can be refunded: ${payment.mpesaReceiptNumber}`);
+    }
+
+    const customerId = payment.customer.id;
+
+    const { refund, invoice } = await prisma.$transaction(async (tx: any) => {
+      // Wait for other refunds, reversals and payments for this customer
+      await lockCustomer(tx, customerId);
+      await lockPayment(tx, paymentId);
+
+      // A reversal may have taken the payment back meanwhile
+      const { status } = await tx.payment.findUnique({ where: { id: paymentId } });
+      if (status !== PaymentStatus.COMPLETED) {
+        throw new Error(`Only completed, matched payments can be refunded: ${payment.mpesaReceiptNumber}`);
+      }
+
+      // Rule: A reversal sends the whole payment back (and undoes its postings)
+      const reversals = await tx.paymentReversal.count({
+        where: { paymentId, status: { in: [ReversalStatus.PENDING, ReversalStatus.COMPLETED] } },
+      });
+      if (reversals > 0) {
+        throw new Error(`Payment has a reversal and cannot be refunded: ${payment.mpesaReceiptNumber}`);
+      }
+
+      // Rule 1: Never refund more than the payment
+      const refunded = await this.sumActiveRefunds(tx, { paymentId });
+      const refundable = payment.amount.toNumber() - refunded;
+      if (amount > refundable) {
+        throw new Error(`Refund exceeds refundable amount: KSh ${refundable}`);
+      }
+
+      // Rule 2: The refund must come out of something the customer is owed
+      let invoice = null;
+      if (type === RefundType.CREDIT_BALANCE) {
+        if (params.invoiceId) {
+          throw new Error('Credit balance refunds are not tied to an invoice');
+        }
+
+        const customer = await tx.customer.findUnique({ where: { id: customerId } });
+        const pendingCredit = await this.sumActiveRefunds(tx, {
+          customerId,
+          type: RefundType.CREDIT_BALANCE,
+          status: RefundStatus.PENDING,
+        });
+        const availableCredit = -customer.balance.toNumber() - pendingCredit;
+        if (amount > availableCredit) {
+          throw new Error(`Refund exceeds customer credit: KSh ${Math.max(availableCredit, 0)}`);
+        }
+      } else {
+        if (!params.invoiceId) {
+          throw new Error('invoiceId is required for invoice refunds');
+        }
+
+        invoice = await tx.invoice.findFirst({
+          where: { OR: [{ invoiceId: params.invoiceId }, { id: params.invoiceId }] },
+        });
+        if (!invoice) {
+          throw new Error(`Invoice not found: ${params.invoiceId}`);
+        }
+
+        // Completed refunds have already come off the applied amount
+        const applied = await tx.paymentInvoice.findUnique({
+          where: { paymentId_invoiceId: { paymentId, invoiceId: invoice.id } },
+        });
+        if (!applied) {
+          throw new Error(`Payment ${payment.mpesaReceiptNumber} was not applied to ${invoice.invoiceId}`);
+        }
+
+        const pendingOnInvoice = await this.sumActiveRefunds(tx, {
+          paymentId,
+          invoiceId: invoice.id,
+          status: RefundStatus.PENDING,
+        });
+        const refundableOnInvoice = Math.min(
+          applied.amountApplied.toNumber(),
+          invoice.amountPaid.toNumber()
+        ) - pendingOnInvoice;
+        if (amount > refundableOnInvoice) {
+          throw new Error(`Refund exceeds amount paid on ${invoice.invoiceId}: KSh ${refundableOnInvoice}`);
+        }
+
+        // Rule 3: Goods can only come back once
+        await this.checkReturnedLines(tx, invoice, items);
+      }
+
+      const created = await tx.refund.create({
+        data: {
+          paymentId,
+          customerId,
+          invoiceId: invoice?.id,
+          type,
+          amount: new Prisma.Decimal(amount),
+          phone: payment.phone,
+          reason,
+          requestedBy,
+          status: RefundStatus.PENDING,
+          items: {
+            create: items.map((item) => ({
+              lineItemId: item.lineItemId,
+              quantity: new Prisma.Decimal(item.quantity),
+            })),
+          },
+        },
+      });
+
+      return { refund: created, invoice };
+    });
+
+    // Sent from the shortcode that received the payment. The refund counts
+    // against the payment from here on, so a failed request must release it
+    let response;
+    try {
+      const mpesa = await MpesaConfigService.getClient(payment.businessShortCode);
+      response = await mpesa.b2cPayment({
+        amount,
+        phoneNumber: payment.phone,
+        remarks: `Refund ${payment.mpesaReceiptNumber}`.slice(0, 100),
+        occasion: invoice?.invoiceId || payment.customer.customerId,
+      });
+    } catch (error: any) {
+      await this.markFailed(refund, -1, `B2C request failed: ${error.message}`);
+      throw error;
+    }
+
+    await MpesaRequestService.record({
+      kind: MpesaRequestKind.B2C,
+      response,
+      reference: payment.mpesaReceiptNumber,
+    });
+
+    if (response.ResponseCode !== '0') {
+      await this.markFailed(refund, parseInt(response.ResponseCode) || -1, response.ResponseDescription);
+      throw new Error(`B2C request rejected: ${response.ResponseDescription}`);
+    }
+
+    // Conditional: the sweeper fails refunds that never stored a ConversationID
+    const { count } = await prisma.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.PENDING },
+      data: {
+        conversationId: response.ConversationID,
+        originatorConversationId: response.OriginatorConversationID,
+      },
+    });
+    if (count === 0) {
+      throw new Error(
+        `Refund was failed before Daraja answered; check payout ${response.ConversationID} with Safaricom`
+      );
+    }
+    const requested = await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+
+    console.log('💸 Refund requested:', {
+      refundId: refund.id,
+      mpesaReceiptNumber: payment.mpesaReceiptNumber,
+      type,
+      amount,
+      conversationId: response.ConversationID,
+    });
+
+    return {
+      id: requested.id,
+      status: requested.status,
+      amount,
+      phone: requested.phone,
+      conversationId: requested.conversationId,
+    };
+  }
+
+  /**
+   * Apply a B2C result callback to its pending refund
+   *
+   * Settled refunds are returned unchanged (duplicate callbacks)
+   */
+  static async handleResult(result: MpesaResult): Promise<Refund> {
+    const refund = await this.findByConversation(result);
+
+    if (refund.status !== RefundStatus.PENDING) {
+      console.warn('⚠️ Refund already settled:', { refundId: refund.id, status: refund.status });
+      return refund;
+    }
+
+    if (result.ResultCode !== 0) {
+      return this.markFailed(refund, result.ResultCode, result.ResultDesc);
+    }
+
+    const receipt = getResultParameter(result, 'TransactionReceipt') || result.TransactionID;
+    const amount = refund.amount.toNumber();
+
+    let settledMeanwhile = false;
+    const reopenedSales: Array<{ id: string; posId: string; branchId: string | null }> = [];
+
+    const completed = await prisma.$transaction(async (tx: any) => {
+      await lockCustomer(tx, refund.customerId);
+
+      // A duplicate callback may have settled it while we waited for the lock
+      const current = await tx.refund.findUnique({ where: { id: refund.id } });
+      if (current.status !== RefundStatus.PENDING) {
+        settledMeanwhile = true;
+        return current;
+      }
+
+      const invoice = refund.invoiceId
+        ? await tx.invoice.findUnique({ where: { id: refund.invoiceId } })
+        : null;
+
+      // 1: Customer balance (A/R refunds only; sales returns cancel the debt instead)
+      if (refund.type !== RefundType.SALES_RETURN) {
+        await tx.customer.update({
+          where: { id: refund.customerId },
+          data: { balance: { increment: new Prisma.Decimal(amount) } },
+        });
+      }
+
+      // 1b: Credit refunds use up unapplied payments, starting with the refunded one
+      if (refund.type === RefundType.CREDIT_BALANCE) {
+        await this.consumeCredit(tx, refund.customerId, refund.paymentId, amount);
+      }
+
+      // 2: Invoice
+      if (invoice) {
+        const amountPaid = invoice.amountPaid.toNumber() - amount;
+        const invoiceAmount =
+          refund.type === RefundType.SALES_RETURN ? invoice.amount.toNumber() - amount : invoice.amount.toNumber();
+        const balance = invoiceAmount - amountPaid;
+
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            amount: new Prisma.Decimal(invoiceAmount),
+            amountPaid: new Prisma.Decimal(amountPaid),
+            balance: new Prisma.Decimal(balance),
+            status: resolveInvoiceStatus(amountPaid, balance),
+          },
+        });
+
+        // 2a: The refunded money is no longer applied to the invoice
+        await this.reduceAppliedAmount(tx, refund.paymentId, invoice.id, amount);
+
+        // 2b: The goods that came back go back into stock, and their cost leaves COGS
+        if (refund.type === RefundType.SALES_RETURN) {
+          const lines = await this.returnedLines(tx, refund.id, invoice.id, invoiceAmount === 0);
+          await InvoiceService.returnLines(tx, invoice.id, lines, { refundId: refund.id, reason: refund.reason });
+        }
+
+        // 2c: A reopened POS sale is unpaid again (stock and its cost go back)
+        if (refund.type === RefundType.INVOICE_REOPEN && invoice.posId) {
+          const sale = await tx.pOSSale.findUnique({ where: { id: invoice.posId } });
+          if (sale?.status === POSStatus.PAID) {
+            await tx.pOSSale.update({
+              where: { id: sale.id },
+              data: { status: POSStatus.PENDING },
+            });
+            await InventoryService.returnSaleStock(tx, sale.id, {
+              refundId: refund.id,
+              notes: `Invoice reopened: ${refund.reason}`,
+            });
+            await InvoiceService.reverseCostOfSales(tx, invoice.id, `Invoice reopened: ${refund.reason}`);
+            reopenedSales.push({ id: sale.id, posId: sale.posId, branchId: sale.branchId });
+          }
+        }
+      }
+
+      // 3: Ledger
+      await AccountingEngine.postRefundIssued({
+        transactionRef: generateTransactionRef('RFD'),
+        amount,
+        customerId: refund.customerId,
+        paymentId: refund.paymentId,
+        invoiceId: refund.invoiceId || undefined,
+        salesReturn: refund.type === RefundType.SALES_RETURN,
+        transactionDate: new Date(),
+        description: `${refund.reason} (${receipt || refund.conversationId})`,
+        tx,
+      });
+
+      // 4: Mark refund as completed
+      return tx.refund.update({
+        where: { id: refund.id },
+        data: {
+          status: RefundStatus.COMPLETED,
+          resultCode: result.ResultCode,
+          resultDesc: result.ResultDesc,
+          mpesaReceiptNumber: receipt ? String(receipt) : null,
+          completedAt: new Date(),
+        },
+      });
+    });
+
+    if (settledMeanwhile) {
+      console.warn('⚠️ Refund already settled:', { refundId: refund.id, status: completed.status });
+      return completed;
+    }
+
+    console.log('✅ Refund completed:', {
+      refundId: refund.id,
+      amount,
+      mpesaReceiptNumber: receipt,
+      posSalesReopened: reopenedSales.map((sale) => sale.posId),
+    });
+
+    publishEvent({
+      type: 'refund.completed',
+      customerId: refund.customerId,
+      data: { id: refund.id, paymentId: refund.paymentId, invoiceId: refund.invoiceId, amount },
+    });
+
+    for (const sale of reopenedSales) {
+      publishEvent({
+        type: 'pos.reopened',
+        customerId: refund.customerId,
+        branchId: sale.branchId,
+        data: { id: sale.id, posId: sale.posId, paymentId: refund.paymentId },
+      });
+    }
+
+    return completed;
+  }
+
+  /**
+   * Apply a B2C queue timeout
+   *
+   * The refund stays PENDING (still holding what it refunds) until a late
+   * result or a transaction status query settles it
+   */
+  static async handleTimeout(result: MpesaResult): Promise<Refund> {
+    const refund = await this.findByConversation(result);
+
+    if (refund.status !== RefundStatus.PENDING) {
+      return refund;
+    }
+
+    console.warn('⚠️ Refund timed out, awaiting a status query:', { refundId: refund.id });
+
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        resultCode: result.ResultCode,
+        resultDesc: `Queue timeout: ${result.ResultDesc}`,
+      },
+    });
+  }
+
+  /**
+   * Settle refunds whose request died before Daraja's acknowledgement was
+   * stored: still PENDING with no conversationId, created before `before`
+   *
+   * An accepted B2C request recorded for the payment since the refund, and
+   * not claimed by another refund, is adopted so its result (or a status
+   * query) settles the refund. Without one the payout was never sent and the
+   * refund is FAILED, releasing what it held.
+   *
+   * @returns How many were settled
+   */
+  static async settleUnsent(before: Date): Promise<number> {
+    const unsent = await prisma.refund.findMany({
+      where: { status: RefundStatus.PENDING, conversationId: null, createdAt: { lte: before } },
+      include: { payment: { select: { mpesaReceiptNumber: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: 50,
+    });
+
+    for (const refund of unsent) {
+      const requests = await prisma.mpesaRequest.findMany({
+        where: {
+          kind: MpesaRequestKind.B2C,
+          reference: refund.payment.mpesaReceiptNumber,
+          responseCode: '0',
+          conversationId: { not: null },
+          createdAt: { gte: refund.createdAt },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      const claimed = await prisma.refund.findMany({
+        where: { conversationId: { in: requests.map((request) => request.conversationId!) } },
+        select: { conversationId: true },
+      });
+      const request = requests.find(
+        (candidate) => !claimed.some((other) => other.conversationId === candidate.conversationId)
+      );
+
+      if (!request) {
+        await this.markFailed(refund, -1, 'No B2C request was stored for this refund');
+        continue;
+      }
+
+      await prisma.refund.updateMany({
+        where: { id: refund.id, status: RefundStatus.PENDING, conversationId: null },
+        data: {
+          conversationId: request.conversationId,
+          originatorConversationId: request.originatorConversationId,
+        },
+      });
+
+      console.warn('⚠️ Refund request recovered:', { refundId: refund.id, conversationId: request.conversationId });
+    }
+
+    return unsent.length;
+  }
+
+  /**
+   * List refunds, newest first
+   */
+  static async getRefunds(params?: { paymentId?: string; customerId?: string }) {
+    return prisma.refund.findMany({
+      where: {
+        ...(params?.paymentId && { paymentId: params.paymentId }),
+        ...(params?.customerId && { customerId: params.customerId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        payment: { select: { mpesaReceiptNumber: true } },
+        customer: { select: { name: true, customerId: true } },
+        invoice: { select: { invoiceId: true } },
+      },
+      take: 100,
+    });
+  }
+
+  /**
+   * Whether a result callback for this refund still has work to do
+   */
+  static awaitingResult(refund: { status: RefundStatus }): boolean {
+    return refund.status === RefundStatus.PENDING;
+  }
+
+  /**
+   * Find a refund by either Daraja conversation ID
+   */
+  static async findByConversation(result: { ConversationID: string; OriginatorConversationID: string }) {
+    const refund = await prisma.refund.findFirst({
+      where: {
+        OR: [
+          { conversationId: result.ConversationID },
+          { originatorConversationId: result.OriginatorConversationID },
+        ],
+      },
+    });
+
+    if (!refund) {
+      throw new Error(`Refund not found for conversation: ${result.ConversationID}`);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Fail a refund that is still PENDING (a settled one is returned unchanged)
+   */
+  private static async markFailed(refund: Refund, resultCode: number, resultDesc: string): Promise<Refund> {
+    const { count } = await prisma.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.PENDING },
+      data: {
+        status: RefundStatus.FAILED,
+        resultCode,
+        resultDesc,
+        completedAt: new Date(),
+      },
+    });
+    const failed = await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+
+    if (count === 0) {
+      console.warn('⚠️ Refund already settled:', { refundId: refund.id, status: failed.status });
+      return failed;
+    }
+
+    console.warn('⚠️ Refund failed:', { refundId: refund.id, resultCode, resultDesc });
+
+    publishEvent({
+      type: 'refund.failed',
+      customerId: refund.customerId,
+      data: { id: refund.id, paymentId: refund.paymentId, resultDesc },
+    });
+
+    return failed;
+  }
+
+  private static async sumActiveRefunds(tx: any, where: {
+    paymentId?: string;
+    invoiceId?: string;
+    customerId?: string;
+    type?: RefundType;
+    status?: RefundStatus;
+  }): Promise<number> {
+    const { status, ...filters } = where;
+
+    const result = await tx.refund.aggregate({
+      where: {
+        ...filters,
+        status: status ? status : { in: ACTIVE_REFUND_STATUSES },
+      },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount?.toNumber() || 0;
+  }
+
+  /**
+   * Reduce the payment's allocation to an invoice by a refunded amount
+   */
+  private static async reduceAppliedAmount(tx: any, paymentId: string, invoiceId: string, amount: number) {
+    const link = await tx.paymentInvoice.findUnique({
+      where: { paymentId_invoiceId: { paymentId, invoiceId } },
+    });
+    const remaining = link.amountApplied.toNumber() - amount;
+
+    if (remaining <= 0) {
+      await tx.paymentInvoice.delete({ where: { id: link.id } });
+    } else {
+      await tx.paymentInvoice.update({
+        where: { id: link.id },
+        data: { amountApplied: new Prisma.Decimal(remaining) },
+      });
+    }
+  }
+
+  /**
+   * Check a sales return's lines against the invoice: each must be one of its
+   * lines, for no more than was sold less what is returned or being returned
+   */
+  private static async checkReturnedLines(
+    tx: any,
+    invoice: { id: string; invoiceId: string },
+    items: ReturnedLine[]
+  ): Promise<void> {
+    for (const item of items) {
+      if (!(item.quantity > 0)) {
+        throw new Error('Returned quantities must be positive');
+      }
+
+      const line = await tx.invoiceLineItem.findUnique({ where: { id: item.lineItemId } });
+      if (!line || line.invoiceId !== invoice.id) {
+        throw new Error(`Line ${item.lineItemId} is not on ${invoice.invoiceId}`);
+      }
+
+      const pending = await tx.refundItem.aggregate({
+        where: { lineItemId: line.id, refund: { status: RefundStatus.PENDING } },
+        _sum: { quantity: true },
+      });
+      const returnable =
+        line.quantity.toNumber() - line.returnedQty.toNumber() - (pending._sum.quantity?.toNumber() || 0);
+      if (item.quantity > returnable) {
+        throw new Error(`Return exceeds quantity left on ${invoice.invoiceId} (${line.description}): ${returnable}`);
+      }
+    }
+  }
+
+  /**
+   * Invoice lines a completed sales return brings back: its own lines, or
+   * everything not yet returned when it clears the invoice
+   */
+  private static async returnedLines(
+    tx: any,
+    refundId: string,
+    invoiceId: string,
+    clearsInvoice: boolean
+  ): Promise<ReturnedLine[]> {
+    if (!clearsInvoice) {
+      const items = await tx.refundItem.findMany({ where: { refundId } });
+      return items.map((item: any) => ({ lineItemId: item.lineItemId, quantity: item.quantity.toNumber() }));
+    }
+
+    const lineItems = await tx.invoiceLineItem.findMany({ where: { invoiceId } });
+    return lineItems.flatMap((item: any) => {
+      const quantity = item.quantity.toNumber() - item.returnedQty.toNumber();
+      return quantity > 0 ? [{ lineItemId: item.id, quantity }] : [];
+    });
+  }
+
+  /**
+   * Reduce unapplied payment amounts by a refunded credit
+   */
+  private static async consumeCredit(tx: any, customerId: string, paymentId: string, amount: number) {
+    const payments = await tx.payment.findMany({
+      where: { customerId, unappliedAmount: { gt: 0 } },
+      orderBy: { transactionDate: 'asc' },
+    });
+
+    // The refunded payment first, then the oldest
+    payments.sort((a: any, b: any) => Number(b.id === paymentId) - Number(a.id === paymentId));
+
+    let remaining = amount;
+    for (const payment of payments) {
+      if (remaining <= 0) break;
+
+      const consumed = Math.min(payment.unappliedAmount.toNumber(), remaining);
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { unappliedAmount: { decrement: new Prisma.Decimal(consumed) } },
+      });
+
+      remaining -= consumed;
+    }
+  }
+}
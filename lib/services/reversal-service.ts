@@ -0,0 +1,512 @@
+/**
+ * Kelly OS — Reversal Service
+ *
+ * PURPOSE:
+ * Reverse a whole M-Pesa payment (wrong till, wrong amount, fraud)
+ * through the Daraja TransactionReversal API
+ *
+ * FLOW:
+ * 1. Staff request a reversal for a payment
+ * 2. PaymentReversal recorded (status: PENDING) under the customer and
+ *    payment locks, then the reversal requested and its ConversationID stored
+ * 3. Safaricom calls /api/webhooks/mpesa/result/reversal with the ConversationID
+ * 4. On success, in one transaction:
+ *    - PaymentInvoice allocations removed, invoice balances/statuses restored
+ *    - POS sales paid by those invoices back to PENDING (stock returned,
+ *      cost of sales reversed)
+ *    - Customer balance restored
+ *    - Every ledger transaction of the payment reversed
+ *    - Payment status → REVERSED
+ *
+ * A queue timeout leaves the reversal PENDING until PayoutStatusService
+ * settles it, which also settles reversals whose request died before the
+ * ConversationID was stored (settleUnsent). Partially refunded payments
+ * cannot be reversed (refund the rest instead).
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaResult } from '@/lib/mpesa-callbacks';
+import { publishEvent } from '@/lib/event-bus';
+import { lockCustomer, lockPayment } from '@/lib/locks';
+import {
+  MpesaRequestKind,
+  PaymentReversal,
+  PaymentStatus,
+  POSStatus,
+  Prisma,
+  RefundStatus,
+  ReversalStatus,
+} from '@prisma/client';
+import { AccountingEngine, generateTransactionRef } from './accounting-engine';
+import { InventoryService } from './inventory-service';
+import { MpesaConfigService } from './mpesa-config-service';
+import { MpesaRequestService } from './mpesa-request-service';
+import { InvoiceService, adjustInvoicePayment } from './invoice-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RequestReversalParams {
+  paymentId: string;
+  reason: string;
+  requestedBy?: string;
+}
+
+export interface ReversalResult {
+  id: string;
+  status: ReversalStatus;
+  amount: number;
+  conversationId: string | null;
+}
+
+// Payments that have money we can still send back
+const REVERSIBLE_STATUSES: PaymentStatus[] = [PaymentStatus.COMPLETED, PaymentStatus.UNMATCHED];
+
+// ============================================================================
+// REVERSAL SERVICE
+// ============================================================================
+
+export class ReversalService {
+  /**
+   * Validate and send a Daraja reversal for a payment
+   */
+  static async requestReversal(params: RequestReversalParams): Promise<ReversalResult> {
+    const { paymentId, reason, requestedBy } = params;
+
+    const reversal = await prisma.$transaction(async (tx: any) => {
+      // Refunds take the same customer lock, so a refund and a reversal
+      // of one payment cannot both pass their checks
+      await this.lockCustomerAndPayment(tx, paymentId);
+
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: {
+          refunds: { where: { status: { in: [RefundStatus.PENDING, RefundStatus.COMPLETED] } } },
+          reversals: { where: { status: ReversalStatus.PENDING } },
+        },
+      });
+
+      if (!payment) {
+        throw new Error(`Payment not found: ${paymentId}`);
+      }
+
+      if (!payment.mpesaReceiptNumber) {
+        throw new Error(`Only M-Pesa payments can be reversed: ${payment.method} ${payment.referenceNumber}`);
+      }
+
+      if (!REVERSIBLE_STATUSES.includes(payment.status)) {
+        throw new Error(`Payment cannot be reversed (status ${payment.status}): ${payment.mpesaReceiptNumber}`);
+      }
+
+      if (payment.reversals.length > 0) {
+        throw new Error(`Reversal already pending: ${payment.mpesaReceiptNumber}`);
+      }
+
+      if (payment.refunds.length > 0) {
+        throw new Error(`Payment has refunds and cannot be reversed: ${payment.mpesaReceiptNumber}`);
+      }
+
+      return tx.paymentReversal.create({
+        data: {
+          paymentId,
+          amount: payment.amount,
+          reason,
+          requestedBy,
+          status: ReversalStatus.PENDING,
+        },
+        include: { payment: true },
+      });
+    });
+
+    const { payment } = reversal;
+    const amount = payment.amount.toNumber();
+
+    // Sent from the shortcode that received the payment. The pending row
+    // blocks refunds and other reversals, so a failed request must release it
+    let response;
+    try {
+      const mpesa = await MpesaConfigService.getClient(payment.businessShortCode);
+      response = await mpesa.reverseTransaction({
+        transactionID: payment.mpesaReceiptNumber,
+        amount,
+        remarks: reason.slice(0, 100),
+      });
+    } catch (error: any) {
+      await this.markFailed(reversal, -1, `Reversal request failed: ${error.message}`);
+      throw error;
+    }
+
+    await MpesaRequestService.record({
+      kind: MpesaRequestKind.REVERSAL,
+      response,
+      reference: payment.mpesaReceiptNumber,
+    });
+
+    if (response.ResponseCode !== '0') {
+      await this.markFailed(reversal, parseInt(response.ResponseCode) || -1, response.ResponseDescription);
+      throw new Error(`Reversal request rejected: ${response.ResponseDescription}`);
+    }
+
+    // Conditional: the sweeper fails reversals that never stored a ConversationID
+    const { count } = await prisma.paymentReversal.updateMany({
+      where: { id: reversal.id, status: ReversalStatus.PENDING },
+      data: {
+        conversationId: response.ConversationID,
+        originatorConversationId: response.OriginatorConversationID,
+      },
+    });
+    if (count === 0) {
+      throw new Error(
+        `Reversal was failed before Daraja answered; check reversal ${response.ConversationID} with Safaricom`
+      );
+    }
+    const requested = await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversal.id } });
+
+    console.log('↩️ Reversal requested:', {
+      reversalId: reversal.id,
+      mpesaReceiptNumber: payment.mpesaReceiptNumber,
+      amount,
+      conversationId: response.ConversationID,
+    });
+
+    return {
+      id: requested.id,
+      status: requested.status,
+      amount,
+      conversationId: requested.conversationId,
+    };
+  }
+
+  /**
+   * Apply a reversal result callback to its pending reversal
+   *
+   * Settled reversals are returned unchanged (duplicate callbacks)
+   */
+  static async handleResult(result: MpesaResult): Promise<PaymentReversal> {
+    const reversal = await this.findByConversation(result);
+
+    if (reversal.status !== ReversalStatus.PENDING) {
+      console.warn('⚠️ Reversal already settled:', { reversalId: reversal.id, status: reversal.status });
+      return reversal;
+    }
+
+    if (result.ResultCode !== 0) {
+      return this.markFailed(reversal, result.ResultCode, result.ResultDesc);
+    }
+
+    let customerId: string | null = null;
+    let settledMeanwhile = false;
+    const reopenedSales: Array<{ id: string; posId: string; branchId: string | null }> = [];
+
+    const completed = await prisma.$transaction(async (tx: any) => {
+      // Lock before reading the allocations this undoes
+      await this.lockCustomerAndPayment(tx, reversal.paymentId);
+
+      // A duplicate callback may have settled it while we waited for the lock
+      const current = await tx.paymentReversal.findUnique({ where: { id: reversal.id } });
+      if (current.status !== ReversalStatus.PENDING) {
+        settledMeanwhile = true;
+        return current;
+      }
+
+      const payment = await tx.payment.findUnique({
+        where: { id: reversal.paymentId },
+        include: {
+          invoices: true,
+          refunds: { where: { status: { in: [RefundStatus.PENDING, RefundStatus.COMPLETED] } } },
+        },
+      });
+      customerId = payment.customerId;
+
+      // Undoing every posting would drop a refund that was paid out as well
+      if (payment.refunds.length > 0) {
+        throw new Error(
+          `Payment has refunds, reversal ${reversal.id} needs reviewing by hand: ${payment.mpesaReceiptNumber}`
+        );
+      }
+
+      // 1: Undo invoice allocations
+      for (const allocation of payment.invoices) {
+        const invoice = await adjustInvoicePayment(tx, allocation.invoiceId, -allocation.amountApplied.toNumber());
+
+        console.log('💰 Invoice reopened:', {
+          invoiceId: invoice.invoiceId,
+          amountRemoved: allocation.amountApplied.toNumber(),
+          newBalance: invoice.balance.toNumber(),
+        });
+      }
+
+      const invoiceIds = payment.invoices.map((allocation: any) => allocation.invoiceId);
+
+      await tx.paymentInvoice.deleteMany({
+        where: { paymentId: payment.id },
+      });
+
+      // 2: POS sales settled by those invoices are unpaid again (stock and its cost go back)
+      if (invoiceIds.length > 0) {
+        const sales = await tx.pOSSale.findMany({
+          where: { invoiceId: { in: invoiceIds }, status: POSStatus.PAID },
+        });
+
+        for (const sale of sales) {
+          await tx.pOSSale.update({
+            where: { id: sale.id },
+            data: { status: POSStatus.PENDING },
+          });
+          await InventoryService.returnSaleStock(tx, sale.id, { notes: `Payment reversed: ${reversal.reason}` });
+          await InvoiceService.reverseCostOfSales(tx, sale.invoiceId, `Payment reversed: ${reversal.reason}`);
+          reopenedSales.push({ id: sale.id, posId: sale.posId, branchId: sale.branchId });
+        }
+      }
+
+      // 3: Restore customer balance (unmatched payments never touched it)
+      if (payment.customerId) {
+        await tx.customer.update({
+          where: { id: payment.customerId },
+          data: { balance: { increment: payment.amount } },
+        });
+      }
+
+      // 4: Reverse every ledger transaction posted for the payment
+      const postings = await tx.accountingLedger.findMany({
+        where: { paymentId: payment.id },
+        distinct: ['transactionRef'],
+        orderBy: { createdAt: 'asc' },
+        select: { transactionRef: true },
+      });
+
+      for (const { transactionRef } of postings) {
+        await AccountingEngine.reverseTransaction({
+          originalTransactionRef: transactionRef,
+          reversalTransactionRef: generateTransactionRef('REV'),
+          reversalDate: new Date(),
+          reason: `M-Pesa reversal of ${payment.mpesaReceiptNumber}: ${reversal.reason}`,
+          tx,
+        });
+      }
+
+      // 5: Mark payment reversed (its remaining credit goes with it)
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: PaymentStatus.REVERSED, unappliedAmount: new Prisma.Decimal(0) },
+      });
+
+      return tx.paymentReversal.update({
+        where: { id: reversal.id },
+        data: {
+          status: ReversalStatus.COMPLETED,
+          resultCode: result.ResultCode,
+          resultDesc: result.ResultDesc,
+          reversalTransactionId: result.TransactionID,
+          completedAt: new Date(),
+        },
+      });
+    });
+
+    if (settledMeanwhile) {
+      console.warn('⚠️ Reversal already settled:', { reversalId: reversal.id, status: completed.status });
+      return completed;
+    }
+
+    console.log('✅ Payment reversed:', {
+      reversalId: reversal.id,
+      paymentId: reversal.paymentId,
+      posSalesReopened: reopenedSales.map((sale) => sale.posId),
+    });
+
+    publishEvent({
+      type: 'payment.reversed',
+      customerId,
+      data: { id: reversal.id, paymentId: reversal.paymentId, amount: reversal.amount.toNumber() },
+    });
+
+    for (const sale of reopenedSales) {
+      publishEvent({
+        type: 'pos.reopened',
+        customerId,
+        branchId: sale.branchId,
+        data: { id: sale.id, posId: sale.posId, paymentId: reversal.paymentId },
+      });
+    }
+
+    return completed;
+  }
+
+  /**
+   * Apply a reversal queue timeout
+   *
+   * The reversal stays PENDING (still blocking refunds of the payment) until
+   * a late result or a transaction status query settles it
+   */
+  static async handleTimeout(result: MpesaResult): Promise<PaymentReversal> {
+    const reversal = await this.findByConversation(result);
+
+    if (reversal.status !== ReversalStatus.PENDING) {
+      return reversal;
+    }
+
+    console.warn('⚠️ Reversal timed out, awaiting a status query:', { reversalId: reversal.id });
+
+    return prisma.paymentReversal.update({
+      where: { id: reversal.id },
+      data: {
+        resultCode: result.ResultCode,
+        resultDesc: `Queue timeout: ${result.ResultDesc}`,
+      },
+    });
+  }
+
+  /**
+   * Settle reversals whose request died before Daraja's acknowledgement was
+   * stored: still PENDING with no conversationId, created before `before`
+   *
+   * An accepted reversal request recorded for the payment since the reversal,
+   * and not claimed by another reversal, is adopted so its result (or a status
+   * query) settles it. Without one the reversal was never sent and is FAILED,
+   * unblocking the payment.
+   *
+   * @returns How many were settled
+   */
+  static async settleUnsent(before: Date): Promise<number> {
+    const unsent = await prisma.paymentReversal.findMany({
+      where: { status: ReversalStatus.PENDING, conversationId: null, createdAt: { lte: before } },
+      include: { payment: { select: { mpesaReceiptNumber: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: 50,
+    });
+
+    for (const reversal of unsent) {
+      const requests = await prisma.mpesaRequest.findMany({
+        where: {
+          kind: MpesaRequestKind.REVERSAL,
+          reference: reversal.payment.mpesaReceiptNumber,
+          responseCode: '0',
+          conversationId: { not: null },
+          createdAt: { gte: reversal.createdAt },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      const claimed = await prisma.paymentReversal.findMany({
+        where: { conversationId: { in: requests.map((request) => request.conversationId!) } },
+        select: { conversationId: true },
+      });
+      const request = requests.find(
+        (candidate) => !claimed.some((other) => other.conversationId === candidate.conversationId)
+      );
+
+      if (!request) {
+        await this.markFailed(reversal, -1, 'No reversal request was stored for this reversal');
+        continue;
+      }
+
+      await prisma.paymentReversal.updateMany({
+        where: { id: reversal.id, status: ReversalStatus.PENDING, conversationId: null },
+        data: {
+          conversationId: request.conversationId,
+          originatorConversationId: request.originatorConversationId,
+        },
+      });
+
+      console.warn('⚠️ Reversal request recovered:', {
+        reversalId: reversal.id,
+        conversationId: request.conversationId,
+      });
+    }
+
+    return unsent.length;
+  }
+
+  /**
+   * List reversals, newest first
+   */
+  static async getReversals(params?: { paymentId?: string; status?: ReversalStatus }) {
+    return prisma.paymentReversal.findMany({
+      where: {
+        ...(params?.paymentId && { paymentId: params.paymentId }),
+        ...(params?.status && { status: params.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        payment: { select: { mpesaReceiptNumber: true, phone: true, customerId: true } },
+      },
+      take: 100,
+    });
+  }
+
+  /**
+   * Whether a result callback for this reversal still has work to do
+   */
+  static awaitingResult(reversal: { status: ReversalStatus }): boolean {
+    return reversal.status === ReversalStatus.PENDING;
+  }
+
+  /**
+   * Find a reversal by either Daraja conversation ID
+   */
+  static async findByConversation(result: { ConversationID: string; OriginatorConversationID: string }) {
+    const reversal = await prisma.paymentReversal.findFirst({
+      where: {
+        OR: [
+          { conversationId: result.ConversationID },
+          { originatorConversationId: result.OriginatorConversationID },
+        ],
+      },
+    });
+
+    if (!reversal) {
+      throw new Error(`Reversal not found for conversation: ${result.ConversationID}`);
+    }
+
+    return reversal;
+  }
+
+  /**
+   * Lock a payment, and its customer first when it has one
+   *
+   * @throws Error if the payment was assigned to a customer while we waited
+   */
+  private static async lockCustomerAndPayment(tx: any, paymentId: string): Promise<void> {
+    const owner = await tx.payment.findUnique({ where: { id: paymentId }, select: { customerId: true } });
+    if (!owner) return;
+
+    if (owner.customerId) {
+      await lockCustomer(tx, owner.customerId);
+    }
+    await lockPayment(tx, paymentId);
+
+    const { customerId } = await tx.payment.findUnique({ where: { id: paymentId }, select: { customerId: true } });
+    if (customerId !== owner.customerId) {
+      throw new Error(`Payment was assigned to a customer meanwhile, try again: ${paymentId}`);
+    }
+  }
+
+  /**
+   * Fail a reversal that is still PENDING (a settled one is returned unchanged)
+   */
+  private static async markFailed(
+    reversal: PaymentReversal,
+    resultCode: number,
+    resultDesc: string
+  ): Promise<PaymentReversal> {
+    const { count } = await prisma.paymentReversal.updateMany({
+      where: { id: reversal.id, status: ReversalStatus.PENDING },
+      data: {
+        status: ReversalStatus.FAILED,
+        resultCode,
+        resultDesc,
+        completedAt: new Date(),
+      },
+    });
+    const failed = await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversal.id } });
+
+    if (count === 0) {
+      console.warn('⚠️ Reversal already settled:', { reversalId: reversal.id, status: failed.status });
+      return failed;
+    }
+
+    console.warn('⚠️ Reversal failed:', { reversalId: reversal.id, resultCode, resultDesc });
+
+    return failed;
+  }
+}
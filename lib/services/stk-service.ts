@@ -0,0 +1,585 @@
+/**
+ * Kelly OS — STK Push Service
+ *
+ * PURPOSE:
+ * Prompt a customer's phone to pay an invoice or POS sale
+ * (Lipa na M-Pesa Online) instead of reading out the PayBill number
+ *
+ * FLOW:
+ * 1. Cashier requests a prompt for an invoice or POS sale
+ *    (whole-shilling balances only: Daraja does not take cents)
+ * 2. STK Push sent, StkRequest recorded (status: PENDING)
+ * 3. Customer enters PIN on their phone
+ * 4. Safaricom calls /api/webhooks/mpesa/stk with the CheckoutRequestID
+ * 5. Successful results are posted through processPayment
+ *
+ * RECONCILIATION:
+ * Cancelled or timed-out prompts often never call back. reconcilePending()
+ * queries Daraja for requests still PENDING after a configurable delay.
+ * Requests whose queries keep failing are given up on (TIMEOUT) after
+ * MAX_QUERY_ATTEMPTS queries or MAX_PENDING_HOURS. A success callback
+ * that arrives afterwards is still posted. Prompts a query reports paid
+ * are flagged for follow-up (needsFollowUp) until their payment posts.
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaClient, parseMpesaTimestamp } from '@/lib/mpesa-client';
+import { InvoiceStatus, POSStatus, Prisma, StkRequestStatus } from '@prisma/client';
+import { processPayment, PaymentResult } from './payment-processor';
+import { InvoiceService } from './invoice-service';
+import { MpesaConfigService } from './mpesa-config-service';
+import { POSService } from './pos-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InitiateStkPushParams {
+  invoiceId?: string; // Invoice ID or internal ID
+  posId?: string; // POS ID or internal ID
+  phone?: string; // Defaults to the customer's phone
+  shortCode?: string; // Defaults to the default MpesaConfig
+}
+
+export interface StkPushResult {
+  id: string;
+  checkoutRequestId: string;
+  amount: number;
+  phone: string;
+  customerMessage: string;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  completed: number;
+  cancelled: number;
+  timedOut: number;
+  failed: number;
+  stillPending: number;
+  followUps: StkFollowUp[]; // Every request paid per a query with no payment posted
+}
+
+export interface StkFollowUp {
+  id: string;
+  checkoutRequestId: string;
+  accountReference: string;
+  amount: number;
+  phone: string;
+  followUpReason: string | null;
+  completedAt: Date | null;
+}
+
+export interface StkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: {
+    Item: Array<{ Name: string; Value?: string | number }>;
+  };
+}
+
+// Daraja result codes that are not plain failures
+const RESULT_CANCELLED_BY_USER = 1032;
+const RESULT_USER_UNREACHABLE = 1037;
+const RESULT_TRANSACTION_EXPIRED = 1019;
+
+// Daraja error code while the prompt is still on the customer's phone
+const STILL_PROCESSING_ERROR = '500.001.1001';
+
+// Seconds a request stays PENDING before the sweeper queries it
+const DEFAULT_RECONCILE_DELAY_SECONDS = 120;
+
+// When the sweeper stops querying a request it cannot get a result for
+const MAX_QUERY_ATTEMPTS = 10;
+const MAX_PENDING_HOURS = 24;
+
+// ============================================================================
+// STK SERVICE
+// ============================================================================
+
+export class StkService {
+  /**
+   * Send an STK Push for an invoice or POS sale
+   */
+  static async initiate(params: InitiateStkPushParams): Promise<StkPushResult> {
+    const target = await this.resolveTarget(params);
+    const phone = params.phone || target.phone;
+
+    if (target.amount <= 0) {
+      throw new Error('Nothing to pay: balance is zero');
+    }
+
+    // Daraja only takes whole shillings, and rounding up would overcharge the customer
+    if (!Number.isInteger(target.amount)) {
+      throw new Error(`STK Push needs a whole-shilling balance: KSh ${target.amount}`);
+    }
+
+    const config = await MpesaConfigService.resolve(params.shortCode);
+    const mpesa = await MpesaConfigService.getClient(config.shortCode);
+    const response = await mpesa.stkPush({
+      amount: target.amount,
+      phoneNumber: phone,
+      accountReference: target.accountReference,
+      transactionDesc: target.description,
+    });
+
+    const stkRequest = await prisma.stkRequest.create({
+      data: {
+        merchantRequestId: response.MerchantRequestID,
+        checkoutRequestId: response.CheckoutRequestID,
+        customerId: target.customerId,
+        invoiceId: target.invoiceId,
+        posSaleId: target.posSaleId,
+        accountReference: target.accountReference,
+        amount: new Prisma.Decimal(target.amount),
+        phone,
+        businessShortCode: config.shortCode,
+        status: StkRequestStatus.PENDING,
+      },
+    });
+
+    console.log('📲 STK request recorded:', {
+      checkoutRequestId: stkRequest.checkoutRequestId,
+      accountReference: target.accountReference,
+      amount: stkRequest.amount.toNumber(),
+    });
+
+    return {
+      id: stkRequest.id,
+      checkoutRequestId: stkRequest.checkoutRequestId,
+      amount: stkRequest.amount.toNumber(),
+      phone,
+      customerMessage: response.CustomerMessage,
+    };
+  }
+
+  /**
+   * Apply an STK callback to its pending request
+   *
+   * Returns the posted payment, or null if the customer did not pay
+   */
+  static async handleCallback(callback: StkCallback): Promise<PaymentResult | null> {
+    const stkRequest = await prisma.stkRequest.findUnique({
+      where: { checkoutRequestId: callback.CheckoutRequestID },
+    });
+
+    if (!stkRequest) {
+      throw new Error(`STK request not found: ${callback.CheckoutRequestID}`);
+    }
+
+    // Customer cancelled, timed out or had insufficient funds
+    if (callback.ResultCode !== 0) {
+      await prisma.stkRequest.update({
+        where: { id: stkRequest.id },
+        data: {
+          status: resolveStkStatus(callback.ResultCode),
+          resultCode: callback.ResultCode,
+          resultDesc: callback.ResultDesc,
+          completedAt: new Date(),
+        },
+      });
+
+      console.warn('⚠️ STK Push not completed:', {
+        checkoutRequestId: callback.CheckoutRequestID,
+        resultCode: callback.ResultCode,
+        resultDesc: callback.ResultDesc,
+      });
+
+      return null;
+    }
+
+    const metadata = parseCallbackMetadata(callback);
+
+    // POS sales are invoiced on payment so the prompt settles a real invoice.
+    // The sale is only marked PAID (and its stock issued) by processPayment,
+    // in the transaction that posts the money
+    let accountReference = stkRequest.accountReference;
+    if (stkRequest.posSaleId && !stkRequest.invoiceId) {
+      accountReference = await this.invoicePOSSale(stkRequest.posSaleId, stkRequest.customerId, accountReference);
+    }
+
+    const payment = await processPayment({
+      mpesaReceiptNumber: metadata.mpesaReceiptNumber,
+      transactionId: metadata.mpesaReceiptNumber,
+      accountReference,
+      amount: metadata.amount,
+      phone: metadata.phone || stkRequest.phone,
+      transactionDate: metadata.transactionDate,
+      businessShortCode: stkRequest.businessShortCode || undefined,
+    });
+
+    await prisma.stkRequest.update({
+      where: { id: stkRequest.id },
+      data: {
+        status: StkRequestStatus.COMPLETED,
+        resultCode: callback.ResultCode,
+        resultDesc: callback.ResultDesc,
+        mpesaReceiptNumber: metadata.mpesaReceiptNumber,
+        paymentId: payment.id,
+        needsFollowUp: false,
+        followUpReason: null,
+        completedAt: new Date(),
+      },
+    });
+
+    // A late callback settles a sale the sweeper flagged for follow-up
+    if (stkRequest.posSaleId) {
+      await prisma.pOSSale.updateMany({
+        where: { id: stkRequest.posSaleId, needsFollowUp: true },
+        data: { needsFollowUp: false, followUpReason: null },
+      });
+    }
+
+    return payment;
+  }
+
+  /**
+   * Whether a callback for this request still has work to do
+   *
+   * Money has moved whenever the callback reports success, so it is posted
+   * unless a payment already was: the sweeper may have marked the request
+   * CANCELLED / TIMEOUT, or COMPLETED without a receipt to post
+   */
+  static awaitingCallback(
+    stkRequest: { status: StkRequestStatus; paymentId: string | null },
+    resultCode: number
+  ): boolean {
+    if (resultCode === 0) {
+      return !stkRequest.paymentId;
+    }
+
+    return stkRequest.status === StkRequestStatus.PENDING;
+  }
+
+  /**
+   * Query Daraja for requests that are still PENDING after the delay
+   *
+   * - Cancelled / timed-out / failed prompts: linked POS sale stays PENDING
+   *   so the cashier can prompt again
+   * - Paid prompts with no callback: marked COMPLETED and flagged for
+   *   follow-up (with their POS sale, if any), since the query does not
+   *   return a receipt number to post the payment with
+   * - Requests a callback settles while they are queried are left as it set them
+   */
+  static async reconcilePending(params?: { delaySeconds?: number }): Promise<ReconcileResult> {
+    const delaySeconds =
+      params?.delaySeconds ??
+      (parseInt(process.env.STK_RECONCILE_DELAY_SECONDS || '') || DEFAULT_RECONCILE_DELAY_SECONDS);
+    const cutoff = new Date(Date.now() - delaySeconds * 1000);
+
+    const pending = await prisma.stkRequest.findMany({
+      where: {
+        status: StkRequestStatus.PENDING,
+        createdAt: { lte: cutoff },
+      },
+      // Never-queried requests first, so failing ones cannot starve newer prompts
+      orderBy: [{ lastQueriedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+      take: 50,
+    });
+
+    const result: ReconcileResult = {
+      checked: pending.length,
+      completed: 0,
+      cancelled: 0,
+      timedOut: 0,
+      failed: 0,
+      stillPending: 0,
+      followUps: [],
+    };
+
+    if (pending.length === 0) {
+      result.followUps = await this.getFollowUps();
+      return result;
+    }
+
+    // Prompts are queried through the shortcode that sent them
+    const clients = new Map<string, MpesaClient>();
+    const givingUpBefore = new Date(Date.now() - MAX_PENDING_HOURS * 60 * 60 * 1000);
+
+    for (const stkRequest of pending) {
+      let response;
+      try {
+        const shortCode = stkRequest.businessShortCode || '';
+        if (!clients.has(shortCode)) {
+          clients.set(shortCode, await MpesaConfigService.getClient(stkRequest.businessShortCode));
+        }
+
+        response = await clients.get(shortCode)!.stkQuery(stkRequest.checkoutRequestId);
+      } catch (error: any) {
+        const attempts = stkRequest.queryAttempts + 1;
+        const givingUp = attempts >= MAX_QUERY_ATTEMPTS || stkRequest.createdAt < givingUpBefore;
+
+        // Conditional: the callback may have settled the request while it was queried
+        await prisma.stkRequest.updateMany({
+          where: { id: stkRequest.id, status: StkRequestStatus.PENDING },
+          data: {
+            queryAttempts: attempts,
+            lastQueriedAt: new Date(),
+            ...(givingUp && {
+              status: StkRequestStatus.TIMEOUT,
+              resultDesc: `No result after ${attempts} status queries: ${error.message}`,
+              completedAt: new Date(),
+            }),
+          },
+        });
+
+        if (error.response?.data?.errorCode !== STILL_PROCESSING_ERROR) {
+          console.error('❌ STK query failed:', stkRequest.checkoutRequestId, error.message);
+        }
+
+        if (givingUp) {
+          console.warn('⚠️ STK request given up after failed queries:', {
+            checkoutRequestId: stkRequest.checkoutRequestId,
+            attempts,
+          });
+          result.timedOut++;
+        } else {
+          result.stillPending++;
+        }
+        continue;
+      }
+
+      const resultCode = parseInt(response.ResultCode);
+      const status = resolveStkStatus(resultCode);
+      const followUpReason = `STK payment confirmed by query but no callback received (${stkRequest.checkoutRequestId})`;
+
+      // The money has moved but nothing is posted until the callback arrives
+      const unposted = status === StkRequestStatus.COMPLETED;
+
+      // Conditional: a callback that settled the request meanwhile has the final word
+      const { count } = await prisma.stkRequest.updateMany({
+        where: { id: stkRequest.id, status: StkRequestStatus.PENDING },
+        data: {
+          status,
+          resultCode,
+          resultDesc: response.ResultDesc,
+          queryAttempts: { increment: 1 },
+          lastQueriedAt: new Date(),
+          completedAt: new Date(),
+          ...(unposted && { needsFollowUp: true, followUpReason }),
+        },
+      });
+
+      if (count === 0) {
+        console.log('🔎 STK request settled by its callback during the query:', stkRequest.checkoutRequestId);
+        continue;
+      }
+
+      if (status === StkRequestStatus.COMPLETED) {
+        result.completed++;
+
+        // Only while no payment is posted for the prompt: a callback between the
+        // update above and here has posted one (and paid the sale)
+        const current = await prisma.stkRequest.findUnique({
+          where: { id: stkRequest.id },
+          select: { paymentId: true },
+        });
+        if (stkRequest.posSaleId && !current?.paymentId) {
+          await prisma.pOSSale.updateMany({
+            where: { id: stkRequest.posSaleId, status: POSStatus.PENDING },
+            data: { needsFollowUp: true, followUpReason },
+          });
+        }
+      } else if (status === StkRequestStatus.CANCELLED) {
+        result.cancelled++;
+      } else if (status === StkRequestStatus.TIMEOUT) {
+        result.timedOut++;
+      } else {
+        result.failed++;
+      }
+
+      console.log('🔎 STK request reconciled:', {
+        checkoutRequestId: stkRequest.checkoutRequestId,
+        status,
+        resultDesc: response.ResultDesc,
+      });
+    }
+
+    result.followUps = await this.getFollowUps();
+
+    return result;
+  }
+
+  /**
+   * Requests a query reported paid that still have no payment posted
+   *
+   * Staff post them by hand (or wait for a late callback), oldest first
+   */
+  static async getFollowUps(): Promise<StkFollowUp[]> {
+    const flagged = await prisma.stkRequest.findMany({
+      where: { needsFollowUp: true },
+      orderBy: { completedAt: 'asc' },
+      take: 100,
+    });
+
+    return flagged.map((stkRequest) => ({
+      id: stkRequest.id,
+      checkoutRequestId: stkRequest.checkoutRequestId,
+      accountReference: stkRequest.accountReference,
+      amount: stkRequest.amount.toNumber(),
+      phone: stkRequest.phone,
+      followUpReason: stkRequest.followUpReason,
+      completedAt: stkRequest.completedAt,
+    }));
+  }
+
+  /**
+   * Resolve amount, customer and account reference for an STK Push
+   */
+  private static async resolveTarget(params: InitiateStkPushParams): Promise<{
+    customerId: string;
+    invoiceId?: string;
+    posSaleId?: string;
+    accountReference: string;
+    amount: number;
+    phone: string;
+    description: string;
+  }> {
+    if (params.invoiceId) {
+      const invoice = await InvoiceService.getInvoice(params.invoiceId);
+
+      if (!invoice) {
+        throw new Error(`Invoice not found: ${params.invoiceId}`);
+      }
+
+      if (invoice.status === InvoiceStatus.PAID || invoice.status === InvoiceStatus.CANCELLED) {
+        throw new Error(`Invoice is ${invoice.status}: ${invoice.invoiceId}`);
+      }
+
+      return {
+        customerId: invoice.customerId,
+        invoiceId: invoice.id,
+        accountReference: invoice.invoiceId,
+        amount: invoice.balance.toNumber(),
+        phone: invoice.customer.phone,
+        description: 'Invoice',
+      };
+    }
+
+    if (params.posId) {
+      const sale = await POSService.getSale(params.posId);
+
+      if (!sale) {
+        throw new Error(`POS sale not found: ${params.posId}`);
+      }
+
+      if (sale.status !== POSStatus.PENDING) {
+        throw new Error(`POS sale is ${sale.status}: ${sale.posId}`);
+      }
+
+      if (!sale.customerId) {
+        throw new Error('Walk-in POS sales need a customer before an STK Push');
+      }
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: sale.customerId },
+      });
+
+      if (!customer) {
+        throw new Error(`Customer not found: ${sale.customerId}`);
+      }
+
+      return {
+        customerId: customer.id,
+        posSaleId: sale.id,
+        accountReference: customer.customerId,
+        amount: sale.amount.toNumber(),
+        phone: customer.phone,
+        description: 'POS Sale',
+      };
+    }
+
+    throw new Error('Either invoiceId or posId is required');
+  }
+
+  /**
+   * Invoice a POS sale being paid by STK Push and return the reference to pay
+   *
+   * A sale cancelled since the prompt has nothing to invoice; its payment goes
+   * to the customer's account instead
+   */
+  private static async invoicePOSSale(
+    posSaleId: string,
+    customerId: string,
+    accountReference: string
+  ): Promise<string> {
+    const sale = await prisma.pOSSale.findUnique({
+      where: { id: posSaleId },
+    });
+
+    if (!sale) {
+      throw new Error(`POS sale not found: ${posSaleId}`);
+    }
+
+    if (!sale.invoiceId && sale.status !== POSStatus.PENDING) {
+      console.warn('⚠️ STK payment for a POS sale that is no longer pending:', {
+        posId: sale.posId,
+        status: sale.status,
+      });
+      return accountReference;
+    }
+
+    const invoiceId = await POSService.invoiceForPayment({ posId: sale.posId, customerId });
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+    });
+
+    return invoice!.invoiceId;
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Map a Daraja STK result code to a request status
+ */
+function resolveStkStatus(resultCode: number): StkRequestStatus {
+  switch (resultCode) {
+    case 0:
+      return StkRequestStatus.COMPLETED;
+    case RESULT_CANCELLED_BY_USER:
+      return StkRequestStatus.CANCELLED;
+    case RESULT_USER_UNREACHABLE:
+    case RESULT_TRANSACTION_EXPIRED:
+      return StkRequestStatus.TIMEOUT;
+    default:
+      return StkRequestStatus.FAILED;
+  }
+}
+
+/**
+ * Extract payment details from CallbackMetadata.Item
+ *
+ * Example item list:
+ * [{ Name: 'Amount', Value: 1 }, { Name: 'MpesaReceiptNumber', Value: 'NLJ7RT61SV' },
+ *  { Name: 'TransactionDate', Value: 20191219102115 }, { Name: 'PhoneNumber', Value: 254708374149 }]
+ */
+function parseCallbackMetadata(callback: StkCallback): {
+  amount: number;
+  mpesaReceiptNumber: string;
+  transactionDate: Date;
+  phone?: string;
+} {
+  const items = callback.CallbackMetadata?.Item || [];
+  const value = (name: string) => items.find((item) => item.Name === name)?.Value;
+
+  const mpesaReceiptNumber = value('MpesaReceiptNumber');
+  const amount = value('Amount');
+
+  if (!mpesaReceiptNumber || amount === undefined) {
+    throw new Error(`Incomplete STK callback metadata: ${callback.CheckoutRequestID}`);
+  }
+
+  const transactionDate = value('TransactionDate');
+
+  return {
+    amount: Number(amount),
+    mpesaReceiptNumber: String(mpesaReceiptNumber),
+    transactionDate: transactionDate ? parseMpesaTimestamp(String(transactionDate)) : new Date(),
+    phone: value('PhoneNumber') ? String(value('PhoneNumber')) : undefined,
+  };
+}
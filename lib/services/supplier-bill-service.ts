@@ -0,0 +1,283 @@
+/**
+ * Kelly OS — Supplier Bill Service
+ *
+ * PURPOSE:
+ * Record what we owe suppliers and when it falls due (accounts payable)
+ *
+ * RULES:
+ * - A bill for a goods received note takes the GRN's total and posts nothing:
+ *   the GRN already posted DR Inventory / CR A/P. One bill per GRN.
+ * - A bill for stock received by hand (stockReceived) posts DR Goods Received
+ *   Not Invoiced / CR A/P: the receipt already put the stock in Inventory
+ * - Any other bill (transport, repairs, rent) posts DR Operating Expenses / CR A/P
+ * - Bills are paid by M-Pesa B2B / B2C (supplier-payment-service.ts);
+ *   amountPaid only moves when Safaricom confirms a payment
+ *
+ * AGING:
+ * Outstanding balances by days past due: current, 1-30, 31-60, 61-90, 90+
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma, SupplierBill, SupplierBillStatus } from '@prisma/client';
+import { AccountingEngine, generateTransactionRef } from './accounting-engine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreateBillParams {
+  supplierId: string; // Supplier id or SUP-XXX
+  goodsReceiptId?: string; // GRN id or number; the bill amount is its total
+  amount?: number; // Required without a goods received note
+  stockReceived?: boolean; // For stock received by hand (no goods received note)
+  supplierInvoiceNumber?: string;
+  description?: string;
+  billDate?: Date; // Defaults to today
+  dueDate: Date;
+}
+
+export interface AgingBuckets {
+  current: number; // Not yet due
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+export interface SupplierAging extends AgingBuckets {
+  supplierId: string;
+  supplierName: string;
+  bills: number;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  suppliers: SupplierAging[];
+  totals: AgingBuckets;
+}
+
+// ============================================================================
+// SUPPLIER BILL SERVICE
+// ============================================================================
+
+export class SupplierBillService {
+  /**
+   * Record a supplier bill
+   *
+   * @throws Error if the supplier or goods received note does not exist,
+   *         the GRN is another supplier's or already billed, or the amount is
+   *         missing (or differs from the GRN total)
+   */
+  static async createBill(params: CreateBillParams): Promise<SupplierBill> {
+    const supplier = await prisma.supplier.findFirst({
+      where: { OR: [{ id: params.supplierId }, { supplierId: params.supplierId }] },
+    });
+
+    if (!supplier) {
+      throw new Error(`Supplier not found: ${params.supplierId}`);
+    }
+
+    let amount = params.amount;
+    let grnNumber: string | undefined;
+    let goodsReceiptId: string | undefined;
+
+    if (params.goodsReceiptId) {
+      const grn = await prisma.goodsReceipt.findFirst({
+        where: {
+          OR: [{ id: params.goodsReceiptId }, { grnNumber: params.goodsReceiptId }],
+        },
+        include: { bill: true },
+      });
+
+      if (!grn) {
+        throw new Error(`Goods received note not found: ${params.goodsReceiptId}`);
+      }
+
+      if (grn.supplierId !== supplier.id) {
+        throw new Error(`${grn.grnNumber} was not received from ${supplier.name}`);
+      }
+
+      if (grn.bill) {
+        throw new Error(`${grn.grnNumber} is already billed: ${grn.bill.billId}`);
+      }
+
+      // The GRN already put its total on A/P; a different figure belongs on the GRN
+      if (amount !== undefined && amount !== grn.total.toNumber()) {
+        throw new Error(`Bill for ${grn.grnNumber} must be its received total: KSh ${grn.total.toNumber()}`);
+      }
+
+      amount = grn.total.toNumber();
+      grnNumber = grn.grnNumber;
+      goodsReceiptId = grn.id;
+    }
+
+    if (amount === undefined || amount <= 0) {
+      throw new Error('Bill amount must be positive');
+    }
+
+    const billId = await this.generateBillId();
+    const description = params.description || grnNumber || `Bill ${billId}`;
+
+    const bill = await prisma.$transaction(async (tx: any) => {
+      // Bills for goods received are already on A/P
+      const transactionRef = goodsReceiptId ? null : generateTransactionRef('BILL');
+
+      const created = await tx.supplierBill.create({
+        data: {
+          billId,
+          supplierId: supplier.id,
+          goodsReceiptId,
+          supplierInvoiceNumber: params.supplierInvoiceNumber,
+          description,
+          amount: new Prisma.Decimal(amount!),
+          amountPaid: new Prisma.Decimal(0),
+          balance: new Prisma.Decimal(amount!),
+          status: SupplierBillStatus.UNPAID,
+          billDate: params.billDate,
+          dueDate: params.dueDate,
+          transactionRef,
+        },
+      });
+
+      if (transactionRef) {
+        await AccountingEngine.postBillRecorded({
+          transactionRef,
+          amount: amount!,
+          transactionDate: created.billDate,
+          description: `${billId} ${supplier.name}: ${description}`,
+          stockReceived: params.stockReceived,
+          tx,
+        });
+      }
+
+      return created;
+    });
+
+    console.log('🧾 Supplier bill recorded:', {
+      billId,
+      supplierId: supplier.supplierId,
+      amount,
+      dueDate: bill.dueDate.toISOString().slice(0, 10),
+      goodsReceipt: grnNumber,
+    });
+
+    return bill;
+  }
+
+  /**
+   * Bills, soonest due first
+   */
+  static async listBills(params: { supplierId?: string; status?: SupplierBillStatus; outstanding?: boolean } = {}) {
+    return prisma.supplierBill.findMany({
+      where: {
+        ...(params.supplierId && { supplierId: params.supplierId }),
+        ...(params.status && { status: params.status }),
+        ...(params.outstanding && { status: { not: SupplierBillStatus.PAID } }),
+      },
+      include: {
+        supplier: true,
+        goodsReceipt: { select: { grnNumber: true } },
+      },
+      orderBy: { dueDate: 'asc' },
+      take: 200,
+    });
+  }
+
+  /**
+   * Get a bill (by id or BILL number) with its payments
+   */
+  static async getBill(id: string) {
+    return prisma.supplierBill.findFirst({
+      where: {
+        OR: [{ id }, { billId: id }],
+      },
+      include: {
+        supplier: true,
+        goodsReceipt: { select: { grnNumber: true, purchaseOrderId: true } },
+        payments: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+  }
+
+  /**
+   * Outstanding balances by supplier and days past due
+   */
+  static async getAging(asOf: Date = new Date()): Promise<AgingReport> {
+    const bills = await prisma.supplierBill.findMany({
+      where: { status: { not: SupplierBillStatus.PAID } },
+      include: { supplier: true },
+    });
+
+    const suppliers = new Map<string, SupplierAging>();
+    const totals = emptyBuckets();
+
+    for (const bill of bills) {
+      let row = suppliers.get(bill.supplierId);
+      if (!row) {
+        row = {
+          supplierId: bill.supplier.supplierId,
+          supplierName: bill.supplier.name,
+          bills: 0,
+          ...emptyBuckets(),
+        };
+        suppliers.set(bill.supplierId, row);
+      }
+
+      const bucket = agingBucket(bill.dueDate, asOf);
+      const balance = bill.balance.toNumber();
+
+      row.bills += 1;
+      row[bucket] += balance;
+      row.total += balance;
+      totals[bucket] += balance;
+      totals.total += balance;
+    }
+
+    return {
+      asOf,
+      suppliers: Array.from(suppliers.values()).sort((a, b) => b.total - a.total),
+      totals,
+    };
+  }
+
+  /**
+   * Generate unique bill ID
+   * Format: BILL-YYYYMMDD-XXXX
+   */
+  static async generateBillId(): Promise<string> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const count = await prisma.supplierBill.count({ where: { createdAt: { gte: today } } });
+    const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `BILL-${dateStr}-${(count + 1).toString().padStart(4, '0')}`;
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Determine bill status from amounts
+ */
+export function resolveBillStatus(amountPaid: number, balance: number): SupplierBillStatus {
+  if (balance <= 0) return SupplierBillStatus.PAID;
+  if (amountPaid > 0) return SupplierBillStatus.PARTIALLY_PAID;
+  return SupplierBillStatus.UNPAID;
+}
+
+function emptyBuckets(): AgingBuckets {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+}
+
+function agingBucket(dueDate: Date, asOf: Date): Exclude<keyof AgingBuckets, 'total'> {
+  const daysPastDue = Math.floor((asOf.getTime() - dueDate.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'over90';
+}
@@ -0,0 +1,408 @@
+/**
+ * Kelly OS — Supplier Payment Service
+ *
+ * PURPOSE:
+ * Pay supplier bills out of M-Pesa: B2B to their PayBill or till, or B2C to their phone
+ *
+ * FLOW:
+ * 1. Staff pay (part of) a bill on a channel the supplier has details for
+ * 2. SupplierPayment recorded under the bill lock (status: PENDING), then
+ *    B2B / B2C requested and its ConversationID stored
+ * 3. Safaricom calls /api/webhooks/mpesa/result/{b2b|b2c} with the ConversationID
+ *    (logged and de-duplicated like every inbound callback)
+ * 4. On success: bill amountPaid / balance updated, DR A/P / CR M-Pesa Cash
+ *
+ * RULES:
+ * - Money only goes to the PayBill, till or phone stored on the supplier
+ * - Pending payments count against the bill balance, so a bill cannot be paid twice
+ * - A queue timeout leaves the payment PENDING; PayoutStatusService settles
+ *   it with a transaction status query
+ * - Daraja sends whole shillings: a final payment with cents is rounded up, and
+ *   the extra cents are expensed (roundingAmount)
+ * - Nothing is posted until Safaricom confirms the money has left
+ */
+
+import prisma from '@/lib/prisma';
+import { MpesaResult, getResultParameter } from '@/lib/mpesa-callbacks';
+import { publishEvent } from '@/lib/event-bus';
+import { lockSupplierBill } from '@/lib/locks';
+import {
+  MpesaRequestKind,
+  Prisma,
+  Supplier,
+  SupplierBillStatus,
+  SupplierPayment,
+  SupplierPaymentChannel,
+  SupplierPaymentStatus,
+} from '@prisma/client';
+import { AccountingEngine, generateTransactionRef } from './accounting-engine';
+import { MpesaConfigService } from './mpesa-config-service';
+import { MpesaRequestService } from './mpesa-request-service';
+import { resolveBillStatus } from './supplier-bill-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PayBillParams {
+  billId: string; // Bill id or BILL number
+  amount: number;
+  channel: SupplierPaymentChannel;
+  requestedBy?: string;
+}
+
+// ============================================================================
+// SUPPLIER PAYMENT SERVICE
+// ============================================================================
+
+export class SupplierPaymentService {
+  /**
+   * Validate a bill payment and send the B2B / B2C request
+   *
+   * The payment is recorded under the bill lock before Daraja is called, so
+   * two requests cannot both pass the balance check
+   */
+  static async payBill(params: PayBillParams): Promise<SupplierPayment> {
+    const { amount, channel, requestedBy } = params;
+
+    if (amount <= 0 || Math.abs(roundCents(amount) - amount) > 1e-9) {
+      throw new Error('Payment amount must be a positive amount in shillings and cents');
+    }
+
+    const found = await prisma.supplierBill.findFirst({
+      where: { OR: [{ id: params.billId }, { billId: params.billId }] },
+      select: { id: true },
+    });
+
+    if (!found) {
+      throw new Error(`Bill not found: ${params.billId}`);
+    }
+
+    const { payment, bill, destination } = await prisma.$transaction(async (tx: any) => {
+      await lockSupplierBill(tx, found.id);
+
+      const bill = await tx.supplierBill.findUnique({
+        where: { id: found.id },
+        include: { supplier: true },
+      });
+
+      if (bill.status === SupplierBillStatus.PAID) {
+        throw new Error(`Bill is already paid: ${bill.billId}`);
+      }
+
+      // Rule: Pending payments are already on their way
+      const pending = await tx.supplierPayment.aggregate({
+        where: { billId: bill.id, status: SupplierPaymentStatus.PENDING },
+        _sum: { amount: true },
+      });
+      const payable = roundCents(bill.balance.toNumber() - (pending._sum.amount?.toNumber() || 0));
+      if (amount > payable) {
+        throw new Error(`Payment exceeds amount payable on ${bill.billId}: KSh ${Math.max(payable, 0)}`);
+      }
+
+      // Rule: Daraja sends whole shillings, so only the payment that clears a bill may have cents
+      if (!Number.isInteger(amount) && amount !== payable) {
+        throw new Error(`Only the final payment on ${bill.billId} can include cents: KSh ${payable}`);
+      }
+
+      const destination = paymentDestination(bill.supplier, channel);
+
+      const payment = await tx.supplierPayment.create({
+        data: {
+          billId: bill.id,
+          supplierId: bill.supplierId,
+          channel,
+          amount: new Prisma.Decimal(amount),
+          roundingAmount: new Prisma.Decimal(roundCents(Math.ceil(amount) - amount)),
+          destination: destination.number,
+          accountReference: destination.accountReference,
+          requestedBy,
+          status: SupplierPaymentStatus.PENDING,
+        },
+      });
+
+      return { payment, bill, destination };
+    });
+
+    const remarks = `${bill.billId} ${bill.supplierInvoiceNumber || ''}`.trim().slice(0, 100);
+
+    // The pending payment holds part of the bill balance, so a failed
+    // request must release it
+    let response;
+    try {
+      const mpesa = await MpesaConfigService.getClient();
+      response =
+        channel === SupplierPaymentChannel.B2C
+          ? await mpesa.b2cPayment({
+              amount: Math.ceil(amount),
+              phoneNumber: destination.number,
+              remarks,
+              occasion: bill.billId,
+            })
+          : await mpesa.b2bPayment({
+              amount: Math.ceil(amount),
+              commandId: channel === SupplierPaymentChannel.B2B_TILL ? 'BusinessBuyGoods' : 'BusinessPayBill',
+              receiverShortCode: destination.number,
+              accountReference: destination.accountReference,
+              remarks,
+            });
+    } catch (error: any) {
+      await this.markFailed(payment, -1, `Supplier payment request failed: ${error.message}`);
+      throw error;
+    }
+
+    await MpesaRequestService.record({
+      kind: channel === SupplierPaymentChannel.B2C ? MpesaRequestKind.B2C : MpesaRequestKind.B2B,
+      response,
+      reference: bill.billId,
+    });
+
+    if (response.ResponseCode !== '0') {
+      await this.markFailed(payment, parseInt(response.ResponseCode) || -1, response.ResponseDescription);
+      throw new Error(`Supplier payment rejected: ${response.ResponseDescription}`);
+    }
+
+    const requested = await prisma.supplierPayment.update({
+      where: { id: payment.id },
+      data: {
+        conversationId: response.ConversationID,
+        originatorConversationId: response.OriginatorConversationID,
+      },
+    });
+
+    console.log('💸 Supplier payment requested:', {
+      paymentId: payment.id,
+      billId: bill.billId,
+      channel,
+      destination: destination.number,
+      amount,
+      conversationId: response.ConversationID,
+    });
+
+    return requested;
+  }
+
+  /**
+   * Apply a B2B / B2C result callback to its pending supplier payment
+   *
+   * Settled payments are returned unchanged (duplicate callbacks)
+   */
+  static async handleResult(result: MpesaResult): Promise<SupplierPayment> {
+    const payment = await this.findByConversation(result);
+
+    if (!payment) {
+      throw new Error(`Supplier payment not found for conversation: ${result.ConversationID}`);
+    }
+
+    if (payment.status !== SupplierPaymentStatus.PENDING) {
+      console.warn('⚠️ Supplier payment already settled:', { paymentId: payment.id, status: payment.status });
+      return payment;
+    }
+
+    if (result.ResultCode !== 0) {
+      return this.markFailed(payment, result.ResultCode, result.ResultDesc);
+    }
+
+    const receipt = getResultParameter(result, 'TransactionReceipt') || result.TransactionID;
+    const amount = payment.amount.toNumber();
+
+    let settledMeanwhile = false;
+    let billStatus: SupplierBillStatus = SupplierBillStatus.UNPAID;
+
+    const completed = await prisma.$transaction(async (tx: any) => {
+      await lockSupplierBill(tx, payment.billId);
+
+      // A duplicate callback may have settled it while we waited for the lock
+      const current = await tx.supplierPayment.findUnique({ where: { id: payment.id } });
+      if (current.status !== SupplierPaymentStatus.PENDING) {
+        settledMeanwhile = true;
+        return current;
+      }
+
+      // 1: Bill
+      const bill = await tx.supplierBill.findUnique({
+        where: { id: payment.billId },
+        include: { supplier: true },
+      });
+      const amountPaid = bill.amountPaid.toNumber() + amount;
+      const balance = bill.amount.toNumber() - amountPaid;
+      billStatus = resolveBillStatus(amountPaid, balance);
+
+      await tx.supplierBill.update({
+        where: { id: bill.id },
+        data: {
+          amountPaid: new Prisma.Decimal(amountPaid),
+          balance: new Prisma.Decimal(balance),
+          status: billStatus,
+        },
+      });
+
+      // 2: Ledger
+      await AccountingEngine.postSupplierPayment({
+        transactionRef: generateTransactionRef('SPAY'),
+        amount,
+        rounding: payment.roundingAmount.toNumber(),
+        transactionDate: new Date(),
+        description: `${bill.billId} ${bill.supplier.name} (${receipt || payment.conversationId})`,
+        tx,
+      });
+
+      // 3: Mark payment as completed
+      return tx.supplierPayment.update({
+        where: { id: payment.id },
+        data: {
+          status: SupplierPaymentStatus.COMPLETED,
+          resultCode: result.ResultCode,
+          resultDesc: result.ResultDesc,
+          mpesaReceiptNumber: receipt ? String(receipt) : null,
+          completedAt: new Date(),
+        },
+      });
+    });
+
+    if (settledMeanwhile) {
+      console.warn('⚠️ Supplier payment already settled:', { paymentId: payment.id, status: completed.status });
+      return completed;
+    }
+
+    console.log('✅ Supplier payment completed:', {
+      paymentId: payment.id,
+      amount,
+      billStatus,
+      mpesaReceiptNumber: receipt,
+    });
+
+    publishEvent({
+      type: 'bill.paid',
+      data: { id: payment.id, billId: payment.billId, supplierId: payment.supplierId, amount, billStatus },
+    });
+
+    return completed;
+  }
+
+  /**
+   * Apply a B2B / B2C queue timeout
+   *
+   * A timeout only means no result has arrived yet: the money may still
+   * have left, so the payment stays PENDING (and keeps holding the bill
+   * balance) until a late result or a transaction status query settles it
+   */
+  static async handleTimeout(result: MpesaResult): Promise<SupplierPayment> {
+    const payment = await this.findByConversation(result);
+
+    if (!payment) {
+      throw new Error(`Supplier payment not found for conversation: ${result.ConversationID}`);
+    }
+
+    if (payment.status !== SupplierPaymentStatus.PENDING) {
+      return payment;
+    }
+
+    console.warn('⚠️ Supplier payment timed out, awaiting a status query:', { paymentId: payment.id });
+
+    return prisma.supplierPayment.update({
+      where: { id: payment.id },
+      data: {
+        resultCode: result.ResultCode,
+        resultDesc: `Queue timeout: ${result.ResultDesc}`,
+      },
+    });
+  }
+
+  /**
+   * List supplier payments, newest first
+   */
+  static async getPayments(params?: { billId?: string; supplierId?: string }) {
+    return prisma.supplierPayment.findMany({
+      where: {
+        ...(params?.billId && { billId: params.billId }),
+        ...(params?.supplierId && { supplierId: params.supplierId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        bill: { select: { billId: true } },
+        supplier: { select: { name: true, supplierId: true } },
+      },
+      take: 100,
+    });
+  }
+
+  /**
+   * Find a supplier payment by either Daraja conversation ID
+   *
+   * Returns null for other payouts (B2C results may be refunds)
+   */
+  static async findByConversation(result: { ConversationID: string; OriginatorConversationID: string }) {
+    return prisma.supplierPayment.findFirst({
+      where: {
+        OR: [
+          { conversationId: result.ConversationID },
+          { originatorConversationId: result.OriginatorConversationID },
+        ],
+      },
+    });
+  }
+
+  private static async markFailed(
+    payment: SupplierPayment,
+    resultCode: number,
+    resultDesc: string
+  ): Promise<SupplierPayment> {
+    const failed = await prisma.supplierPayment.update({
+      where: { id: payment.id },
+      data: {
+        status: SupplierPaymentStatus.FAILED,
+        resultCode,
+        resultDesc,
+        completedAt: new Date(),
+      },
+    });
+
+    console.warn('⚠️ Supplier payment failed:', { paymentId: payment.id, resultCode, resultDesc });
+
+    publishEvent({
+      type: 'bill.payment_failed',
+      data: { id: payment.id, billId: payment.billId, supplierId: payment.supplierId, resultDesc },
+    });
+
+    return failed;
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Where a channel pays this supplier
+ *
+ * @throws Error if the supplier has no details for the channel
+ */
+function paymentDestination(
+  supplier: Supplier,
+  channel: SupplierPaymentChannel
+): { number: string; accountReference?: string } {
+  switch (channel) {
+    case SupplierPaymentChannel.B2B_PAYBILL:
+      if (!supplier.paybillNumber || !supplier.paybillAccount) {
+        throw new Error(`No PayBill number and account for ${supplier.name}`);
+      }
+      return { number: supplier.paybillNumber, accountReference: supplier.paybillAccount };
+
+    case SupplierPaymentChannel.B2B_TILL:
+      if (!supplier.tillNumber) {
+        throw new Error(`No till number for ${supplier.name}`);
+      }
+      return { number: supplier.tillNumber };
+
+    case SupplierPaymentChannel.B2C:
+      if (!supplier.phone) {
+        throw new Error(`No phone number for ${supplier.name}`);
+      }
+      return { number: supplier.phone };
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,147 @@
+/**
+ * Kelly OS — Supplier Service
+ *
+ * PURPOSE:
+ * Maintain the suppliers stock is ordered from
+ *
+ * RULES:
+ * - Suppliers are deactivated, never deleted (orders and receipts keep pointing at them)
+ * - Lookups accept the database id or SUP-XXX id
+ * - Only active suppliers can be sent new purchase orders
+ * - Supplier payments only go to the PayBill, till or phone stored here
+ */
+
+import prisma from '@/lib/prisma';
+import { Supplier } from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SupplierParams {
+  name: string;
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  kraPin?: string | null;
+  paybillNumber?: string | null; // Bills are paid by B2B to the PayBill...
+  paybillAccount?: string | null;
+  tillNumber?: string | null; // ...or till, or by B2C to the phone
+}
+
+// ============================================================================
+// SUPPLIER SERVICE
+// ============================================================================
+
+export class SupplierService {
+  /**
+   * Search suppliers by name or SUP-XXX id (active only unless asked)
+   */
+  static async listSuppliers(params: { search?: string; includeInactive?: boolean } = {}): Promise<Supplier[]> {
+    const term = params.search?.trim();
+
+    return prisma.supplier.findMany({
+      where: {
+        ...(!params.includeInactive && { isActive: true }),
+        ...(term && {
+          OR: [
+            { name: { contains: term, mode: 'insensitive' } },
+            { supplierId: { equals: term, mode: 'insensitive' } },
+          ],
+        }),
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Find a supplier by database id or SUP-XXX id
+   */
+  static async getSupplier(id: string): Promise<Supplier | null> {
+    return prisma.supplier.findFirst({
+      where: {
+        OR: [{ id }, { supplierId: id }],
+      },
+    });
+  }
+
+  /**
+   * Add a supplier
+   */
+  static async createSupplier(params: SupplierParams): Promise<Supplier> {
+    const supplierId = await this.generateSupplierId();
+
+    const supplier = await prisma.supplier.create({
+      data: {
+        supplierId,
+        name: params.name,
+        contactName: params.contactName || null,
+        phone: params.phone || null,
+        email: params.email || null,
+        kraPin: params.kraPin || null,
+        paybillNumber: params.paybillNumber || null,
+        paybillAccount: params.paybillAccount || null,
+        tillNumber: params.tillNumber || null,
+      },
+    });
+
+    console.log('🏭 Supplier created:', {
+      supplierId: supplier.supplierId,
+      name: supplier.name,
+    });
+
+    return supplier;
+  }
+
+  /**
+   * Update a supplier's details
+   *
+   * @returns null if the supplier does not exist
+   */
+  static async updateSupplier(id: string, params: Partial<SupplierParams>): Promise<Supplier | null> {
+    const existing = await this.getSupplier(id);
+    if (!existing) return null;
+
+    return prisma.supplier.update({
+      where: { id: existing.id },
+      data: {
+        name: params.name,
+        contactName: params.contactName,
+        phone: params.phone,
+        email: params.email,
+        kraPin: params.kraPin,
+        paybillNumber: params.paybillNumber,
+        paybillAccount: params.paybillAccount,
+        tillNumber: params.tillNumber,
+      },
+    });
+  }
+
+  /**
+   * Stop ordering from a supplier (past orders keep their link to it)
+   *
+   * @returns null if the supplier does not exist
+   */
+  static async deactivateSupplier(id: string): Promise<Supplier | null> {
+    const existing = await this.getSupplier(id);
+    if (!existing) return null;
+
+    const supplier = await prisma.supplier.update({
+      where: { id: existing.id },
+      data: { isActive: false },
+    });
+
+    console.log('🏭 Supplier deactivated:', supplier.supplierId);
+
+    return supplier;
+  }
+
+  /**
+   * Generate the next supplier ID
+   * Format: SUP-XXX
+   */
+  static async generateSupplierId(): Promise<string> {
+    const count = await prisma.supplier.count();
+    return `SUP-${(count + 1).toString().padStart(3, '0')}`;
+  }
+}
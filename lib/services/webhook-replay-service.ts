@@ -0,0 +1,211 @@
+/**
+ * Kelly OS — Failed Webhook Replay Service
+ *
+ * PURPOSE:
+ * Recover payments whose webhook was logged but failed processing
+ *
+ * FLOW:
+ * 1. Operator lists failed webhook logs (processed=false with an error)
+ * 2. Operator optionally corrects the BillRefNumber
+ * 3. The stored payload is replayed through processPayment
+ *    (or StkService.handleCallback for STK callbacks, and the
+ *    M-Pesa result router for B2C / B2B / reversal / query results)
+ *    A payment already recorded for the TransID is not posted again: with a
+ *    corrected BillRefNumber an UNMATCHED one is assigned to it, and one
+ *    posted to another customer fails the replay (reallocate it instead)
+ * 4. Every attempt is recorded in webhook_replays, success or not
+ *
+ * The original rawPayload is never modified.
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  MpesaResultSchema,
+  isMpesaResultPayload,
+  isStkCallbackPayload,
+  MpesaCallback,
+  parseC2BCallback,
+  StkCallbackSchema,
+  toPaymentParams,
+} from '@/lib/mpesa-callbacks';
+import { PaymentStatus } from '@prisma/client';
+import { findPaymentTarget } from './account-matcher';
+import { assignUnmatchedPayment, processPayment, PaymentResult } from './payment-processor';
+import { routeMpesaResult } from './mpesa-result-router';
+import { StkService } from './stk-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReplayWebhookParams {
+  webhookLogId: string;
+  billRefNumber?: string; // Corrected account number (C2B only)
+  replayedBy?: string;
+}
+
+export interface ReplayResult {
+  replayId: string;
+  succeeded: boolean;
+  paymentId: string | null;
+  error: string | null;
+}
+
+// ============================================================================
+// WEBHOOK REPLAY SERVICE
+// ============================================================================
+
+export class WebhookReplayService {
+  /**
+   * Get webhook logs that failed processing (excluding duplicates)
+   */
+  static async getFailedWebhooks() {
+    return prisma.webhookLog.findMany({
+      where: {
+        processed: false,
+        isDuplicate: false,
+        processingError: { not: null },
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        replays: {
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+      take: 100,
+    });
+  }
+
+  /**
+   * Replay a failed webhook payload, optionally with a corrected BillRefNumber
+   */
+  static async replay(params: ReplayWebhookParams): Promise<ReplayResult> {
+    const { webhookLogId, billRefNumber, replayedBy } = params;
+
+    const webhookLog = await prisma.webhookLog.findUnique({
+      where: { id: webhookLogId },
+    });
+
+    if (!webhookLog) {
+      throw new Error(`Webhook log not found: ${webhookLogId}`);
+    }
+
+    if (webhookLog.processed) {
+      throw new Error('Webhook already processed');
+    }
+
+    if (webhookLog.isDuplicate) {
+      throw new Error('Duplicate webhooks cannot be replayed');
+    }
+
+    let replayPayload: string = webhookLog.rawPayload;
+    let originalBillRefNumber: string | null = null;
+    let payment: PaymentResult | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const payload = JSON.parse(webhookLog.rawPayload);
+
+      if (billRefNumber && (isStkCallbackPayload(payload) || isMpesaResultPayload(payload))) {
+        throw new Error('Only C2B payments have a BillRefNumber to edit');
+      }
+
+      if (isStkCallbackPayload(payload)) {
+        const callback = StkCallbackSchema.parse(payload).Body.stkCallback;
+        payment = await StkService.handleCallback(callback);
+      } else if (isMpesaResultPayload(payload)) {
+        await routeMpesaResult(MpesaResultSchema.parse(payload).Result, webhookLog.rawPayload);
+      } else {
+        const callback = parseC2BCallback(payload);
+        originalBillRefNumber = callback.BillRefNumber;
+
+        const edited = billRefNumber ? { ...callback, BillRefNumber: billRefNumber.trim() } : callback;
+        replayPayload = JSON.stringify(edited);
+
+        payment = billRefNumber
+          ? await this.replayEditedPayment(edited)
+          : await processPayment(toPaymentParams(edited));
+      }
+    } catch (error: any) {
+      errorMessage = error.message || 'Unknown error';
+    }
+
+    const replay = await prisma.webhookReplay.create({
+      data: {
+        webhookLogId,
+        originalBillRefNumber,
+        billRefNumber: billRefNumber?.trim() || null,
+        payload: replayPayload,
+        succeeded: !errorMessage,
+        error: errorMessage,
+        paymentId: payment?.id,
+        replayedBy,
+      },
+    });
+
+    if (errorMessage) {
+      await prisma.webhookLog.update({
+        where: { id: webhookLogId },
+        data: { processingError: `Replay failed: ${errorMessage}` },
+      });
+
+      console.error('❌ Webhook replay failed:', { webhookLogId, error: errorMessage });
+    } else {
+      // A payment can only be linked to one webhook log
+      const linkedLog = payment
+        ? await prisma.webhookLog.findUnique({ where: { paymentId: payment.id } })
+        : null;
+
+      await prisma.webhookLog.update({
+        where: { id: webhookLogId },
+        data: {
+          processed: true,
+          ...(payment && !linkedLog && { paymentId: payment.id }),
+        },
+      });
+
+      console.log('🔁 Webhook replayed:', { webhookLogId, paymentId: payment?.id });
+    }
+
+    return {
+      replayId: replay.id,
+      succeeded: !errorMessage,
+      paymentId: payment?.id || null,
+      error: errorMessage,
+    };
+  }
+
+  /**
+   * Post a C2B payment with a corrected BillRefNumber
+   *
+   * processPayment returns a payment already recorded for the TransID as it
+   * is, so the correction would be lost: an UNMATCHED one is assigned to the
+   * corrected account instead, and a posted one to another account is refused
+   */
+  private static async replayEditedPayment(callback: MpesaCallback): Promise<PaymentResult> {
+    const existing = await prisma.payment.findUnique({ where: { mpesaReceiptNumber: callback.TransID } });
+
+    if (!existing) {
+      return processPayment(toPaymentParams(callback));
+    }
+
+    const target = await findPaymentTarget(callback.BillRefNumber);
+    if (!target) {
+      throw new Error(`Unknown account reference: ${callback.BillRefNumber}`);
+    }
+
+    if (existing.status === PaymentStatus.UNMATCHED) {
+      return assignUnmatchedPayment({
+        paymentId: existing.id,
+        ...(target.invoice ? { invoiceId: target.invoice.id } : { customerId: target.customer.id }),
+      });
+    }
+
+    if (existing.customerId !== target.customer.id) {
+      const posted = `${existing.status} for ${existing.accountReference}`;
+      throw new Error(`Payment ${callback.TransID} is already ${posted}; reallocate it instead`);
+    }
+
+    return processPayment(toPaymentParams(callback));
+  }
+}
@@ -0,0 +1,582 @@
+/**
+ * Kelly OS — Local Daraja Emulator
+ *
+ * A fake Safaricom Daraja server for offline development and tests.
+ * Point MpesaClient at it with MPESA_BASE_URL and it answers like the
+ * sandbox, then calls our webhook routes back with realistic payloads.
+ *
+ * Covers:
+ * - OAuth                  GET  /oauth/v1/generate
+ * - C2B register URLs      POST /mpesa/c2b/v1/registerurl
+ * - C2B simulate           POST /mpesa/c2b/v1/simulate         → validation + confirmation
+ * - STK Push / query       POST /mpesa/stkpush/v1/processrequest, /mpesa/stkpushquery/v1/query
+ * - B2C                    POST /mpesa/b2c/v1/paymentrequest   → ResultURL
+ * - B2B                    POST /mpesa/b2b/v1/paymentrequest   → ResultURL
+ * - Reversal               POST /mpesa/reversal/v1/request     → ResultURL
+ * - Transaction status     POST /mpesa/transactionstatus/v1/query → ResultURL
+ * - Account balance        POST /mpesa/accountbalance/v1/query → ResultURL
+ *
+ * STK SCENARIOS (by the last 4 digits of the phone number):
+ * - ...1032  customer cancels (ResultCode 1032)
+ * - ...1037  phone unreachable: no callback, query reports 1037
+ * - ...0001  insufficient funds (ResultCode 1)
+ * - anything else: customer pays
+ *
+ * Usage:
+ *   npx ts-node scripts/daraja-emulator.ts
+ *
+ *   # .env
+ *   MPESA_BASE_URL="http://localhost:8089"
+ *   MPESA_CALLBACK_URL="http://localhost:3000/api/webhooks/mpesa"
+ *   MPESA_SECURITY_CREDENTIAL="emulator" # Any value; not checked
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import axios from 'axios';
+import { formatMpesaTimestamp } from '../lib/mpesa-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DarajaEmulatorOptions {
+  port?: number; // 0 = any free port
+  callbackDelayMs?: number; // Delay before callbacks are sent
+  openingBalance?: number; // Utility account balance per shortcode (KES)
+  quiet?: boolean;
+}
+
+export interface DarajaEmulator {
+  url: string;
+  server: Server;
+  // Resolves once every callback sent so far has been delivered
+  waitForCallbacks(): Promise<void>;
+  // Receipts issued for C2B / STK payments, newest last
+  receipts(): string[];
+  close(): Promise<void>;
+}
+
+interface C2BRegistration {
+  confirmationURL: string;
+  validationURL?: string;
+}
+
+interface StkState {
+  merchantRequestId: string;
+  resultCode: number | null; // null until the customer "responds"
+  resultDesc: string;
+}
+
+interface Handler {
+  (body: any, state: EmulatorState): { status?: number; body: unknown };
+}
+
+interface EmulatorState {
+  options: Required<DarajaEmulatorOptions>;
+  tokens: Set<string>;
+  registrations: Map<string, C2BRegistration>;
+  stkRequests: Map<string, StkState>;
+  payments: Map<string, { amount: number; phone: string; shortCode: string }>;
+  balances: Map<string, number>;
+  pending: Set<Promise<void>>;
+  log: (...args: unknown[]) => void;
+}
+
+const DEFAULT_OPTIONS: Required<DarajaEmulatorOptions> = {
+  port: 8089,
+  callbackDelayMs: 500,
+  openingBalance: 100000,
+  quiet: false,
+};
+
+// Daraja error while the prompt is still on the customer's phone
+const STILL_PROCESSING = { errorCode: '500.001.1001', errorMessage: 'The transaction is being processed' };
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Start the emulator
+ */
+export function startDarajaEmulator(options?: DarajaEmulatorOptions): Promise<DarajaEmulator> {
+  const state: EmulatorState = {
+    options: { ...DEFAULT_OPTIONS, ...options },
+    tokens: new Set(),
+    registrations: new Map(),
+    stkRequests: new Map(),
+    payments: new Map(),
+    balances: new Map(),
+    pending: new Set(),
+    log: options?.quiet ? () => undefined : (...args) => console.log('🧪 [daraja]', ...args),
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res, state).catch((error) => {
+      state.log('❌ Handler error:', error.message);
+      send(res, 500, { errorCode: '500.003.1001', errorMessage: 'Internal Server Error' });
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(state.options.port, () => {
+      const { port } = server.address() as AddressInfo;
+      const url = `http://localhost:${port}`;
+      state.log(`Daraja emulator listening on ${url}`);
+
+      resolve({
+        url,
+        server,
+        waitForCallbacks: async () => {
+          while (state.pending.size > 0) {
+            await Promise.all(Array.from(state.pending));
+          }
+        },
+        receipts: () => Array.from(state.payments.keys()),
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, state: EmulatorState) {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  // OAuth: any consumer key / secret pair is accepted
+  if (req.method === 'GET' && url.pathname === '/oauth/v1/generate') {
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return send(res, 400, { errorCode: '400.008.01', errorMessage: 'Invalid Authentication passed' });
+    }
+
+    const token = randomBytes(16).toString('hex');
+    state.tokens.add(token);
+    return send(res, 200, { access_token: token, expires_in: '3599' });
+  }
+
+  const handler = req.method === 'POST' ? ROUTES[url.pathname] : undefined;
+  if (!handler) {
+    return send(res, 404, { errorCode: '404.001.01', errorMessage: 'Resource not found' });
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+  if (!token || !state.tokens.has(token)) {
+    return send(res, 401, { errorCode: '404.001.03', errorMessage: 'Invalid Access Token' });
+  }
+
+  const body = await readJson(req);
+  state.log(`${url.pathname}`, body);
+
+  const result = handler(body, state);
+  send(res, result.status || 200, result.body);
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const ROUTES: Record<string, Handler> = {
+  '/mpesa/c2b/v1/registerurl': (body, state) => {
+    state.registrations.set(String(body.ShortCode), {
+      confirmationURL: body.ConfirmationURL,
+      validationURL: body.ValidationURL,
+    });
+
+    return {
+      body: {
+        OriginatorCoversationID: conversationId(),
+        ResponseCode: '0',
+        ResponseDescription: 'Success',
+      },
+    };
+  },
+
+  '/mpesa/c2b/v1/simulate': (body, state) => {
+    const shortCode = String(body.ShortCode);
+    const registration = state.registrations.get(shortCode);
+
+    if (!registration) {
+      return {
+        status: 400,
+        body: { errorCode: '400.002.02', errorMessage: `No URLs registered for ShortCode ${shortCode}` },
+      };
+    }
+
+    const receipt = receiptNumber();
+    const payload = {
+      TransactionType: body.CommandID === 'CustomerBuyGoodsOnline' ? 'Buy Goods' : 'Pay Bill',
+      TransID: receipt,
+      TransTime: formatMpesaTimestamp(new Date()),
+      TransAmount: Number(body.Amount).toFixed(2),
+      BusinessShortCode: shortCode,
+      BillRefNumber: body.BillRefNumber || '',
+      InvoiceNumber: '',
+      OrgAccountBalance: '',
+      ThirdPartyTransID: '',
+      MSISDN: String(body.Msisdn),
+      FirstName: 'John',
+      MiddleName: '',
+      LastName: 'Doe',
+    };
+
+    dispatch(state, async () => {
+      // External validation first, like Safaricom; a rejection stops the payment
+      if (registration.validationURL) {
+        const validation = await postCallback(state, registration.validationURL, payload);
+        if (validation && String(validation.ResultCode) !== '0') {
+          state.log(`C2B ${receipt} rejected by validation:`, validation.ResultCode);
+          return;
+        }
+      }
+
+      recordPayment(state, receipt, Number(body.Amount), payload.MSISDN, shortCode);
+      await postCallback(state, registration.confirmationURL, payload);
+    });
+
+    return {
+      body: {
+        OriginatorCoversationID: conversationId(),
+        ResponseCode: '0',
+        ResponseDescription: 'Accept the service request successfully.',
+      },
+    };
+  },
+
+  '/mpesa/stkpush/v1/processrequest': (body, state) => {
+    const merchantRequestId = `${randomDigits(5)}-${randomDigits(8)}-1`;
+    const checkoutRequestId = `ws_CO_${formatMpesaTimestamp(new Date())}${randomDigits(10)}`;
+    const phone = String(body.PhoneNumber);
+    const amount = Number(body.Amount);
+
+    const stkState: StkState = { merchantRequestId, resultCode: null, resultDesc: '' };
+    state.stkRequests.set(checkoutRequestId, stkState);
+
+    dispatch(state, async () => {
+      const scenario = stkScenario(phone);
+      stkState.resultCode = scenario.resultCode;
+      stkState.resultDesc = scenario.resultDesc;
+
+      // Unreachable phones never call back; only a query finds out
+      if (scenario.resultCode === 1037) return;
+
+      const stkCallback: Record<string, unknown> = {
+        MerchantRequestID: merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ResultCode: scenario.resultCode,
+        ResultDesc: scenario.resultDesc,
+      };
+
+      if (scenario.resultCode === 0) {
+        const receipt = receiptNumber();
+        recordPayment(state, receipt, amount, phone, String(body.PartyB));
+        stkCallback.CallbackMetadata = {
+          Item: [
+            { Name: 'Amount', Value: amount },
+            { Name: 'MpesaReceiptNumber', Value: receipt },
+            { Name: 'TransactionDate', Value: Number(formatMpesaTimestamp(new Date())) },
+            { Name: 'PhoneNumber', Value: Number(phone) },
+          ],
+        };
+      }
+
+      await postCallback(state, body.CallBackURL, { Body: { stkCallback } });
+    });
+
+    return {
+      body: {
+        MerchantRequestID: merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ResponseCode: '0',
+        ResponseDescription: 'Success. Request accepted for processing',
+        CustomerMessage: 'Success. Request accepted for processing',
+      },
+    };
+  },
+
+  '/mpesa/stkpushquery/v1/query': (body, state) => {
+    const stkState = state.stkRequests.get(body.CheckoutRequestID);
+
+    if (!stkState) {
+      return { status: 400, body: { errorCode: '400.002.02', errorMessage: 'Invalid CheckoutRequestID' } };
+    }
+
+    if (stkState.resultCode === null) {
+      return { status: 500, body: STILL_PROCESSING };
+    }
+
+    return {
+      body: {
+        ResponseCode: '0',
+        ResponseDescription: 'The service request has been accepted successsfully',
+        MerchantRequestID: stkState.merchantRequestId,
+        CheckoutRequestID: body.CheckoutRequestID,
+        ResultCode: String(stkState.resultCode),
+        ResultDesc: stkState.resultDesc,
+      },
+    };
+  },
+
+  '/mpesa/b2c/v1/paymentrequest': (body, state) => {
+    const shortCode = String(body.PartyA);
+    const amount = Number(body.Amount);
+
+    return acceptAsync(state, body.ResultURL, (ids) => {
+      const balance = utilityBalance(state, shortCode);
+
+      if (amount > balance) {
+        return result(ids, 1, 'The balance is insufficient for the transaction.');
+      }
+
+      state.balances.set(shortCode, balance - amount);
+      const receipt = receiptNumber();
+
+      return result(ids, 0, 'The service request is processed successfully.', receipt, {
+        TransactionAmount: amount,
+        TransactionReceipt: receipt,
+        B2CRecipientIsRegisteredCustomer: 'Y',
+        B2CChargesPaidAccountAvailableFunds: 0,
+        ReceiverPartyPublicName: `${body.PartyB} - John Doe`,
+        TransactionCompletedDateTime: darajaDateTime(new Date()),
+        B2CUtilityAccountAvailableFunds: balance - amount,
+        B2CWorkingAccountAvailableFunds: 0,
+      });
+    });
+  },
+
+  '/mpesa/b2b/v1/paymentrequest': (body, state) => {
+    const shortCode = String(body.PartyA);
+    const amount = Number(body.Amount);
+
+    return acceptAsync(state, body.ResultURL, (ids) => {
+      const balance = utilityBalance(state, shortCode);
+
+      if (amount > balance) {
+        return result(ids, 1, 'The balance is insufficient for the transaction.');
+      }
+
+      state.balances.set(shortCode, balance - amount);
+
+      return result(ids, 0, 'The service request is processed successfully.', receiptNumber(), {
+        DebitAccountBalance: `Utility Account|KES|${(balance - amount).toFixed(2)}`,
+        Amount: amount,
+        DebitPartyAffectedAccountBalance: `Working Account|KES|0.00|0.00|0.00|0.00`,
+        TransCompletedTime: formatMpesaTimestamp(new Date()),
+        DebitPartyCharges: '',
+        ReceiverPartyPublicName: `${body.PartyB} - Supplier`,
+        Currency: 'KES',
+        InitiatorAccountCurrentBalance: `{Amount={BasicAmount=${(balance - amount).toFixed(2)}}}`,
+      });
+    });
+  },
+
+  '/mpesa/reversal/v1/request': (body, state) => {
+    const original = state.payments.get(String(body.TransactionID));
+
+    return acceptAsync(state, body.ResultURL, (ids) => {
+      if (!original) {
+        return result(ids, 2001, 'The initiator information is invalid.');
+      }
+
+      state.payments.delete(String(body.TransactionID));
+      state.balances.set(original.shortCode, utilityBalance(state, original.shortCode) - original.amount);
+      const reversalId = receiptNumber();
+
+      return result(ids, 0, 'The service request is processed successfully.', reversalId, {
+        DebitAccountBalance: `Utility Account|KES|${utilityBalance(state, original.shortCode).toFixed(2)}`,
+        Amount: original.amount,
+        TransCompletedTime: formatMpesaTimestamp(new Date()),
+        OriginalTransactionID: body.TransactionID,
+        Charge: 0,
+        CreditPartyPublicName: `${original.phone} - John Doe`,
+        DebitPartyPublicName: `${body.ReceiverParty} - Kelly OS`,
+      });
+    });
+  },
+
+  '/mpesa/transactionstatus/v1/query': (body, state) => {
+    const payment = state.payments.get(String(body.TransactionID));
+
+    return acceptAsync(state, body.ResultURL, (ids) => {
+      if (!payment) {
+        return result(ids, 1, 'The transaction could not be found.');
+      }
+
+      return result(ids, 0, 'The service request is processed successfully.', body.TransactionID, {
+        ReceiptNo: body.TransactionID,
+        TransactionStatus: 'Completed',
+        Amount: payment.amount,
+        DebitPartyName: `${payment.phone} - John Doe`,
+        CreditPartyName: `${payment.shortCode} - Kelly OS`,
+        FinalisedTime: formatMpesaTimestamp(new Date()),
+        ReasonType: 'Pay Bill Online',
+      });
+    });
+  },
+
+  '/mpesa/accountbalance/v1/query': (body, state) => {
+    const shortCode = String(body.PartyA);
+
+    return acceptAsync(state, body.ResultURL, (ids) => {
+      const balance = utilityBalance(state, shortCode).toFixed(2);
+
+      return result(ids, 0, 'The service request is processed successfully.', receiptNumber(), {
+        AccountBalance:
+          `Working Account|KES|0.00|0.00|0.00|0.00` +
+          `&Utility Account|KES|${balance}|${balance}|0.00|0.00` +
+          `&Charges Paid Account|KES|0.00|0.00|0.00|0.00`,
+        BOCompletedTime: formatMpesaTimestamp(new Date()),
+      });
+    });
+  },
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Acknowledge an initiator request and send its Result later
+ */
+function acceptAsync(
+  state: EmulatorState,
+  resultUrl: string,
+  buildResult: (ids: { ConversationID: string; OriginatorConversationID: string }) => unknown
+) {
+  const ids = {
+    ConversationID: `AG_${formatMpesaTimestamp(new Date())}_${randomBytes(8).toString('hex')}`,
+    OriginatorConversationID: conversationId(),
+  };
+
+  dispatch(state, () => postCallback(state, resultUrl, buildResult(ids)).then(() => undefined));
+
+  return {
+    body: {
+      ...ids,
+      ResponseCode: '0',
+      ResponseDescription: 'Accept the service request successfully.',
+    },
+  };
+}
+
+function result(
+  ids: { ConversationID: string; OriginatorConversationID: string },
+  resultCode: number,
+  resultDesc: string,
+  transactionId?: string,
+  parameters?: Record<string, string | number>
+) {
+  return {
+    Result: {
+      ResultType: 0,
+      ResultCode: resultCode,
+      ResultDesc: resultDesc,
+      ...ids,
+      TransactionID: transactionId || '',
+      ...(parameters && {
+        ResultParameters: {
+          ResultParameter: Object.entries(parameters).map(([Key, Value]) => ({ Key, Value })),
+        },
+      }),
+    },
+  };
+}
+
+function stkScenario(phone: string): { resultCode: number; resultDesc: string } {
+  if (phone.endsWith('1032')) return { resultCode: 1032, resultDesc: 'Request cancelled by user' };
+  if (phone.endsWith('1037')) return { resultCode: 1037, resultDesc: 'DS timeout user cannot be reached' };
+  if (phone.endsWith('0001')) {
+    return { resultCode: 1, resultDesc: 'The balance is insufficient for the transaction' };
+  }
+  return { resultCode: 0, resultDesc: 'The service request is processed successfully.' };
+}
+
+/**
+ * Run a callback after the configured delay, tracked for waitForCallbacks()
+ */
+function dispatch(state: EmulatorState, send: () => Promise<void>) {
+  const task: Promise<void> = new Promise<void>((resolve) => setTimeout(resolve, state.options.callbackDelayMs))
+    .then(send)
+    .catch((error) => state.log('❌ Callback failed:', error.message))
+    .finally(() => state.pending.delete(task));
+
+  state.pending.add(task);
+}
+
+async function postCallback(state: EmulatorState, url: string, payload: unknown): Promise<any> {
+  state.log(`→ ${url}`);
+  const response = await axios.post(url, payload, {
+    headers: { 'Content-Type': 'application/json' },
+    validateStatus: () => true,
+  });
+  state.log(`← ${response.status}`, response.data);
+  return response.data;
+}
+
+function recordPayment(state: EmulatorState, receipt: string, amount: number, phone: string, shortCode: string) {
+  state.payments.set(receipt, { amount, phone, shortCode });
+  state.balances.set(shortCode, utilityBalance(state, shortCode) + amount);
+}
+
+function utilityBalance(state: EmulatorState, shortCode: string): number {
+  return state.balances.get(shortCode) ?? state.options.openingBalance;
+}
+
+/**
+ * M-Pesa style receipt number, e.g. "SBK4XJ2QW7"
+ */
+function receiptNumber(): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  const bytes = randomBytes(10);
+  return Array.from(bytes, (byte, i) => (i === 0 ? 'S' : alphabet[byte % alphabet.length])).join('');
+}
+
+function conversationId(): string {
+  return `${randomDigits(5)}-${randomDigits(8)}-1`;
+}
+
+function randomDigits(length: number): string {
+  return Array.from(randomBytes(length), (byte) => String(byte % 10)).join('');
+}
+
+/**
+ * B2C completion time format: "19.12.2019 11:45:50"
+ */
+function darajaDateTime(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return (
+    `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+function readJson(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+if (require.main === module) {
+  startDarajaEmulator({
+    port: parseInt(process.env.DARAJA_EMULATOR_PORT || '') || DEFAULT_OPTIONS.port,
+    callbackDelayMs: parseInt(process.env.DARAJA_EMULATOR_DELAY_MS || '') || DEFAULT_OPTIONS.callbackDelayMs,
+  });
+}
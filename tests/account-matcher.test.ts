@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AccountMatchMethod, PaymentType } from '@prisma/client';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import {
+  findCandidates,
+  levenshtein,
+  matchAccountReference,
+  normalizeAccountReference,
+  normalizePhone,
+} from '@/lib/services/account-matcher';
+import { createCustomer } from './helpers';
+
+describe('account reference normalization', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(normalizeAccountReference(' cust-001 ')).toBe('CUST001');
+    expect(normalizeAccountReference('Inv/0042.')).toBe('INV0042');
+  });
+
+  it('reads Kenyan phone numbers in any common form', () => {
+    expect(normalizePhone('0712 345 678')).toBe('254712345678');
+    expect(normalizePhone('+254-112-345-678')).toBe('254112345678');
+    expect(normalizePhone('712345678')).toBe('254712345678');
+    expect(normalizePhone('CUST-001')).toBeNull();
+  });
+
+  it('counts edits between two references', () => {
+    expect(levenshtein('CUST001', 'CUST001')).toBe(0);
+    expect(levenshtein('CUST01', 'CUST001')).toBe(1);
+    expect(levenshtein('CSUT001', 'CUST001')).toBe(2);
+  });
+});
+
+describe('matchAccountReference', () => {
+  it('matches normalized references and filler prefixes', async () => {
+    const customer = await createCustomer({ customerId: 'CUST-001' });
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+
+    const byCustomer = await matchAccountReference('acc no cust 001');
+    const byInvoice = await matchAccountReference(invoice.invoiceId.toLowerCase().replace('-', ' '));
+
+    expect(byCustomer).toMatchObject({ confidence: 0.95, method: AccountMatchMethod.NORMALIZED });
+    expect(byCustomer?.customer.id).toBe(customer.id);
+    expect(byInvoice).toMatchObject({ confidence: 0.95, paymentType: PaymentType.INVOICE });
+    expect(byInvoice?.invoice.id).toBe(invoice.id);
+  });
+
+  it('scores fuzzy matches by edit distance, raised when the payer owns the account', async () => {
+    const customer = await createCustomer({ customerId: 'CUST-001', phone: '254711222333' });
+    await createCustomer({ customerId: 'SHOP-900' });
+
+    const typo = await matchAccountReference('CUST01');
+    const corroborated = await matchAccountReference('CUST01', '254711222333');
+
+    // 1 edit in 7 characters: (1 - 1/7) × 0.9
+    expect(typo).toMatchObject({ confidence: 0.771, method: AccountMatchMethod.FUZZY });
+    expect(typo?.customer.id).toBe(customer.id);
+    expect(corroborated?.confidence).toBe(0.871);
+    expect(await matchAccountReference('CU01')).toBeNull(); // 3 edits away
+  });
+
+  it('only matches references too short to split exactly', async () => {
+    const customer = await createCustomer({ customerId: 'K-9' });
+    await createCustomer({ customerId: 'A-12' });
+
+    const normalized = await matchAccountReference('k9');
+
+    expect(normalized).toMatchObject({ confidence: 0.95, method: AccountMatchMethod.NORMALIZED });
+    expect(normalized?.customer.id).toBe(customer.id);
+    expect(await matchAccountReference('A1')).toBeNull(); // 1 edit from A12, but too short to say
+  });
+
+  it('fetches only the nearest keys as fuzzy candidates', async () => {
+    for (let i = 1; i <= 25; i++) {
+      await createCustomer({ customerId: `CUST-${String(i).padStart(3, '0')}` });
+    }
+    await createCustomer({ customerId: 'SHOP-900' });
+
+    // Every CUST key is alike enough; only the nearest 10 come back
+    const fuzzy = await findCandidates(['CUST01']);
+    expect(fuzzy).toHaveLength(10);
+    expect(fuzzy.map((candidate) => candidate.key)).not.toContain('SHOP900');
+
+    // Exact keys are always fetched, nearest or not
+    const exact = await findCandidates(['SHOP900', 'CUST025']);
+    expect(exact.map((candidate) => candidate.key)).toEqual(expect.arrayContaining(['SHOP900', 'CUST025']));
+    expect(exact.length).toBeLessThanOrEqual(22);
+  });
+
+  it('falls back to the phone typed as the account, then to the payer phone', async () => {
+    const customer = await createCustomer({ phone: '254712345678' });
+
+    const typedPhone = await matchAccountReference('0712 345 678');
+    const payerPhone = await matchAccountReference('XYZZY', '254712345678');
+
+    expect(typedPhone).toMatchObject({ confidence: 0.9, method: AccountMatchMethod.PHONE });
+    expect(typedPhone?.customer.id).toBe(customer.id);
+    expect(payerPhone).toMatchObject({ confidence: 0.8, method: AccountMatchMethod.MSISDN });
+    expect(payerPhone?.customer.id).toBe(customer.id);
+    expect(await matchAccountReference('XYZZY', '254799999999')).toBeNull();
+  });
+});
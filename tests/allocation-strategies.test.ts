@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { AllocationStrategy } from '@prisma/client';
+import { AllocatableInvoice, planAllocation, splitAccountReference } from '@/lib/services/allocation-strategies';
+
+// Oldest first; C has the earliest due date, B the smallest balance
+const INVOICES: AllocatableInvoice[] = [
+  { id: 'a', invoiceId: 'INV-0001', balance: 500, dueDate: new Date('2026-03-31'), createdAt: new Date('2026-01-01') },
+  { id: 'b', invoiceId: 'INV-0002', balance: 200, dueDate: null, createdAt: new Date('2026-01-02') },
+  { id: 'c', invoiceId: 'INV-0003', balance: 300, dueDate: new Date('2026-02-28'), createdAt: new Date('2026-01-03') },
+];
+
+function plan(strategy: AllocationStrategy, amount: number, accountReference = 'CUST-001') {
+  return planAllocation(strategy, { amount, accountReference, invoices: INVOICES }).map((a) => [
+    a.invoiceId,
+    a.amountApplied,
+  ]);
+}
+
+describe('planAllocation', () => {
+  it('FIFO pays the oldest invoice first', () => {
+    expect(plan(AllocationStrategy.FIFO, 600)).toEqual([
+      ['a', 500],
+      ['b', 100],
+    ]);
+  });
+
+  it('OLDEST_DUE_DATE pays the earliest due date first, undated last', () => {
+    expect(plan(AllocationStrategy.OLDEST_DUE_DATE, 900)).toEqual([
+      ['c', 300],
+      ['a', 500],
+      ['b', 100],
+    ]);
+  });
+
+  it('SMALLEST_BALANCE clears the smallest balances first', () => {
+    expect(plan(AllocationStrategy.SMALLEST_BALANCE, 600)).toEqual([
+      ['b', 200],
+      ['c', 300],
+      ['a', 100],
+    ]);
+  });
+
+  it('PROPORTIONAL spreads the payment by balance without losing cents', () => {
+    const allocations = plan(AllocationStrategy.PROPORTIONAL, 100.01);
+
+    expect(allocations).toEqual([
+      ['a', 50.01],
+      ['b', 20],
+      ['c', 30],
+    ]);
+  });
+
+  it('PROPORTIONAL pays everything when the payment covers it', () => {
+    expect(plan(AllocationStrategy.PROPORTIONAL, 1200)).toEqual([
+      ['a', 500],
+      ['b', 200],
+      ['c', 300],
+    ]);
+  });
+
+  it('EMBEDDED_INVOICE pays the named invoice first, then FIFO', () => {
+    expect(plan(AllocationStrategy.EMBEDDED_INVOICE, 400, 'CUST-001#inv 0003')).toEqual([
+      ['c', 300],
+      ['a', 100],
+    ]);
+  });
+
+  it('EMBEDDED_INVOICE falls back to FIFO for an unknown invoice', () => {
+    expect(plan(AllocationStrategy.EMBEDDED_INVOICE, 400, 'CUST-001#INV-9999')).toEqual([['a', 400]]);
+  });
+});
+
+describe('splitAccountReference', () => {
+  it('separates the account number from the invoice number', () => {
+    expect(splitAccountReference('CUST001#INV-0042')).toEqual({
+      accountReference: 'CUST001',
+      invoiceReference: 'INV-0042',
+    });
+    expect(splitAccountReference('CUST001')).toEqual({ accountReference: 'CUST001', invoiceReference: null });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { POST } from '@/app/api/webhooks/mpesa/route';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { processPayment } from '@/lib/services/payment-processor';
+import { c2bCallback, createCustomer, paymentParams, webhookRequest } from './helpers';
+
+const WEBHOOK_PATH = '/api/webhooks/mpesa';
+
+/**
+ * Customer balance, invoice balances, unapplied credit and the A/R ledger must all agree
+ */
+async function expectConsistent(customerId: string) {
+  const customer = await prisma.customer.findUniqueOrThrow({ where: { id: customerId } });
+  const invoices = await prisma.invoice.findMany({ where: { customerId }, include: { payments: true } });
+  const payments = await prisma.payment.findMany({ where: { customerId } });
+  const ledger = await prisma.accountingLedger.findMany({ where: { customerId, accountCode: '1200' } });
+
+  const openBalance = invoices.reduce((sum, invoice) => sum + invoice.balance.toNumber(), 0);
+  const credit = payments.reduce((sum, payment) => sum + payment.unappliedAmount.toNumber(), 0);
+  const receivable = ledger.reduce(
+    (sum, entry) => sum + (entry.entryType === 'DEBIT' ? 1 : -1) * entry.amount.toNumber(),
+    0
+  );
+
+  expect(customer.balance.toNumber()).toBeCloseTo(openBalance - credit, 2);
+  expect(customer.balance.toNumber()).toBeCloseTo(receivable, 2);
+
+  for (const invoice of invoices) {
+    const applied = invoice.payments.reduce((sum, link) => sum + link.amountApplied.toNumber(), 0);
+    expect(invoice.amountPaid.toNumber()).toBeCloseTo(applied, 2);
+    expect(invoice.balance.toNumber()).toBeCloseTo(invoice.amount.toNumber() - applied, 2);
+  }
+}
+
+describe('concurrent balance updates', () => {
+  it('keeps balances in step with the ledger under concurrent webhooks', async () => {
+    const customer = await createCustomer();
+    await InvoiceService.createInvoice({ customerId: customer.id, invoiceId: 'INV-STRESS-1', amount: 3000 });
+    await InvoiceService.createInvoice({ customerId: customer.id, invoiceId: 'INV-STRESS-2', amount: 2000 });
+
+    const callbacks = Array.from({ length: 12 }, () =>
+      c2bCallback({ BillRefNumber: customer.customerId, TransAmount: '500.00' })
+    );
+
+    const responses = await Promise.all(callbacks.map((callback) => POST(webhookRequest(WEBHOOK_PATH, callback))));
+
+    expect(responses.every((response) => response.status === 200)).toBe(true);
+    expect(await prisma.payment.count({ where: { status: 'COMPLETED' } })).toBe(12);
+
+    const updated = await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } });
+    expect(updated.balance.toNumber()).toBe(-1000);
+
+    await expectConsistent(customer.id);
+  });
+
+  it('keeps balances in step when invoices are created while payments post', async () => {
+    const customer = await createCustomer();
+
+    await Promise.all([
+      ...Array.from({ length: 6 }, (_, i) =>
+        InvoiceService.createInvoice({ customerId: customer.id, invoiceId: `INV-RACE-${i}`, amount: 1000 })
+      ),
+      ...Array.from({ length: 6 }, () =>
+        processPayment(paymentParams({ accountReference: customer.customerId, amount: 700 }))
+      ),
+    ]);
+
+    const updated = await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } });
+    expect(updated.balance.toNumber()).toBe(6000 - 4200);
+
+    await expectConsistent(customer.id);
+  });
+
+  it('enforces the daily limit across concurrent payments', async () => {
+    const customer = await createCustomer();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () =>
+        processPayment(paymentParams({ accountReference: customer.customerId, amount: 200000 }))
+      )
+    );
+
+    expect(results.filter((result) => result.status === 'rejected')).toHaveLength(1);
+    expect(await prisma.payment.count({ where: { customerId: customer.id } })).toBe(2);
+
+    await expectConsistent(customer.id);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { InventoryService } from '@/lib/services/inventory-service';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { routeMpesaResult } from '@/lib/services/mpesa-result-router';
+import { processPayment } from '@/lib/services/payment-processor';
+import { POSService } from '@/lib/services/pos-service';
+import { ProductService } from '@/lib/services/product-service';
+import { ReallocationService } from '@/lib/services/reallocation-service';
+import { ReversalService } from '@/lib/services/reversal-service';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+import { SupplierService } from '@/lib/services/supplier-service';
+import { MpesaRequestKind, POSStatus, ProductCategory, StockMovementType } from '@prisma/client';
+import { acceptDarajaRequests, createCustomer, netDebit, paymentParams } from './helpers';
+
+describe('Cost of goods sold', () => {
+  it('posts the cost of stocked items when a POS sale is invoiced', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, cost: 700, stockQty: 10 });
+    const delivery = await ProductService.createProduct({
+      name: 'Delivery',
+      price: 500,
+      cost: 300,
+      category: ProductCategory.SERVICES,
+    });
+    const sale = await POSService.createSale({
+      items: [
+        { productId: cement.id, quantity: 3 },
+        { productId: delivery.id, quantity: 1 },
+      ],
+    });
+
+    const invoiceId = await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(2100);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(-2100);
+
+    const lineItems = await prisma.invoiceLineItem.findMany({ where: { invoiceId }, orderBy: { total: 'desc' } });
+    expect(lineItems.map((item) => item.unitCost?.toNumber() ?? null)).toEqual([700, null]);
+  });
+
+  it('posts the cost of a POS sale invoiced for an STK Push only once it is paid', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, cost: 700, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 2 }] });
+
+    const invoiceId = await POSService.invoiceForPayment({ posId: sale.posId, customerId: customer.id });
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+
+    // Prompt sent, not yet paid: the goods are still on the shelf
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(0);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(10);
+
+    await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1700 }));
+
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(1400);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(-1400);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(8);
+  });
+
+  it('re-averages product cost on each receipt', async () => {
+    const steel = await ProductService.createProduct({ name: 'Steel bar 12mm', price: 1500, cost: 1000, stockQty: 10 });
+
+    await InventoryService.recordManualMovement({
+      productId: steel.id,
+      type: StockMovementType.RECEIPT,
+      quantity: 30,
+      unitCost: 1200,
+    });
+
+    let product = await prisma.product.findUniqueOrThrow({ where: { id: steel.id } });
+    expect(product.cost?.toNumber()).toBe(1150); // (10 × 1000 + 30 × 1200) / 40
+
+    // A receipt into negative stock prices the goods at what was paid for them
+    await prisma.product.update({ where: { id: steel.id }, data: { stockQty: -5 } });
+    await InventoryService.recordManualMovement({
+      productId: steel.id,
+      type: StockMovementType.RECEIPT,
+      quantity: 10,
+      unitCost: 1300,
+    });
+
+    product = await prisma.product.findUniqueOrThrow({ where: { id: steel.id } });
+    expect(product.cost?.toNumber()).toBe(1300);
+
+    await expect(
+      InventoryService.recordManualMovement({
+        productId: steel.id,
+        type: StockMovementType.ADJUSTMENT,
+        quantity: 1,
+        unitCost: 1000,
+      })
+    ).rejects.toThrow('Unit cost can only be given for a RECEIPT');
+  });
+
+  it('issues stock with the cost of sales of an invoice, and returns both when it is cancelled', async () => {
+    const customer = await createCustomer();
+    const fitting = await ProductService.createProduct({ name: 'Elbow fitting', price: 120 });
+    await InventoryService.recordManualMovement({
+      productId: fitting.id,
+      type: StockMovementType.RECEIPT,
+      quantity: 25,
+      unitCost: 80,
+    });
+    const invoice = await InvoiceService.createInvoice({
+      customerId: customer.id,
+      amount: 1200,
+      lineItems: [
+        { description: 'Elbow fitting', quantity: 10, unitPrice: 120, productId: fitting.productId },
+      ],
+    });
+
+    // The ledger and the shelf agree: 15 left at 80
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(800);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: fitting.id } })).stockQty?.toNumber()).toBe(15);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(1200);
+    expect(await InventoryService.reconcile()).toEqual([]);
+
+    await InvoiceService.cancelInvoice(invoice.id, 'Raised in error');
+
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: fitting.id } })).stockQty?.toNumber()).toBe(25);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(2000);
+    expect(await InventoryService.reconcile()).toEqual([]);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.SALES_REVENUE.code)).toBe(0);
+  });
+
+  it('takes cost of sales back when a payment stops paying a POS sale, and posts it again when one does', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, cost: 700, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 2 }] });
+    const invoiceId = await POSService.invoiceForPayment({ posId: sale.posId, customerId: customer.id });
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+    const other = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1700 });
+
+    const first = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1700 }));
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(1400);
+
+    // Moved to the other invoice: the sale's goods are back on the shelf
+    await ReallocationService.reallocate({
+      paymentId: first.id,
+      allocations: [{ invoiceId: other.id, amount: 1700 }],
+      reason: 'Wrong invoice',
+    });
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(0);
+
+    // A second payment for the sale, then reversed by Safaricom
+    const second = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1700 }));
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(1400);
+
+    acceptDarajaRequests('reverseTransaction');
+    const reversal = await ReversalService.requestReversal({ paymentId: second.id, reason: 'Fraud' });
+    const request = await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversal.id } });
+    await routeMpesaResult(
+      {
+        ResultType: 0,
+        ResultCode: 0,
+        ResultDesc: 'The service request is processed successfully.',
+        ConversationID: request.conversationId!,
+        OriginatorConversationID: request.originatorConversationId!,
+        TransactionID: 'REV0000001',
+      },
+      '{}',
+      MpesaRequestKind.REVERSAL
+    );
+
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PENDING);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(10);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(0);
+  });
+
+  it('posts the value of stock received, returned or adjusted by hand', async () => {
+    const supplier = await SupplierService.createSupplier({ name: 'Mabati Steel Ltd' });
+    const steel = await ProductService.createProduct({ name: 'Steel bar 12mm', price: 1500, cost: 1000, stockQty: 10 });
+
+    // Bought outside a purchase order: owed once the supplier bills it
+    await InventoryService.recordManualMovement({
+      productId: steel.id,
+      type: StockMovementType.RECEIPT,
+      quantity: 10,
+      unitCost: 1200,
+    });
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(12000);
+    expect(await netDebit(ACCOUNTS.GOODS_RECEIVED_NOT_INVOICED.code)).toBe(-12000);
+
+    // Written off at the re-averaged cost of 1100
+    await InventoryService.recordManualMovement({
+      productId: steel.id,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: -3,
+      notes: 'Damaged',
+    });
+    await InventoryService.recordManualMovement({ productId: steel.id, type: StockMovementType.RECEIPT, quantity: 1 });
+
+    // Brought back by a customer: back on the shelf at cost, off cost of sales
+    await InventoryService.recordManualMovement({ productId: steel.id, type: StockMovementType.RETURN, quantity: 2 });
+
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(10900);
+    expect(await netDebit(ACCOUNTS.INVENTORY_ADJUSTMENTS.code)).toBe(3300);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(-2200);
+
+    await SupplierBillService.createBill({
+      supplierId: supplier.id,
+      amount: 12000,
+      stockReceived: true,
+      dueDate: new Date(),
+    });
+    expect(await netDebit(ACCOUNTS.GOODS_RECEIVED_NOT_INVOICED.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.ACCOUNTS_PAYABLE.code)).toBe(-12000);
+    expect(await netDebit(ACCOUNTS.OPERATING_EXPENSES.code)).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Kelly OS — Test Database Lifecycle
+ *
+ * Creates a throwaway schema on TEST_DATABASE_URL, pushes the Prisma
+ * schema into it, and drops it when the run finishes. Nothing touches
+ * the schema in DATABASE_URL.
+ */
+
+import { execSync } from 'child_process';
+import { PrismaClient } from '@prisma/client';
+
+export default function setup() {
+  const baseUrl = process.env.TEST_DATABASE_URL;
+
+  if (!baseUrl) {
+    throw new Error('TEST_DATABASE_URL is required to run the integration tests');
+  }
+
+  const schema = `kelly_test_${Date.now()}_${process.pid}`;
+  const url = new URL(baseUrl);
+  url.searchParams.set('schema', schema);
+  const databaseUrl = url.toString();
+
+  execSync('npx prisma db push --skip-generate --accept-data-loss', {
+    env: { ...process.env, DATABASE_URL: databaseUrl },
+    stdio: 'inherit',
+  });
+
+  // Inherited by the test workers, which construct lib/prisma with it
+  process.env.DATABASE_URL = databaseUrl;
+
+  return async () => {
+    const prisma = new PrismaClient({ datasourceUrl: databaseUrl });
+    await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`);
+    await prisma.$disconnect();
+  };
+}
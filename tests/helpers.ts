@@ -0,0 +1,180 @@
+/**
+ * Kelly OS — Test Helpers
+ *
+ * Database reset, factories, state readers and Daraja stand-ins shared by
+ * the integration tests
+ */
+
+import { vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { MpesaClient, formatMpesaTimestamp, mpesaConfigFromEnv } from '@/lib/mpesa-client';
+import { MpesaCallback } from '@/lib/mpesa-callbacks';
+import { normalizeAccountReference } from '@/lib/services/account-matcher';
+import { MpesaConfigService } from '@/lib/services/mpesa-config-service';
+import { ProcessPaymentParams } from '@/lib/services/payment-processor';
+import { EntryType } from '@prisma/client';
+
+let sequence = 0;
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+/**
+ * Empty every table in the test schema
+ */
+export async function resetDatabase(): Promise<void> {
+  const tables: Array<{ tablename: string }> = await prisma.$queryRaw`
+    SELECT tablename FROM pg_tables WHERE schemaname = current_schema()
+  `;
+
+  if (tables.length === 0) return;
+
+  const names = tables.map(({ tablename }) => `"${tablename}"`).join(', ');
+  await prisma.$executeRawUnsafe(`TRUNCATE TABLE ${names} RESTART IDENTITY CASCADE`);
+}
+
+// ============================================================================
+// FACTORIES
+// ============================================================================
+
+export async function createCustomer(overrides?: { customerId?: string; name?: string; phone?: string }) {
+  sequence += 1;
+  const customerId = overrides?.customerId || `CUST-${String(sequence).padStart(3, '0')}`;
+
+  return prisma.customer.create({
+    data: {
+      customerId,
+      accountKey: normalizeAccountReference(customerId),
+      name: overrides?.name || `Test Customer ${sequence}`,
+      phone: overrides?.phone || `2547000${String(sequence).padStart(5, '0')}`,
+    },
+  });
+}
+
+export async function createProduct(overrides?: { name?: string; price?: number; sku?: string }) {
+  sequence += 1;
+
+  return prisma.product.create({
+    data: {
+      productId: `PROD-T${String(sequence).padStart(3, '0')}`,
+      name: overrides?.name || `Test Product ${sequence}`,
+      price: overrides?.price ?? 100,
+      sku: overrides?.sku,
+    },
+  });
+}
+
+/**
+ * M-Pesa receipt numbers are unique per test run
+ */
+export function receiptNumber(): string {
+  sequence += 1;
+  return `TST${String(sequence).padStart(7, '0')}`;
+}
+
+export function paymentParams(
+  overrides: Partial<ProcessPaymentParams> & { accountReference: string; amount: number }
+): ProcessPaymentParams {
+  const mpesaReceiptNumber = overrides.mpesaReceiptNumber || receiptNumber();
+
+  return {
+    mpesaReceiptNumber,
+    transactionId: mpesaReceiptNumber,
+    phone: '254708374149',
+    transactionDate: new Date(),
+    ...overrides,
+  };
+}
+
+export function c2bCallback(
+  overrides: Partial<MpesaCallback> & { BillRefNumber: string; TransAmount: string }
+): MpesaCallback {
+  return {
+    TransactionType: 'Pay Bill',
+    TransID: receiptNumber(),
+    TransTime: formatMpesaTimestamp(new Date()),
+    BusinessShortCode: '174379',
+    InvoiceNumber: '',
+    OrgAccountBalance: '',
+    ThirdPartyTransID: '',
+    MSISDN: '254708374149',
+    FirstName: 'John',
+    MiddleName: '',
+    LastName: 'Doe',
+    ...overrides,
+  };
+}
+
+/**
+ * Build the request Safaricom would send to a webhook route
+ */
+export function webhookRequest(path: string, payload: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * An invoice's payment position, as plain numbers
+ */
+export async function invoiceState(id: string) {
+  const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id } });
+  return {
+    amountPaid: invoice.amountPaid.toNumber(),
+    balance: invoice.balance.toNumber(),
+    status: invoice.status,
+  };
+}
+
+/**
+ * Debits minus credits on an account
+ */
+export async function netDebit(accountCode: string): Promise<number> {
+  const entries = await prisma.accountingLedger.findMany({ where: { accountCode } });
+  return entries.reduce(
+    (sum, entry) => sum + (entry.entryType === EntryType.DEBIT ? 1 : -1) * entry.amount.toNumber(),
+    0
+  );
+}
+
+// ============================================================================
+// DARAJA
+// ============================================================================
+
+let darajaClient: MpesaClient;
+
+/**
+ * Have Daraja accept B2C / B2B / reversal requests, without the network
+ *
+ * Each call is answered with its own conversation IDs. Returns the spy, so
+ * a test can read the request or reject the next one (restored after
+ * every test). Methods accepted in the same test share one client.
+ */
+export function acceptDarajaRequests(
+  method: 'b2cPayment' | 'b2bPayment' | 'reverseTransaction' | 'queryTransactionStatus'
+) {
+  if (!vi.isMockFunction(MpesaConfigService.getClient)) {
+    darajaClient = new MpesaClient(mpesaConfigFromEnv());
+    vi.spyOn(MpesaConfigService, 'getClient').mockResolvedValue(darajaClient);
+  }
+  const client = darajaClient;
+
+  return vi.spyOn(client, method).mockImplementation(async () => {
+    sequence += 1;
+
+    return {
+      ConversationID: `AG_TEST_${sequence}`,
+      OriginatorConversationID: `OC_TEST_${sequence}`,
+      ResponseCode: '0',
+      ResponseDescription: 'Accept the service request successfully.',
+    };
+  });
+}
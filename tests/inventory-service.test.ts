@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { InventoryService } from '@/lib/services/inventory-service';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { POSService } from '@/lib/services/pos-service';
+import { ProductService } from '@/lib/services/product-service';
+import { processPayment } from '@/lib/services/payment-processor';
+import { ReallocationService } from '@/lib/services/reallocation-service';
+import { ProductCategory, StockMovementType } from '@prisma/client';
+import { createCustomer, createProduct, netDebit, paymentParams } from './helpers';
+
+async function stock(productId: string) {
+  const product = await prisma.product.findUniqueOrThrow({ where: { id: productId } });
+  return { stockQty: product.stockQty?.toNumber(), inStock: product.inStock };
+}
+
+describe('InventoryService', () => {
+  it('takes a paid POS sale out of stock, skipping services', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, stockQty: 3 });
+    const delivery = await ProductService.createProduct({
+      name: 'Delivery',
+      price: 500,
+      category: ProductCategory.SERVICES,
+    });
+    const sale = await POSService.createSale({
+      items: [
+        { productId: cement.id, quantity: 3 },
+        { productId: delivery.id, quantity: 1 },
+      ],
+    });
+
+    await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+
+    expect(await stock(cement.id)).toEqual({ stockQty: 0, inStock: false });
+    expect(await stock(delivery.id)).toEqual({ stockQty: 0, inStock: false });
+
+    const movements = await prisma.stockMovement.findMany({ where: { posSaleId: sale.id } });
+    expect(movements).toHaveLength(1);
+    expect(movements[0].type).toBe(StockMovementType.SALE);
+    expect(movements[0].quantity.toNumber()).toBe(-3);
+    expect(movements[0].balanceAfter.toNumber()).toBe(0);
+    expect(movements[0].reference).toBe(sale.posId);
+  });
+
+  it('puts stock back when a sale is reopened and takes it again when repaid', async () => {
+    const customer = await createCustomer();
+    const bread = await ProductService.createProduct({ name: 'Bread', price: 60, stockQty: 10 });
+    const sale = await POSService.createSale({ items: [{ productId: bread.id, quantity: 5 }] });
+    const saleInvoiceId = await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+    const other = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const saleInvoice = await prisma.invoice.findUniqueOrThrow({ where: { id: saleInvoiceId } });
+    const payment = await processPayment(paymentParams({ accountReference: saleInvoice.invoiceId, amount: 300 }));
+
+    expect((await stock(bread.id)).stockQty).toBe(5);
+
+    await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: other.id, amount: 300 }],
+      reason: 'Meant for the account invoice',
+    });
+
+    expect((await stock(bread.id)).stockQty).toBe(10);
+
+    await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: saleInvoiceId, amount: 300 }],
+      reason: 'Original allocation was right',
+    });
+
+    const movements = await prisma.stockMovement.findMany({
+      where: { productId: bread.id },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(movements.map((movement) => [movement.type, movement.quantity.toNumber()])).toEqual([
+      [StockMovementType.ADJUSTMENT, 10],
+      [StockMovementType.SALE, -5],
+      [StockMovementType.RETURN, 5],
+      [StockMovementType.SALE, -5],
+    ]);
+    expect((await stock(bread.id)).stockQty).toBe(5);
+  });
+
+  it('records manual movements and lists products at or below their reorder level', async () => {
+    const nails = await ProductService.createProduct({ name: 'Nails 1kg', price: 300, stockQty: 20, reorderLevel: 5 });
+    await ProductService.createProduct({ name: 'Paint 4L', price: 1200, stockQty: 2 }); // No reorder level
+
+    await InventoryService.recordManualMovement({
+      productId: nails.productId,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: -15,
+      notes: 'Damaged in store',
+    });
+
+    expect((await InventoryService.getLowStockProducts()).map((product) => product.name)).toEqual(['Nails 1kg']);
+
+    await expect(
+      InventoryService.recordManualMovement({ productId: nails.id, type: StockMovementType.RECEIPT, quantity: -1 })
+    ).rejects.toThrow('RECEIPT quantity must be positive');
+
+    await InventoryService.recordManualMovement({ productId: nails.id, type: StockMovementType.RECEIPT, quantity: 50 });
+
+    expect(await InventoryService.getLowStockProducts()).toHaveLength(0);
+    expect(await stock(nails.id)).toEqual({ stockQty: 55, inStock: true });
+  });
+
+  it('reconciles stock entered before movements were tracked', async () => {
+    const legacy = await createProduct({ name: 'Legacy item' });
+    await prisma.product.update({ where: { id: legacy.id }, data: { stockQty: 12 } });
+    const drifted = await ProductService.createProduct({ name: 'Drifted item', price: 100, stockQty: 4 });
+    await prisma.product.update({ where: { id: drifted.id }, data: { stockQty: 9 } });
+
+    const found = await InventoryService.reconcile();
+    expect(found.map((entry) => [entry.name, entry.correction])).toEqual([
+      ['Drifted item', 'UNRECORDED_CHANGE'],
+      ['Legacy item', 'OPENING_BALANCE'],
+    ]);
+
+    await InventoryService.reconcile(true);
+
+    expect(await InventoryService.reconcile()).toHaveLength(0);
+    expect((await stock(legacy.id)).stockQty).toBe(12);
+    expect((await stock(drifted.id)).stockQty).toBe(9);
+    const adjustment = await prisma.stockMovement.findFirstOrThrow({
+      where: { productId: drifted.id },
+      orderBy: { createdAt: 'desc' },
+    });
+    expect(adjustment).toMatchObject({ type: StockMovementType.ADJUSTMENT });
+    expect(adjustment.quantity.toNumber()).toBe(5);
+    expect(adjustment.balanceAfter.toNumber()).toBe(9);
+  });
+
+  it('values a reconciled stock change like a manual adjustment', async () => {
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, cost: 700, stockQty: 10 });
+    await prisma.product.update({ where: { id: cement.id }, data: { stockQty: 8 } });
+
+    await InventoryService.reconcile(true);
+
+    expect(await stock(cement.id)).toEqual({ stockQty: 8, inStock: true });
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(-1400);
+    expect(await netDebit(ACCOUNTS.INVENTORY_ADJUSTMENTS.code)).toBe(1400);
+  });
+
+  it('values an opening balance at cost so the stock sold from it has Inventory to come out of', async () => {
+    const customer = await createCustomer();
+    const legacy = await ProductService.createProduct({ name: 'Legacy item', price: 500, cost: 300 });
+    await prisma.product.update({ where: { id: legacy.id }, data: { stockQty: 6 } });
+
+    await InventoryService.reconcile(true);
+
+    expect(await stock(legacy.id)).toEqual({ stockQty: 6, inStock: true });
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(1800);
+    expect(await netDebit(ACCOUNTS.INVENTORY_ADJUSTMENTS.code)).toBe(-1800);
+
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: legacy.id, quantity: 2 }] });
+    await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(1200);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(600);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, it, vi } from 'vitest';
+import prisma from '@/lib/prisma';
+import { AccountingEngine } from '@/lib/services/accounting-engine';
+import { InventoryService } from '@/lib/services/inventory-service';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { POSService } from '@/lib/services/pos-service';
+import { getCustomerStatement, processPayment } from '@/lib/services/payment-processor';
+import { RefundService } from '@/lib/services/refund-service';
+import { InvoiceStatus, POSStatus, RefundType } from '@prisma/client';
+import { acceptDarajaRequests, createCustomer, createProduct, invoiceState, paymentParams } from './helpers';
+
+describe('InvoiceService.createInvoice', () => {
+  it('creates the invoice, its line items and the receivable', async () => {
+    const customer = await createCustomer();
+
+    const result = await InvoiceService.createInvoice({
+      customerId: customer.id,
+      amount: 1500,
+      lineItems: [
+        { description: 'Cement', quantity: 2, unitPrice: 500 },
+        { description: 'Sand', quantity: 1, unitPrice: 500 },
+      ],
+    });
+
+    const invoice = await prisma.invoice.findUniqueOrThrow({
+      where: { id: result.id },
+      include: { lineItems: true, customer: true },
+    });
+
+    expect(invoice.invoiceId).toMatch(/^INV-\d{8}-\d{4}$/);
+    expect(invoice.status).toBe(InvoiceStatus.UNPAID);
+    expect(invoice.balance.toNumber()).toBe(1500);
+    expect(invoice.lineItems).toHaveLength(2);
+    expect(invoice.customer.balance.toNumber()).toBe(1500);
+    expect(await AccountingEngine.getCustomerBalance(customer.id)).toBe(1500);
+  });
+
+  it('applies existing credit to the new invoice', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+
+    const first = await InvoiceService.createInvoice({ customerId: customer.id, amount: 600 });
+    const second = await InvoiceService.createInvoice({ customerId: customer.id, amount: 600 });
+
+    expect(first.status).toBe(InvoiceStatus.PAID);
+    expect(second.status).toBe(InvoiceStatus.PARTIALLY_PAID);
+
+    const partial = await prisma.invoice.findUniqueOrThrow({ where: { id: second.id } });
+    const credited = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    const updated = await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } });
+
+    expect(partial.amountPaid.toNumber()).toBe(400);
+    expect(partial.balance.toNumber()).toBe(200);
+    expect(credited.unappliedAmount.toNumber()).toBe(0);
+    expect(updated.balance.toNumber()).toBe(200);
+    expect(await prisma.paymentInvoice.count({ where: { appliedFromCredit: true } })).toBe(2);
+
+    const statement = await getCustomerStatement(customer.id);
+    expect(statement.creditApplied.map((entry: any) => [entry.description, entry.amount])).toEqual(
+      expect.arrayContaining([
+        ['Applied from credit', 600],
+        ['Applied from credit', 400],
+      ])
+    );
+    expect(statement.unappliedCredit).toBe(0);
+  });
+
+  it('leaves credit a pending refund is paying out unapplied', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+    acceptDarajaRequests('b2cPayment');
+    await RefundService.requestRefund({
+      paymentId: payment.id,
+      amount: 700,
+      type: RefundType.CREDIT_BALANCE,
+      reason: 'Overpaid',
+    });
+
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+
+    const credited = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    expect(invoice.status).toBe(InvoiceStatus.PARTIALLY_PAID);
+    expect(await invoiceState(invoice.id)).toMatchObject({ amountPaid: 300, balance: 200 });
+    expect(credited.unappliedAmount.toNumber()).toBe(700);
+  });
+
+  it('leaves credit unapplied when the customer opts out', async () => {
+    const customer = await createCustomer();
+    await prisma.customer.update({ where: { id: customer.id }, data: { autoApplyCredit: false } });
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 600 });
+
+    const credited = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    expect(invoice.status).toBe(InvoiceStatus.UNPAID);
+    expect(credited.unappliedAmount.toNumber()).toBe(1000);
+  });
+
+  it('rejects an unknown customer', async () => {
+    await expect(InvoiceService.createInvoice({ customerId: 'missing', amount: 100 })).rejects.toThrow(
+      'Customer not found'
+    );
+  });
+});
+
+describe('InvoiceService.cancelInvoice', () => {
+  it('cancels an unpaid invoice and reverses the receivable', async () => {
+    const customer = await createCustomer();
+    const result = await InvoiceService.createInvoice({ customerId: customer.id, amount: 900 });
+
+    await InvoiceService.cancelInvoice(result.id, 'Raised in error');
+
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: result.id }, include: { customer: true } });
+    expect(invoice.status).toBe(InvoiceStatus.CANCELLED);
+    expect(invoice.customer.balance.toNumber()).toBe(0);
+    expect(await AccountingEngine.getCustomerBalance(customer.id)).toBe(0);
+  });
+
+  it('refuses to cancel a partially paid invoice', async () => {
+    const customer = await createCustomer();
+    const result = await InvoiceService.createInvoice({ customerId: customer.id, amount: 900 });
+    await processPayment(paymentParams({ accountReference: result.invoiceId, amount: 100 }));
+
+    await expect(InvoiceService.cancelInvoice(result.id, 'Too late')).rejects.toThrow('partially paid');
+  });
+
+  it('refuses to cancel a paid invoice', async () => {
+    const customer = await createCustomer();
+    const result = await InvoiceService.createInvoice({ customerId: customer.id, amount: 900 });
+    await processPayment(paymentParams({ accountReference: result.invoiceId, amount: 900 }));
+
+    await expect(InvoiceService.cancelInvoice(result.id, 'Too late')).rejects.toThrow('paid invoice');
+  });
+});
+
+describe('POSService.convertToInvoice', () => {
+  it('invoices a pending sale and marks it paid', async () => {
+    const customer = await createCustomer();
+    const bread = await createProduct({ name: 'Bread', price: 60 });
+    const milk = await createProduct({ name: 'Milk', price: 80 });
+    const sale = await POSService.createSale({
+      items: [
+        { productId: bread.id, quantity: 2 },
+        { productId: milk.id, quantity: 1 },
+      ],
+    });
+
+    const invoiceId = await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: invoiceId }, include: { lineItems: true } });
+    const updated = await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } });
+
+    expect(invoice.amount.toNumber()).toBe(200);
+    expect(invoice.lineItems.map((item) => item.description)).toEqual(['Bread', 'Milk']);
+    expect(updated.status).toBe(POSStatus.PAID);
+    expect(updated.invoiceId).toBe(invoiceId);
+    expect(updated.customerId).toBe(customer.id);
+  });
+
+  it('refuses to invoice a sale twice', async () => {
+    const customer = await createCustomer();
+    const bread = await createProduct({ name: 'Bread', price: 60 });
+    const sale = await POSService.createSale({
+      items: [{ productId: bread.id, quantity: 1 }],
+    });
+
+    await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+
+    await expect(POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id })).rejects.toThrow(
+      'already has invoice'
+    );
+  });
+
+  it('leaves no invoice behind when the sale cannot be marked paid, so a retry invoices it once', async () => {
+    const customer = await createCustomer();
+    const bread = await createProduct({ name: 'Bread', price: 60 });
+    const sale = await POSService.createSale({
+      items: [{ productId: bread.id, quantity: 1 }],
+    });
+    vi.spyOn(InventoryService, 'issueSaleStock').mockRejectedValueOnce(new Error('Stock ledger unavailable'));
+
+    await expect(POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id })).rejects.toThrow(
+      'Stock ledger unavailable'
+    );
+    expect(await prisma.invoice.count()).toBe(0);
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PENDING);
+
+    await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+
+    expect(await prisma.invoice.count()).toBe(1);
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PAID);
+  });
+});
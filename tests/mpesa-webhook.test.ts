@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { POST } from '@/app/api/webhooks/mpesa/route';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { InvoiceStatus, PaymentStatus } from '@prisma/client';
+import { c2bCallback, createCustomer, webhookRequest } from './helpers';
+
+const WEBHOOK_PATH = '/api/webhooks/mpesa';
+
+describe('POST /api/webhooks/mpesa', () => {
+  it('posts a C2B payment against the invoice', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const callback = c2bCallback({ BillRefNumber: invoice.invoiceId, TransAmount: '1000.00' });
+
+    const response = await POST(webhookRequest(WEBHOOK_PATH, callback));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ResultCode: 0, ResultDesc: 'Accepted' });
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { mpesaReceiptNumber: callback.TransID } });
+    const log = await prisma.webhookLog.findFirstOrThrow({ where: { mpesaReceiptNumber: callback.TransID } });
+    const paid = await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+
+    expect(payment.status).toBe(PaymentStatus.COMPLETED);
+    expect(payment.businessShortCode).toBe('174379');
+    expect(log.processed).toBe(true);
+    expect(log.paymentId).toBe(payment.id);
+    expect(paid.status).toBe(InvoiceStatus.PAID);
+  });
+
+  it('acknowledges a duplicate callback without posting it again', async () => {
+    const customer = await createCustomer();
+    await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const callback = c2bCallback({ BillRefNumber: customer.customerId, TransAmount: '500.00' });
+
+    await POST(webhookRequest(WEBHOOK_PATH, callback));
+    const response = await POST(webhookRequest(WEBHOOK_PATH, callback));
+
+    expect(await response.json()).toEqual({ ResultCode: 0, ResultDesc: 'Accepted (duplicate)' });
+    expect(await prisma.payment.count()).toBe(1);
+    expect(await prisma.webhookLog.count({ where: { isDuplicate: true } })).toBe(1);
+
+    const updated = await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } });
+    expect(updated.balance.toNumber()).toBe(500);
+  });
+
+  it('accepts the callback and logs the error when processing fails', async () => {
+    const customer = await createCustomer();
+    const callback = c2bCallback({ BillRefNumber: customer.customerId, TransAmount: '300000.00' });
+
+    const response = await POST(webhookRequest(WEBHOOK_PATH, callback));
+
+    expect(await response.json()).toEqual({ ResultCode: 0, ResultDesc: 'Accepted' });
+    expect(await prisma.payment.count()).toBe(0);
+
+    const log = await prisma.webhookLog.findFirstOrThrow({ where: { mpesaReceiptNumber: callback.TransID } });
+    expect(log.processed).toBe(false);
+    expect(log.processingError).toContain('exceeds maximum');
+  });
+
+  it('accepts a malformed callback without posting anything', async () => {
+    const response = await POST(webhookRequest(WEBHOOK_PATH, { TransID: 'BROKEN' }));
+
+    expect(response.status).toBe(200);
+    expect(await prisma.payment.count()).toBe(0);
+  });
+});
@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { assignUnmatchedPayment, processPayment, recordManualPayment } from '@/lib/services/payment-processor';
+import {
+  AccountMatchMethod,
+  AllocationStrategy,
+  EntryType,
+  InvoiceStatus,
+  PaymentMethod,
+  PaymentStatus,
+  ShortCodeType,
+} from '@prisma/client';
+import { createCustomer, invoiceState, netDebit, paymentParams } from './helpers';
+
+async function customerBalance(id: string) {
+  const customer = await prisma.customer.findUniqueOrThrow({ where: { id } });
+  return customer.balance.toNumber();
+}
+
+describe('processPayment', () => {
+  it('ignores a duplicate receipt', async () => {
+    const customer = await createCustomer();
+    await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+
+    const params = paymentParams({ accountReference: customer.customerId, amount: 400 });
+    const first = await processPayment(params);
+    const second = await processPayment(params);
+
+    expect(second.id).toBe(first.id);
+    expect(second.invoicesCleared).toEqual([]);
+    expect(await prisma.payment.count()).toBe(1);
+    expect(await prisma.paymentInvoice.count()).toBe(1);
+    expect(await customerBalance(customer.id)).toBe(600);
+  });
+
+  it('allocates across invoices oldest first', async () => {
+    const customer = await createCustomer();
+    const oldest = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+    const middle = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const newest = await InvoiceService.createInvoice({ customerId: customer.id, amount: 700 });
+
+    const result = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+
+    expect(result.invoicesCleared).toEqual([oldest.id, middle.id, newest.id]);
+    expect(await invoiceState(oldest.id)).toEqual({ amountPaid: 500, balance: 0, status: InvoiceStatus.PAID });
+    expect(await invoiceState(middle.id)).toEqual({ amountPaid: 300, balance: 0, status: InvoiceStatus.PAID });
+    expect(await invoiceState(newest.id)).toEqual({
+      amountPaid: 200,
+      balance: 500,
+      status: InvoiceStatus.PARTIALLY_PAID,
+    });
+    expect(await customerBalance(customer.id)).toBe(500);
+  });
+
+  it('applies an invoice reference to that invoice only', async () => {
+    const customer = await createCustomer();
+    const older = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+    const target = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+
+    const result = await processPayment(paymentParams({ accountReference: target.invoiceId, amount: 300 }));
+
+    expect(result.invoicesCleared).toEqual([target.id]);
+    expect((await prisma.payment.findUniqueOrThrow({ where: { id: result.id } })).allocationStrategy).toBe(
+      AllocationStrategy.TARGET_INVOICE
+    );
+    expect((await invoiceState(target.id)).status).toBe(InvoiceStatus.PAID);
+    expect((await invoiceState(older.id)).status).toBe(InvoiceStatus.UNPAID);
+  });
+
+  it("uses the customer's allocation strategy and records it", async () => {
+    const customer = await createCustomer();
+    await prisma.customer.update({
+      where: { id: customer.id },
+      data: { allocationStrategy: AllocationStrategy.EMBEDDED_INVOICE },
+    });
+    const older = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+    const named = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+
+    const result = await processPayment(
+      paymentParams({ accountReference: `${customer.customerId}#${named.invoiceId}`, amount: 400 })
+    );
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(payment.status).toBe(PaymentStatus.COMPLETED);
+    expect(payment.allocationStrategy).toBe(AllocationStrategy.EMBEDDED_INVOICE);
+    expect(result.invoicesCleared).toEqual([named.id, older.id]);
+    expect(await invoiceState(named.id)).toEqual({ amountPaid: 300, balance: 0, status: InvoiceStatus.PAID });
+    expect(await invoiceState(older.id)).toEqual({
+      amountPaid: 100,
+      balance: 400,
+      status: InvoiceStatus.PARTIALLY_PAID,
+    });
+  });
+
+  it('leaves an overpayment as customer credit', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 800 });
+
+    const result = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+
+    expect(result.remainingBalance).toBe(-200);
+    expect(await customerBalance(customer.id)).toBe(-200);
+    expect(await invoiceState(invoice.id)).toEqual({ amountPaid: 800, balance: 0, status: InvoiceStatus.PAID });
+
+    const link = await prisma.paymentInvoice.findFirstOrThrow({ where: { paymentId: result.id } });
+    expect(link.amountApplied.toNumber()).toBe(800);
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(payment.unappliedAmount.toNumber()).toBe(200);
+  });
+
+  it('holds an unknown account reference in suspense', async () => {
+    const result = await processPayment(paymentParams({ accountReference: 'NOBODY-999', amount: 250 }));
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(result.customerId).toBeNull();
+    expect(payment.status).toBe(PaymentStatus.UNMATCHED);
+  });
+
+  it('holds a payment to a shortcode with no settings in suspense', async () => {
+    const customer = await createCustomer();
+    await prisma.mpesaConfig.create({
+      data: { name: 'Main PayBill', shortCode: '174379', consumerKey: 'key', consumerSecret: 'secret', environment: 'sandbox' },
+    });
+
+    const result = await processPayment(
+      paymentParams({ accountReference: customer.customerId, amount: 250, businessShortCode: '600999' })
+    );
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(payment.status).toBe(PaymentStatus.UNMATCHED);
+    expect(payment.businessShortCode).toBe('600999');
+    expect(payment.failureReason).toBe('Unknown M-Pesa shortcode: 600999');
+    expect(payment.suggestedCustomerId).toBe(customer.id);
+    expect(await customerBalance(customer.id)).toBe(0);
+  });
+
+  it('holds a payment to a deactivated shortcode in suspense', async () => {
+    const customer = await createCustomer();
+    await prisma.mpesaConfig.create({
+      data: {
+        name: 'Old PayBill',
+        shortCode: '600200',
+        consumerKey: 'key',
+        consumerSecret: 'secret',
+        environment: 'sandbox',
+        isActive: false,
+      },
+    });
+
+    const result = await processPayment(
+      paymentParams({ accountReference: customer.customerId, amount: 250, businessShortCode: '600200' })
+    );
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(payment.status).toBe(PaymentStatus.UNMATCHED);
+    expect(payment.failureReason).toBe('Inactive M-Pesa shortcode: 600200');
+    expect(payment.suggestedCustomerId).toBe(customer.id);
+    expect(await customerBalance(customer.id)).toBe(0);
+  });
+
+  it('posts a Till payment from a known phone to that customer', async () => {
+    const customer = await createCustomer({ phone: '254711000111' });
+    await createCustomer({ phone: '254722000222' });
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 600 });
+    await prisma.mpesaConfig.create({
+      data: {
+        name: 'Shop Till',
+        shortCode: '600100',
+        shortCodeType: ShortCodeType.TILL,
+        consumerKey: 'key',
+        consumerSecret: 'secret',
+        environment: 'sandbox',
+      },
+    });
+
+    const result = await processPayment(
+      paymentParams({ accountReference: '', amount: 600, phone: '254711000111', businessShortCode: '600100' })
+    );
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(payment.status).toBe(PaymentStatus.COMPLETED);
+    expect(payment.customerId).toBe(customer.id);
+    expect(payment.matchMethod).toBe(AccountMatchMethod.MSISDN);
+    expect(await invoiceState(invoice.id)).toMatchObject({ status: InvoiceStatus.PAID });
+
+    // An unknown phone has nothing to go on
+    const unknown = await processPayment(
+      paymentParams({ accountReference: '', amount: 100, phone: '254733000333', businessShortCode: '600100' })
+    );
+    expect((await prisma.payment.findUniqueOrThrow({ where: { id: unknown.id } })).status).toBe(
+      PaymentStatus.UNMATCHED
+    );
+  });
+
+  it('rejects a payment above the transaction limit', async () => {
+    const customer = await createCustomer();
+
+    await expect(
+      processPayment(paymentParams({ accountReference: customer.customerId, amount: 250001 }))
+    ).rejects.toThrow('exceeds maximum');
+
+    expect(await prisma.payment.count()).toBe(0);
+  });
+
+  it('rejects a payment over the daily customer limit', async () => {
+    const customer = await createCustomer();
+
+    await processPayment(paymentParams({ accountReference: customer.customerId, amount: 250000 }));
+    await processPayment(paymentParams({ accountReference: customer.customerId, amount: 250000 }));
+
+    await expect(
+      processPayment(paymentParams({ accountReference: customer.customerId, amount: 1 }))
+    ).rejects.toThrow('Daily limit exceeded');
+
+    expect(await prisma.payment.count()).toBe(2);
+    expect(await customerBalance(customer.id)).toBe(-500000);
+  });
+});
+
+describe('assignUnmatchedPayment', () => {
+  it('moves a suspense payment to the customer, allocates it and refuses a second assignment', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const held = await processPayment(paymentParams({ accountReference: 'NOBODY-999', amount: 600 }));
+    expect(await netDebit(ACCOUNTS.SUSPENSE.code)).toBe(-600);
+
+    const result = await assignUnmatchedPayment({ paymentId: held.id, customerId: customer.customerId });
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: held.id } });
+    expect(result).toMatchObject({ customerId: customer.id, invoicesCleared: [invoice.id], remainingBalance: 400 });
+    expect(payment).toMatchObject({
+      status: PaymentStatus.COMPLETED,
+      customerId: customer.id,
+      matchMethod: AccountMatchMethod.MANUAL,
+    });
+    expect(await invoiceState(invoice.id)).toEqual({
+      amountPaid: 600,
+      balance: 400,
+      status: InvoiceStatus.PARTIALLY_PAID,
+    });
+    expect(await netDebit(ACCOUNTS.SUSPENSE.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.ACCOUNTS_RECEIVABLE.code)).toBe(400);
+    expect(await customerBalance(customer.id)).toBe(400);
+
+    await expect(
+      assignUnmatchedPayment({ paymentId: held.id, customerId: customer.customerId })
+    ).rejects.toThrow('not unmatched');
+    expect(await prisma.paymentInvoice.count()).toBe(1);
+  });
+});
+
+describe('recordManualPayment', () => {
+  it('allocates a cash payment and debits Cash on Hand', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+
+    const result = await recordManualPayment({
+      method: PaymentMethod.CASH,
+      referenceNumber: 'RCPT-0001',
+      accountReference: customer.customerId,
+      amount: 500,
+      receivedBy: 'counter-1',
+    });
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: result.id } });
+    expect(payment.status).toBe(PaymentStatus.COMPLETED);
+    expect(payment.mpesaReceiptNumber).toBeNull();
+    expect(payment.phone).toBe(customer.phone);
+    expect(await invoiceState(invoice.id)).toEqual({ amountPaid: 500, balance: 0, status: InvoiceStatus.PAID });
+    expect(await customerBalance(customer.id)).toBe(0);
+
+    const debit = await prisma.accountingLedger.findFirstOrThrow({
+      where: { paymentId: result.id, entryType: EntryType.DEBIT },
+    });
+    expect(debit.accountCode).toBe('1000');
+  });
+
+  it('records a reference once per method', async () => {
+    const customer = await createCustomer();
+    await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const params = {
+      method: PaymentMethod.BANK_TRANSFER,
+      referenceNumber: 'FT24001XYZ',
+      accountReference: customer.customerId,
+      amount: 300,
+    } as const;
+
+    const first = await recordManualPayment(params);
+    const second = await recordManualPayment(params);
+    const cheque = await recordManualPayment({ ...params, method: PaymentMethod.CHEQUE });
+
+    expect(second.id).toBe(first.id);
+    expect(cheque.id).not.toBe(first.id);
+    expect(await prisma.payment.count()).toBe(2);
+    expect(await customerBalance(customer.id)).toBe(400);
+  });
+
+  it('rejects an unknown account instead of holding it in suspense', async () => {
+    await expect(
+      recordManualPayment({
+        method: PaymentMethod.CARD,
+        referenceNumber: 'AUTH-123456',
+        accountReference: 'NOBODY-999',
+        amount: 100,
+      })
+    ).rejects.toThrow('Customer or invoice not found');
+
+    expect(await prisma.payment.count()).toBe(0);
+  });
+});
@@ -0,0 +1,346 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { POST } from '@/app/api/webhooks/mpesa/result/[kind]/route';
+import { MpesaResult } from '@/lib/mpesa-callbacks';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { routeMpesaResult, routeMpesaTimeout } from '@/lib/services/mpesa-result-router';
+import { PayoutStatusService } from '@/lib/services/payout-status-service';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { processPayment } from '@/lib/services/payment-processor';
+import { RefundService } from '@/lib/services/refund-service';
+import { ReversalService } from '@/lib/services/reversal-service';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+import { SupplierPaymentService } from '@/lib/services/supplier-payment-service';
+import { SupplierService } from '@/lib/services/supplier-service';
+import {
+  InvoiceStatus,
+  MpesaRequestKind,
+  MpesaRequestStatus,
+  PaymentStatus,
+  RefundStatus,
+  RefundType,
+  ReversalStatus,
+  SupplierBillStatus,
+  SupplierPaymentChannel,
+  SupplierPaymentStatus,
+} from '@prisma/client';
+import {
+  acceptDarajaRequests,
+  createCustomer,
+  invoiceState,
+  netDebit,
+  paymentParams,
+  webhookRequest,
+} from './helpers';
+
+type Conversation = { conversationId: string | null; originatorConversationId: string | null };
+
+// Safaricom's answer (or queue timeout) for a request
+function mpesaResult(request: Conversation, resultCode: number, resultDesc: string): MpesaResult {
+  return {
+    ResultType: 0,
+    ResultCode: resultCode,
+    ResultDesc: resultDesc,
+    ConversationID: request.conversationId!,
+    OriginatorConversationID: request.originatorConversationId!,
+    TransactionID: resultCode === 0 ? 'SKL0000001' : undefined,
+  };
+}
+
+function queueTimeout(request: Conversation): MpesaResult {
+  return mpesaResult(request, 1, 'The request timed out in the queue.');
+}
+
+// A transaction status result for the query sent about a payout
+async function statusResult(payout: Conversation, transactionStatus: string): Promise<MpesaResult> {
+  const query = await prisma.mpesaRequest.findFirstOrThrow({
+    where: { kind: MpesaRequestKind.TRANSACTION_STATUS, reference: payout.originatorConversationId },
+  });
+
+  return {
+    ...mpesaResult(query, 0, 'The service request is processed successfully.'),
+    ResultParameters: {
+      ResultParameter: [
+        { Key: 'ReceiptNo', Value: 'SKL0000009' },
+        { Key: 'TransactionStatus', Value: transactionStatus },
+      ],
+    },
+  };
+}
+
+// The payout's own B2B / B2C request
+function payoutRequest(payout: Conversation) {
+  return prisma.mpesaRequest.findFirstOrThrow({ where: { conversationId: payout.conversationId } });
+}
+
+async function createBill(amount: number) {
+  const supplier = await SupplierService.createSupplier({
+    name: 'Kamili Fittings',
+    paybillNumber: '522522',
+    paybillAccount: 'KF-204',
+  });
+  return SupplierBillService.createBill({ supplierId: supplier.id, amount, dueDate: new Date() });
+}
+
+describe('PayoutStatusService', () => {
+  it('keeps a timed-out supplier payment pending and still applies its late result', async () => {
+    const bill = await createBill(5000);
+    acceptDarajaRequests('b2bPayment');
+    const payment = await SupplierPaymentService.payBill({
+      billId: bill.id,
+      amount: 5000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+
+    const timedOut = await routeMpesaTimeout(queueTimeout(payment), '{}', MpesaRequestKind.B2B);
+
+    expect(timedOut.status).toBe(MpesaRequestStatus.TIMEOUT);
+    expect((await prisma.supplierPayment.findUniqueOrThrow({ where: { id: payment.id } })).status).toBe(
+      SupplierPaymentStatus.PENDING
+    );
+    await expect(
+      SupplierPaymentService.payBill({ billId: bill.id, amount: 5000, channel: SupplierPaymentChannel.B2B_PAYBILL })
+    ).rejects.toThrow('exceeds amount payable');
+
+    // The result arrives after the timeout
+    const late = { Result: mpesaResult(payment, 0, 'The service request is processed successfully.') };
+    const response = await POST(webhookRequest('/api/webhooks/mpesa/result/b2b', late), { params: { kind: 'b2b' } });
+
+    expect(await response.json()).toEqual({ ResultCode: 0, ResultDesc: 'Accepted' });
+    expect((await SupplierBillService.getBill(bill.id))?.status).toBe(SupplierBillStatus.PAID);
+    expect((await payoutRequest(payment)).status).toBe(MpesaRequestStatus.COMPLETED);
+  });
+
+  it('keeps a timed-out reversal pending and still reverses the payment on a late result', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 900 });
+    const paid = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 900 }));
+    acceptDarajaRequests('reverseTransaction');
+    const query = acceptDarajaRequests('queryTransactionStatus');
+    acceptDarajaRequests('b2cPayment');
+    const requested = await ReversalService.requestReversal({ paymentId: paid.id, reason: 'Wrong till' });
+    const reversal = await prisma.paymentReversal.findUniqueOrThrow({ where: { id: requested.id } });
+
+    await routeMpesaTimeout(queueTimeout(reversal), '{}', MpesaRequestKind.REVERSAL);
+
+    expect((await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversal.id } })).status).toBe(
+      ReversalStatus.PENDING
+    );
+    await expect(
+      RefundService.requestRefund({
+        paymentId: paid.id,
+        amount: 900,
+        type: RefundType.INVOICE_REOPEN,
+        invoiceId: invoice.id,
+        reason: 'Cancelled',
+      })
+    ).rejects.toThrow('has a reversal');
+    expect(await PayoutStatusService.queryPending({ delaySeconds: 0 })).toMatchObject({ checked: 1, queried: 1, failed: 0 });
+    expect(query).toHaveBeenCalledWith({ originalConversationID: reversal.originatorConversationId });
+
+    // The result arrives after the timeout
+    const late = { Result: mpesaResult(reversal, 0, 'The service request is processed successfully.') };
+    await POST(webhookRequest('/api/webhooks/mpesa/result/reversal', late), { params: { kind: 'reversal' } });
+
+    expect((await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversal.id } })).status).toBe(
+      ReversalStatus.COMPLETED
+    );
+    expect((await prisma.payment.findUniqueOrThrow({ where: { id: paid.id } })).status).toBe(PaymentStatus.REVERSED);
+    expect((await invoiceState(invoice.id)).status).toBe(InvoiceStatus.UNPAID);
+    expect((await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } })).balance.toNumber()).toBe(900);
+    expect(await netDebit(ACCOUNTS.MPESA_CASH.code)).toBe(0);
+  });
+
+  it('settles a timed-out refund from a Completed transaction status', async () => {
+    const customer = await createCustomer();
+    const paid = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 700 }));
+    acceptDarajaRequests('b2cPayment');
+    const query = acceptDarajaRequests('queryTransactionStatus');
+    const requested = await RefundService.requestRefund({
+      paymentId: paid.id,
+      amount: 700,
+      type: RefundType.CREDIT_BALANCE,
+      reason: 'Overpaid',
+    });
+    const refund = await prisma.refund.findUniqueOrThrow({ where: { id: requested.id } });
+    await routeMpesaTimeout(queueTimeout(refund), '{}', MpesaRequestKind.B2C);
+
+    expect(await PayoutStatusService.queryPending({ delaySeconds: 3600 })).toMatchObject({ checked: 0, queried: 0, failed: 0 });
+    expect(await PayoutStatusService.queryPending({ delaySeconds: 0 })).toMatchObject({ checked: 1, queried: 1, failed: 0 });
+    expect(query).toHaveBeenCalledWith({ originalConversationID: refund.originatorConversationId });
+
+    await routeMpesaResult(await statusResult(refund, 'Completed'), '{}', MpesaRequestKind.TRANSACTION_STATUS);
+
+    const completed = await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+    expect(completed.status).toBe(RefundStatus.COMPLETED);
+    expect(completed.mpesaReceiptNumber).toBe('SKL0000009');
+    expect((await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } })).balance.toNumber()).toBe(0);
+    expect((await payoutRequest(refund)).status).toBe(MpesaRequestStatus.COMPLETED);
+  });
+
+  it('recovers or fails refunds whose request never stored a ConversationID', async () => {
+    const customer = await createCustomer();
+    const paid = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+    acceptDarajaRequests('b2cPayment');
+    acceptDarajaRequests('queryTransactionStatus');
+    const longAgo = new Date(Date.now() - 20 * 60 * 1000);
+
+    // Sent and acknowledged, but the process died before saving the acknowledgement
+    const sent = await RefundService.requestRefund({
+      paymentId: paid.id,
+      amount: 400,
+      type: RefundType.CREDIT_BALANCE,
+      reason: 'Overpaid',
+    });
+    await prisma.refund.update({
+      where: { id: sent.id },
+      data: { conversationId: null, originatorConversationId: null, createdAt: longAgo },
+    });
+
+    // Died before the payout was requested
+    const unsent = await prisma.refund.create({
+      data: {
+        paymentId: paid.id,
+        customerId: customer.id,
+        type: RefundType.CREDIT_BALANCE,
+        amount: 300,
+        phone: '254708374149',
+        reason: 'Overpaid',
+        status: RefundStatus.PENDING,
+        createdAt: longAgo,
+      },
+    });
+
+    expect(await PayoutStatusService.queryPending({ delaySeconds: 0 })).toMatchObject({ unsent: 2, queried: 1 });
+
+    const recovered = await prisma.refund.findUniqueOrThrow({ where: { id: sent.id } });
+    expect(recovered).toMatchObject({ status: RefundStatus.PENDING, conversationId: sent.conversationId });
+    expect((await prisma.refund.findUniqueOrThrow({ where: { id: unsent.id } })).status).toBe(RefundStatus.FAILED);
+
+    // The failed refund no longer holds the customer's credit
+    await expect(
+      RefundService.requestRefund({
+        paymentId: paid.id,
+        amount: 600,
+        type: RefundType.CREDIT_BALANCE,
+        reason: 'Overpaid',
+      })
+    ).resolves.toMatchObject({ status: RefundStatus.PENDING });
+  });
+
+  it('recovers or fails reversals whose request never stored a ConversationID', async () => {
+    const customer = await createCustomer();
+    const first = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 500 }));
+    const second = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 800 }));
+    acceptDarajaRequests('reverseTransaction');
+    acceptDarajaRequests('queryTransactionStatus');
+    const longAgo = new Date(Date.now() - 20 * 60 * 1000);
+
+    // Sent and acknowledged, but the process died before saving the acknowledgement
+    const sent = await ReversalService.requestReversal({ paymentId: first.id, reason: 'Wrong till' });
+    await prisma.paymentReversal.update({
+      where: { id: sent.id },
+      data: { conversationId: null, originatorConversationId: null, createdAt: longAgo },
+    });
+
+    // Died before the reversal was requested
+    const unsent = await prisma.paymentReversal.create({
+      data: {
+        paymentId: second.id,
+        amount: 800,
+        reason: 'Wrong till',
+        status: ReversalStatus.PENDING,
+        createdAt: longAgo,
+      },
+    });
+
+    expect(await PayoutStatusService.queryPending({ delaySeconds: 0 })).toMatchObject({ unsent: 2, queried: 1 });
+
+    const recovered = await prisma.paymentReversal.findUniqueOrThrow({ where: { id: sent.id } });
+    expect(recovered).toMatchObject({ status: ReversalStatus.PENDING, conversationId: sent.conversationId });
+    expect((await prisma.paymentReversal.findUniqueOrThrow({ where: { id: unsent.id } })).status).toBe(
+      ReversalStatus.FAILED
+    );
+
+    // The failed reversal no longer blocks the payment
+    await expect(
+      ReversalService.requestReversal({ paymentId: second.id, reason: 'Wrong till' })
+    ).resolves.toMatchObject({ status: ReversalStatus.PENDING });
+  });
+
+  it('releases a timed-out supplier payment from a Failed transaction status', async () => {
+    const bill = await createBill(3000);
+    acceptDarajaRequests('b2bPayment');
+    acceptDarajaRequests('queryTransactionStatus');
+    const payment = await SupplierPaymentService.payBill({
+      billId: bill.id,
+      amount: 3000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+    await routeMpesaTimeout(queueTimeout(payment), '{}', MpesaRequestKind.B2B);
+    await PayoutStatusService.queryPending({ delaySeconds: 0 });
+
+    // Not found yet: nothing changes
+    const unresolved = { ...(await statusResult(payment, 'Completed')), ResultCode: 1 };
+    await routeMpesaResult(unresolved, '{}', MpesaRequestKind.TRANSACTION_STATUS);
+    expect((await prisma.supplierPayment.findUniqueOrThrow({ where: { id: payment.id } })).status).toBe(
+      SupplierPaymentStatus.PENDING
+    );
+
+    await routeMpesaResult(await statusResult(payment, 'Failed'), '{}', MpesaRequestKind.TRANSACTION_STATUS);
+
+    expect((await prisma.supplierPayment.findUniqueOrThrow({ where: { id: payment.id } })).status).toBe(
+      SupplierPaymentStatus.FAILED
+    );
+    expect((await payoutRequest(payment)).status).toBe(MpesaRequestStatus.FAILED);
+
+    const retry = await SupplierPaymentService.payBill({
+      billId: bill.id,
+      amount: 3000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+    expect(retry.status).toBe(SupplierPaymentStatus.PENDING);
+  });
+
+  it('stops querying a payout after too many queries or too long pending and flags it', async () => {
+    const bill = await createBill(8000);
+    acceptDarajaRequests('b2bPayment');
+    const query = acceptDarajaRequests('queryTransactionStatus');
+    const retried = await SupplierPaymentService.payBill({
+      billId: bill.id,
+      amount: 4000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+    const stale = await SupplierPaymentService.payBill({
+      billId: bill.id,
+      amount: 3000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+    const fresh = await SupplierPaymentService.payBill({
+      billId: bill.id,
+      amount: 1000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+    await prisma.supplierPayment.update({ where: { id: retried.id }, data: { queryAttempts: 10 } });
+    await prisma.supplierPayment.update({
+      where: { id: stale.id },
+      data: { createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) },
+    });
+
+    const result = await PayoutStatusService.queryPending({ delaySeconds: 0 });
+
+    expect(result).toMatchObject({ checked: 3, queried: 1, flagged: 2 });
+    expect(result.followUps.map((followUp) => followUp.id).sort()).toEqual([retried.id, stale.id].sort());
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(await prisma.supplierPayment.findUniqueOrThrow({ where: { id: fresh.id } })).toMatchObject({
+      queryAttempts: 1,
+      needsFollowUp: false,
+    });
+
+    // Flagged payouts are not queried again, but stay pending for a late result
+    expect(await PayoutStatusService.queryPending({ delaySeconds: 0 })).toMatchObject({ checked: 1, flagged: 0 });
+    expect((await prisma.supplierPayment.findUniqueOrThrow({ where: { id: stale.id } })).status).toBe(
+      SupplierPaymentStatus.PENDING
+    );
+  });
+});
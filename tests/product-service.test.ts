@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ProductCategory } from '@prisma/client';
+import { ProductService } from '@/lib/services/product-service';
+import { POSService } from '@/lib/services/pos-service';
+import { createProduct } from './helpers';
+
+describe('ProductService', () => {
+  it('searches active products by name or SKU within a category', async () => {
+    await ProductService.createProduct({ name: 'Cement 50kg', price: 850, sku: 'CEM-50', category: ProductCategory.GENERAL });
+    await ProductService.createProduct({ name: 'Cement 25kg', price: 450, sku: 'CEM-25', category: ProductCategory.OTHER });
+    const retired = await ProductService.createProduct({ name: 'Cement 10kg', price: 200 });
+    await ProductService.deactivateProduct(retired.productId);
+
+    const byName = await ProductService.listProducts({ search: 'cement' });
+    const bySku = await ProductService.listProducts({ search: 'cem-25' });
+    const inCategory = await ProductService.listProducts({ search: 'cement', category: ProductCategory.GENERAL });
+    const withInactive = await ProductService.listProducts({ search: 'cement', includeInactive: true });
+
+    expect(byName.map((product) => product.name)).toEqual(['Cement 25kg', 'Cement 50kg']);
+    expect(bySku.map((product) => product.sku)).toEqual(['CEM-25']);
+    expect(inCategory.map((product) => product.sku)).toEqual(['CEM-50']);
+    expect(withInactive).toHaveLength(3);
+  });
+
+  it('rejects a SKU that is already in use', async () => {
+    await ProductService.createProduct({ name: 'Nails 1kg', price: 300, sku: 'NAIL-1' });
+    const other = await ProductService.createProduct({ name: 'Nails 2kg', price: 550 });
+
+    await expect(ProductService.createProduct({ name: 'Nails', price: 300, sku: 'NAIL-1' })).rejects.toThrow(
+      'SKU already in use'
+    );
+    await expect(ProductService.updateProduct(other.id, { sku: 'NAIL-1' })).rejects.toThrow('SKU already in use');
+  });
+
+  it('prices POS sales from the catalog and refuses inactive products', async () => {
+    const paint = await createProduct({ name: 'Paint 4L', price: 1200 });
+    const brush = await createProduct({ name: 'Brush', price: 150 });
+
+    const sale = await POSService.createSale({
+      items: [
+        { productId: paint.productId, quantity: 2 },
+        { productId: brush.id, quantity: 1 },
+      ],
+    });
+
+    expect(sale.amount).toBe(2550);
+
+    await ProductService.deactivateProduct(brush.id);
+
+    await expect(POSService.createSale({ items: [{ productId: brush.id, quantity: 1 }] })).rejects.toThrow(
+      'Product not found or inactive'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { ProductService } from '@/lib/services/product-service';
+import { PurchaseOrderService } from '@/lib/services/purchase-order-service';
+import { SupplierService } from '@/lib/services/supplier-service';
+import { EntryType, ProductCategory, PurchaseOrderStatus, StockMovementType } from '@prisma/client';
+
+async function product(id: string) {
+  const found = await prisma.product.findUniqueOrThrow({ where: { id } });
+  return { stockQty: found.stockQty?.toNumber(), cost: found.cost?.toNumber() };
+}
+
+describe('PurchaseOrderService', () => {
+  it('receives an order over two deliveries, re-averaging cost and posting to A/P', async () => {
+    const supplier = await SupplierService.createSupplier({ name: 'Mabati Steel Ltd' });
+    const steel = await ProductService.createProduct({ name: 'Steel bar 12mm', price: 1500, cost: 1000, stockQty: 10 });
+    const order = await PurchaseOrderService.createPurchaseOrder({
+      supplierId: supplier.supplierId,
+      items: [{ productId: steel.productId, quantity: 40, unitCost: 1200 }],
+    });
+    const line = order.items[0];
+
+    expect(order.total.toNumber()).toBe(48000);
+
+    await PurchaseOrderService.receiveGoods({
+      purchaseOrderId: order.poNumber,
+      items: [{ purchaseOrderItemId: line.id, quantity: 30 }],
+      deliveryNote: 'DN-5521',
+    });
+
+    expect(await product(steel.id)).toEqual({ stockQty: 40, cost: 1150 }); // (10 × 1000 + 30 × 1200) / 40
+    expect((await PurchaseOrderService.getPurchaseOrder(order.id))?.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+
+    // Supplier invoiced the rest at a higher price
+    const grn = await PurchaseOrderService.receiveGoods({
+      purchaseOrderId: order.id,
+      items: [{ purchaseOrderItemId: line.id, quantity: 10, unitCost: 1300 }],
+    });
+
+    expect(grn?.total.toNumber()).toBe(13000);
+    expect(await product(steel.id)).toEqual({ stockQty: 50, cost: 1180 }); // (40 × 1150 + 10 × 1300) / 50
+    expect((await PurchaseOrderService.getPurchaseOrder(order.id))?.status).toBe(PurchaseOrderStatus.RECEIVED);
+
+    const movements = await prisma.stockMovement.findMany({
+      where: { productId: steel.id, type: StockMovementType.RECEIPT },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(movements.map((movement) => movement.unitCost?.toNumber())).toEqual([1200, 1300]);
+    expect(movements[1].reference).toBe(grn?.grnNumber);
+
+    const entries = await prisma.accountingLedger.findMany({ where: { transactionRef: grn?.transactionRef } });
+    expect(entries.map((entry) => [entry.accountCode, entry.entryType, entry.amount.toNumber()]).sort()).toEqual([
+      [ACCOUNTS.INVENTORY.code, EntryType.DEBIT, 13000],
+      [ACCOUNTS.ACCOUNTS_PAYABLE.code, EntryType.CREDIT, 13000],
+    ].sort());
+  });
+
+  it('refuses services, over-deliveries and deliveries against a cancelled order', async () => {
+    const supplier = await SupplierService.createSupplier({ name: 'Kamili Fittings' });
+    const elbow = await ProductService.createProduct({ name: 'Elbow fitting', price: 120 });
+    const fitting = await ProductService.createProduct({
+      name: 'Fitting labour',
+      price: 500,
+      category: ProductCategory.SERVICES,
+    });
+
+    await expect(
+      PurchaseOrderService.createPurchaseOrder({
+        supplierId: supplier.id,
+        items: [{ productId: fitting.id, quantity: 1, unitCost: 300 }],
+      })
+    ).rejects.toThrow('Services are not stocked');
+
+    const order = await PurchaseOrderService.createPurchaseOrder({
+      supplierId: supplier.id,
+      items: [{ productId: elbow.id, quantity: 100, unitCost: 80 }],
+    });
+    const line = order.items[0];
+
+    await expect(
+      PurchaseOrderService.receiveGoods({
+        purchaseOrderId: order.id,
+        items: [{ purchaseOrderItemId: line.id, quantity: 101 }],
+      })
+    ).rejects.toThrow('Receiving more than is outstanding');
+
+    await PurchaseOrderService.receiveGoods({
+      purchaseOrderId: order.id,
+      items: [{ purchaseOrderItemId: line.id, quantity: 60 }],
+    });
+    await PurchaseOrderService.cancelPurchaseOrder(order.id, 'Supplier out of stock');
+
+    await expect(
+      PurchaseOrderService.receiveGoods({
+        purchaseOrderId: order.id,
+        items: [{ purchaseOrderItemId: line.id, quantity: 40 }],
+      })
+    ).rejects.toThrow('Purchase order is cancelled');
+
+    expect((await product(elbow.id)).stockQty).toBe(60);
+  });
+
+  it('does not take new orders for a deactivated supplier', async () => {
+    const supplier = await SupplierService.createSupplier({ name: 'Old Supplier' });
+    const nails = await ProductService.createProduct({ name: 'Nails 1kg', price: 300 });
+    await SupplierService.deactivateSupplier(supplier.supplierId);
+
+    await expect(
+      PurchaseOrderService.createPurchaseOrder({
+        supplierId: supplier.id,
+        items: [{ productId: nails.id, quantity: 10, unitCost: 200 }],
+      })
+    ).rejects.toThrow('Supplier not found or inactive');
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { POSService } from '@/lib/services/pos-service';
+import { processPayment } from '@/lib/services/payment-processor';
+import { ReallocationService } from '@/lib/services/reallocation-service';
+import { RefundService } from '@/lib/services/refund-service';
+import { InvoiceStatus, POSStatus, RefundType } from '@prisma/client';
+import { acceptDarajaRequests, createCustomer, createProduct, invoiceState, paymentParams } from './helpers';
+
+async function unapplied(paymentId: string) {
+  const payment = await prisma.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  return payment.unappliedAmount.toNumber();
+}
+
+describe('ReallocationService.reallocate', () => {
+  it('moves an amount from one invoice to another and logs it', async () => {
+    const customer = await createCustomer();
+    const wrong = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+    const right = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const payment = await processPayment(paymentParams({ accountReference: wrong.invoiceId, amount: 300 }));
+
+    const result = await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: right.id, amount: 300 }],
+      reason: 'Paid against the wrong invoice',
+      changedBy: 'accounts',
+    });
+
+    expect(result.allocations).toEqual([{ invoiceId: right.id, amountApplied: 300 }]);
+    expect(result.changes).toBe(2);
+    expect(await invoiceState(wrong.id)).toEqual({ amountPaid: 0, balance: 500, status: InvoiceStatus.UNPAID });
+    expect(await invoiceState(right.id)).toEqual({ amountPaid: 300, balance: 0, status: InvoiceStatus.PAID });
+
+    const history = await prisma.paymentAllocationChange.findMany({
+      where: { paymentId: payment.id },
+      orderBy: { newAmount: 'asc' },
+    });
+    expect(
+      history.map((change) => [change.invoiceId, change.previousAmount.toNumber(), change.newAmount.toNumber()])
+    ).toEqual([
+      [wrong.id, 300, 0],
+      [right.id, 0, 300],
+    ]);
+    expect(history.every((change) => change.changedBy === 'accounts')).toBe(true);
+  });
+
+  it('turns an unapplied amount into customer credit', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 400 }));
+
+    await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: invoice.id, amount: 150 }],
+      reason: 'Part of the payment is a deposit',
+    });
+
+    expect(await invoiceState(invoice.id)).toEqual({
+      amountPaid: 150,
+      balance: 350,
+      status: InvoiceStatus.PARTIALLY_PAID,
+    });
+    expect(await unapplied(payment.id)).toBe(250);
+  });
+
+  it('refuses to overpay an invoice', async () => {
+    const customer = await createCustomer();
+    const small = await InvoiceService.createInvoice({ customerId: customer.id, amount: 100 });
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 100 }));
+
+    await expect(
+      ReallocationService.reallocate({
+        paymentId: payment.id,
+        allocations: [{ invoiceId: small.id, amount: 150 }],
+        reason: 'Typo',
+      })
+    ).rejects.toThrow('exceeds the balance');
+  });
+
+  it('refuses to allocate more than the payment', async () => {
+    const customer = await createCustomer();
+    const first = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const second = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const payment = await processPayment(paymentParams({ accountReference: first.invoiceId, amount: 300 }));
+
+    await expect(
+      ReallocationService.reallocate({
+        paymentId: payment.id,
+        allocations: [
+          { invoiceId: first.id, amount: 300 },
+          { invoiceId: second.id, amount: 100 },
+        ],
+        reason: 'Typo',
+      })
+    ).rejects.toThrow('exceeds the payment');
+    expect(await invoiceState(second.id)).toEqual({ amountPaid: 0, balance: 300, status: InvoiceStatus.UNPAID });
+  });
+
+  it('keeps an amount being refunded on its invoice', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1000 }));
+    acceptDarajaRequests('b2cPayment');
+
+    await RefundService.requestRefund({
+      paymentId: payment.id,
+      amount: 400,
+      type: RefundType.INVOICE_REOPEN,
+      invoiceId: invoice.id,
+      reason: 'Goods short delivered',
+    });
+
+    await expect(
+      ReallocationService.reallocate({ paymentId: payment.id, allocations: [], reason: 'Hold as credit' })
+    ).rejects.toThrow('being refunded');
+
+    const result = await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: invoice.id, amount: 400 }],
+      reason: 'Hold the rest as credit',
+    });
+    expect(result.unappliedAmount).toBe(600);
+    expect(await invoiceState(invoice.id)).toMatchObject({ amountPaid: 400, balance: 600 });
+  });
+
+  it('keeps credit being refunded unapplied', async () => {
+    const customer = await createCustomer();
+    await prisma.customer.update({ where: { id: customer.id }, data: { autoApplyCredit: false } });
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+    acceptDarajaRequests('b2cPayment');
+
+    await RefundService.requestRefund({
+      paymentId: payment.id,
+      amount: 600,
+      type: RefundType.CREDIT_BALANCE,
+      reason: 'Overpaid',
+    });
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+
+    await expect(
+      ReallocationService.reallocate({
+        paymentId: payment.id,
+        allocations: [{ invoiceId: invoice.id, amount: 500 }],
+        reason: 'Apply the credit',
+      })
+    ).rejects.toThrow('being refunded');
+
+    const result = await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: invoice.id, amount: 400 }],
+      reason: 'Apply what is left',
+    });
+    expect(result.unappliedAmount).toBe(600);
+    expect(await invoiceState(invoice.id)).toMatchObject({ amountPaid: 400, balance: 100 });
+  });
+
+  it("refuses another customer's invoice", async () => {
+    const customer = await createCustomer();
+    const other = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const foreign = await InvoiceService.createInvoice({ customerId: other.id, amount: 300 });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 300 }));
+
+    await expect(
+      ReallocationService.reallocate({
+        paymentId: payment.id,
+        allocations: [{ invoiceId: foreign.id, amount: 300 }],
+        reason: 'Wrong customer',
+      })
+    ).rejects.toThrow('not found for this customer');
+    expect(await prisma.paymentAllocationChange.count()).toBe(0);
+  });
+
+  it('reopens a POS sale whose invoice is no longer paid', async () => {
+    const customer = await createCustomer();
+    const bread = await createProduct({ name: 'Bread', price: 60 });
+    const sale = await POSService.createSale({
+      items: [{ productId: bread.id, quantity: 5 }],
+    });
+    const saleInvoiceId = await POSService.convertToInvoice({ posId: sale.posId, customerId: customer.id });
+    const other = await InvoiceService.createInvoice({ customerId: customer.id, amount: 300 });
+    const saleInvoice = await prisma.invoice.findUniqueOrThrow({ where: { id: saleInvoiceId } });
+    const payment = await processPayment(paymentParams({ accountReference: saleInvoice.invoiceId, amount: 300 }));
+
+    await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: other.id, amount: 300 }],
+      reason: 'Meant for the account invoice',
+    });
+
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PENDING);
+
+    await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [{ invoiceId: saleInvoiceId, amount: 300 }],
+      reason: 'Original allocation was right',
+    });
+
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PAID);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentMethod } from '@prisma/client';
+import { ReceiptData, renderPdfReceipt, renderThermalReceipt } from '@/lib/services/receipt-service';
+
+const RECEIPT: ReceiptData = {
+  businessName: 'Kelly OS',
+  receiptNumber: 'QGK12XYZ9',
+  method: PaymentMethod.MPESA,
+  amount: 1500,
+  transactionDate: new Date('2026-01-31T11:05:00Z'),
+  customer: { name: 'Jane Wanjiku (Shop)', customerId: 'CUST-001', phone: '254708374149' },
+  allocations: [
+    { invoiceId: 'INV-20260101-0001', amountApplied: 1000, invoiceBalance: 0 },
+    { invoiceId: 'INV-20260115-0002', amountApplied: 400, invoiceBalance: 600 },
+  ],
+  unappliedAmount: 100,
+  accountBalance: -100,
+};
+
+describe('renderPdfReceipt', () => {
+  it('writes a PDF whose cross-reference offsets point at its objects', () => {
+    const pdf = renderPdfReceipt(RECEIPT).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(QGK12XYZ9) Tj');
+    expect(pdf).toContain('Jane Wanjiku \\(Shop\\) \\(CUST-001\\)');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const offsets = pdf.slice(xrefOffset).match(/^\d{10} 00000 n/gm)!.map((entry) => Number(entry.slice(0, 10)));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`)));
+  });
+});
+
+describe('renderThermalReceipt', () => {
+  it('fits every line on 58mm paper and ends with a cut', () => {
+    const bytes = renderThermalReceipt(RECEIPT, 32);
+
+    expect([...bytes.subarray(0, 2)]).toEqual([0x1b, 0x40]);
+    expect([...bytes.subarray(-4)]).toEqual([0x1d, 0x56, 0x42, 0x03]);
+
+    const lines = bytes
+      .toString('latin1')
+      .replace(/\x1b[@]|\x1b[aE][\x00-\x01]|\x1d!.|\x1dVB./g, '')
+      .split('\n');
+    expect(Math.max(...lines.map((line) => line.length))).toBeLessThanOrEqual(32);
+    expect(lines).toContain('TOTAL PAID          KSh 1,500.00');
+    expect(lines).toContain('Account balance    KSh 100.00 CR');
+    expect(lines).toContain('Date:           2026-01-31 14:05');
+  });
+});
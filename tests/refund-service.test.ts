@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { MpesaResult } from '@/lib/mpesa-callbacks';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { routeMpesaResult } from '@/lib/services/mpesa-result-router';
+import { processPayment } from '@/lib/services/payment-processor';
+import { POSService } from '@/lib/services/pos-service';
+import { ProductService } from '@/lib/services/product-service';
+import { ReallocationService } from '@/lib/services/reallocation-service';
+import { RefundService } from '@/lib/services/refund-service';
+import { ReversalService } from '@/lib/services/reversal-service';
+import { InvoiceStatus, MpesaRequestKind, POSStatus, RefundStatus, RefundType } from '@prisma/client';
+import { acceptDarajaRequests, createCustomer, netDebit, paymentParams } from './helpers';
+
+// Safaricom confirming a requested payout
+async function refundResult(conversationId: string | null): Promise<MpesaResult> {
+  const refund = await prisma.refund.findFirstOrThrow({ where: { conversationId } });
+
+  return {
+    ResultType: 0,
+    ResultCode: 0,
+    ResultDesc: 'The service request is processed successfully.',
+    ConversationID: refund.conversationId!,
+    OriginatorConversationID: refund.originatorConversationId!,
+    TransactionID: `RFD${refund.id.slice(-7).toUpperCase()}`,
+  };
+}
+
+describe('RefundService.requestRefund', () => {
+  it('records the refund before the payout and releases it when Daraja refuses', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 1000 }));
+    const b2c = acceptDarajaRequests('b2cPayment');
+    b2c.mockRejectedValueOnce(new Error('Request failed with status code 500'));
+
+    await expect(
+      RefundService.requestRefund({ paymentId: payment.id, amount: 1000, type: RefundType.CREDIT_BALANCE, reason: 'Overpaid' })
+    ).rejects.toThrow('status code 500');
+
+    const failed = await prisma.refund.findFirstOrThrow();
+    expect(failed.status).toBe(RefundStatus.FAILED);
+    expect(failed.conversationId).toBeNull();
+
+    const refund = await RefundService.requestRefund({
+      paymentId: payment.id,
+      amount: 1000,
+      type: RefundType.CREDIT_BALANCE,
+      reason: 'Overpaid',
+    });
+
+    expect(refund).toMatchObject({ status: RefundStatus.PENDING, amount: 1000 });
+    expect(refund.conversationId).toMatch(/^AG_TEST_/);
+    expect(b2c).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets only one of two simultaneous refunds spend the same credit', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 800 }));
+    const b2c = acceptDarajaRequests('b2cPayment');
+
+    const attempts = await Promise.allSettled(
+      [1, 2].map(() =>
+        RefundService.requestRefund({ paymentId: payment.id, amount: 800, type: RefundType.CREDIT_BALANCE, reason: 'Overpaid' })
+      )
+    );
+
+    expect(attempts.map((attempt) => attempt.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await prisma.refund.count()).toBe(1);
+    expect(b2c).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to refund a payment that is being reversed', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 500 }));
+    acceptDarajaRequests('reverseTransaction');
+
+    await ReversalService.requestReversal({ paymentId: payment.id, reason: 'Wrong till' });
+
+    await expect(
+      RefundService.requestRefund({ paymentId: payment.id, amount: 500, type: RefundType.CREDIT_BALANCE, reason: 'Overpaid' })
+    ).rejects.toThrow('has a reversal');
+    expect(await prisma.refund.count()).toBe(0);
+  });
+});
+
+describe('RefundService.handleResult', () => {
+  it('reopens the invoice and takes the refund off the payment allocation', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1000 }));
+    acceptDarajaRequests('b2cPayment');
+
+    const refund = await RefundService.requestRefund({
+      paymentId: payment.id,
+      amount: 400,
+      type: RefundType.INVOICE_REOPEN,
+      invoiceId: invoice.invoiceId,
+      reason: 'Goods short delivered',
+    });
+    const result = await refundResult(refund.conversationId);
+    await routeMpesaResult(result, JSON.stringify(result), MpesaRequestKind.B2C);
+
+    const reopened = await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    const link = await prisma.paymentInvoice.findFirstOrThrow({ where: { paymentId: payment.id } });
+    expect(reopened.amountPaid.toNumber()).toBe(600);
+    expect(reopened.status).toBe(InvoiceStatus.PARTIALLY_PAID);
+    expect(link.amountApplied.toNumber()).toBe(600);
+
+    // Only the 600 still on the invoice can be freed up as credit
+    const reallocated = await ReallocationService.reallocate({
+      paymentId: payment.id,
+      allocations: [],
+      reason: 'Hold as credit',
+    });
+    expect(reallocated.unappliedAmount).toBe(600);
+    expect((await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } })).balance.toNumber()).toBe(400);
+  });
+
+  it('reopens a paid POS sale and puts its items back into stock', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, cost: 700, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 2 }] });
+    const invoiceId = await POSService.invoiceForPayment({ posId: sale.posId, customerId: customer.id });
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1700 }));
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(1400);
+    acceptDarajaRequests('b2cPayment');
+
+    const refund = await RefundService.requestRefund({
+      paymentId: payment.id,
+      amount: 1700,
+      type: RefundType.INVOICE_REOPEN,
+      invoiceId: invoice.id,
+      reason: 'Paid by the wrong customer',
+    });
+    const result = await refundResult(refund.conversationId);
+    await routeMpesaResult(result, JSON.stringify(result), MpesaRequestKind.B2C);
+
+    expect((await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } })).status).toBe(InvoiceStatus.UNPAID);
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PENDING);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(10);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(0);
+  });
+
+  it('puts the lines a partial sales return takes back into stock, and only the rest on a full one', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, cost: 700, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 4 }] });
+    const invoiceId = await POSService.invoiceForPayment({ posId: sale.posId, customerId: customer.id });
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: invoiceId }, include: { lineItems: true } });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 3400 }));
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(2800);
+    acceptDarajaRequests('b2cPayment');
+
+    const returnParams = {
+      paymentId: payment.id,
+      type: RefundType.SALES_RETURN,
+      invoiceId: invoice.id,
+      reason: 'Bag split in transit',
+    };
+    await expect(
+      RefundService.requestRefund({
+        ...returnParams,
+        amount: 850,
+        items: [{ lineItemId: invoice.lineItems[0].id, quantity: 5 }],
+      })
+    ).rejects.toThrow('Return exceeds quantity left');
+
+    const partial = await RefundService.requestRefund({
+      ...returnParams,
+      amount: 850,
+      items: [{ lineItemId: invoice.lineItems[0].id, quantity: 1 }],
+    });
+    const partialResult = await refundResult(partial.conversationId);
+    await routeMpesaResult(partialResult, JSON.stringify(partialResult), MpesaRequestKind.B2C);
+
+    // One bag back on the shelf, and its cost off COGS
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(7);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(2100);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(-2100);
+    expect((await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } })).amount.toNumber()).toBe(2550);
+
+    // Returning the rest clears the invoice without counting that bag twice
+    const rest = await RefundService.requestRefund({ ...returnParams, amount: 2550 });
+    const restResult = await refundResult(rest.conversationId);
+    await routeMpesaResult(restResult, JSON.stringify(restResult), MpesaRequestKind.B2C);
+
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(10);
+    expect(await netDebit(ACCOUNTS.COST_OF_GOODS_SOLD.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.INVENTORY.code)).toBe(0);
+  });
+
+  it('refunds the rest of an invoice once an earlier refund has come off it', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1000 }));
+    acceptDarajaRequests('b2cPayment');
+
+    const returnParams = {
+      paymentId: payment.id,
+      type: RefundType.SALES_RETURN,
+      invoiceId: invoice.id,
+      reason: 'Returned goods',
+    };
+    const first = await RefundService.requestRefund({ ...returnParams, amount: 300 });
+    const result = await refundResult(first.conversationId);
+    await routeMpesaResult(result, JSON.stringify(result), MpesaRequestKind.B2C);
+
+    await expect(RefundService.requestRefund({ ...returnParams, amount: 701 })).rejects.toThrow('Refund exceeds');
+    await RefundService.requestRefund({ ...returnParams, amount: 700 });
+
+    const returned = await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    expect(returned.amount.toNumber()).toBe(700);
+    expect(returned.amountPaid.toNumber()).toBe(700);
+  });
+});
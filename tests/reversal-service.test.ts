@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { MpesaResult } from '@/lib/mpesa-callbacks';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { routeMpesaResult } from '@/lib/services/mpesa-result-router';
+import { assignUnmatchedPayment, processPayment } from '@/lib/services/payment-processor';
+import { RefundService } from '@/lib/services/refund-service';
+import { ReversalService } from '@/lib/services/reversal-service';
+import { InvoiceStatus, MpesaRequestKind, PaymentStatus, RefundType, ReversalStatus } from '@prisma/client';
+import { acceptDarajaRequests, createCustomer, paymentParams } from './helpers';
+
+// Safaricom confirming a requested reversal
+async function reversalResult(reversalId: string): Promise<MpesaResult> {
+  const reversal = await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversalId } });
+
+  return {
+    ResultType: 0,
+    ResultCode: 0,
+    ResultDesc: 'The service request is processed successfully.',
+    ConversationID: reversal.conversationId!,
+    OriginatorConversationID: reversal.originatorConversationId!,
+    TransactionID: `REV${reversal.id.slice(-7).toUpperCase()}`,
+  };
+}
+
+describe('ReversalService.requestReversal', () => {
+  it('records the reversal before the request and releases it when Daraja refuses', async () => {
+    const payment = await processPayment(paymentParams({ accountReference: 'NOBODY-999', amount: 250 }));
+    const reverse = acceptDarajaRequests('reverseTransaction');
+    reverse.mockRejectedValueOnce(new Error('Request failed with status code 500'));
+
+    await expect(ReversalService.requestReversal({ paymentId: payment.id, reason: 'Wrong till' })).rejects.toThrow(
+      'status code 500'
+    );
+
+    const failed = await prisma.paymentReversal.findFirstOrThrow();
+    expect(failed.status).toBe(ReversalStatus.FAILED);
+    expect(failed.conversationId).toBeNull();
+
+    const reversal = await ReversalService.requestReversal({ paymentId: payment.id, reason: 'Wrong till' });
+
+    expect(reversal).toMatchObject({ status: ReversalStatus.PENDING, amount: 250 });
+    expect(reversal.conversationId).toMatch(/^AG_TEST_/);
+    await expect(ReversalService.requestReversal({ paymentId: payment.id, reason: 'Again' })).rejects.toThrow(
+      'Reversal already pending'
+    );
+  });
+
+  it('lets only one of a simultaneous refund and reversal of a payment through', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 500 }));
+    const reverse = acceptDarajaRequests('reverseTransaction');
+    const b2c = acceptDarajaRequests('b2cPayment');
+
+    const attempts = await Promise.allSettled([
+      ReversalService.requestReversal({ paymentId: payment.id, reason: 'Wrong till' }),
+      RefundService.requestRefund({ paymentId: payment.id, amount: 500, type: RefundType.CREDIT_BALANCE, reason: 'Overpaid' }),
+    ]);
+
+    expect(attempts.map((attempt) => attempt.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(reverse.mock.calls.length + b2c.mock.calls.length).toBe(1);
+    expect((await prisma.paymentReversal.count()) + (await prisma.refund.count())).toBe(1);
+  });
+});
+
+describe('ReversalService.handleResult', () => {
+  it('reverses an unmatched payment once, and it can no longer be assigned', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: 'NOBODY-999', amount: 250 }));
+    acceptDarajaRequests('reverseTransaction');
+
+    const reversal = await ReversalService.requestReversal({ paymentId: payment.id, reason: 'Wrong till' });
+    const result = await reversalResult(reversal.id);
+    await Promise.all([
+      routeMpesaResult(result, JSON.stringify(result), MpesaRequestKind.REVERSAL),
+      ReversalService.handleResult(result), // Duplicate callback
+    ]);
+
+    const reversed = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    expect(reversed.status).toBe(PaymentStatus.REVERSED);
+    expect(await prisma.accountingLedger.count({ where: { paymentId: payment.id } })).toBe(4);
+    await expect(
+      assignUnmatchedPayment({ paymentId: payment.id, customerId: customer.customerId })
+    ).rejects.toThrow('not unmatched');
+  });
+
+  it('reopens the invoices a matched payment paid', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1000 });
+    const payment = await processPayment(paymentParams({ accountReference: invoice.invoiceId, amount: 1000 }));
+    acceptDarajaRequests('reverseTransaction');
+
+    const reversal = await ReversalService.requestReversal({ paymentId: payment.id, reason: 'Fraud' });
+    const result = await reversalResult(reversal.id);
+    await routeMpesaResult(result, JSON.stringify(result), MpesaRequestKind.REVERSAL);
+
+    const reopened = await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    expect(reopened.status).toBe(InvoiceStatus.UNPAID);
+    expect(await prisma.paymentInvoice.count()).toBe(0);
+    expect((await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } })).balance.toNumber()).toBe(1000);
+  });
+
+  it('leaves the payment alone when a refund of it went out meanwhile', async () => {
+    const customer = await createCustomer();
+    const payment = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 500 }));
+    acceptDarajaRequests('reverseTransaction');
+
+    const reversal = await ReversalService.requestReversal({ paymentId: payment.id, reason: 'Wrong till' });
+    // Sent before refunds checked for reversals
+    await prisma.refund.create({
+      data: {
+        paymentId: payment.id,
+        customerId: customer.id,
+        type: RefundType.CREDIT_BALANCE,
+        amount: 500,
+        phone: '254708374149',
+        reason: 'Overpaid',
+      },
+    });
+
+    await expect(ReversalService.handleResult(await reversalResult(reversal.id))).rejects.toThrow('needs reviewing');
+
+    expect((await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).status).toBe(PaymentStatus.COMPLETED);
+    expect((await prisma.paymentReversal.findUniqueOrThrow({ where: { id: reversal.id } })).status).toBe(
+      ReversalStatus.PENDING
+    );
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Kelly OS — Per-Test Setup
+ *
+ * Every scenario starts from an empty database and must leave the
+ * ledger balanced.
+ */
+
+import { afterAll, afterEach, beforeEach, expect } from 'vitest';
+import prisma from '@/lib/prisma';
+import { AccountingEngine } from '@/lib/services/accounting-engine';
+import { resetDatabase } from './helpers';
+
+// Single-shortcode setup from environment variables (no MpesaConfig rows)
+process.env.MPESA_SHORT_CODE = '174379';
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+afterEach(async () => {
+  const { isValid, errors } = await AccountingEngine.verifyLedgerIntegrity();
+  expect(errors).toEqual([]);
+  expect(isValid).toBe(true);
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
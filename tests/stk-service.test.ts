@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from 'vitest';
+import prisma from '@/lib/prisma';
+import { MpesaClient } from '@/lib/mpesa-client';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { POSService } from '@/lib/services/pos-service';
+import { ProductService } from '@/lib/services/product-service';
+import { StkService } from '@/lib/services/stk-service';
+import { InvoiceStatus, POSStatus, StkRequestStatus } from '@prisma/client';
+import { createCustomer } from './helpers';
+
+// A prompt sent for a POS sale (what StkService.initiate leaves behind)
+async function stkForSale(posId: string) {
+  const sale = await prisma.pOSSale.findUniqueOrThrow({ where: { posId } });
+  const customer = await prisma.customer.findUniqueOrThrow({ where: { id: sale.customerId! } });
+
+  return prisma.stkRequest.create({
+    data: {
+      merchantRequestId: `MR-${posId}`,
+      checkoutRequestId: `ws_CO_${posId}`,
+      customerId: customer.id,
+      posSaleId: sale.id,
+      accountReference: customer.customerId,
+      amount: sale.amount,
+      phone: customer.phone,
+      status: StkRequestStatus.PENDING,
+    },
+  });
+}
+
+function paidCallback(checkoutRequestId: string, amount: number, receipt: string) {
+  return {
+    MerchantRequestID: 'MR',
+    CheckoutRequestID: checkoutRequestId,
+    ResultCode: 0,
+    ResultDesc: 'The service request is processed successfully.',
+    CallbackMetadata: {
+      Item: [
+        { Name: 'Amount', Value: amount },
+        { Name: 'MpesaReceiptNumber', Value: receipt },
+        { Name: 'TransactionDate', Value: 20260119102115 },
+        { Name: 'PhoneNumber', Value: 254708374149 },
+      ],
+    },
+  };
+}
+
+describe('StkService.initiate', () => {
+  it('refuses to prompt for a balance with cents instead of rounding it up', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1234.5 });
+
+    await expect(StkService.initiate({ invoiceId: invoice.invoiceId })).rejects.toThrow('whole-shilling balance');
+    expect(await prisma.stkRequest.count()).toBe(0);
+  });
+});
+
+describe('StkService.handleCallback', () => {
+  it('marks a POS sale paid and issues its stock when the payment posts', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 2 }] });
+    const stkRequest = await stkForSale(sale.posId);
+
+    const payment = await StkService.handleCallback(paidCallback(stkRequest.checkoutRequestId, 1700, 'STK0000001'));
+
+    const paidSale = await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } });
+    const invoice = await prisma.invoice.findUniqueOrThrow({ where: { id: paidSale.invoiceId! } });
+    expect(payment?.invoicesCleared).toHaveLength(1);
+    expect(paidSale.status).toBe(POSStatus.PAID);
+    expect(invoice.status).toBe(InvoiceStatus.PAID);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: cement.id } })).stockQty?.toNumber()).toBe(8);
+  });
+
+  it('leaves the sale pending with its stock when the payment is refused', async () => {
+    const customer = await createCustomer();
+    const steel = await ProductService.createProduct({ name: 'Steel beam', price: 300000, stockQty: 5 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: steel.id, quantity: 1 }] });
+    const stkRequest = await stkForSale(sale.posId);
+
+    // Above the default KSh 250,000 transaction limit
+    await expect(
+      StkService.handleCallback(paidCallback(stkRequest.checkoutRequestId, 300000, 'STK0000002'))
+    ).rejects.toThrow('Payment amount exceeds maximum');
+
+    const unpaidSale = await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } });
+    expect(unpaidSale.status).toBe(POSStatus.PENDING);
+    expect((await prisma.product.findUniqueOrThrow({ where: { id: steel.id } })).stockQty?.toNumber()).toBe(5);
+  });
+});
+
+describe('StkService.reconcilePending', () => {
+  // No consumer key is configured here, so every status query fails
+  it('gives up on a request after too many failed queries or too long pending', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, stockQty: 10 });
+    const fresh = await stkForSale((await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 1 }] })).posId);
+    const retried = await stkForSale((await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 1 }] })).posId);
+    const stale = await stkForSale((await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 1 }] })).posId);
+
+    await prisma.stkRequest.update({ where: { id: retried.id }, data: { queryAttempts: 9 } });
+    await prisma.stkRequest.update({
+      where: { id: stale.id },
+      data: { createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) },
+    });
+
+    const result = await StkService.reconcilePending({ delaySeconds: 0 });
+
+    expect(result).toMatchObject({ checked: 3, timedOut: 2, stillPending: 1 });
+    const statuses = await prisma.stkRequest.findMany({ select: { id: true, status: true, queryAttempts: true } });
+    expect(statuses.find((row) => row.id === fresh.id)).toMatchObject({ status: StkRequestStatus.PENDING, queryAttempts: 1 });
+    expect(statuses.find((row) => row.id === retried.id)).toMatchObject({ status: StkRequestStatus.TIMEOUT, queryAttempts: 10 });
+    expect(statuses.find((row) => row.id === stale.id)?.status).toBe(StkRequestStatus.TIMEOUT);
+  });
+
+  it('flags an invoice prompt a query reports paid until its callback posts the payment', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 1200 });
+    const stkRequest = await prisma.stkRequest.create({
+      data: {
+        merchantRequestId: `MR-${invoice.invoiceId}`,
+        checkoutRequestId: `ws_CO_${invoice.invoiceId}`,
+        customerId: customer.id,
+        invoiceId: invoice.id,
+        accountReference: invoice.invoiceId,
+        amount: 1200,
+        phone: customer.phone,
+        status: StkRequestStatus.PENDING,
+      },
+    });
+    vi.spyOn(MpesaClient.prototype, 'stkQuery').mockResolvedValue({
+      ResponseCode: '0',
+      ResponseDescription: 'The service request has been accepted successsfully',
+      MerchantRequestID: stkRequest.merchantRequestId,
+      CheckoutRequestID: stkRequest.checkoutRequestId,
+      ResultCode: '0',
+      ResultDesc: 'The service request is processed successfully.',
+    });
+
+    const result = await StkService.reconcilePending({ delaySeconds: 0 });
+
+    expect(result).toMatchObject({ checked: 1, completed: 1 });
+    expect(result.followUps).toEqual([
+      expect.objectContaining({ id: stkRequest.id, accountReference: invoice.invoiceId, amount: 1200 }),
+    ]);
+
+    await StkService.handleCallback(paidCallback(stkRequest.checkoutRequestId, 1200, 'STK0000004'));
+
+    expect((await prisma.stkRequest.findUniqueOrThrow({ where: { id: stkRequest.id } })).needsFollowUp).toBe(false);
+    expect((await prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } })).status).toBe(InvoiceStatus.PAID);
+    expect(await StkService.getFollowUps()).toEqual([]);
+  });
+
+  it('leaves a POS prompt alone when its callback posts the payment during the query', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 1 }] });
+    const stkRequest = await stkForSale(sale.posId);
+    vi.spyOn(MpesaClient.prototype, 'stkQuery').mockImplementation(async () => {
+      await StkService.handleCallback(paidCallback(stkRequest.checkoutRequestId, 850, 'STK0000005'));
+
+      return {
+        ResponseCode: '0',
+        ResponseDescription: 'The service request has been accepted successsfully',
+        MerchantRequestID: stkRequest.merchantRequestId,
+        CheckoutRequestID: stkRequest.checkoutRequestId,
+        ResultCode: '0',
+        ResultDesc: 'The service request is processed successfully.',
+      };
+    });
+
+    const result = await StkService.reconcilePending({ delaySeconds: 0 });
+
+    const settled = await prisma.stkRequest.findUniqueOrThrow({ where: { id: stkRequest.id } });
+    const paidSale = await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } });
+    expect(result).toMatchObject({ checked: 1, completed: 0, followUps: [] });
+    expect(settled).toMatchObject({ status: StkRequestStatus.COMPLETED, needsFollowUp: false, queryAttempts: 0 });
+    expect(settled.paymentId).not.toBeNull();
+    expect(paidSale).toMatchObject({ status: POSStatus.PAID, needsFollowUp: false });
+  });
+
+  it('still posts a success callback that arrives after the sweeper gave up', async () => {
+    const customer = await createCustomer();
+    const cement = await ProductService.createProduct({ name: 'Cement 50kg', price: 850, stockQty: 10 });
+    const sale = await POSService.createSale({ customerId: customer.id, items: [{ productId: cement.id, quantity: 1 }] });
+    const stkRequest = await prisma.stkRequest.update({
+      where: { id: (await stkForSale(sale.posId)).id },
+      data: { status: StkRequestStatus.TIMEOUT, completedAt: new Date() },
+    });
+
+    expect(StkService.awaitingCallback(stkRequest, 1032)).toBe(false);
+    expect(StkService.awaitingCallback(stkRequest, 0)).toBe(true);
+
+    const payment = await StkService.handleCallback(paidCallback(stkRequest.checkoutRequestId, 850, 'STK0000003'));
+
+    const settled = await prisma.stkRequest.findUniqueOrThrow({ where: { id: stkRequest.id } });
+    expect(settled.status).toBe(StkRequestStatus.COMPLETED);
+    expect(settled.paymentId).toBe(payment?.id);
+    expect(StkService.awaitingCallback(settled, 0)).toBe(false);
+    expect((await prisma.pOSSale.findUniqueOrThrow({ where: { id: sale.id } })).status).toBe(POSStatus.PAID);
+  });
+});
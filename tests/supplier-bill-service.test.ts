@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { MpesaResult } from '@/lib/mpesa-callbacks';
+import { ACCOUNTS } from '@/lib/services/accounting-engine';
+import { routeMpesaResult } from '@/lib/services/mpesa-result-router';
+import { ProductService } from '@/lib/services/product-service';
+import { PurchaseOrderService } from '@/lib/services/purchase-order-service';
+import { SupplierBillService } from '@/lib/services/supplier-bill-service';
+import { SupplierPaymentService } from '@/lib/services/supplier-payment-service';
+import { SupplierService } from '@/lib/services/supplier-service';
+import {
+  MpesaRequestKind,
+  MpesaRequestStatus,
+  SupplierBillStatus,
+  SupplierPaymentChannel,
+  SupplierPaymentStatus,
+} from '@prisma/client';
+import { acceptDarajaRequests, netDebit } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Safaricom's answer to a requested supplier payment
+function mpesaResult(
+  payment: { conversationId: string | null; originatorConversationId: string | null },
+  resultCode = 0,
+  transactionId = 'SKL0000001'
+): MpesaResult {
+  return {
+    ResultType: 0,
+    ResultCode: resultCode,
+    ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'The balance is insufficient for the transaction.',
+    ConversationID: payment.conversationId!,
+    OriginatorConversationID: payment.originatorConversationId!,
+    TransactionID: transactionId,
+  };
+}
+
+describe('SupplierBillService', () => {
+  it('bills goods received without posting them to A/P twice, and expenses with DR 6000 / CR 2000', async () => {
+    const supplier = await SupplierService.createSupplier({ name: 'Mabati Steel Ltd' });
+    const sheet = await ProductService.createProduct({ name: 'Roofing sheet', price: 900 });
+    const order = await PurchaseOrderService.createPurchaseOrder({
+      supplierId: supplier.id,
+      items: [{ productId: sheet.id, quantity: 20, unitCost: 600 }],
+    });
+    const grn = await PurchaseOrderService.receiveGoods({
+      purchaseOrderId: order.id,
+      items: [{ purchaseOrderItemId: order.items[0].id, quantity: 20 }],
+    });
+
+    const goodsBill = await SupplierBillService.createBill({
+      supplierId: supplier.supplierId,
+      goodsReceiptId: grn!.grnNumber,
+      supplierInvoiceNumber: 'MS-8812',
+      dueDate: new Date(Date.now() + 30 * DAY),
+    });
+
+    expect(goodsBill.amount.toNumber()).toBe(12000);
+    expect(goodsBill.transactionRef).toBeNull();
+    expect(await netDebit(ACCOUNTS.ACCOUNTS_PAYABLE.code)).toBe(-12000); // The GRN's credit only
+
+    await expect(
+      SupplierBillService.createBill({
+        supplierId: supplier.id,
+        goodsReceiptId: grn!.id,
+        dueDate: new Date(),
+      })
+    ).rejects.toThrow('already billed');
+
+    const transport = await SupplierBillService.createBill({
+      supplierId: supplier.id,
+      amount: 3500,
+      description: 'Transport',
+      dueDate: new Date(Date.now() + 7 * DAY),
+    });
+
+    expect(transport.transactionRef).toMatch(/^BILL-/);
+    expect(await netDebit(ACCOUNTS.OPERATING_EXPENSES.code)).toBe(3500);
+    expect(await netDebit(ACCOUNTS.ACCOUNTS_PAYABLE.code)).toBe(-15500);
+  });
+
+  it('ages outstanding balances by days past due', async () => {
+    const asOf = new Date();
+    const steel = await SupplierService.createSupplier({ name: 'Steel Co' });
+    const hauler = await SupplierService.createSupplier({ name: 'Haulage Co' });
+
+    const bills: Array<[string, number, number]> = [
+      [steel.id, 1000, 5], // Due in five days
+      [steel.id, 2000, -10],
+      [steel.id, 3000, -45],
+      [hauler.id, 4000, -75],
+      [hauler.id, 5000, -120],
+    ];
+    for (const [supplierId, amount, dueInDays] of bills) {
+      await SupplierBillService.createBill({
+        supplierId,
+        amount,
+        dueDate: new Date(asOf.getTime() + dueInDays * DAY),
+      });
+    }
+
+    const report = await SupplierBillService.getAging(asOf);
+
+    expect(report.totals).toEqual({
+      current: 1000,
+      days1to30: 2000,
+      days31to60: 3000,
+      days61to90: 4000,
+      over90: 5000,
+      total: 15000,
+    });
+    expect(report.suppliers.map((row) => [row.supplierName, row.bills, row.total])).toEqual([
+      ['Haulage Co', 2, 9000],
+      ['Steel Co', 3, 6000],
+    ]);
+  });
+});
+
+describe('SupplierPaymentService', () => {
+  it('records the payment before the request and releases it when Daraja refuses', async () => {
+    const supplier = await SupplierService.createSupplier({
+      name: 'Kamili Fittings',
+      paybillNumber: '522522',
+      paybillAccount: 'KF-204',
+    });
+    const bill = await SupplierBillService.createBill({ supplierId: supplier.id, amount: 10000, dueDate: new Date() });
+    const b2b = acceptDarajaRequests('b2bPayment');
+    b2b.mockRejectedValueOnce(new Error('Request failed with status code 500'));
+
+    await expect(
+      SupplierPaymentService.payBill({ billId: bill.billId, amount: 10000, channel: SupplierPaymentChannel.B2B_PAYBILL })
+    ).rejects.toThrow('status code 500');
+
+    const failed = await prisma.supplierPayment.findFirstOrThrow();
+    expect(failed.status).toBe(SupplierPaymentStatus.FAILED);
+    expect(failed.conversationId).toBeNull();
+
+    // Two simultaneous requests for the whole balance: only one is sent
+    const attempts = await Promise.allSettled(
+      [1, 2].map(() =>
+        SupplierPaymentService.payBill({ billId: bill.id, amount: 10000, channel: SupplierPaymentChannel.B2B_PAYBILL })
+      )
+    );
+
+    expect(attempts.map((attempt) => attempt.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(b2b).toHaveBeenCalledTimes(2);
+    expect(b2b).toHaveBeenLastCalledWith(
+      expect.objectContaining({ amount: 10000, receiverShortCode: '522522', accountReference: 'KF-204' })
+    );
+    const pending = await prisma.supplierPayment.findFirstOrThrow({ where: { status: SupplierPaymentStatus.PENDING } });
+    expect(pending.conversationId).toMatch(/^AG_TEST_/);
+  });
+
+  it('settles a bill from its result callbacks, once per payment', async () => {
+    const supplier = await SupplierService.createSupplier({
+      name: 'Kamili Fittings',
+      phone: '254711000111',
+      paybillNumber: '522522',
+      paybillAccount: 'KF-204',
+    });
+    const bill = await SupplierBillService.createBill({
+      supplierId: supplier.id,
+      amount: 10000,
+      dueDate: new Date(),
+    });
+    acceptDarajaRequests('b2bPayment');
+
+    const first = await SupplierPaymentService.payBill({
+      billId: bill.billId,
+      amount: 4000,
+      channel: SupplierPaymentChannel.B2B_PAYBILL,
+    });
+    await routeMpesaResult(mpesaResult(first), '{}', MpesaRequestKind.B2B);
+    await routeMpesaResult(mpesaResult(first), '{}', MpesaRequestKind.B2B); // Duplicate callback
+
+    let current = await SupplierBillService.getBill(bill.billId);
+    expect(current?.status).toBe(SupplierBillStatus.PARTIALLY_PAID);
+    expect(current?.balance.toNumber()).toBe(6000);
+    expect(current?.payments[0].mpesaReceiptNumber).toBe('SKL0000001');
+    expect(await netDebit(ACCOUNTS.MPESA_CASH.code)).toBe(-4000);
+
+    // A failed B2C payout changes nothing
+    acceptDarajaRequests('b2cPayment');
+    const failed = await SupplierPaymentService.payBill({ billId: bill.id, amount: 6000, channel: SupplierPaymentChannel.B2C });
+    const request = await routeMpesaResult(mpesaResult(failed, 1), '{}', MpesaRequestKind.B2C);
+
+    expect(request.status).toBe(MpesaRequestStatus.FAILED);
+    expect((await SupplierBillService.getBill(bill.id))?.balance.toNumber()).toBe(6000);
+
+    const retry = await SupplierPaymentService.payBill({ billId: bill.id, amount: 5999, channel: SupplierPaymentChannel.B2C });
+    await routeMpesaResult(mpesaResult(retry, 0, 'SKL0000002'), '{}', MpesaRequestKind.B2C);
+
+    current = await SupplierBillService.getBill(bill.id);
+    expect(current?.balance.toNumber()).toBe(1);
+    expect(current?.payments.map((payment) => payment.status).sort()).toEqual([
+      SupplierPaymentStatus.COMPLETED,
+      SupplierPaymentStatus.COMPLETED,
+      SupplierPaymentStatus.FAILED,
+    ]);
+    expect(await netDebit(ACCOUNTS.ACCOUNTS_PAYABLE.code)).toBe(-1);
+    expect(await netDebit(ACCOUNTS.MPESA_CASH.code)).toBe(-9999);
+  });
+
+  it('clears a bill with cents by rounding its final payment up', async () => {
+    const supplier = await SupplierService.createSupplier({
+      name: 'Mabati Steel Ltd',
+      paybillNumber: '522522',
+      paybillAccount: 'MS-77',
+    });
+    const bolt = await ProductService.createProduct({ name: 'Anchor bolt', price: 250 });
+    const order = await PurchaseOrderService.createPurchaseOrder({
+      supplierId: supplier.id,
+      items: [{ productId: bolt.id, quantity: 10, unitCost: 123.45 }],
+    });
+    const grn = await PurchaseOrderService.receiveGoods({
+      purchaseOrderId: order.id,
+      items: [{ purchaseOrderItemId: order.items[0].id, quantity: 10 }],
+    });
+    const bill = await SupplierBillService.createBill({ supplierId: supplier.id, goodsReceiptId: grn!.id, dueDate: new Date() });
+    const b2b = acceptDarajaRequests('b2bPayment');
+
+    expect(bill.amount.toNumber()).toBe(1234.5);
+    await expect(
+      SupplierPaymentService.payBill({ billId: bill.id, amount: 1000.5, channel: SupplierPaymentChannel.B2B_PAYBILL })
+    ).rejects.toThrow('Only the final payment');
+
+    const first = await SupplierPaymentService.payBill({ billId: bill.id, amount: 1000, channel: SupplierPaymentChannel.B2B_PAYBILL });
+    const last = await SupplierPaymentService.payBill({ billId: bill.id, amount: 234.5, channel: SupplierPaymentChannel.B2B_PAYBILL });
+    await routeMpesaResult(mpesaResult(first), '{}', MpesaRequestKind.B2B);
+    await routeMpesaResult(mpesaResult(last, 0, 'SKL0000003'), '{}', MpesaRequestKind.B2B);
+
+    expect(b2b).toHaveBeenLastCalledWith(expect.objectContaining({ amount: 235 }));
+    const paid = await SupplierBillService.getBill(bill.id);
+    expect(paid?.status).toBe(SupplierBillStatus.PAID);
+    expect(paid?.balance.toNumber()).toBe(0);
+    expect(await netDebit(ACCOUNTS.ACCOUNTS_PAYABLE.code)).toBe(0);
+    expect(await netDebit(ACCOUNTS.MPESA_CASH.code)).toBe(-1235);
+    expect(await netDebit(ACCOUNTS.OPERATING_EXPENSES.code)).toBe(0.5);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '@/lib/prisma';
+import { InvoiceService } from '@/lib/services/invoice-service';
+import { processPayment } from '@/lib/services/payment-processor';
+import { RefundService } from '@/lib/services/refund-service';
+import { WebhookReplayService } from '@/lib/services/webhook-replay-service';
+import {
+  InvoiceStatus,
+  MpesaRequestStatus,
+  PaymentStatus,
+  RefundStatus,
+  RefundType,
+  StkRequestStatus,
+} from '@prisma/client';
+import { acceptDarajaRequests, c2bCallback, createCustomer, invoiceState, paymentParams, receiptNumber } from './helpers';
+
+// A webhook that was logged but failed processing
+function failedLog(payload: unknown, processingError: string) {
+  return prisma.webhookLog.create({
+    data: {
+      mpesaReceiptNumber: receiptNumber(),
+      transactionId: 'TXN',
+      rawPayload: JSON.stringify(payload),
+      processed: false,
+      processingError,
+    },
+  });
+}
+
+describe('WebhookReplayService.replay', () => {
+  it('posts a C2B payment with a corrected BillRefNumber and records the attempt', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 800 });
+    const callback = c2bCallback({ BillRefNumber: 'INV-TYPO', TransAmount: '800.00' });
+    const log = await failedLog(callback, 'Connection reset');
+
+    const result = await WebhookReplayService.replay({
+      webhookLogId: log.id,
+      billRefNumber: ` ${invoice.invoiceId} `,
+      replayedBy: 'ops-1',
+    });
+
+    expect(result).toMatchObject({ succeeded: true, error: null });
+    expect(await invoiceState(invoice.id)).toMatchObject({ amountPaid: 800, status: InvoiceStatus.PAID });
+
+    const replay = await prisma.webhookReplay.findUniqueOrThrow({ where: { id: result.replayId } });
+    expect(replay).toMatchObject({
+      webhookLogId: log.id,
+      originalBillRefNumber: 'INV-TYPO',
+      billRefNumber: invoice.invoiceId,
+      succeeded: true,
+      paymentId: result.paymentId,
+      replayedBy: 'ops-1',
+    });
+    expect(JSON.parse(replay.payload).BillRefNumber).toBe(invoice.invoiceId);
+
+    const replayed = await prisma.webhookLog.findUniqueOrThrow({ where: { id: log.id } });
+    expect(replayed).toMatchObject({ processed: true, paymentId: result.paymentId, rawPayload: log.rawPayload });
+  });
+
+  it('assigns a payment already held in suspense to the corrected BillRefNumber', async () => {
+    const customer = await createCustomer();
+    const other = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 500 });
+    const callback = c2bCallback({ BillRefNumber: 'NOBODY-999', TransAmount: '500.00' });
+    const log = await failedLog(callback, 'Connection reset');
+
+    // The receipt reached suspense meanwhile (e.g. Safaricom resent it)
+    const held = await processPayment(
+      paymentParams({ accountReference: 'NOBODY-999', amount: 500, mpesaReceiptNumber: callback.TransID })
+    );
+    expect((await prisma.payment.findUniqueOrThrow({ where: { id: held.id } })).status).toBe(PaymentStatus.UNMATCHED);
+
+    const result = await WebhookReplayService.replay({ webhookLogId: log.id, billRefNumber: invoice.invoiceId });
+
+    expect(result).toMatchObject({ succeeded: true, paymentId: held.id });
+    expect((await prisma.payment.findUniqueOrThrow({ where: { id: held.id } })).status).toBe(PaymentStatus.COMPLETED);
+    expect(await invoiceState(invoice.id)).toMatchObject({ amountPaid: 500, status: InvoiceStatus.PAID });
+
+    // Posted now: another account cannot be replayed onto it
+    const again = await failedLog(callback, 'Connection reset');
+    const refused = await WebhookReplayService.replay({ webhookLogId: again.id, billRefNumber: other.customerId });
+
+    expect(refused.succeeded).toBe(false);
+    expect(refused.error).toContain('reallocate it instead');
+    expect((await prisma.webhookLog.findUniqueOrThrow({ where: { id: again.id } })).processed).toBe(false);
+  });
+
+  it('records a failed attempt and leaves the log to be replayed again', async () => {
+    const customer = await createCustomer();
+    const callback = c2bCallback({ BillRefNumber: customer.customerId, TransAmount: '300000.00' });
+    const log = await failedLog(callback, 'Payment amount exceeds maximum');
+
+    const result = await WebhookReplayService.replay({ webhookLogId: log.id });
+
+    expect(result).toMatchObject({ succeeded: false, paymentId: null });
+    expect(result.error).toContain('exceeds maximum');
+    expect(await prisma.payment.count()).toBe(0);
+
+    const failed = await prisma.webhookLog.findUniqueOrThrow({ where: { id: log.id } });
+    expect(failed.processed).toBe(false);
+    expect(failed.processingError).toMatch(/^Replay failed: /);
+    expect(await prisma.webhookReplay.count({ where: { webhookLogId: log.id, succeeded: false } })).toBe(1);
+  });
+
+  it('does not post a payload twice', async () => {
+    const customer = await createCustomer();
+    const callback = c2bCallback({ BillRefNumber: customer.customerId, TransAmount: '400.00' });
+    const log = await failedLog(callback, 'Connection reset');
+
+    // The same receipt was posted meanwhile (e.g. Safaricom resent it)
+    const posted = await processPayment(
+      paymentParams({ accountReference: customer.customerId, amount: 400, mpesaReceiptNumber: callback.TransID })
+    );
+
+    const result = await WebhookReplayService.replay({ webhookLogId: log.id });
+
+    expect(result).toMatchObject({ succeeded: true, paymentId: posted.id });
+    expect(await prisma.payment.count()).toBe(1);
+    expect((await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } })).balance.toNumber()).toBe(-400);
+
+    await expect(WebhookReplayService.replay({ webhookLogId: log.id })).rejects.toThrow('already processed');
+    expect(await prisma.webhookReplay.count()).toBe(1);
+  });
+
+  it('replays an STK callback through StkService', async () => {
+    const customer = await createCustomer();
+    const invoice = await InvoiceService.createInvoice({ customerId: customer.id, amount: 650 });
+    const stkRequest = await prisma.stkRequest.create({
+      data: {
+        merchantRequestId: 'MR-REPLAY',
+        checkoutRequestId: 'ws_CO_REPLAY',
+        customerId: customer.id,
+        invoiceId: invoice.id,
+        accountReference: invoice.invoiceId,
+        amount: 650,
+        phone: customer.phone,
+        status: StkRequestStatus.PENDING,
+      },
+    });
+    const receipt = receiptNumber();
+    const payload = {
+      Body: {
+        stkCallback: {
+          MerchantRequestID: stkRequest.merchantRequestId,
+          CheckoutRequestID: stkRequest.checkoutRequestId,
+          ResultCode: 0,
+          ResultDesc: 'The service request is processed successfully.',
+          CallbackMetadata: {
+            Item: [
+              { Name: 'Amount', Value: 650 },
+              { Name: 'MpesaReceiptNumber', Value: receipt },
+              { Name: 'TransactionDate', Value: 20260119102115 },
+              { Name: 'PhoneNumber', Value: 254708374149 },
+            ],
+          },
+        },
+      },
+    };
+    const log = await failedLog(payload, 'Connection reset');
+
+    const edited = await WebhookReplayService.replay({ webhookLogId: log.id, billRefNumber: invoice.invoiceId });
+    expect(edited.succeeded).toBe(false);
+    expect(edited.error).toContain('Only C2B payments');
+
+    const result = await WebhookReplayService.replay({ webhookLogId: log.id });
+
+    expect(result.succeeded).toBe(true);
+    expect((await prisma.stkRequest.findUniqueOrThrow({ where: { id: stkRequest.id } })).status).toBe(
+      StkRequestStatus.COMPLETED
+    );
+    expect(await invoiceState(invoice.id)).toMatchObject({ status: InvoiceStatus.PAID });
+    expect((await prisma.webhookLog.findUniqueOrThrow({ where: { id: log.id } })).paymentId).toBe(result.paymentId);
+  });
+
+  it('replays a B2C result through the result router', async () => {
+    const customer = await createCustomer();
+    const paid = await processPayment(paymentParams({ accountReference: customer.customerId, amount: 500 }));
+    acceptDarajaRequests('b2cPayment');
+    const requested = await RefundService.requestRefund({
+      paymentId: paid.id,
+      amount: 500,
+      type: RefundType.CREDIT_BALANCE,
+      reason: 'Overpaid',
+    });
+    const refund = await prisma.refund.findUniqueOrThrow({ where: { id: requested.id } });
+    const payload = {
+      Result: {
+        ResultType: 0,
+        ResultCode: 0,
+        ResultDesc: 'The service request is processed successfully.',
+        ConversationID: refund.conversationId,
+        OriginatorConversationID: refund.originatorConversationId,
+        TransactionID: 'RFDREPLAY1',
+      },
+    };
+    const log = await failedLog(payload, 'Connection reset');
+
+    const result = await WebhookReplayService.replay({ webhookLogId: log.id });
+
+    expect(result).toMatchObject({ succeeded: true, paymentId: null });
+    expect((await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } })).status).toBe(RefundStatus.COMPLETED);
+    expect(
+      (await prisma.mpesaRequest.findFirstOrThrow({ where: { conversationId: refund.conversationId } })).status
+    ).toBe(MpesaRequestStatus.COMPLETED);
+    expect((await prisma.webhookLog.findUniqueOrThrow({ where: { id: log.id } })).processed).toBe(true);
+  });
+});
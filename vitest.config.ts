@@ -0,0 +1,27 @@
+/**
+ * Kelly OS — Integration Test Configuration
+ *
+ * Tests run against a disposable Postgres schema (see tests/global-setup.ts)
+ * and share it, so files run one at a time.
+ */
+
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    globalSetup: ['tests/global-setup.ts'],
+    setupFiles: ['tests/setup.ts'],
+    fileParallelism: false,
+    restoreMocks: true,
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});